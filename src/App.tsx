@@ -8,15 +8,20 @@ import { AdminPanel } from './components/admin/AdminPanel';
 // Components
 import { LoginScreen } from './components/auth/LoginScreen';
 import { AuthGuard } from './components/auth/AuthGuard';
+import { PermissionGuard } from './components/auth/PermissionGuard';
 import { MainLayout } from './components/layout/MainLayout';
 import { LoadingSpinner } from './components/common/Loading';
 import { DashboardModal } from './components/dashboard/DashboardModal';
 
 // New Components
 import DriveExplorer from './components/drive/DriveExplorer';
+import { TrashView } from './components/drive/TrashView';
 import RunnerList from './components/test-run/RunnerList';
 import { TestRunner } from './components/test-run/TestRunner';
 import { TestCaseManager } from './components/test-case/TestCaseManager';
+import { DefectList } from './components/defects/DefectList';
+
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
 
 const App = () => {
     const [user, setUser] = useState<User | null>(null);
@@ -24,44 +29,64 @@ const App = () => {
 
     const [initializing, setInitializing] = useState(true);
 
-    const login = async (email: string) => {
-        const u = await AuthService.login(email);
-        if (u) {
-            setUser(u);
-            localStorage.setItem('tm_current_user_email', u.email);
+    const loadUsers = async () => {
+        try {
+            const allUsers = await AuthService.getAllUsers();
+            setUsers(allUsers);
+        } catch (e) {
+            console.error("Load users failed", e);
         }
     };
 
+    const login = async (email: string, password: string) => {
+        const u = await AuthService.login(email, password);
+        setUser(u);
+        loadUsers();
+    };
+
+    const loginWithMagicLink = async (token: string) => {
+        const u = await AuthService.loginWithMagicLink(token);
+        setUser(u);
+        loadUsers();
+    };
+
+    const bootstrapAdmin = async (name: string, email: string, password: string) => {
+        const u = await AuthService.bootstrapAdmin(name, email, password);
+        setUser(u);
+        loadUsers();
+    };
+
     const logout = () => {
         setUser(null);
-        localStorage.removeItem('tm_current_user_email');
+        AuthService.logout();
     };
 
     useEffect(() => {
         const initAuth = async () => {
-            const savedEmail = localStorage.getItem('tm_current_user_email');
-            if (savedEmail) {
-                try {
-                    const u = await AuthService.login(savedEmail);
-                    setUser(u);
-                } catch (e) {
-                    console.error("Auto login failed", e);
-                }
-            }
-
             try {
-                const allUsers = await AuthService.getAllUsers();
-                setUsers(allUsers);
+                const u = await AuthService.restoreSession();
+                setUser(u);
             } catch (e) {
-                console.error("Load users failed", e);
+                console.error("Session restore failed", e);
             }
 
+            await loadUsers();
             setInitializing(false);
         };
 
         initAuth();
     }, []);
 
+    // Keep the access token fresh; a failed refresh (expired, revoked, deactivated) signs the user out
+    useEffect(() => {
+        if (!user) return;
+        const timer = setInterval(async () => {
+            const u = await AuthService.restoreSession();
+            if (!u) setUser(null);
+        }, SESSION_CHECK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [user?.id]);
+
     if (initializing) {
         return (
             <div className="h-screen w-screen flex items-center justify-center bg-gray-50">
@@ -71,7 +96,7 @@ const App = () => {
     }
 
     return (
-        <AuthContext.Provider value={{ user, login, logout, users }}>
+        <AuthContext.Provider value={{ user, login, loginWithMagicLink, bootstrapAdmin, logout, users, reloadUsers: loadUsers }}>
             <BrowserRouter>
                 <Routes>
                     <Route path="/login" element={<LoginScreen />} />
@@ -85,7 +110,9 @@ const App = () => {
                         <Route path="drive/*" element={<DriveExplorer />} />
                         <Route path="runs" element={<RunnerList />} />
                         <Route path="runs/:runId" element={<TestRunner />} />
-                        <Route path="admin" element={<AdminPanel />} />
+                        <Route path="defects" element={<DefectList />} />
+                        <Route path="trash" element={<TrashView />} />
+                        <Route path="admin" element={<PermissionGuard permission="MANAGE_USERS" fallback={<Navigate to="/" replace />}><AdminPanel /></PermissionGuard>} />
 
                     </Route>
 
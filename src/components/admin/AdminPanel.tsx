@@ -1,15 +1,186 @@
-import React, { useState, useEffect } from 'react';
-import { Users } from 'lucide-react';
-import { User } from '@/src/types';
+import React, { useState, useEffect, useContext, useRef } from 'react';
+import { Users, UserPlus, Upload, Edit2, Link as LinkIcon, UserX, UserCheck } from 'lucide-react';
+import { User, Role } from '@/src/types';
 import { AuthService } from '@/src/storage';
+import { AuthContext } from '../../context/AuthContext';
+import { usePermission } from '../../hooks/usePermission';
+import { parseUserCSV } from '../../utils/csvHelpers';
+import { StatusSettings } from './StatusSettings';
+
+const ROLES: Role[] = ['ADMIN', 'INTERNAL', 'EXTERNAL'];
+
+type UserForm = Pick<User, 'name' | 'email' | 'role'>;
+
+const UserFormModal = ({
+    isOpen, onClose, initial, onSubmit
+}: {
+    isOpen: boolean, onClose: () => void, initial: User | null, onSubmit: (form: UserForm) => Promise<void>
+}) => {
+    const [form, setForm] = useState<UserForm>({ name: '', email: '', role: 'INTERNAL' });
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setForm(initial ? { name: initial.name, email: initial.email, role: initial.role } : { name: '', email: '', role: 'INTERNAL' });
+            setError('');
+        }
+    }, [isOpen, initial]);
+
+    if (!isOpen) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError('');
+        try {
+            await onSubmit(form);
+            onClose();
+        } catch (err: any) {
+            setError(err?.message || '저장에 실패했습니다.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl p-6 w-96 space-y-4">
+                <h3 className="text-lg font-bold">{initial ? '사용자 수정' : '사용자 추가'}</h3>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">이름</label>
+                    <input autoFocus required className="w-full border rounded p-2" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">이메일</label>
+                    <input
+                        type="email"
+                        required
+                        disabled={!!initial}
+                        className="w-full border rounded p-2 disabled:bg-gray-100 disabled:text-gray-500"
+                        value={form.email}
+                        onChange={e => setForm({ ...form, email: e.target.value })}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">권한</label>
+                    <select className="w-full border rounded p-2" value={form.role} onChange={e => setForm({ ...form, role: e.target.value as Role })}>
+                        {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                </div>
+                {error && <div className="text-sm text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</div>}
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onClose} className="px-3 py-1 text-gray-500 hover:bg-gray-100 rounded">취소</button>
+                    <button type="submit" disabled={saving} className="px-3 py-1 bg-primary text-white rounded hover:bg-blue-600 disabled:opacity-50">
+                        {initial ? '저장' : '추가'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
 
 export const AdminPanel = () => {
+    const { user: currentUser, reloadUsers } = useContext(AuthContext);
+    const can = usePermission();
     const [users, setUsers] = useState<User[]>([]);
-    useEffect(() => { AuthService.getAllUsers().then(setUsers); }, []);
+    const [formOpen, setFormOpen] = useState(false);
+    const [editingUser, setEditingUser] = useState<User | null>(null);
+    const [inviteLink, setInviteLink] = useState<{ name: string, url: string } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const loadUsers = async () => {
+        const all = await AuthService.getAllUsers();
+        setUsers(all.sort((a, b) => (a.name || '').localeCompare(b.name || '')));
+    };
+
+    useEffect(() => { loadUsers(); }, []);
+
+    const refresh = async () => {
+        await loadUsers();
+        reloadUsers();
+    };
+
+    const handleSubmit = async (form: UserForm) => {
+        if (editingUser) await AuthService.updateUser(editingUser.id, { name: form.name, role: form.role });
+        else await AuthService.createUser(form);
+        await refresh();
+    };
+
+    const handleToggleStatus = async (u: User) => {
+        const deactivate = u.status === 'ACTIVE';
+        if (deactivate && !window.confirm(`"${u.name}" 계정을 비활성화하시겠습니까?\n로그인이 차단되며, 기존 테스트 결과는 그대로 유지됩니다.`)) return;
+        try {
+            await AuthService.setUserStatus(u.id, deactivate ? 'INACTIVE' : 'ACTIVE');
+            await refresh();
+        } catch (e: any) {
+            alert(e?.message || '상태 변경에 실패했습니다.');
+        }
+    };
+
+    const handleInvite = async (u: User) => {
+        try {
+            const url = await AuthService.createMagicLink(u.id);
+            setInviteLink({ name: u.name, url });
+        } catch (e: any) {
+            alert(e?.message || '초대 링크 생성에 실패했습니다.');
+        }
+    };
+
+    const handleCsvUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = async (event) => {
+            const { users: rows, errors } = parseUserCSV(event.target?.result as string);
+            if (rows.length === 0) {
+                alert(errors.join('\n') || '가져올 사용자가 없습니다.');
+                return;
+            }
+            const summary = `${rows.length}명의 사용자를 가져옵니다.` + (errors.length ? `\n\n건너뛸 행 (${errors.length}):\n${errors.join('\n')}` : '');
+            if (!window.confirm(summary)) return;
+
+            const { created, skipped } = await AuthService.importUsers(rows);
+            await refresh();
+            alert(`${created.length}명 추가 완료` + (skipped.length ? `\n\n실패 (${skipped.length}):\n${skipped.map(s => `${s.email}: ${s.reason}`).join('\n')}` : ''));
+        };
+        reader.readAsText(file);
+        e.target.value = '';
+    };
 
     return (
-        <div className="p-8 max-w-4xl mx-auto">
-            <h2 className="text-2xl font-bold mb-6 flex items-center gap-2"><Users /> 사용자 관리</h2>
+        <div className="p-8 max-w-5xl mx-auto">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-bold flex items-center gap-2"><Users /> 사용자 관리</h2>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition"
+                        title="CSV 헤더: name,email,role"
+                    >
+                        <Upload size={16} /> CSV 가져오기
+                    </button>
+                    <input type="file" ref={fileInputRef} className="hidden" accept=".csv" onChange={handleCsvUpload} />
+                    <button
+                        onClick={() => { setEditingUser(null); setFormOpen(true); }}
+                        className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition shadow-sm"
+                    >
+                        <UserPlus size={16} /> 사용자 추가
+                    </button>
+                </div>
+            </div>
+
+            {inviteLink && (
+                <div className="mb-4 p-4 bg-blue-50 border border-blue-100 rounded-lg text-sm">
+                    <div className="font-bold text-blue-800 mb-1">{inviteLink.name} 님의 초대 링크 (1회용, 24시간 유효)</div>
+                    <div className="flex gap-2">
+                        <input readOnly className="flex-1 border rounded p-2 bg-white font-mono text-xs" value={inviteLink.url} onFocus={e => e.target.select()} />
+                        <button onClick={() => navigator.clipboard?.writeText(inviteLink.url)} className="px-3 py-1 bg-white border rounded hover:bg-gray-50">복사</button>
+                        <button onClick={() => setInviteLink(null)} className="px-3 py-1 text-gray-500 hover:bg-gray-100 rounded">닫기</button>
+                    </div>
+                </div>
+            )}
+
             <div className="bg-white rounded shadow overflow-hidden">
                 <table className="w-full text-left">
                     <thead className="bg-gray-50 border-b">
@@ -18,20 +189,50 @@ export const AdminPanel = () => {
                             <th className="p-4">이메일</th>
                             <th className="p-4">권한</th>
                             <th className="p-4">상태</th>
+                            <th className="p-4 text-right">관리</th>
                         </tr>
                     </thead>
                     <tbody className="divide-y">
                         {users.map(u => (
-                            <tr key={u.id} className="hover:bg-gray-50">
+                            <tr key={u.id} className={`hover:bg-gray-50 ${u.status === 'INACTIVE' ? 'text-gray-400' : ''}`}>
                                 <td className="p-4 font-bold">{u.name}</td>
                                 <td className="p-4 text-gray-600">{u.email}</td>
                                 <td className="p-4"><span className="bg-gray-100 px-2 py-1 rounded text-xs font-bold">{u.role}</span></td>
-                                <td className="p-4"><span className="text-green-600 font-bold text-xs">Active</span></td>
+                                <td className="p-4">
+                                    {u.status === 'ACTIVE'
+                                        ? <span className="text-green-600 font-bold text-xs">Active</span>
+                                        : <span className="text-gray-400 font-bold text-xs">Inactive</span>}
+                                </td>
+                                <td className="p-4">
+                                    <div className="flex justify-end gap-1">
+                                        <button onClick={() => { setEditingUser(u); setFormOpen(true); }} className="p-1.5 rounded hover:bg-gray-100 text-gray-500" title="수정">
+                                            <Edit2 size={16} />
+                                        </button>
+                                        {u.status === 'ACTIVE' && (
+                                            <button onClick={() => handleInvite(u)} className="p-1.5 rounded hover:bg-blue-50 text-blue-600" title="초대/로그인 링크 생성">
+                                                <LinkIcon size={16} />
+                                            </button>
+                                        )}
+                                        {u.id !== currentUser?.id && (
+                                            <button
+                                                onClick={() => handleToggleStatus(u)}
+                                                className={`p-1.5 rounded ${u.status === 'ACTIVE' ? 'hover:bg-red-50 text-red-500' : 'hover:bg-green-50 text-green-600'}`}
+                                                title={u.status === 'ACTIVE' ? '비활성화' : '재활성화'}
+                                            >
+                                                {u.status === 'ACTIVE' ? <UserX size={16} /> : <UserCheck size={16} />}
+                                            </button>
+                                        )}
+                                    </div>
+                                </td>
                             </tr>
                         ))}
                     </tbody>
                 </table>
             </div>
+
+            {can('MANAGE_SETTINGS') && <StatusSettings />}
+
+            <UserFormModal isOpen={formOpen} onClose={() => setFormOpen(false)} initial={editingUser} onSubmit={handleSubmit} />
         </div>
     );
 };
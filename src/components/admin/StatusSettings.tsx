@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { ListChecks, Plus, Trash2, ArrowUp, ArrowDown, Lock } from 'lucide-react';
+import { TestStatusDefinition } from '@/src/types';
+import { TestStatusService } from '@/src/storage';
+import { sortStatuses, statusStyle } from '../../utils/testStatus';
+
+type StatusForm = Pick<TestStatusDefinition, 'label' | 'color' | 'executed' | 'passed' | 'precedence'>;
+
+const EMPTY_FORM: StatusForm = { label: '', color: '#6366f1', executed: true, passed: false, precedence: 25 };
+
+// Result status registry: label, color, how a status counts in progress / pass rate, and which wins a rollup
+export const StatusSettings = () => {
+    const [statuses, setStatuses] = useState<TestStatusDefinition[]>([]);
+    const [form, setForm] = useState<StatusForm>(EMPTY_FORM);
+    const [busy, setBusy] = useState(false);
+
+    const load = () => TestStatusService.getAll().then(all => setStatuses(sortStatuses(all)));
+
+    useEffect(() => { load(); }, []);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (e: any) {
+            alert(e?.message || '저장에 실패했습니다.');
+        } finally {
+            setBusy(false);
+            load();
+        }
+    };
+
+    const handleUpdate = (status: TestStatusDefinition, patch: Partial<TestStatusDefinition>) => {
+        // Inputs save on blur; skip when nothing changed
+        if (Object.entries(patch).every(([k, v]) => (status as any)[k] === v)) return;
+        run(() => TestStatusService.update(status.code, patch));
+    };
+
+    const handleMove = (index: number, delta: number) => {
+        const other = statuses[index + delta];
+        if (!other) return;
+        const status = statuses[index];
+        run(async () => {
+            await TestStatusService.update(status.code, { position: other.position });
+            await TestStatusService.update(other.code, { position: status.position });
+        });
+    };
+
+    const handleRemove = (status: TestStatusDefinition) => {
+        if (!window.confirm(`'${status.label}' 상태를 삭제하시겠습니까?`)) return;
+        run(() => TestStatusService.remove(status.code));
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await TestStatusService.create(form);
+            setForm(EMPTY_FORM);
+        });
+    };
+
+    return (
+        <div className="mt-10">
+            <div className="mb-4">
+                <h2 className="text-2xl font-bold flex items-center gap-2"><ListChecks /> 결과 상태 관리</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                    실행됨: 진행률에 포함 · 통과: 통과율에 포함 · 우선순위: 여러 결과(플랫폼, 데이터 행, 스텝)를 합칠 때 높은 쪽이 대표 상태가 됩니다.
+                </p>
+            </div>
+            <div className="bg-white rounded shadow overflow-hidden">
+                <table className="w-full text-left text-sm">
+                    <thead className="bg-gray-50 border-b">
+                        <tr>
+                            <th className="p-3 w-20">순서</th>
+                            <th className="p-3">이름</th>
+                            <th className="p-3">색상</th>
+                            <th className="p-3 text-center">실행됨</th>
+                            <th className="p-3 text-center">통과</th>
+                            <th className="p-3">우선순위</th>
+                            <th className="p-3 text-center">사용</th>
+                            <th className="p-3 text-right">관리</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                        {statuses.map((s, i) => (
+                            <tr key={s.code} className={`hover:bg-gray-50 ${s.active ? '' : 'text-gray-400'}`}>
+                                <td className="p-3">
+                                    <div className="flex gap-1">
+                                        <button disabled={busy || i === 0} onClick={() => handleMove(i, -1)} className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"><ArrowUp size={14} /></button>
+                                        <button disabled={busy || i === statuses.length - 1} onClick={() => handleMove(i, 1)} className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"><ArrowDown size={14} /></button>
+                                    </div>
+                                </td>
+                                <td className="p-3">
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            key={s.label}
+                                            defaultValue={s.label}
+                                            disabled={busy}
+                                            onBlur={e => handleUpdate(s, { label: e.target.value })}
+                                            className="border rounded px-2 py-1 w-36"
+                                        />
+                                        <span className="text-[10px] px-1.5 py-0.5 rounded border font-bold font-mono" style={statusStyle(s)}>{s.code}</span>
+                                        {s.builtIn && <span title="기본 상태"><Lock size={12} className="text-gray-400" /></span>}
+                                    </div>
+                                </td>
+                                <td className="p-3">
+                                    <input type="color" value={s.color} disabled={busy} onChange={e => handleUpdate(s, { color: e.target.value })} className="w-10 h-7 border rounded cursor-pointer" />
+                                </td>
+                                <td className="p-3 text-center">
+                                    <input type="checkbox" checked={s.executed} disabled={busy || s.builtIn} onChange={e => handleUpdate(s, { executed: e.target.checked, ...(e.target.checked ? {} : { passed: false }) })} />
+                                </td>
+                                <td className="p-3 text-center">
+                                    <input type="checkbox" checked={s.passed} disabled={busy || s.builtIn} onChange={e => handleUpdate(s, { passed: e.target.checked, ...(e.target.checked ? { executed: true } : {}) })} />
+                                </td>
+                                <td className="p-3">
+                                    <input
+                                        key={s.precedence}
+                                        type="number"
+                                        defaultValue={s.precedence}
+                                        disabled={busy}
+                                        onBlur={e => handleUpdate(s, { precedence: Number(e.target.value) })}
+                                        className="border rounded px-2 py-1 w-20"
+                                    />
+                                </td>
+                                <td className="p-3 text-center">
+                                    <input type="checkbox" checked={s.active} disabled={busy || s.builtIn} onChange={e => handleUpdate(s, { active: e.target.checked })} />
+                                </td>
+                                <td className="p-3">
+                                    <div className="flex justify-end">
+                                        {!s.builtIn && (
+                                            <button onClick={() => handleRemove(s)} disabled={busy} className="p-1.5 rounded hover:bg-red-50 text-red-500" title="삭제">
+                                                <Trash2 size={16} />
+                                            </button>
+                                        )}
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-3 p-3 border-t bg-gray-50 text-sm">
+                    <input required placeholder="새 상태 이름 (예: Retest)" className="border rounded px-2 py-1 w-48" value={form.label} onChange={e => setForm({ ...form, label: e.target.value })} />
+                    <input type="color" className="w-10 h-7 border rounded cursor-pointer" value={form.color} onChange={e => setForm({ ...form, color: e.target.value })} />
+                    <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={form.executed} onChange={e => setForm({ ...form, executed: e.target.checked, passed: e.target.checked && form.passed })} /> 실행됨
+                    </label>
+                    <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={form.passed} onChange={e => setForm({ ...form, passed: e.target.checked, executed: e.target.checked || form.executed })} /> 통과
+                    </label>
+                    <label className="flex items-center gap-1">
+                        우선순위 <input type="number" className="border rounded px-2 py-1 w-20" value={form.precedence} onChange={e => setForm({ ...form, precedence: Number(e.target.value) })} />
+                    </label>
+                    <button type="submit" disabled={busy} className="ml-auto flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded font-medium disabled:opacity-50">
+                        <Plus size={14} /> 상태 추가
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
@@ -1,42 +1,144 @@
-import React, { useState, useContext } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
+import React, { useState, useContext, useEffect } from 'react';
+import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { AuthContext } from '../../context/AuthContext';
+import { AuthService } from '../../storage';
+import { AuthError } from '../../errors';
+
+type Mode = 'LOGIN' | 'BOOTSTRAP' | 'SET_PASSWORD';
 
 export const LoginScreen = () => {
-    const { login } = useContext(AuthContext);
+    const { user, login, loginWithMagicLink, bootstrapAdmin } = useContext(AuthContext);
     const navigate = useNavigate();
     const location = useLocation();
+    const [searchParams] = useSearchParams();
+    const [mode, setMode] = useState<Mode>('LOGIN');
+    const [name, setName] = useState('');
     const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [passwordConfirm, setPasswordConfirm] = useState('');
+    const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
 
     const from = location.state?.from?.pathname || '/projects';
 
-    const handleLogin = async (e: React.FormEvent) => {
+    const describeError = (e: unknown) => e instanceof AuthError ? e.message : '로그인 중 오류가 발생했습니다.';
+
+    useEffect(() => {
+        const magicToken = searchParams.get('magic');
+        const init = async () => {
+            if (magicToken) {
+                setLoading(true);
+                try {
+                    await loginWithMagicLink(magicToken);
+                    const u = await AuthService.restoreSession();
+                    // First sign-in through an invite: let the user pick a password
+                    if (u && !(await AuthService.hasPassword(u.id))) setMode('SET_PASSWORD');
+                    else navigate('/', { replace: true });
+                } catch (e) {
+                    setError(describeError(e));
+                } finally {
+                    setLoading(false);
+                }
+            } else if (await AuthService.needsBootstrap()) {
+                setMode('BOOTSTRAP');
+            }
+        };
+        init();
+    }, []);
+
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        setError('');
+        if (mode !== 'LOGIN' && password !== passwordConfirm) {
+            setError('비밀번호가 일치하지 않습니다.');
+            return;
+        }
+
         setLoading(true);
-        await login(email);
-        setLoading(false);
-        navigate(from, { replace: true });
+        try {
+            if (mode === 'LOGIN') {
+                await login(email, password);
+                navigate(from, { replace: true });
+            } else if (mode === 'BOOTSTRAP') {
+                await bootstrapAdmin(name, email, password);
+                navigate('/', { replace: true });
+            } else if (user) {
+                await AuthService.setPassword(user.id, password);
+                navigate('/', { replace: true });
+            }
+        } catch (e) {
+            setError(describeError(e));
+        } finally {
+            setLoading(false);
+        }
     };
 
     return (
         <div className="min-h-screen flex items-center justify-center bg-gray-100 relative z-50">
             <div className="bg-white p-8 rounded-lg shadow-md w-96">
-                <h1 className="text-2xl font-bold mb-6 text-center text-primary">TestJail</h1>
-                <form onSubmit={handleLogin} className="space-y-4">
+                <h1 className="text-2xl font-bold mb-2 text-center text-primary">TestJail</h1>
+                {mode === 'BOOTSTRAP' && <p className="text-sm text-gray-500 text-center mb-4">초기 관리자 계정을 생성해 주세요.</p>}
+                {mode === 'SET_PASSWORD' && <p className="text-sm text-gray-500 text-center mb-4">앞으로 사용할 비밀번호를 설정해 주세요.</p>}
+                <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+                    {mode === 'BOOTSTRAP' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">이름</label>
+                            <input
+                                className="mt-1 block w-full p-2 border rounded"
+                                value={name}
+                                onChange={e => setName(e.target.value)}
+                                placeholder="이름을 입력해 주세요"
+                                required
+                            />
+                        </div>
+                    )}
+                    {mode !== 'SET_PASSWORD' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">이메일</label>
+                            <input
+                                type="email"
+                                className="mt-1 block w-full p-2 border rounded"
+                                value={email}
+                                onChange={e => setEmail(e.target.value)}
+                                placeholder="이메일을 입력해 주세요"
+                                required
+                            />
+                        </div>
+                    )}
                     <div>
-                        <label className="block text-sm font-medium text-gray-700">이메일</label>
+                        <label className="block text-sm font-medium text-gray-700">비밀번호</label>
                         <input
-                            type="email"
+                            type="password"
                             className="mt-1 block w-full p-2 border rounded"
-                            value={email}
-                            onChange={e => setEmail(e.target.value)}
-                            placeholder="이메일을 입력해 주세요"
+                            value={password}
+                            onChange={e => setPassword(e.target.value)}
+                            placeholder="비밀번호를 입력해 주세요"
+                            autoComplete={mode === 'LOGIN' ? 'current-password' : 'new-password'}
+                            required
                         />
                     </div>
+                    {mode !== 'LOGIN' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">비밀번호 확인</label>
+                            <input
+                                type="password"
+                                className="mt-1 block w-full p-2 border rounded"
+                                value={passwordConfirm}
+                                onChange={e => setPasswordConfirm(e.target.value)}
+                                autoComplete="new-password"
+                                required
+                            />
+                        </div>
+                    )}
+                    {error && <div className="text-sm text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</div>}
                     <button disabled={loading} type="submit" className="w-full bg-primary text-white py-2 rounded hover:bg-blue-700 disabled:opacity-50">
-                        {loading ? '로그인 중...' : '로그인'}
+                        {loading ? '처리 중...' : mode === 'LOGIN' ? '로그인' : mode === 'BOOTSTRAP' ? '관리자 계정 생성' : '비밀번호 설정'}
                     </button>
+                    {mode === 'SET_PASSWORD' && (
+                        <button type="button" onClick={() => navigate('/', { replace: true })} className="w-full text-sm text-gray-500 hover:underline">
+                            나중에 설정하기
+                        </button>
+                    )}
                 </form>
             </div>
         </div>
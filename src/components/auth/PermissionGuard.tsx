@@ -0,0 +1,12 @@
+import React from 'react';
+import { usePermission } from '../../hooks/usePermission';
+import { Permission } from '../../utils/permissions';
+
+export const PermissionGuard = ({ permission, children, fallback = null }: {
+    permission: Permission;
+    children: React.ReactNode;
+    fallback?: React.ReactNode;
+}) => {
+    const can = usePermission();
+    return <>{can(permission) ? children : fallback}</>;
+};
@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Paperclip, FileText, Film, X, Loader2 } from 'lucide-react';
+import { Attachment } from '../../types';
+import { AttachmentService } from '../../storage';
+
+export const formatFileSize = (bytes: number) =>
+    bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Files on the clipboard (a pasted screenshot); empty for plain text, so normal paste keeps working
+export const filesFromClipboard = (e: React.ClipboardEvent): File[] =>
+    Array.from(e.clipboardData?.items || [])
+        .filter(item => item.kind === 'file')
+        .map(item => item.getAsFile())
+        .filter((f): f is File => !!f);
+
+// Attachment list with image thumbnails. onAdd enables the file picker; onRemove the delete buttons.
+export const Attachments = ({
+    attachments, onAdd, onRemove, disabled, hint
+}: {
+    attachments: Attachment[],
+    onAdd?: (files: File[]) => Promise<void> | void,
+    onRemove?: (attachment: Attachment) => void,
+    disabled?: boolean,
+    hint?: string
+}) => {
+    const [urls, setUrls] = useState<Record<string, string | null>>({});
+    const [uploading, setUploading] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const missing = attachments.filter(a => !(a.id in urls));
+        if (missing.length === 0) return;
+        Promise.all(missing.map(a => AttachmentService.getUrl(a).catch(() => null))).then(resolved =>
+            setUrls(prev => ({ ...prev, ...Object.fromEntries(missing.map((a, i) => [a.id, resolved[i]])) }))
+        );
+    }, [attachments]);
+
+    const handleFiles = async (files: File[]) => {
+        if (!onAdd || files.length === 0) return;
+        setUploading(true);
+        try {
+            await onAdd(files);
+        } catch (e: any) {
+            alert(e?.message || '파일을 올리지 못했습니다.');
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {attachments.map(a => {
+                        const url = urls[a.id];
+                        const isImage = a.contentType.startsWith('image/');
+                        return (
+                            <div key={a.id} className="relative group border rounded bg-white overflow-hidden w-28">
+                                <a href={url || undefined} target="_blank" rel="noreferrer" title={a.name} className="block">
+                                    {isImage && url ? (
+                                        <img src={url} alt={a.name} className="w-28 h-20 object-cover bg-gray-100" />
+                                    ) : (
+                                        <div className="w-28 h-20 flex items-center justify-center bg-gray-50 text-gray-400">
+                                            {a.contentType.startsWith('video/') ? <Film size={28} /> : <FileText size={28} />}
+                                        </div>
+                                    )}
+                                    <div className="px-1.5 py-1 text-[10px] leading-tight">
+                                        <div className="truncate text-gray-700">{a.name}</div>
+                                        <div className="text-gray-400">{formatFileSize(a.size)}</div>
+                                    </div>
+                                </a>
+                                {onRemove && !disabled && (
+                                    <button
+                                        onClick={() => onRemove(a)}
+                                        className="absolute top-1 right-1 p-0.5 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 transition"
+                                        title="첨부 삭제"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            {onAdd && !disabled && (
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => inputRef.current?.click()}
+                        disabled={uploading}
+                        className="px-2 py-1 border rounded text-xs text-gray-600 hover:bg-gray-50 flex items-center gap-1 disabled:opacity-50"
+                    >
+                        {uploading ? <Loader2 size={12} className="animate-spin" /> : <Paperclip size={12} />} 파일 첨부
+                    </button>
+                    {hint && <span className="text-[10px] text-gray-400">{hint}</span>}
+                    <input
+                        ref={inputRef}
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={e => {
+                            handleFiles(Array.from(e.target.files || []));
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
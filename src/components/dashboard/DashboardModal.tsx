@@ -1,9 +1,12 @@
 
 import React, { useEffect, useState } from 'react';
-import { X, BarChart2, PieChart as PieIcon, Activity, AlertCircle } from 'lucide-react';
+import { X, BarChart2, PieChart as PieIcon, Activity, AlertCircle, Bug } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell } from 'recharts';
 import { DashboardService } from '../../storage';
 import { LoadingSpinner } from '../common/Loading';
+import { DefectTrendChart } from '../defects/DefectTrendChart';
+import { DefectTrendPoint } from '../../utils/defects';
 
 interface DashboardModalProps {
     isOpen: boolean;
@@ -14,8 +17,9 @@ interface DashboardModalProps {
 }
 
 export const DashboardModal = ({ isOpen, onClose, contextType, contextId, title }: DashboardModalProps) => {
-    const [stats, setStats] = useState({ totalCases: 0, activeRuns: 0, passRate: 0, defectCount: 0 });
+    const [stats, setStats] = useState({ totalCases: 0, activeRuns: 0, passRate: 0, defectCount: 0, closedDefectCount: 0 });
     const [chartData, setChartData] = useState<any[]>([]);
+    const [defectTrend, setDefectTrend] = useState<DefectTrendPoint[]>([]);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
@@ -34,9 +38,11 @@ export const DashboardModal = ({ isOpen, onClose, contextType, contextId, title
                 totalCases: data.totalCases,
                 activeRuns: data.activeRuns,
                 passRate: data.passRate,
-                defectCount: data.defectCount
+                defectCount: data.defectCount,
+                closedDefectCount: data.closedDefectCount
             });
             setChartData(data.chartData);
+            setDefectTrend(data.defectTrend);
         } catch (e) {
             console.error(e);
         } finally {
@@ -90,13 +96,14 @@ export const DashboardModal = ({ isOpen, onClose, contextType, contextId, title
                                     </div>
                                     <div className="text-3xl font-bold text-green-600 mt-2">{stats.passRate}%</div>
                                 </div>
-                                <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex flex-col justify-between">
+                                <Link to="/defects" onClick={onClose} className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex flex-col justify-between hover:border-red-200 transition">
                                     <div className="flex justify-between items-start">
-                                        <span className="text-gray-500 font-bold text-xs uppercase">Defects</span>
+                                        <span className="text-gray-500 font-bold text-xs uppercase">Open Defects</span>
                                         <AlertCircle size={16} className="text-red-500" />
                                     </div>
                                     <div className="text-3xl font-bold text-red-500 mt-2">{stats.defectCount}</div>
-                                </div>
+                                    <div className="text-xs text-gray-400 mt-1">{stats.closedDefectCount} closed</div>
+                                </Link>
                             </div>
 
                             {/* Main Chart */}
@@ -121,6 +128,14 @@ export const DashboardModal = ({ isOpen, onClose, contextType, contextId, title
                                     </ResponsiveContainer>
                                 </div>
                             </div>
+
+                            {/* Defect Trend */}
+                            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+                                <h3 className="font-bold text-gray-700 mb-6 flex items-center gap-2">
+                                    <Bug size={18} /> Defect Trend (14 days)
+                                </h3>
+                                <DefectTrendChart data={defectTrend} />
+                            </div>
                         </div>
                     )}
                 </div>
@@ -0,0 +1,34 @@
+import React from 'react';
+import { ExternalLink } from 'lucide-react';
+import { Defect, DefectSeverity, DefectStatus } from '../../types';
+import { defectKey, defectSeverityInfo, defectStatusInfo } from '../../utils/defects';
+
+export const DefectStatusBadge = ({ status, className = '' }: { status: DefectStatus, className?: string }) => {
+    const info = defectStatusInfo(status);
+    return <span className={`text-[10px] px-1.5 rounded border font-bold whitespace-nowrap ${info.className} ${className}`}>{info.label}</span>;
+};
+
+export const DefectSeverityBadge = ({ severity, className = '' }: { severity: DefectSeverity, className?: string }) => {
+    const info = defectSeverityInfo(severity);
+    return <span className={`text-[10px] px-1.5 rounded border font-bold whitespace-nowrap ${info.className} ${className}`}>{info.label}</span>;
+};
+
+export const DefectKey = ({ defect }: { defect: Pick<Defect, 'seq_id'> }) => (
+    <span className="font-mono text-xs text-gray-500 whitespace-nowrap">{defectKey(defect)}</span>
+);
+
+// Tracker key and workflow status of a filed defect, linking to the issue
+export const ExternalIssue = ({ defect }: { defect: Pick<Defect, 'externalKey' | 'externalUrl' | 'externalStatus'> }) => {
+    if (!defect.externalKey) return null;
+    return (
+        <a
+            href={defect.externalUrl || undefined}
+            target="_blank"
+            rel="noreferrer"
+            onClick={e => e.stopPropagation()}
+            className="inline-flex items-center gap-1 text-[10px] px-1.5 rounded border border-blue-200 bg-blue-50 text-blue-700 font-bold whitespace-nowrap hover:underline"
+        >
+            {defect.externalKey}{defect.externalStatus && <span className="font-normal">· {defect.externalStatus}</span>} <ExternalLink size={10} />
+        </a>
+    );
+};
@@ -0,0 +1,357 @@
+import React, { useState, useEffect, useContext, useMemo } from 'react';
+import { Bug, Plus, Search, X, Trash2, ExternalLink, PlayCircle, FileText, RefreshCw, Send } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Defect, DefectLink, DefectSeverity, DefectStatus, DescribedDefectLink } from '../../types';
+import { DefectService } from '../../storage';
+import { AuthContext } from '../../context/AuthContext';
+import { usePermission } from '../../hooks/usePermission';
+import { LoadingSpinner } from '../common/Loading';
+import { DEFECT_SEVERITIES, DEFECT_STATUSES, isDefectClosed } from '../../utils/defects';
+import { DefectKey, DefectSeverityBadge, DefectStatusBadge, ExternalIssue } from './DefectBadges';
+import { IssueDraftForm } from './IssueDraftForm';
+
+type Draft = Pick<Defect, 'title' | 'description' | 'status' | 'severity' | 'assigneeId' | 'externalUrl'>;
+
+const emptyDraft = (): Draft => ({ title: '', description: '', status: 'OPEN', severity: 'MAJOR', assigneeId: null, externalUrl: '' });
+
+// 'ACTIVE' = not resolved or closed yet
+type StatusFilter = 'ACTIVE' | 'ALL' | DefectStatus;
+
+export const DefectList = () => {
+    const { user, users } = useContext(AuthContext);
+    const can = usePermission();
+    const navigate = useNavigate();
+    const [defects, setDefects] = useState<Defect[]>([]);
+    const [links, setLinks] = useState<DefectLink[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const [search, setSearch] = useState('');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('ACTIVE');
+    const [severityFilter, setSeverityFilter] = useState<'ALL' | DefectSeverity>('ALL');
+    const [assigneeFilter, setAssigneeFilter] = useState('ALL');
+
+    const [selectedId, setSelectedId] = useState<string | null>(null); // null + draft = new defect
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [selectedLinks, setSelectedLinks] = useState<DescribedDefectLink[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [filing, setFiling] = useState(false);
+    const [syncing, setSyncing] = useState(false);
+
+    const canEdit = can('EXECUTE_RUNS');
+    const tracker = DefectService.trackerName();
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            const all = await DefectService.getAll();
+            setDefects(all);
+            setLinks(await DefectService.getLinks(all.map(d => d.id)));
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => { loadData(); }, []);
+
+    useEffect(() => {
+        setSelectedLinks([]);
+        if (!selectedId) return;
+        DefectService.describeLinks(links.filter(l => l.defectId === selectedId)).then(setSelectedLinks);
+    }, [selectedId, links]);
+
+    const getUserName = (id?: string | null) => (id && users.find(u => u.id === id)?.name) || '-';
+
+    const filtered = useMemo(() => {
+        const q = search.trim().toLowerCase();
+        return defects.filter(d => {
+            if (statusFilter === 'ACTIVE' && isDefectClosed(d.status)) return false;
+            if (statusFilter !== 'ACTIVE' && statusFilter !== 'ALL' && d.status !== statusFilter) return false;
+            if (severityFilter !== 'ALL' && d.severity !== severityFilter) return false;
+            if (assigneeFilter === 'NONE' ? !!d.assigneeId : assigneeFilter !== 'ALL' && d.assigneeId !== assigneeFilter) return false;
+            return !q || d.title.toLowerCase().includes(q) || `def-${d.seq_id}`.includes(q);
+        });
+    }, [defects, search, statusFilter, severityFilter, assigneeFilter]);
+
+    const select = (d: Defect) => {
+        setSelectedId(d.id);
+        setDraft({ title: d.title, description: d.description || '', status: d.status, severity: d.severity, assigneeId: d.assigneeId || null, externalUrl: d.externalUrl || '' });
+        setError('');
+        setFiling(false);
+    };
+
+    const startNew = () => {
+        setSelectedId(null);
+        setDraft(emptyDraft());
+        setError('');
+    };
+
+    const close = () => {
+        setSelectedId(null);
+        setDraft(null);
+        setFiling(false);
+    };
+
+    const handleCreateIssue = async (input: { summary: string, description: string }) => {
+        if (!selectedId) return;
+        const filed = await DefectService.createIssue(selectedId, input);
+        await loadData();
+        select(filed);
+    };
+
+    // Status changes made in the tracker come back here
+    const handleSync = async () => {
+        setSyncing(true);
+        try {
+            setDefects(await DefectService.syncIssues(defects));
+        } catch (e: any) {
+            alert(e?.message || '동기화에 실패했습니다.');
+        } finally {
+            setSyncing(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft || !user) return;
+        setSaving(true);
+        setError('');
+        try {
+            const saved = selectedId
+                ? await DefectService.update(selectedId, draft)
+                : await DefectService.create(draft, user);
+            await loadData();
+            select(saved);
+        } catch (e: any) {
+            setError(e?.message || '저장하지 못했습니다.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        const d = defects.find(x => x.id === selectedId);
+        if (!d || !window.confirm(`"${d.title}" 결함을 삭제하시겠습니까?\n연결된 케이스/결과와의 링크도 함께 삭제됩니다.`)) return;
+        try {
+            await DefectService.remove(d.id);
+            close();
+            await loadData();
+        } catch (e: any) {
+            alert(e?.message || '삭제에 실패했습니다.');
+        }
+    };
+
+    const handleUnlink = async (link: DescribedDefectLink) => {
+        if (!window.confirm(`"${link.caseTitle}"와(과)의 연결을 해제하시겠습니까?`)) return;
+        await DefectService.unlink(link.id);
+        await loadData();
+    };
+
+    const selectedDefect = defects.find(d => d.id === selectedId);
+    const linkCount = (id: string) => new Set(links.filter(l => l.defectId === id).map(l => l.caseId)).size;
+    const openCount = defects.filter(d => !isDefectClosed(d.status)).length;
+
+    return (
+        <div className="flex flex-col h-full bg-gray-50">
+            <div className="bg-white border-b px-6 py-4 flex justify-between items-center shadow-sm">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2"><Bug className="text-red-500" /> Defects</h1>
+                    <p className="text-sm text-gray-500 mt-1">{openCount} open · {defects.length - openCount} resolved / closed</p>
+                </div>
+                {canEdit && (
+                    <div className="flex gap-2">
+                        {tracker && (
+                            <button onClick={handleSync} disabled={syncing} className="px-4 py-2 border rounded-lg text-sm font-bold text-gray-600 hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50">
+                                <RefreshCw size={16} className={syncing ? 'animate-spin' : ''} /> {tracker} 동기화
+                            </button>
+                        )}
+                        <button onClick={startNew} className="px-4 py-2 bg-primary text-white rounded-lg text-sm font-bold hover:bg-blue-600 flex items-center gap-2 shadow-sm">
+                            <Plus size={16} /> 새 결함
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            <div className="px-6 py-3 bg-white border-b flex flex-wrap gap-3 items-center text-sm">
+                <div className="relative">
+                    <Search size={14} className="absolute left-2.5 top-2.5 text-gray-400" />
+                    <input className="pl-8 pr-3 py-1.5 border rounded-lg w-64" placeholder="제목 또는 DEF-번호" value={search} onChange={e => setSearch(e.target.value)} />
+                </div>
+                <select className="border rounded-lg p-1.5 bg-white" value={statusFilter} onChange={e => setStatusFilter(e.target.value as StatusFilter)}>
+                    <option value="ACTIVE">진행 중 (Open + In Progress)</option>
+                    <option value="ALL">전체 상태</option>
+                    {DEFECT_STATUSES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                </select>
+                <select className="border rounded-lg p-1.5 bg-white" value={severityFilter} onChange={e => setSeverityFilter(e.target.value as any)}>
+                    <option value="ALL">전체 심각도</option>
+                    {DEFECT_SEVERITIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                </select>
+                <select className="border rounded-lg p-1.5 bg-white" value={assigneeFilter} onChange={e => setAssigneeFilter(e.target.value)}>
+                    <option value="ALL">전체 담당자</option>
+                    <option value="NONE">담당자 없음</option>
+                    {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                </select>
+            </div>
+
+            <div className="flex-1 flex overflow-hidden">
+                <div className="flex-1 overflow-y-auto p-6">
+                    {loading ? <LoadingSpinner /> : (
+                        <div className="bg-white border rounded-lg shadow-sm overflow-hidden">
+                            <table className="w-full text-sm text-left">
+                                <thead className="bg-gray-50 text-gray-500 border-b">
+                                    <tr>
+                                        <th className="p-3 w-28">Key</th>
+                                        <th className="p-3">Title</th>
+                                        <th className="p-3 w-24">Severity</th>
+                                        <th className="p-3 w-28">Status</th>
+                                        <th className="p-3 w-32">Assignee</th>
+                                        <th className="p-3 w-20 text-center">Cases</th>
+                                        <th className="p-3 w-28">Created</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y">
+                                    {filtered.map(d => (
+                                        <tr key={d.id} onClick={() => select(d)} className={`cursor-pointer hover:bg-gray-50 ${selectedId === d.id ? 'bg-blue-50' : ''}`}>
+                                            <td className="p-3">
+                                                <DefectKey defect={d} />
+                                                {d.externalKey && <div className="mt-0.5"><ExternalIssue defect={d} /></div>}
+                                            </td>
+                                            <td className="p-3 font-medium text-gray-800">{d.title}</td>
+                                            <td className="p-3"><DefectSeverityBadge severity={d.severity} /></td>
+                                            <td className="p-3"><DefectStatusBadge status={d.status} /></td>
+                                            <td className="p-3 text-gray-600">{getUserName(d.assigneeId)}</td>
+                                            <td className="p-3 text-center text-gray-600">{linkCount(d.id)}</td>
+                                            <td className="p-3 text-gray-500">{new Date(d.createdAt).toLocaleDateString()}</td>
+                                        </tr>
+                                    ))}
+                                    {filtered.length === 0 && (
+                                        <tr><td colSpan={7} className="p-10 text-center text-gray-400">조건에 맞는 결함이 없습니다.</td></tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+
+                {draft && (
+                    <div className="w-[420px] border-l bg-white flex flex-col overflow-hidden">
+                        <div className="p-4 border-b flex items-center justify-between bg-gray-50">
+                            <h3 className="font-bold text-gray-800 flex items-center gap-2">
+                                <Bug size={16} className="text-red-500" />
+                                {selectedId ? <DefectKey defect={defects.find(d => d.id === selectedId) || {}} /> : '새 결함'}
+                            </h3>
+                            <button onClick={close} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+                            <input
+                                className="w-full border rounded-lg p-2 font-bold disabled:bg-gray-50"
+                                value={draft.title}
+                                disabled={!canEdit}
+                                onChange={e => setDraft({ ...draft, title: e.target.value })}
+                                placeholder="결함 제목"
+                                autoFocus={!selectedId}
+                            />
+                            <div className="grid grid-cols-3 gap-2">
+                                <select className="border rounded p-1.5 bg-white" value={draft.status} disabled={!canEdit} onChange={e => setDraft({ ...draft, status: e.target.value as DefectStatus })}>
+                                    {DEFECT_STATUSES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                                </select>
+                                <select className="border rounded p-1.5 bg-white" value={draft.severity} disabled={!canEdit} onChange={e => setDraft({ ...draft, severity: e.target.value as DefectSeverity })}>
+                                    {DEFECT_SEVERITIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                                </select>
+                                <select className="border rounded p-1.5 bg-white" value={draft.assigneeId || ''} disabled={!canEdit} onChange={e => setDraft({ ...draft, assigneeId: e.target.value || null })}>
+                                    <option value="">담당자 없음</option>
+                                    {users.filter(u => u.status === 'ACTIVE' || u.id === draft.assigneeId).map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                                </select>
+                            </div>
+                            <textarea
+                                className="w-full border rounded-lg p-2 h-32 resize-none disabled:bg-gray-50"
+                                value={draft.description || ''}
+                                disabled={!canEdit}
+                                onChange={e => setDraft({ ...draft, description: e.target.value })}
+                                placeholder="재현 절차, 환경 등"
+                            />
+                            {selectedDefect?.externalKey ? (
+                                <div className="flex items-center gap-2 text-xs text-gray-500">
+                                    <ExternalIssue defect={selectedDefect} />
+                                    {selectedDefect.externalSyncedAt && <span>동기화: {new Date(selectedDefect.externalSyncedAt).toLocaleString()}</span>}
+                                </div>
+                            ) : (
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        className="flex-1 border rounded-lg p-2 disabled:bg-gray-50"
+                                        value={draft.externalUrl || ''}
+                                        disabled={!canEdit}
+                                        onChange={e => setDraft({ ...draft, externalUrl: e.target.value })}
+                                        placeholder="외부 이슈 URL (옵션)"
+                                    />
+                                    {draft.externalUrl && <a href={draft.externalUrl} target="_blank" rel="noreferrer" className="text-blue-600 p-1"><ExternalLink size={16} /></a>}
+                                    {selectedDefect && tracker && canEdit && (
+                                        <button onClick={() => setFiling(true)} className="px-2 py-2 border border-blue-200 rounded-lg text-blue-700 text-xs font-bold hover:bg-blue-50 flex items-center gap-1 whitespace-nowrap">
+                                            <Send size={12} /> {tracker} 이슈 생성
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                            {filing && selectedDefect && tracker && (
+                                <IssueDraftForm
+                                    tracker={tracker}
+                                    initial={{ summary: selectedDefect.title, description: selectedDefect.description || '' }}
+                                    onSubmit={handleCreateIssue}
+                                    onCancel={() => setFiling(false)}
+                                />
+                            )}
+                            {selectedId && (
+                                <div className="text-xs text-gray-400">
+                                    보고: {getUserName(defects.find(d => d.id === selectedId)?.reporterId)} · {new Date(defects.find(d => d.id === selectedId)?.createdAt || '').toLocaleString()}
+                                </div>
+                            )}
+                            {error && <div className="text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</div>}
+                            {canEdit && (
+                                <div className="flex items-center gap-2">
+                                    {selectedId && can('MANAGE_RUNS') && (
+                                        <button onClick={handleDelete} className="px-3 py-1.5 border rounded text-red-600 hover:bg-red-50 flex items-center gap-1"><Trash2 size={14} /> 삭제</button>
+                                    )}
+                                    <button onClick={handleSave} disabled={saving} className="ml-auto px-4 py-1.5 bg-blue-600 text-white rounded font-bold hover:bg-blue-700 disabled:opacity-50">
+                                        {saving ? 'Saving...' : 'Save'}
+                                    </button>
+                                </div>
+                            )}
+
+                            {selectedId && (
+                                <div className="border-t pt-3">
+                                    <h4 className="font-bold text-gray-700 mb-2">발견된 케이스 ({selectedLinks.length})</h4>
+                                    {selectedLinks.length === 0 && <div className="text-gray-400">연결된 케이스가 없습니다.</div>}
+                                    <div className="space-y-1">
+                                        {selectedLinks.map(l => (
+                                            <div key={l.id} className="flex items-start gap-2 p-2 border rounded hover:bg-gray-50 group">
+                                                <div className="flex-1 min-w-0">
+                                                    <button
+                                                        onClick={() => l.documentId && !l.caseDeleted && navigate(`/drive/doc/${l.documentId}`)}
+                                                        className={`flex items-center gap-1 text-left truncate ${l.caseDeleted ? 'text-gray-400 line-through' : 'text-gray-800 hover:text-blue-600'}`}
+                                                    >
+                                                        <FileText size={12} className="flex-shrink-0" />
+                                                        {l.caseSeqId && <span className="font-mono text-gray-400">#{l.caseSeqId}</span>}
+                                                        <span className="truncate">{l.caseTitle}</span>
+                                                    </button>
+                                                    {l.runId && (
+                                                        <button onClick={() => navigate(`/runs/${l.runId}`)} className="text-xs text-gray-500 hover:text-blue-600 flex items-center gap-1 mt-0.5">
+                                                            <PlayCircle size={11} /> {l.runTitle || 'Run'}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                {canEdit && (
+                                                    <button onClick={() => handleUnlink(l)} className="text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100" title="연결 해제"><X size={14} /></button>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { DefectTrendPoint } from '../../utils/defects';
+
+// Opened / closed per day as bars, still-open defects as a line
+export const DefectTrendChart = ({ data, height = 240 }: { data: DefectTrendPoint[], height?: number }) => (
+    <div style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+                <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#9ca3af' }} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#9ca3af' }} />
+                <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+                <Legend verticalAlign="top" align="right" height={30} iconType="circle" />
+                <Bar dataKey="opened" name="Opened" fill="#f87171" radius={[4, 4, 0, 0]} barSize={12} />
+                <Bar dataKey="closed" name="Closed" fill="#4ade80" radius={[4, 4, 0, 0]} barSize={12} />
+                <Line type="monotone" dataKey="open" name="Open" stroke="#6366f1" strokeWidth={2} dot={false} />
+            </ComposedChart>
+        </ResponsiveContainer>
+    </div>
+);
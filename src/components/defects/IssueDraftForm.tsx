@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Send, Loader2 } from 'lucide-react';
+import { TrackerIssueInput } from '../../repository';
+
+// Editable summary / description sent to the issue tracker
+export const IssueDraftForm = ({
+    tracker, initial, onSubmit, onCancel
+}: {
+    tracker: string,
+    initial: TrackerIssueInput,
+    onSubmit: (input: TrackerIssueInput) => Promise<void>,
+    onCancel: () => void
+}) => {
+    const [summary, setSummary] = useState(initial.summary);
+    const [description, setDescription] = useState(initial.description);
+    const [sending, setSending] = useState(false);
+
+    const handleSubmit = async () => {
+        setSending(true);
+        try {
+            await onSubmit({ ...initial, summary, description });
+        } catch (e: any) {
+            alert(e?.message || '이슈를 만들지 못했습니다.');
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <div className="border border-blue-200 bg-blue-50/50 rounded p-2 space-y-2">
+            <div className="text-xs font-bold text-blue-700">{tracker} 이슈 생성</div>
+            <input
+                className="w-full border rounded px-2 py-1.5 text-sm bg-white focus:border-blue-400 outline-none"
+                placeholder="Summary"
+                value={summary}
+                onChange={e => setSummary(e.target.value)}
+            />
+            <textarea
+                className="w-full border rounded px-2 py-1.5 text-xs font-mono bg-white h-40 focus:border-blue-400 outline-none"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+                <button onClick={onCancel} disabled={sending} className="px-2 py-1 border rounded text-xs text-gray-600 bg-white hover:bg-gray-50">취소</button>
+                <button
+                    onClick={handleSubmit}
+                    disabled={sending || !summary.trim()}
+                    className="px-2 py-1 bg-blue-600 text-white rounded text-xs font-bold hover:bg-blue-700 flex items-center gap-1 disabled:opacity-50"
+                >
+                    {sending ? <Loader2 size={12} className="animate-spin" /> : <Send size={12} />} 생성
+                </button>
+            </div>
+        </div>
+    );
+};
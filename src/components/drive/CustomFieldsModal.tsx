@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, X, Trash2, Edit2, Check } from 'lucide-react';
+import { CustomField, CustomFieldType, DriveItemRef } from '../../types';
+import { CustomFieldService } from '../../storage';
+import { CUSTOM_FIELD_TYPES } from '../../utils/customFields';
+
+interface CustomFieldsModalProps {
+    scope: (DriveItemRef & { name: string }) | null;
+    onClose: () => void;
+}
+
+const parseOptions = (text: string) => Array.from(new Set(text.split(',').map(o => o.trim()).filter(Boolean)));
+const typeLabel = (type: CustomFieldType) => CUSTOM_FIELD_TYPES.find(t => t.value === type)?.label || type;
+
+// Field definitions of a folder or document; fields of the folders above are listed read-only
+export const CustomFieldsModal = ({ scope, onClose }: CustomFieldsModalProps) => {
+    const [fields, setFields] = useState<CustomField[]>([]);
+    const [name, setName] = useState('');
+    const [fieldType, setFieldType] = useState<CustomFieldType>('TEXT');
+    const [options, setOptions] = useState('');
+    const [editing, setEditing] = useState<{ id: string, name: string, options: string } | null>(null);
+    const [error, setError] = useState('');
+
+    const load = async () => {
+        if (scope) setFields(await CustomFieldService.getForScope(scope));
+    };
+
+    useEffect(() => {
+        setName('');
+        setFieldType('TEXT');
+        setOptions('');
+        setEditing(null);
+        setError('');
+        load();
+    }, [scope?.id]);
+
+    if (!scope) return null;
+
+    const isOwn = (f: CustomField) => (scope.type === 'FOLDER' ? f.folderId : f.documentId) === scope.id;
+    const inherited = fields.filter(f => !isOwn(f));
+    const own = fields.filter(isOwn);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError('');
+        try {
+            await action();
+            await load();
+            return true;
+        } catch (e: any) {
+            setError(e?.message || '저장에 실패했습니다.');
+            return false;
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const ok = await run(() => CustomFieldService.create(scope, { name, fieldType, options: parseOptions(options) }));
+        if (ok) {
+            setName('');
+            setOptions('');
+        }
+    };
+
+    const handleSaveEdit = async (field: CustomField) => {
+        if (!editing) return;
+        const patch = field.fieldType === 'SELECT'
+            ? { name: editing.name, options: parseOptions(editing.options) }
+            : { name: editing.name };
+        if (await run(() => CustomFieldService.update(field.id, patch))) setEditing(null);
+    };
+
+    const handleRemove = (field: CustomField) => {
+        if (!window.confirm(`"${field.name}" 필드를 삭제하시겠습니까?\n\n케이스에 입력된 값은 더 이상 표시되지 않습니다.`)) return;
+        run(() => CustomFieldService.remove(field.id));
+    };
+
+    return (
+        <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6">
+                <div className="flex justify-between items-start mb-4">
+                    <h2 className="text-xl font-bold flex items-center gap-2"><SlidersHorizontal size={20} /> "{scope.name}" 사용자 정의 필드</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+                </div>
+                <p className="text-xs text-gray-500 mb-4">
+                    {scope.type === 'FOLDER' ? '이 폴더 아래의 모든 문서에 있는 테스트 케이스에 적용됩니다.' : '이 문서의 테스트 케이스에만 적용됩니다.'}
+                </p>
+
+                <form onSubmit={handleAdd} className="space-y-2 mb-4 bg-gray-50 border rounded-lg p-3">
+                    <div className="flex gap-2">
+                        <input className="flex-1 border rounded p-2 text-sm" value={name} onChange={e => setName(e.target.value)} placeholder="필드 이름 (예: Automation Status)" />
+                        <select className="border rounded p-2 text-sm bg-white" value={fieldType} onChange={e => setFieldType(e.target.value as CustomFieldType)}>
+                            {CUSTOM_FIELD_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                        </select>
+                        <button type="submit" disabled={!name.trim()} className="px-3 py-1 bg-primary text-white rounded hover:bg-blue-600 disabled:opacity-50 text-sm">추가</button>
+                    </div>
+                    {fieldType === 'SELECT' && (
+                        <input className="w-full border rounded p-2 text-sm" value={options} onChange={e => setOptions(e.target.value)} placeholder="항목 (쉼표로 구분, 예: Manual, Automated, N/A)" />
+                    )}
+                </form>
+
+                <div className="border rounded-lg divide-y max-h-72 overflow-y-auto">
+                    {fields.length === 0 && <div className="p-4 text-sm text-gray-400 text-center">정의된 필드가 없습니다.</div>}
+                    {inherited.map(f => (
+                        <div key={f.id} className="p-2 flex items-center gap-2 text-sm text-gray-500 bg-gray-50">
+                            <span className="flex-1 truncate">{f.name}</span>
+                            <span className="text-xs">{typeLabel(f.fieldType)}</span>
+                            <span className="text-[10px] px-1.5 rounded bg-gray-200">상위 폴더</span>
+                        </div>
+                    ))}
+                    {own.map(f => editing?.id === f.id ? (
+                        <div key={f.id} className="p-2 space-y-2 text-sm">
+                            <div className="flex gap-2">
+                                <input autoFocus className="flex-1 border rounded p-1" value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} />
+                                <button onClick={() => handleSaveEdit(f)} className="p-1 text-blue-600 hover:bg-blue-50 rounded" title="저장"><Check size={14} /></button>
+                                <button onClick={() => setEditing(null)} className="p-1 text-gray-400 hover:bg-gray-100 rounded" title="취소"><X size={14} /></button>
+                            </div>
+                            {f.fieldType === 'SELECT' && (
+                                <input className="w-full border rounded p-1" value={editing.options} onChange={e => setEditing({ ...editing, options: e.target.value })} />
+                            )}
+                        </div>
+                    ) : (
+                        <div key={f.id} className="p-2 flex items-center gap-2 text-sm">
+                            <span className="flex-1 truncate">
+                                {f.name}
+                                {f.fieldType === 'SELECT' && <span className="text-xs text-gray-400 ml-2">{f.options.join(', ')}</span>}
+                            </span>
+                            <span className="text-xs text-gray-500">{typeLabel(f.fieldType)}</span>
+                            <button onClick={() => setEditing({ id: f.id, name: f.name, options: f.options.join(', ') })} className="p-1 text-gray-400 hover:text-gray-700"><Edit2 size={14} /></button>
+                            <button onClick={() => handleRemove(f)} className="p-1 text-gray-400 hover:text-red-500"><Trash2 size={14} /></button>
+                        </div>
+                    ))}
+                </div>
+
+                {error && <div className="mt-4 text-sm text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</div>}
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { AlertTriangle, X } from 'lucide-react';
+import { TrashService } from '../../storage';
 
 interface DeleteConfirmModalProps {
     isOpen: boolean;
@@ -50,11 +51,11 @@ export const DeleteConfirmModal = ({
                     </p>
 
                     <div className="bg-red-50 p-3 rounded-lg border border-red-100 text-sm text-red-700">
-                        <strong className="block mb-1">⚠️ Warning: Cascade Delete</strong>
+                        <strong className="block mb-1">⚠️ Warning: Moves to Trash</strong>
                         <ul className="list-disc pl-4 space-y-1">
-                            <li>All <strong>Test Cases</strong> inside will be permanently deleted.</li>
-                            <li><strong>Active Runners</strong> referencing these cases will lose them.</li>
-                            <li>This action <strong>cannot be undone</strong>.</li>
+                            <li>Everything inside, including all <strong>Test Cases</strong>, moves to the Trash with it.</li>
+                            <li><strong>Active Runners</strong> hide these cases until they are restored.</li>
+                            <li>Items are <strong>permanently deleted</strong> after {TrashService.RETENTION_DAYS} days in the Trash.</li>
                         </ul>
                     </div>
 
@@ -87,7 +88,7 @@ export const DeleteConfirmModal = ({
                                 : 'bg-gray-300 cursor-not-allowed'
                             }`}
                     >
-                        {isDeleting ? 'Deleting...' : 'Delete Permanently'}
+                        {isDeleting ? 'Deleting...' : 'Move to Trash'}
                     </button>
                 </div>
             </div>
@@ -2,17 +2,23 @@ import React, { useState, useEffect, useContext } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
     Folder, FileText, Plus, MoreVertical, Grid, List as ListIcon,
-    ChevronRight, Search, Trash2, Edit2, Copy, LayoutDashboard
+    ChevronRight, Search, Trash2, Edit2, Copy, LayoutDashboard, Share2, FolderInput, SlidersHorizontal
 } from 'lucide-react';
 import { AuthContext } from '../../context/AuthContext';
-import { Folder as FolderType, Document } from '../../types';
-import { DriveService } from '../../storage';
+import { Folder as FolderType, Document, DriveItemRef } from '../../types';
+import { DriveService, FolderAccessService } from '../../storage';
 import { FolderTree } from './FolderTree';
 import { Breadcrumbs, BreadcrumbItem } from '../common/Breadcrumbs';
 import { DocumentModal } from './DocumentModal';
 import { DeleteConfirmModal } from './DeleteConfirmModal';
 import { LoadingSpinner } from '../common/Loading';
 import { DashboardModal } from '../dashboard/DashboardModal';
+import { FolderShareModal } from './FolderShareModal';
+import { MoveToModal } from './MoveToModal';
+import { DuplicateModal } from './DuplicateModal';
+import { CustomFieldsModal } from './CustomFieldsModal';
+import { FolderAccessMap } from '../../utils/permissions';
+import { canMoveInto } from '../../utils/folderTree';
 
 export default function DriveExplorer() {
     const { "*": folderIdParam } = useParams();
@@ -24,6 +30,7 @@ export default function DriveExplorer() {
     const [folders, setFolders] = useState<FolderType[]>([]);
     const [documents, setDocuments] = useState<Document[]>([]);
     const [allFolders, setAllFolders] = useState<FolderType[]>([]); // For Sidebar
+    const [access, setAccess] = useState<FolderAccessMap | null>(null);
     const [loading, setLoading] = useState(true);
 
     // UI State
@@ -39,6 +46,16 @@ export default function DriveExplorer() {
     const [deleteModalOpen, setDeleteModalOpen] = useState(false);
     const [itemToDelete, setItemToDelete] = useState<{ id: string, name: string, type: 'FOLDER' | 'DOCUMENT' } | null>(null);
 
+    const [shareFolder, setShareFolder] = useState<FolderType | null>(null);
+    const [duplicateItem, setDuplicateItem] = useState<{ id: string, name: string, type: 'FOLDER' | 'DOCUMENT' } | null>(null);
+    const [fieldsScope, setFieldsScope] = useState<{ id: string, name: string, type: 'FOLDER' | 'DOCUMENT' } | null>(null);
+
+    // Selection & moving (Ctrl/Cmd/Shift-click or Space to multi-select)
+    const [selected, setSelected] = useState<DriveItemRef[]>([]);
+    const [dragItems, setDragItems] = useState<DriveItemRef[] | null>(null);
+    const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+    const [moveItems, setMoveItems] = useState<DriveItemRef[] | null>(null);
+
     const [dashboardOpen, setDashboardOpen] = useState(false);
     const [dashboardContext, setDashboardContext] = useState<{ type: 'FOLDER' | 'DOCUMENT' | 'ALL', id: string | null, title: string }>({ type: 'ALL', id: null, title: '' });
 
@@ -53,13 +70,15 @@ export default function DriveExplorer() {
     const loadData = async () => {
         setLoading(true);
         try {
-            const [contents, tree] = await Promise.all([
+            const [contents, tree, acl] = await Promise.all([
                 DriveService.getFoldersAndDocuments(currentFolderId),
-                DriveService.getAllFolders()
+                DriveService.getAllFolders(),
+                FolderAccessService.getMyAccess()
             ]);
             setFolders(contents.folders);
             setDocuments(contents.documents);
             setAllFolders(tree);
+            setAccess(acl);
         } catch (e) {
             console.error("Failed to load drive data", e);
         } finally {
@@ -69,8 +88,73 @@ export default function DriveExplorer() {
 
     useEffect(() => {
         loadData();
+        setSelected([]);
     }, [currentFolderId]);
 
+    // Folder ACLs: a document follows the folder it lives in
+    const canManage = (folderId: string | null) => !!access?.can(folderId, 'MANAGE_DRIVE');
+    const contextFolderId = (item: any, type: 'FOLDER' | 'DOCUMENT') => type === 'FOLDER' ? item.id : item.folderId;
+
+    const isSelected = (id: string) => selected.some(s => s.id === id);
+
+    const handleSelect = (e: React.MouseEvent | React.KeyboardEvent, ref: DriveItemRef) => {
+        e.stopPropagation();
+        const toggle = e.ctrlKey || e.metaKey || e.shiftKey || e.type === 'keydown';
+        if (toggle) setSelected(isSelected(ref.id) ? selected.filter(s => s.id !== ref.id) : [...selected, ref]);
+        else setSelected([ref]);
+    };
+
+    const handleItemKeyDown = (e: React.KeyboardEvent, ref: DriveItemRef) => {
+        if (e.key === ' ') {
+            e.preventDefault();
+            handleSelect(e, ref);
+        } else if (e.key === 'Enter') {
+            navigate(ref.type === 'FOLDER' ? `/drive/${ref.id}` : `/drive/doc/${ref.id}`);
+        }
+    };
+
+    const canDropInto = (folderId: string | null) =>
+        !!dragItems && canManage(folderId) && canMoveInto(allFolders, dragItems, folderId);
+
+    const handleDragStart = (e: React.DragEvent, ref: DriveItemRef) => {
+        const items = isSelected(ref.id) ? selected : [ref];
+        setDragItems(items);
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', items.map(i => i.id).join(','));
+    };
+
+    const handleMove = async (items: DriveItemRef[], targetFolderId: string | null) => {
+        try {
+            await DriveService.moveItems(items, targetFolderId);
+            setSelected([]);
+        } catch (e: any) {
+            alert(e?.message || '이동에 실패했습니다.');
+        }
+        await loadData();
+    };
+
+    const handleDrop = (targetFolderId: string | null) => {
+        const items = dragItems;
+        setDragItems(null);
+        setDropTargetId(null);
+        if (items && canMoveInto(allFolders, items, targetFolderId)) handleMove(items, targetFolderId);
+    };
+
+    // Folder cards are drop targets too
+    const folderDropHandlers = (folderId: string) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (canDropInto(folderId)) {
+                e.preventDefault();
+                setDropTargetId(folderId);
+            }
+        },
+        onDragLeave: () => setDropTargetId(null),
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            handleDrop(folderId);
+        }
+    });
+
     // Helpers for Breadcrumbs
     const getBreadcrumbs = (): BreadcrumbItem[] => {
         const items: BreadcrumbItem[] = [];
@@ -122,14 +206,21 @@ export default function DriveExplorer() {
         await loadData();
     };
 
-    const handleDuplicate = async (doc: Document) => {
-        if (!user) return;
-        const newName = `${doc.title} (복사본)`; // 한글화
-        if (window.confirm(`"${doc.title}" 문서를 복제하시겠습니까?`)) { // 한글화
-            setLoading(true);
-            await DriveService.duplicateDocument(doc.id, newName, user);
-            await loadData();
+    const handleDuplicate = (item: any, type: 'FOLDER' | 'DOCUMENT') => {
+        setDuplicateItem({ id: item.id, name: type === 'FOLDER' ? item.name : item.title, type });
+    };
+
+    const confirmDuplicate = async (name: string, includeHistory: boolean) => {
+        if (!user || !duplicateItem) return;
+        try {
+            const copy = duplicateItem.type === 'FOLDER'
+                ? await DriveService.duplicateFolder(duplicateItem.id, name, user, { includeHistory })
+                : await DriveService.duplicateDocument(duplicateItem.id, name, user, { includeHistory });
+            if (!copy) alert('복제에 실패했습니다.');
+        } catch (e: any) {
+            alert(e?.message || '복제에 실패했습니다.');
         }
+        await loadData();
     };
 
     const handleDeleteClick = (item: any, type: 'FOLDER' | 'DOCUMENT') => {
@@ -173,6 +264,8 @@ export default function DriveExplorer() {
                     activeFolderId={currentFolderId}
                     onFolderClick={(id) => navigate(id ? `/drive/${id}` : '/drive')}
                     className="flex-1 px-2"
+                    canDrop={canDropInto}
+                    onDrop={handleDrop}
                 />
             </div>
 
@@ -194,18 +287,31 @@ export default function DriveExplorer() {
                             <button onClick={() => setViewMode('LIST')} className={`p-1.5 rounded ${viewMode === 'LIST' ? 'bg-white shadow' : 'text-gray-500'}`}><ListIcon size={18} /></button>
                         </div>
 
-                        <button
-                            onClick={() => handleCreate('FOLDER')}
-                            className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition"
-                        >
-                            <Folder size={16} /> New Folder
-                        </button>
-                        <button
-                            onClick={() => handleCreate('DOCUMENT')}
-                            className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition shadow-sm"
-                        >
-                            <Plus size={16} /> New Doc
-                        </button>
+                        {selected.length > 0 && canManage(currentFolderId) && (
+                            <button
+                                onClick={() => setMoveItems(selected)}
+                                className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition"
+                            >
+                                <FolderInput size={16} /> 이동 ({selected.length})
+                            </button>
+                        )}
+
+                        {canManage(currentFolderId) && (
+                            <>
+                                <button
+                                    onClick={() => handleCreate('FOLDER')}
+                                    className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition"
+                                >
+                                    <Folder size={16} /> New Folder
+                                </button>
+                                <button
+                                    onClick={() => handleCreate('DOCUMENT')}
+                                    className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition shadow-sm"
+                                >
+                                    <Plus size={16} /> New Doc
+                                </button>
+                            </>
+                        )}
                     </div>
                 </div>
 
@@ -215,7 +321,7 @@ export default function DriveExplorer() {
                         <LoadingSpinner />
                     </div>
                 ) : (
-                    <div className="flex-1 overflow-y-auto p-6" onClick={() => setContextMenu(null)}>
+                    <div className="flex-1 overflow-y-auto p-6" onClick={() => { setContextMenu(null); setSelected([]); }}>
                         {folders.length === 0 && documents.length === 0 ? (
                             <div className="flex flex-col items-center justify-center h-full text-gray-400">
                                 <Folder size={64} className="mb-4 opacity-20" />
@@ -227,9 +333,16 @@ export default function DriveExplorer() {
                                 {folders.map(folder => (
                                     <div
                                         key={folder.id}
+                                        tabIndex={0}
+                                        draggable={canManage(folder.id)}
+                                        onDragStart={(e) => handleDragStart(e, { id: folder.id, type: 'FOLDER' })}
+                                        onDragEnd={() => { setDragItems(null); setDropTargetId(null); }}
+                                        {...folderDropHandlers(folder.id)}
+                                        onClick={(e) => handleSelect(e, { id: folder.id, type: 'FOLDER' })}
+                                        onKeyDown={(e) => handleItemKeyDown(e, { id: folder.id, type: 'FOLDER' })}
                                         onDoubleClick={() => navigate(`/drive/${folder.id}`)}
                                         onContextMenu={(e) => handleContextMenu(e, folder, 'FOLDER')}
-                                        className={`group relative p-4 rounded-xl border hover:border-blue-400 hover:shadow-md transition cursor-pointer bg-blue-50/30 border-blue-100 ${viewMode === 'LIST' ? 'flex items-center gap-4' : 'flex flex-col items-center text-center'}`}
+                                        className={`group relative p-4 rounded-xl border hover:border-blue-400 hover:shadow-md transition cursor-pointer bg-blue-50/30 border-blue-100 ${viewMode === 'LIST' ? 'flex items-center gap-4' : 'flex flex-col items-center text-center'} ${isSelected(folder.id) ? 'ring-2 ring-blue-500' : ''} ${dropTargetId === folder.id ? 'border-blue-500 bg-blue-100' : ''}`}
                                     >
                                         <Folder size={viewMode === 'GRID' ? 48 : 24} className="text-blue-400 mb-3 md:mb-0" />
                                         <div className="min-w-0 flex-1">
@@ -249,9 +362,15 @@ export default function DriveExplorer() {
                                 {documents.map(doc => (
                                     <div
                                         key={doc.id}
+                                        tabIndex={0}
+                                        draggable={canManage(doc.folderId)}
+                                        onDragStart={(e) => handleDragStart(e, { id: doc.id, type: 'DOCUMENT' })}
+                                        onDragEnd={() => { setDragItems(null); setDropTargetId(null); }}
+                                        onClick={(e) => handleSelect(e, { id: doc.id, type: 'DOCUMENT' })}
+                                        onKeyDown={(e) => handleItemKeyDown(e, { id: doc.id, type: 'DOCUMENT' })}
                                         onDoubleClick={() => navigate(`/drive/doc/${doc.id}`)} // 👈 [이슈 2 해결] 주석 해제 및 라우팅 연결!
                                         onContextMenu={(e) => handleContextMenu(e, doc, 'DOCUMENT')}
-                                        className={`group relative p-4 rounded-xl border hover:border-purple-400 hover:shadow-md transition cursor-pointer bg-white ${viewMode === 'LIST' ? 'flex items-center gap-4' : 'flex flex-col items-center text-center'}`}
+                                        className={`group relative p-4 rounded-xl border hover:border-purple-400 hover:shadow-md transition cursor-pointer bg-white ${viewMode === 'LIST' ? 'flex items-center gap-4' : 'flex flex-col items-center text-center'} ${isSelected(doc.id) ? 'ring-2 ring-blue-500' : ''}`}
                                     >
                                         <FileText size={viewMode === 'GRID' ? 48 : 24} className="text-purple-400 mb-3 md:mb-0" />
                                         <div className="min-w-0 flex-1">
@@ -292,16 +411,18 @@ export default function DriveExplorer() {
                     )}
 
                     {/* 이하 메뉴명 한글화 (이슈 3) */}
-                    <button
-                        onClick={() => handleRename(contextMenu.item, contextMenu.type)}
-                        className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center gap-2 text-sm text-gray-700"
-                    >
-                        <Edit2 size={14} /> 이름 변경
-                    </button>
+                    {canManage(contextFolderId(contextMenu.item, contextMenu.type)) && (
+                        <button
+                            onClick={() => handleRename(contextMenu.item, contextMenu.type)}
+                            className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center gap-2 text-sm text-gray-700"
+                        >
+                            <Edit2 size={14} /> 이름 변경
+                        </button>
+                    )}
 
-                    {contextMenu.type === 'DOCUMENT' && (
+                    {canManage(contextMenu.type === 'FOLDER' ? contextMenu.item.parentId : contextMenu.item.folderId) && (
                         <button
-                            onClick={() => handleDuplicate(contextMenu.item)}
+                            onClick={() => handleDuplicate(contextMenu.item, contextMenu.type)}
                             className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center gap-2 text-sm text-gray-700"
                         >
                             <Copy size={14} /> 복사본 만들기
@@ -315,12 +436,41 @@ export default function DriveExplorer() {
                         <LayoutDashboard size={14} /> 통계 대시보드
                     </button>
 
-                    <button
-                        onClick={() => handleDeleteClick(contextMenu.item, contextMenu.type)}
-                        className="w-full text-left px-4 py-2 hover:bg-red-50 flex items-center gap-2 text-sm text-red-600"
-                    >
-                        <Trash2 size={14} /> 삭제
-                    </button>
+                    {canManage(contextFolderId(contextMenu.item, contextMenu.type)) && (
+                        <button
+                            onClick={() => setMoveItems(isSelected(contextMenu.item.id) ? selected : [{ id: contextMenu.item.id, type: contextMenu.type }])}
+                            className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center gap-2 text-sm text-gray-700"
+                        >
+                            <FolderInput size={14} /> 이동...
+                        </button>
+                    )}
+
+                    {canManage(contextFolderId(contextMenu.item, contextMenu.type)) && (
+                        <button
+                            onClick={() => setFieldsScope({ id: contextMenu.item.id, name: contextMenu.type === 'FOLDER' ? contextMenu.item.name : contextMenu.item.title, type: contextMenu.type })}
+                            className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center gap-2 text-sm text-gray-700"
+                        >
+                            <SlidersHorizontal size={14} /> 사용자 정의 필드
+                        </button>
+                    )}
+
+                    {contextMenu.type === 'FOLDER' && access?.levelOf(contextMenu.item.id) === 'OWNER' && (
+                        <button
+                            onClick={() => setShareFolder(contextMenu.item)}
+                            className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-center gap-2 text-sm text-gray-700"
+                        >
+                            <Share2 size={14} /> 공유 설정
+                        </button>
+                    )}
+
+                    {canManage(contextFolderId(contextMenu.item, contextMenu.type)) && (
+                        <button
+                            onClick={() => handleDeleteClick(contextMenu.item, contextMenu.type)}
+                            className="w-full text-left px-4 py-2 hover:bg-red-50 flex items-center gap-2 text-sm text-red-600"
+                        >
+                            <Trash2 size={14} /> 삭제
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -343,6 +493,31 @@ export default function DriveExplorer() {
                 itemType={itemToDelete?.type || 'FOLDER'}
             />
 
+            <DuplicateModal
+                item={duplicateItem}
+                onClose={() => setDuplicateItem(null)}
+                onSubmit={confirmDuplicate}
+            />
+
+            <MoveToModal
+                isOpen={!!moveItems}
+                onClose={() => setMoveItems(null)}
+                folders={allFolders}
+                items={moveItems || []}
+                canManage={canManage}
+                onMove={(target) => handleMove(moveItems || [], target)}
+            />
+
+            <FolderShareModal
+                folder={shareFolder}
+                onClose={() => setShareFolder(null)}
+            />
+
+            <CustomFieldsModal
+                scope={fieldsScope}
+                onClose={() => setFieldsScope(null)}
+            />
+
             <DashboardModal
                 isOpen={dashboardOpen}
                 onClose={() => setDashboardOpen(false)}
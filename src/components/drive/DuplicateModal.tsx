@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { X, Copy } from 'lucide-react';
+
+interface DuplicateModalProps {
+    item: { id: string, name: string, type: 'FOLDER' | 'DOCUMENT' } | null;
+    onClose: () => void;
+    onSubmit: (name: string, includeHistory: boolean) => Promise<void>;
+}
+
+export const DuplicateModal = ({ item, onClose, onSubmit }: DuplicateModalProps) => {
+    const [name, setName] = useState('');
+    const [includeHistory, setIncludeHistory] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (item) {
+            setName(`${item.name} (복사본)`);
+            setIncludeHistory(false);
+        }
+    }, [item?.id]);
+
+    if (!item) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        setIsSubmitting(true);
+        try {
+            await onSubmit(name.trim(), includeHistory);
+            onClose();
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6">
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                        <Copy size={20} /> {item.type === 'FOLDER' ? '폴더 복제' : '문서 복제'}
+                    </h2>
+                    <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+                        <X size={24} />
+                    </button>
+                </div>
+
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {item.type === 'FOLDER' ? 'Folder Name' : 'Document Title'}
+                    </label>
+                    <input
+                        type="text"
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        autoFocus
+                    />
+                    {item.type === 'FOLDER' && (
+                        <p className="text-xs text-gray-500 mt-2">하위 폴더와 문서, 섹션, 테스트 케이스가 모두 복제됩니다. 공유 설정은 복제되지 않습니다.</p>
+                    )}
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700 mb-6 cursor-pointer">
+                    <input type="checkbox" className="accent-blue-600" checked={includeHistory} onChange={e => setIncludeHistory(e.target.checked)} />
+                    테스트 케이스 변경 이력 포함
+                </label>
+
+                <div className="flex justify-end gap-3">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-gray-600 font-medium hover:bg-gray-100 rounded-lg transition">
+                        취소
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={isSubmitting || !name.trim()}
+                        className="px-6 py-2 rounded-lg font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+                    >
+                        {isSubmitting ? '복제 중...' : '복제'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
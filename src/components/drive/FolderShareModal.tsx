@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { Share2, X, Trash2 } from 'lucide-react';
+import { Folder, FolderAccess, FolderAccessLevel } from '../../types';
+import { FolderAccessService } from '../../storage';
+import { AuthContext } from '../../context/AuthContext';
+
+const LEVELS: { value: FolderAccessLevel, label: string }[] = [
+    { value: 'VIEWER', label: '보기' },
+    { value: 'EDITOR', label: '편집' },
+    { value: 'OWNER', label: '소유자' },
+];
+
+interface FolderShareModalProps {
+    folder: Folder | null;
+    onClose: () => void;
+}
+
+export const FolderShareModal = ({ folder, onClose }: FolderShareModalProps) => {
+    const { users } = useContext(AuthContext);
+    const [grants, setGrants] = useState<FolderAccess[]>([]);
+    const [userId, setUserId] = useState('');
+    const [level, setLevel] = useState<FolderAccessLevel>('VIEWER');
+    const [error, setError] = useState('');
+
+    const load = async () => {
+        if (!folder) return;
+        try {
+            setGrants(await FolderAccessService.getGrants(folder.id));
+        } catch (e: any) {
+            setError(e?.message || '공유 정보를 불러오지 못했습니다.');
+        }
+    };
+
+    useEffect(() => {
+        setUserId('');
+        setLevel('VIEWER');
+        setError('');
+        load();
+    }, [folder?.id]);
+
+    if (!folder) return null;
+
+    const handleGrant = async (targetUserId: string, targetLevel: FolderAccessLevel) => {
+        setError('');
+        try {
+            await FolderAccessService.grant(folder.id, targetUserId, targetLevel);
+            setUserId('');
+            await load();
+        } catch (e: any) {
+            setError(e?.message || '공유 설정에 실패했습니다.');
+        }
+    };
+
+    const handleRevoke = async (targetUserId: string) => {
+        setError('');
+        try {
+            await FolderAccessService.revoke(folder.id, targetUserId);
+            await load();
+        } catch (e: any) {
+            setError(e?.message || '공유 해제에 실패했습니다.');
+        }
+    };
+
+    const userName = (id: string) => users.find(u => u.id === id)?.name || id;
+    const candidates = users.filter(u => u.status === 'ACTIVE' && u.role !== 'ADMIN' && !grants.some(g => g.userId === u.id));
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6">
+                <div className="flex justify-between items-start mb-4">
+                    <h2 className="text-xl font-bold flex items-center gap-2"><Share2 size={20} /> "{folder.name}" 공유 설정</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+                </div>
+                <p className="text-xs text-gray-500 mb-4">
+                    하위 폴더와 문서에 상속됩니다. 외부(EXTERNAL) 사용자는 공유된 폴더만 볼 수 있습니다.
+                </p>
+
+                <div className="flex gap-2 mb-4">
+                    <select className="flex-1 border rounded p-2 text-sm" value={userId} onChange={e => setUserId(e.target.value)}>
+                        <option value="">사용자 선택...</option>
+                        {candidates.map(u => <option key={u.id} value={u.id}>{u.name} ({u.role})</option>)}
+                    </select>
+                    <select className="border rounded p-2 text-sm" value={level} onChange={e => setLevel(e.target.value as FolderAccessLevel)}>
+                        {LEVELS.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                    </select>
+                    <button
+                        disabled={!userId}
+                        onClick={() => handleGrant(userId, level)}
+                        className="px-3 py-1 bg-primary text-white rounded hover:bg-blue-600 disabled:opacity-50 text-sm"
+                    >
+                        추가
+                    </button>
+                </div>
+
+                <div className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+                    {grants.length === 0 && <div className="p-4 text-sm text-gray-400 text-center">이 폴더에 직접 지정된 권한이 없습니다.</div>}
+                    {grants.map(g => (
+                        <div key={g.id} className="p-2 flex items-center gap-2 text-sm">
+                            <span className="flex-1 truncate">{userName(g.userId)}</span>
+                            <select className="border rounded p-1 text-xs" value={g.level} onChange={e => handleGrant(g.userId, e.target.value as FolderAccessLevel)}>
+                                {LEVELS.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                            </select>
+                            <button onClick={() => handleRevoke(g.userId)} className="p-1 text-gray-400 hover:text-red-500"><Trash2 size={14} /></button>
+                        </div>
+                    ))}
+                </div>
+
+                {error && <div className="mt-4 text-sm text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</div>}
+            </div>
+        </div>
+    );
+};
@@ -7,8 +7,34 @@ interface FolderTreeProps {
     activeFolderId: string | null;
     onFolderClick: (folderId: string | null) => void;
     className?: string;
+    // Drag-and-drop moves (DriveExplorer); omitted means the tree is not a drop target
+    canDrop?: (folderId: string | null) => boolean;
+    onDrop?: (folderId: string | null) => void;
 }
 
+// Drop-target handlers shared by the root row and folder nodes
+const useDropTarget = (folderId: string | null, canDrop?: (id: string | null) => boolean, onDrop?: (id: string | null) => void) => {
+    const [isOver, setIsOver] = useState(false);
+    if (!onDrop) return { isOver: false, handlers: {} };
+    return {
+        isOver,
+        handlers: {
+            onDragOver: (e: React.DragEvent) => {
+                if (!canDrop || canDrop(folderId)) {
+                    e.preventDefault();
+                    setIsOver(true);
+                }
+            },
+            onDragLeave: () => setIsOver(false),
+            onDrop: (e: React.DragEvent) => {
+                e.preventDefault();
+                setIsOver(false);
+                onDrop(folderId);
+            }
+        }
+    };
+};
+
 // Helper to build tree structure
 const buildTree = (folders: FolderType[]) => {
     const map = new Map<string, FolderType & { children: any[] }>();
@@ -32,8 +58,9 @@ const buildTree = (folders: FolderType[]) => {
     return roots;
 };
 
-const TreeNode = ({ node, activeFolderId, onFolderClick, depth = 0 }: any) => {
+const TreeNode = ({ node, activeFolderId, onFolderClick, canDrop, onDrop, depth = 0 }: any) => {
     const [isOpen, setIsOpen] = useState(false);
+    const { isOver, handlers } = useDropTarget(node.id, canDrop, onDrop);
     const hasChildren = node.children && node.children.length > 0;
     const isActive = activeFolderId === node.id;
 
@@ -50,9 +77,10 @@ const TreeNode = ({ node, activeFolderId, onFolderClick, depth = 0 }: any) => {
     return (
         <div>
             <div
-                className={`flex items-center gap-1 py-1 px-2 cursor-pointer rounded transition-colors ${isActive ? 'bg-blue-100 text-blue-700 font-medium' : 'hover:bg-gray-100 text-gray-700'}`}
+                className={`flex items-center gap-1 py-1 px-2 cursor-pointer rounded transition-colors ${isActive ? 'bg-blue-100 text-blue-700 font-medium' : 'hover:bg-gray-100 text-gray-700'} ${isOver ? 'ring-2 ring-blue-400 bg-blue-50' : ''}`}
                 style={{ paddingLeft: `${depth * 16 + 8}px` }}
                 onClick={handleClick}
+                {...handlers}
             >
                 <div onClick={handleToggle} className={`p-0.5 rounded hover:bg-gray-200 ${hasChildren ? 'visible' : 'invisible'}`}>
                     {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
@@ -70,6 +98,8 @@ const TreeNode = ({ node, activeFolderId, onFolderClick, depth = 0 }: any) => {
                             node={child}
                             activeFolderId={activeFolderId}
                             onFolderClick={onFolderClick}
+                            canDrop={canDrop}
+                            onDrop={onDrop}
                             depth={depth + 1}
                         />
                     ))}
@@ -79,14 +109,16 @@ const TreeNode = ({ node, activeFolderId, onFolderClick, depth = 0 }: any) => {
     );
 };
 
-export const FolderTree = ({ folders, activeFolderId, onFolderClick, className = '' }: FolderTreeProps) => {
+export const FolderTree = ({ folders, activeFolderId, onFolderClick, className = '', canDrop, onDrop }: FolderTreeProps) => {
     const treeData = buildTree(folders);
+    const root = useDropTarget(null, canDrop, onDrop);
 
     return (
         <div className={`overflow-y-auto ${className}`}>
             <div
-                className={`flex items-center gap-2 py-1.5 px-3 cursor-pointer rounded mb-1 ${activeFolderId === null ? 'bg-blue-100 text-blue-700 font-bold' : 'hover:bg-gray-100 text-gray-700'}`}
+                className={`flex items-center gap-2 py-1.5 px-3 cursor-pointer rounded mb-1 ${activeFolderId === null ? 'bg-blue-100 text-blue-700 font-bold' : 'hover:bg-gray-100 text-gray-700'} ${root.isOver ? 'ring-2 ring-blue-400 bg-blue-50' : ''}`}
                 onClick={() => onFolderClick(null)}
+                {...root.handlers}
             >
                 <Folder size={16} className="text-gray-400" />
                 <span className="text-sm">My Drive</span>
@@ -98,6 +130,8 @@ export const FolderTree = ({ folders, activeFolderId, onFolderClick, className =
                     node={node}
                     activeFolderId={activeFolderId}
                     onFolderClick={onFolderClick}
+                    canDrop={canDrop}
+                    onDrop={onDrop}
                 />
             ))}
         </div>
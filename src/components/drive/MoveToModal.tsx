@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Folder, FolderInput } from 'lucide-react';
+import { Folder as FolderType, DriveItemRef } from '../../types';
+import { canMoveInto } from '../../utils/folderTree';
+
+interface MoveToModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    folders: FolderType[];
+    items: DriveItemRef[];
+    canManage: (folderId: string | null) => boolean;
+    onMove: (targetFolderId: string | null) => Promise<void>;
+}
+
+// Keyboard-friendly alternative to drag-and-drop: a radio list of every valid target folder
+export const MoveToModal = ({ isOpen, onClose, folders, items, canManage, onMove }: MoveToModalProps) => {
+    const [target, setTarget] = useState<string | null | undefined>(undefined);
+    const [isMoving, setIsMoving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setTarget(undefined);
+    }, [isOpen]);
+
+    // Depth-first, so children follow their parent
+    const options = useMemo(() => {
+        const rows: { folder: FolderType, depth: number }[] = [];
+        const visit = (parentId: string | null, depth: number) => {
+            folders
+                .filter(f => (f.parentId || null) === parentId)
+                .forEach(f => { rows.push({ folder: f, depth }); visit(f.id, depth + 1); });
+        };
+        visit(null, 0);
+        return rows;
+    }, [folders]);
+
+    if (!isOpen) return null;
+
+    const isValid = (folderId: string | null) => canManage(folderId) && canMoveInto(folders, items, folderId);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (target === undefined) return;
+        setIsMoving(true);
+        try {
+            await onMove(target);
+            onClose();
+        } finally {
+            setIsMoving(false);
+        }
+    };
+
+    const renderOption = (folderId: string | null, label: string, depth: number) => (
+        <label
+            key={folderId || 'root'}
+            className={`flex items-center gap-2 py-1.5 pr-2 rounded text-sm ${isValid(folderId) ? 'cursor-pointer hover:bg-gray-50' : 'text-gray-300 cursor-not-allowed'}`}
+            style={{ paddingLeft: `${depth * 16 + 8}px` }}
+        >
+            <input
+                type="radio"
+                name="move-target"
+                className="accent-blue-600"
+                disabled={!isValid(folderId)}
+                checked={target === folderId}
+                onChange={() => setTarget(folderId)}
+            />
+            <Folder size={14} className={isValid(folderId) ? 'text-yellow-500' : 'text-gray-300'} />
+            <span className="truncate">{label}</span>
+        </label>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6">
+                <div className="flex justify-between items-start mb-4">
+                    <h2 className="text-xl font-bold flex items-center gap-2"><FolderInput size={20} /> {items.length}개 항목 이동</h2>
+                    <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+                </div>
+
+                <div className="border rounded-lg p-2 max-h-80 overflow-y-auto mb-6">
+                    {renderOption(null, 'My Drive', 0)}
+                    {options.map(({ folder, depth }) => renderOption(folder.id, folder.name, depth + 1))}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-gray-600 font-medium hover:bg-gray-100 rounded-lg transition">
+                        취소
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={target === undefined || isMoving}
+                        className="px-6 py-2 rounded-lg font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                    >
+                        {isMoving ? '이동 중...' : '이동'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
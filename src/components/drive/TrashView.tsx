@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { Trash2, RotateCcw, Folder, FileText, FolderTree, ListChecks } from 'lucide-react';
+import { TrashItem, TrashItemType } from '../../types';
+import { TrashService } from '../../storage';
+import { AuthContext } from '../../context/AuthContext';
+import { LoadingSpinner } from '../common/Loading';
+
+const TYPE_META: Record<TrashItemType, { label: string, icon: React.ReactNode }> = {
+    FOLDER: { label: '폴더', icon: <Folder size={16} className="text-blue-400" /> },
+    DOCUMENT: { label: '문서', icon: <FileText size={16} className="text-purple-400" /> },
+    SECTION: { label: '섹션', icon: <FolderTree size={16} className="text-gray-500" /> },
+    CASE: { label: '케이스', icon: <ListChecks size={16} className="text-gray-500" /> },
+};
+
+export const TrashView = () => {
+    const { users } = useContext(AuthContext);
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            setItems(await TrashService.list());
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => { loadData(); }, []);
+
+    const getUserName = (id: string | null) => (id && users.find(u => u.id === id)?.name) || '-';
+
+    const handleRestore = async (item: TrashItem) => {
+        try {
+            await TrashService.restore(item.id);
+            await loadData();
+        } catch (e: any) {
+            alert(e?.message || '복원에 실패했습니다.');
+        }
+    };
+
+    const handlePurge = async (item: TrashItem) => {
+        if (!window.confirm(`"${item.title}"을(를) 영구 삭제하시겠습니까?\n하위 항목과 관련 테스트 결과가 모두 삭제되며 되돌릴 수 없습니다.`)) return;
+        try {
+            await TrashService.purge(item.id);
+            await loadData();
+        } catch (e: any) {
+            alert(e?.message || '영구 삭제에 실패했습니다.');
+        }
+    };
+
+    return (
+        <div className="p-8 max-w-5xl mx-auto">
+            <h2 className="text-2xl font-bold mb-2 flex items-center gap-2"><Trash2 /> 휴지통</h2>
+            <p className="text-sm text-gray-500 mb-6">삭제된 항목은 {TrashService.RETENTION_DAYS}일 후 영구 삭제됩니다. 복원하면 하위 항목도 함께 복원됩니다.</p>
+
+            {loading ? (
+                <LoadingSpinner />
+            ) : items.length === 0 ? (
+                <div className="bg-white rounded shadow p-12 text-center text-gray-400">휴지통이 비어있습니다.</div>
+            ) : (
+                <div className="bg-white rounded shadow overflow-hidden">
+                    <table className="w-full text-left">
+                        <thead className="bg-gray-50 border-b">
+                            <tr>
+                                <th className="p-4">이름</th>
+                                <th className="p-4">종류</th>
+                                <th className="p-4">삭제한 사람</th>
+                                <th className="p-4">삭제일</th>
+                                <th className="p-4 text-right">관리</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                            {items.map(item => (
+                                <tr key={item.id} className="hover:bg-gray-50">
+                                    <td className="p-4 font-bold">
+                                        <div className="flex items-center gap-2">{TYPE_META[item.itemType].icon} <span className="truncate">{item.title}</span></div>
+                                    </td>
+                                    <td className="p-4 text-gray-600 text-sm">{TYPE_META[item.itemType].label}</td>
+                                    <td className="p-4 text-gray-600 text-sm">{getUserName(item.deletedBy)}</td>
+                                    <td className="p-4 text-gray-600 text-sm">{new Date(item.deletedAt).toLocaleString()}</td>
+                                    <td className="p-4">
+                                        <div className="flex justify-end gap-1">
+                                            <button onClick={() => handleRestore(item)} className="px-2 py-1 rounded hover:bg-blue-50 text-blue-600 text-sm flex items-center gap-1">
+                                                <RotateCcw size={14} /> 복원
+                                            </button>
+                                            <button onClick={() => handlePurge(item)} className="px-2 py-1 rounded hover:bg-red-50 text-red-600 text-sm flex items-center gap-1">
+                                                <Trash2 size={14} /> 영구 삭제
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,13 +1,15 @@
 import React, { useContext } from 'react';
 import { Link, NavLink, useNavigate } from 'react-router-dom';
 import {
-    LayoutGrid, FolderTree, PlayCircle, Settings, LogOut
+    LayoutGrid, FolderTree, PlayCircle, Settings, LogOut, Trash2, Bug
 } from 'lucide-react';
 import { AuthContext } from '../../context/AuthContext';
+import { usePermission } from '../../hooks/usePermission';
 
 export const Sidebar = () => {
     const { user, logout } = useContext(AuthContext);
     const navigate = useNavigate();
+    const can = usePermission();
 
     if (!user) return null;
 
@@ -35,7 +37,21 @@ export const Sidebar = () => {
                     <PlayCircle size={18} /> Test Runs
                 </NavLink>
 
-                {user.role === 'ADMIN' && (
+                <NavLink
+                    to="/defects"
+                    className={({ isActive }) => `w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition ${isActive ? 'bg-primary text-white shadow-lg shadow-blue-900/50' : 'text-gray-400 hover:bg-gray-800 hover:text-white'}`}
+                >
+                    <Bug size={18} /> Defects
+                </NavLink>
+
+                <NavLink
+                    to="/trash"
+                    className={({ isActive }) => `w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition ${isActive ? 'bg-primary text-white shadow-lg shadow-blue-900/50' : 'text-gray-400 hover:bg-gray-800 hover:text-white'}`}
+                >
+                    <Trash2 size={18} /> Trash
+                </NavLink>
+
+                {can('MANAGE_USERS') && (
                     <NavLink
                         to="/admin"
                         className={({ isActive }) => `w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition ${isActive ? 'bg-primary text-white shadow-lg shadow-blue-900/50' : 'text-gray-400 hover:bg-gray-800 hover:text-white'}`}
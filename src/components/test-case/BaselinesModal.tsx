@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { Milestone, X, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { Baseline } from '../../types';
+import { BaselineService, TestCaseService } from '../../storage';
+import { AuthContext } from '../../context/AuthContext';
+import { CaseSetDiffEntry, CaseSetDiffStatus, diffCaseSets } from '../../utils/caseDiff';
+import { CaseUpdateDiff } from '../test-run/CaseUpdateDiff';
+
+const STATUS_STYLES: Record<CaseSetDiffStatus, { label: string, className: string }> = {
+    ADDED: { label: '추가', className: 'bg-green-100 text-green-700' },
+    REMOVED: { label: '삭제', className: 'bg-red-100 text-red-700' },
+    CHANGED: { label: '변경', className: 'bg-amber-100 text-amber-700' },
+    UNCHANGED: { label: '동일', className: 'bg-gray-100 text-gray-500' },
+};
+
+// Named baselines of a document and a comparison of one baseline against the current cases or another baseline
+export const BaselinesModal = ({
+    isOpen, onClose, documentId, documentTitle, canManage
+}: {
+    isOpen: boolean,
+    onClose: () => void,
+    documentId: string,
+    documentTitle: string,
+    canManage: boolean
+}) => {
+    const { user } = useContext(AuthContext);
+    const [baselines, setBaselines] = useState<Baseline[]>([]);
+    const [name, setName] = useState('');
+    const [selectedId, setSelectedId] = useState('');
+    const [compareTo, setCompareTo] = useState(''); // '' = current document
+    const [entries, setEntries] = useState<CaseSetDiffEntry[] | null>(null);
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const load = async () => setBaselines(await BaselineService.getForDocument(documentId));
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setName('');
+        setSelectedId('');
+        setCompareTo('');
+        setEntries(null);
+        setError('');
+        load();
+    }, [isOpen, documentId]);
+
+    useEffect(() => {
+        if (!selectedId) return setEntries(null);
+        setEntries(null);
+        setExpandedId(null);
+        Promise.all([
+            BaselineService.getCases(selectedId),
+            compareTo ? BaselineService.getCases(compareTo) : TestCaseService.getCases(documentId)
+        ]).then(([before, after]) => setEntries(diffCaseSets(before, after)));
+    }, [selectedId, compareTo]);
+
+    if (!isOpen) return null;
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        setError('');
+        setSaving(true);
+        try {
+            const created = await BaselineService.create(documentId, name, user);
+            setName('');
+            await load();
+            setSelectedId(created.id);
+        } catch (err: any) {
+            setError(err?.message || '베이스라인을 만들지 못했습니다.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRemove = async (baseline: Baseline) => {
+        if (!window.confirm(`"${baseline.name}" 베이스라인을 삭제하시겠습니까?`)) return;
+        try {
+            await BaselineService.remove(baseline.id);
+            if (selectedId === baseline.id) setSelectedId('');
+            if (compareTo === baseline.id) setCompareTo('');
+            load();
+        } catch (err: any) {
+            setError(err?.message || '삭제에 실패했습니다.');
+        }
+    };
+
+    const selected = baselines.find(b => b.id === selectedId);
+    const counts = (entries || []).reduce((acc, e) => ({ ...acc, [e.status]: (acc[e.status] || 0) + 1 }), {} as Record<CaseSetDiffStatus, number>);
+    const visible = (entries || []).filter(e => showUnchanged || e.status !== 'UNCHANGED');
+    const afterLabel = compareTo ? baselines.find(b => b.id === compareTo)?.name || '' : '현재';
+
+    return (
+        <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-[1000px] h-[80vh] flex flex-col">
+                <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+                    <h2 className="text-lg font-bold flex items-center gap-2"><Milestone size={20} /> "{documentTitle}" 베이스라인</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 flex overflow-hidden">
+                    <div className="w-72 border-r bg-gray-50 flex flex-col">
+                        {canManage && (
+                            <form onSubmit={handleCreate} className="p-3 border-b space-y-2">
+                                <input className="w-full border rounded p-2 text-sm" value={name} onChange={e => setName(e.target.value)} placeholder="예: v2.3 release baseline" />
+                                <button type="submit" disabled={!name.trim() || saving} className="w-full py-1.5 bg-primary text-white rounded text-sm font-semibold hover:bg-blue-600 disabled:opacity-50">
+                                    현재 상태로 베이스라인 만들기
+                                </button>
+                            </form>
+                        )}
+                        <div className="flex-1 overflow-y-auto">
+                            {baselines.length === 0 && <div className="p-4 text-sm text-gray-400 text-center">베이스라인이 없습니다.</div>}
+                            {baselines.map(b => (
+                                <div
+                                    key={b.id}
+                                    onClick={() => setSelectedId(b.id)}
+                                    className={`p-3 border-b cursor-pointer flex items-start gap-2 ${selectedId === b.id ? 'bg-white border-l-4 border-l-primary shadow-sm' : 'hover:bg-gray-100'}`}
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-sm font-bold text-gray-800 truncate">{b.name}</div>
+                                        <div className="text-xs text-gray-500">{new Date(b.createdAt).toLocaleString()} · {b.caseCount} cases</div>
+                                    </div>
+                                    {canManage && (
+                                        <button onClick={e => { e.stopPropagation(); handleRemove(b); }} className="p-1 text-gray-400 hover:text-red-500"><Trash2 size={14} /></button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex-1 flex flex-col overflow-hidden">
+                        {!selected ? (
+                            <div className="flex-1 flex items-center justify-center text-gray-400 text-sm">좌측에서 베이스라인을 선택하면 비교합니다.</div>
+                        ) : (
+                            <>
+                                <div className="p-3 border-b flex items-center gap-2 text-sm">
+                                    <span className="font-bold">{selected.name}</span>
+                                    <span className="text-gray-400">→</span>
+                                    <select className="border rounded p-1 bg-white" value={compareTo} onChange={e => setCompareTo(e.target.value)}>
+                                        <option value="">현재 문서</option>
+                                        {baselines.filter(b => b.id !== selectedId).map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                                    </select>
+                                    <div className="ml-auto flex items-center gap-1">
+                                        {(['ADDED', 'REMOVED', 'CHANGED', 'UNCHANGED'] as CaseSetDiffStatus[]).map(status => (
+                                            <span key={status} className={`text-xs px-2 py-0.5 rounded font-bold ${STATUS_STYLES[status].className}`}>
+                                                {STATUS_STYLES[status].label} {counts[status] || 0}
+                                            </span>
+                                        ))}
+                                        <label className="ml-2 text-xs text-gray-500 flex items-center gap-1">
+                                            <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} /> 동일 포함
+                                        </label>
+                                    </div>
+                                </div>
+                                <div className="flex-1 overflow-y-auto divide-y">
+                                    {entries === null && <div className="p-4 text-center text-gray-400 text-sm">Loading...</div>}
+                                    {entries && visible.length === 0 && <div className="p-4 text-center text-gray-400 text-sm">차이가 없습니다.</div>}
+                                    {visible.map(entry => {
+                                        const tc = (entry.after || entry.before)!;
+                                        const expandable = entry.status === 'CHANGED';
+                                        return (
+                                            <div key={entry.caseId}>
+                                                <div
+                                                    onClick={() => expandable && setExpandedId(expandedId === entry.caseId ? null : entry.caseId)}
+                                                    className={`px-3 py-2 flex items-center gap-2 text-sm ${expandable ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                                                >
+                                                    {expandable
+                                                        ? (expandedId === entry.caseId ? <ChevronDown size={14} className="text-gray-400" /> : <ChevronRight size={14} className="text-gray-400" />)
+                                                        : <span className="w-[14px]" />}
+                                                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${STATUS_STYLES[entry.status].className}`}>{STATUS_STYLES[entry.status].label}</span>
+                                                    <span className="font-mono text-gray-400">#{tc.seq_id}</span>
+                                                    <span className={`truncate ${entry.status === 'REMOVED' ? 'line-through text-gray-400' : ''}`}>{tc.title}</span>
+                                                    {expandable && <span className="ml-auto text-xs text-gray-400 flex-shrink-0">{entry.changes.map(c => c.label).join(', ')}</span>}
+                                                </div>
+                                                {expandable && expandedId === entry.caseId && (
+                                                    <div className="px-3 pb-3">
+                                                        <CaseUpdateDiff changes={entry.changes} documentId={documentId} beforeLabel={selected.name} afterLabel={afterLabel} />
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </>
+                        )}
+                        {error && <div className="m-3 text-sm text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</div>}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
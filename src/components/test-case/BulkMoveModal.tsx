@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { X, FolderInput } from 'lucide-react';
+import { Document, Section } from '@/src/types';
+import { DriveService, TestCaseService } from '@/src/storage';
+import { flattenSectionTree } from '../../utils/sectionTree';
+
+// Target picker for bulk "move to section / document"
+export const BulkMoveModal = ({
+    isOpen, onClose, count, currentDocumentId, canManageDocument, onMove
+}: {
+    isOpen: boolean,
+    onClose: () => void,
+    count: number,
+    currentDocumentId: string,
+    canManageDocument: (doc: Document) => boolean,
+    onMove: (sectionId: string) => Promise<void>
+}) => {
+    const [documents, setDocuments] = useState<Document[]>([]);
+    const [documentId, setDocumentId] = useState(currentDocumentId);
+    const [sections, setSections] = useState<Section[]>([]);
+    const [sectionId, setSectionId] = useState('');
+    const [isMoving, setIsMoving] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setDocumentId(currentDocumentId);
+        DriveService.getAllDocuments().then(docs => setDocuments(docs.filter(canManageDocument)));
+    }, [isOpen, currentDocumentId]);
+
+    useEffect(() => {
+        if (!isOpen || !documentId) return;
+        setSectionId('');
+        TestCaseService.getSections(documentId).then(setSections);
+    }, [isOpen, documentId]);
+
+    if (!isOpen) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!sectionId) return;
+        setIsMoving(true);
+        try {
+            await onMove(sectionId);
+            onClose();
+        } finally {
+            setIsMoving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6 space-y-4">
+                <div className="flex justify-between items-start">
+                    <h2 className="text-xl font-bold flex items-center gap-2"><FolderInput size={20} /> {count}개 케이스 이동</h2>
+                    <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+                </div>
+                <div>
+                    <label className="block text-sm font-bold text-gray-700 mb-1">Document</label>
+                    <select className="w-full border rounded-lg p-2 bg-white" value={documentId} onChange={e => setDocumentId(e.target.value)}>
+                        {documents.map(d => <option key={d.id} value={d.id}>{d.title}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-bold text-gray-700 mb-1">Section</label>
+                    <select className="w-full border rounded-lg p-2 bg-white" value={sectionId} onChange={e => setSectionId(e.target.value)}>
+                        <option value="">섹션 선택...</option>
+                        {flattenSectionTree(sections).map(({ section: s, depth }) => (
+                            <option key={s.id} value={s.id}>{'\u00A0\u00A0\u00A0'.repeat(depth)}{s.title}</option>
+                        ))}
+                    </select>
+                    {sections.length === 0 && <p className="text-xs text-gray-500 mt-1">이 문서에는 섹션이 없습니다.</p>}
+                </div>
+                <div className="flex justify-end gap-3 pt-2">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-gray-600 font-medium hover:bg-gray-100 rounded-lg transition">취소</button>
+                    <button
+                        type="submit"
+                        disabled={!sectionId || isMoving}
+                        className="px-6 py-2 rounded-lg font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                    >
+                        {isMoving ? '이동 중...' : '이동'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
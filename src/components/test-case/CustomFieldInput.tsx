@@ -0,0 +1,43 @@
+import React from 'react';
+import { CustomField, CustomFieldValues, User } from '@/src/types';
+
+type Value = CustomFieldValues[string] | undefined;
+
+// Editor control for one custom field; empty input is stored as null
+export const CustomFieldInput = ({
+    field, value, users, onChange
+}: {
+    field: CustomField,
+    value: Value,
+    users: User[],
+    onChange: (value: string | number | null) => void
+}) => {
+    const className = 'w-full border rounded-lg p-2 bg-white focus:ring-2 focus:ring-blue-500 outline-none';
+    const text = value === null || value === undefined ? '' : String(value);
+
+    switch (field.fieldType) {
+        case 'SELECT': {
+            // Keep an imported value that is not (or no longer) one of the options
+            const options = text && !field.options.includes(text) ? [...field.options, text] : field.options;
+            return (
+                <select className={className} value={text} onChange={e => onChange(e.target.value || null)}>
+                    <option value="">-</option>
+                    {options.map(o => <option key={o} value={o}>{o}</option>)}
+                </select>
+            );
+        }
+        case 'USER':
+            return (
+                <select className={className} value={text} onChange={e => onChange(e.target.value || null)}>
+                    <option value="">-</option>
+                    {users.filter(u => u.status === 'ACTIVE' || u.id === text).map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                </select>
+            );
+        case 'NUMBER':
+            return <input type="number" className={className} value={text} onChange={e => onChange(e.target.value === '' ? null : Number(e.target.value))} />;
+        case 'DATE':
+            return <input type="date" className={className} value={text} onChange={e => onChange(e.target.value || null)} />;
+        default:
+            return <input className={className} value={text} onChange={e => onChange(e.target.value || null)} />;
+    }
+};
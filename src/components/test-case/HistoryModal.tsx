@@ -1,89 +1,234 @@
 import React, { useState, useEffect } from 'react';
-import { History, XCircle } from 'lucide-react';
-import { HistoryLog } from '../../types';
+import { History, XCircle, RotateCcw } from 'lucide-react';
+import { CaseVersion, HistoryLog } from '../../types';
 import { StepDiffViewer } from './StepDiffViewer';
+import { formatTextWithNumbers } from '../../utils/formatters';
+import { diffSteps, summarizeStepOperations } from '../../utils/stepDiff';
+import { reviewStatusInfo } from '../../utils/review';
+import { getParameterRows, parameterRowLabel } from '../../utils/parameters';
 
-export const HistoryModal = ({ isOpen, onClose, logs }: { isOpen: boolean, onClose: () => void, logs: HistoryLog[] }) => {
+// Parameter tables are shown one data row per line
+const changeValueText = (field: string, value: any) => {
+    if (field === 'parameters') return value ? getParameterRows({ parameters: value }).map(r => parameterRowLabel(value, r)).join('\n') : '(Empty)';
+    return String(value || '(Empty)');
+};
+
+// Full content of one version (versions tab)
+const VersionView = ({ version, fieldLabels }: { version: CaseVersion, fieldLabels: Record<string, string> }) => {
+    const c = version.snapshot;
+    const customValues = Object.entries(c.customFields || {}).filter(([, v]) => v !== null && v !== '');
+    return (
+        <div className="space-y-4 text-sm">
+            <h4 className="font-bold text-xl">{c.title}</h4>
+            <div className="flex flex-wrap gap-2 text-xs">
+                <span className="px-2 py-0.5 rounded bg-gray-100 border">{c.priority}</span>
+                <span className="px-2 py-0.5 rounded bg-gray-100 border">{c.type}</span>
+                <span className="px-2 py-0.5 rounded bg-gray-100 border">{c.platform_type || 'WEB'}</span>
+                {(c.tags || []).map(tag => <span key={tag} className="px-2 py-0.5 rounded bg-blue-50 text-blue-700 border border-blue-100">{tag}</span>)}
+            </div>
+            {c.precondition && (
+                <div className="bg-yellow-50 p-3 rounded border border-yellow-200 whitespace-pre-wrap">{formatTextWithNumbers(c.precondition)}</div>
+            )}
+            <div className="border rounded divide-y">
+                {(c.steps || []).map((step, i) => (
+                    <div key={step.id || i} className="grid grid-cols-12 gap-2 p-2">
+                        <div className="col-span-1 text-gray-400 font-bold text-center">{i + 1}</div>
+                        <div className="col-span-6 whitespace-pre-wrap">{step.step}</div>
+                        <div className="col-span-5 whitespace-pre-wrap text-gray-600 border-l pl-2">{step.expected}</div>
+                    </div>
+                ))}
+                {(c.steps || []).length === 0 && <div className="p-2 text-gray-400 text-center">스텝 없음</div>}
+            </div>
+            {getParameterRows(c).length > 0 && (
+                <div className="text-xs space-y-0.5">
+                    <div className="font-bold text-gray-500">{fieldLabels.parameters || 'parameters'}</div>
+                    {getParameterRows(c).map(r => <div key={r.id} className="font-mono text-gray-700">{parameterRowLabel(c.parameters!, r)}</div>)}
+                </div>
+            )}
+            {customValues.length > 0 && (
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                    {customValues.map(([key, value]) => (
+                        <div key={key}><span className="font-bold text-gray-500">{fieldLabels[`customFields.${key}`] || key}:</span> {String(value)}</div>
+                    ))}
+                </div>
+            )}
+            {c.note && <div className="text-gray-600 whitespace-pre-wrap"><strong>Note:</strong> {c.note}</div>}
+        </div>
+    );
+};
+
+// "Draft → In Review" for review workflow transitions
+const transitionLabel = (log: HistoryLog) => {
+    const change = log.changes.find(c => c.field === 'reviewStatus');
+    return change ? `${reviewStatusInfo(change.oldVal).label} → ${reviewStatusInfo(change.newVal).label}` : 'Review';
+};
+
+// fieldLabels: display names for change fields that are not columns (custom fields)
+// versions / onRestore: full case versions; restoring is only offered when onRestore is given
+export const HistoryModal = ({
+    isOpen, onClose, logs, fieldLabels = {}, versions = [], onRestore
+}: {
+    isOpen: boolean,
+    onClose: () => void,
+    logs: HistoryLog[],
+    fieldLabels?: Record<string, string>,
+    versions?: CaseVersion[],
+    onRestore?: (version: CaseVersion) => void
+}) => {
+    const [tab, setTab] = useState<'LOGS' | 'VERSIONS'>('LOGS');
     const [selectedLog, setSelectedLog] = useState<HistoryLog | null>(null);
+    const [selectedVersion, setSelectedVersion] = useState<CaseVersion | null>(null);
 
     useEffect(() => {
         if (isOpen && logs.length > 0) setSelectedLog(logs[0]);
     }, [isOpen, logs]);
 
+    useEffect(() => {
+        if (isOpen) setSelectedVersion(versions[0] || null);
+    }, [isOpen, versions]);
+
+    useEffect(() => {
+        if (isOpen) setTab('LOGS');
+    }, [isOpen]);
+
     if (!isOpen) return null;
 
+    const latestVersion = versions[0]?.version;
+    const versionOf = (number?: number | null) => versions.find(v => v.version === number);
+
+    const restoreButton = (version: CaseVersion | undefined) => onRestore && version && version.version !== latestVersion && (
+        <button
+            onClick={() => window.confirm(`v${version.version}의 내용으로 복원하시겠습니까?\n\n현재 내용은 새 버전으로 이력에 남습니다.`) && onRestore(version)}
+            className="flex items-center gap-1 px-3 py-1.5 border rounded text-sm font-semibold text-blue-600 hover:bg-blue-50"
+        >
+            <RotateCcw size={14} /> 이 버전으로 복원
+        </button>
+    );
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[80]">
             <div className="bg-white rounded-lg shadow-xl w-[900px] h-[70vh] flex flex-col">
                 <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-lg">
                     <h3 className="font-bold text-lg flex items-center gap-2"><History size={20} /> 변경 이력 (History Timeline)</h3>
-                    <button onClick={onClose}><XCircle size={20} /></button>
+                    <div className="flex items-center gap-4">
+                        <div className="flex gap-1 bg-gray-200 p-1 rounded text-sm">
+                            <button onClick={() => setTab('LOGS')} className={`px-3 py-1 rounded font-semibold ${tab === 'LOGS' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>변경 이력</button>
+                            <button onClick={() => setTab('VERSIONS')} className={`px-3 py-1 rounded font-semibold ${tab === 'VERSIONS' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>버전 ({versions.length})</button>
+                        </div>
+                        <button onClick={onClose}><XCircle size={20} /></button>
+                    </div>
                 </div>
-                <div className="flex-1 flex overflow-hidden">
-                    {/* Timeline List */}
-                    <div className="w-1/3 border-r bg-gray-50 overflow-y-auto">
-                        {logs.length === 0 && <div className="p-4 text-gray-500 text-center text-sm">변경 이력이 없습니다.</div>}
-                        {logs.map((log, idx) => (
-                            <div
-                                key={log.id}
-                                onClick={() => setSelectedLog(log)}
-                                className={`p-4 border-b cursor-pointer transition ${selectedLog?.id === log.id ? 'bg-white border-l-4 border-l-primary shadow-sm' : 'hover:bg-gray-100'}`}
-                            >
-                                <div className="flex items-center gap-2 mb-1">
-                                    <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold text-xs">{log.modifierName.charAt(0)}</div>
-                                    <div>
-                                        <div className="text-sm font-bold text-gray-800">{log.modifierName}</div>
-                                        <div className="text-xs text-gray-500">{new Date(log.timestamp).toLocaleString()}</div>
+                {tab === 'VERSIONS' ? (
+                    <div className="flex-1 flex overflow-hidden">
+                        <div className="w-1/3 border-r bg-gray-50 overflow-y-auto">
+                            {versions.length === 0 && <div className="p-4 text-gray-500 text-center text-sm">저장된 버전이 없습니다. 케이스를 수정하면 버전이 기록됩니다.</div>}
+                            {versions.map(v => (
+                                <div
+                                    key={v.id}
+                                    onClick={() => setSelectedVersion(v)}
+                                    className={`p-4 border-b cursor-pointer transition ${selectedVersion?.id === v.id ? 'bg-white border-l-4 border-l-primary shadow-sm' : 'hover:bg-gray-100'}`}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-mono font-bold text-gray-800">v{v.version}</span>
+                                        {v.version === latestVersion && <span className="text-[10px] px-1.5 rounded bg-blue-100 text-blue-700 font-bold">현재</span>}
                                     </div>
+                                    <div className="text-xs text-gray-500 mt-1">{v.authorName || '버전 기록 이전 상태'} · {new Date(v.createdAt).toLocaleString()}</div>
                                 </div>
-                                <div className="mt-2 text-xs font-semibold text-gray-600">
-                                    {log.action === 'CREATE' ? 'Created Case' :
-                                        log.changes.length > 0 ? `${log.changes.length} fields changed` : 'Updated'}
+                            ))}
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-6 bg-white">
+                            {selectedVersion ? (
+                                <div className="space-y-4">
+                                    <div className="flex justify-between items-center border-b pb-4">
+                                        <span className="font-mono font-bold text-gray-500">v{selectedVersion.version}</span>
+                                        {restoreButton(selectedVersion)}
+                                    </div>
+                                    <VersionView version={selectedVersion} fieldLabels={fieldLabels} />
                                 </div>
-                            </div>
-                        ))}
+                            ) : (
+                                <div className="flex items-center justify-center h-full text-gray-400">좌측 목록에서 버전을 선택하세요.</div>
+                            )}
+                        </div>
                     </div>
-                    {/* Diff View */}
-                    <div className="flex-1 overflow-y-auto p-6 bg-white">
-                        {selectedLog ? (
-                            <div className="space-y-6">
-                                <div className="flex justify-between items-center border-b pb-4">
-                                    <h4 className="font-bold text-xl">{selectedLog.action}</h4>
-                                    <span className="text-sm text-gray-500">{new Date(selectedLog.timestamp).toLocaleString()}</span>
+                ) : (
+                    <div className="flex-1 flex overflow-hidden">
+                        {/* Timeline List */}
+                        <div className="w-1/3 border-r bg-gray-50 overflow-y-auto">
+                            {logs.length === 0 && <div className="p-4 text-gray-500 text-center text-sm">변경 이력이 없습니다.</div>}
+                            {logs.map((log, idx) => (
+                                <div
+                                    key={log.id}
+                                    onClick={() => setSelectedLog(log)}
+                                    className={`p-4 border-b cursor-pointer transition ${selectedLog?.id === log.id ? 'bg-white border-l-4 border-l-primary shadow-sm' : 'hover:bg-gray-100'}`}
+                                >
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold text-xs">{log.modifierName.charAt(0)}</div>
+                                        <div>
+                                            <div className="text-sm font-bold text-gray-800">{log.modifierName}</div>
+                                            <div className="text-xs text-gray-500">{new Date(log.timestamp).toLocaleString()}</div>
+                                        </div>
+                                    </div>
+                                    <div className="mt-2 text-xs font-semibold text-gray-600 flex items-center gap-2">
+                                        {log.action === 'CREATE' ? 'Created Case' :
+                                            log.action === 'DELETE' ? 'Moved to Trash' :
+                                            log.action === 'RESTORE' ? `Restored v${log.restoredFrom}` :
+                                            log.action === 'TRANSITION' ? transitionLabel(log) :
+                                            log.changes.length > 0 ? `${log.changes.length} fields changed` : 'Updated'}
+                                        {log.version && <span className="font-mono text-[10px] px-1 rounded bg-gray-200 text-gray-600">v{log.version}</span>}
+                                    </div>
                                 </div>
-                                {selectedLog.changes.map((change, idx) => (
-                                    <div key={idx} className="bg-gray-50 p-4 rounded border border-gray-200">
-                                        <div className="font-bold text-sm text-gray-700 uppercase mb-3 border-b border-gray-200 pb-1">{change.field}</div>
+                            ))}
+                        </div>
+                        {/* Diff View */}
+                        <div className="flex-1 overflow-y-auto p-6 bg-white">
+                            {selectedLog ? (
+                                <div className="space-y-6">
+                                    <div className="flex justify-between items-center border-b pb-4">
+                                        <h4 className="font-bold text-xl">{selectedLog.action}{selectedLog.version && <span className="ml-2 font-mono text-base text-gray-400">v{selectedLog.version}</span>}</h4>
+                                        <div className="flex items-center gap-3">
+                                            <span className="text-sm text-gray-500">{new Date(selectedLog.timestamp).toLocaleString()}</span>
+                                            {restoreButton(versionOf(selectedLog.version))}
+                                        </div>
+                                    </div>
+                                    {selectedLog.changes.map((change, idx) => (
+                                        <div key={idx} className="bg-gray-50 p-4 rounded border border-gray-200">
+                                            <div className="font-bold text-sm text-gray-700 uppercase mb-3 border-b border-gray-200 pb-1 flex justify-between">
+                                                {fieldLabels[change.field] || change.field}
+                                                {change.field === 'steps' && (
+                                                    <span className="font-mono normal-case text-gray-500">{summarizeStepOperations(change.operations || diffSteps(change.oldVal || [], change.newVal || []))}</span>
+                                                )}
+                                            </div>
 
-                                        {change.field === 'steps' ? (
-                                            <StepDiffViewer oldSteps={change.oldVal || []} newSteps={change.newVal || []} />
-                                        ) : (
-                                            <div className="grid grid-cols-2 gap-4 text-sm">
-                                                <div className="bg-red-50 p-2 rounded border border-red-100">
-                                                    <div className="text-xs font-bold text-red-400 mb-1">BEFORE</div>
-                                                    <div className="text-red-900 whitespace-pre-wrap break-words">{String(change.oldVal || '(Empty)')}</div>
-                                                </div>
-                                                <div className="bg-green-50 p-2 rounded border border-green-100">
-                                                    <div className="text-xs font-bold text-green-400 mb-1">AFTER</div>
-                                                    <div className="text-green-900 whitespace-pre-wrap break-words">{String(change.newVal || '(Empty)')}</div>
+                                            {change.field === 'steps' ? (
+                                                <StepDiffViewer oldSteps={change.oldVal || []} newSteps={change.newVal || []} operations={change.operations} />
+                                            ) : (
+                                                <div className="grid grid-cols-2 gap-4 text-sm">
+                                                    <div className="bg-red-50 p-2 rounded border border-red-100">
+                                                        <div className="text-xs font-bold text-red-400 mb-1">BEFORE</div>
+                                                        <div className="text-red-900 whitespace-pre-wrap break-words">{changeValueText(change.field, change.oldVal)}</div>
+                                                    </div>
+                                                    <div className="bg-green-50 p-2 rounded border border-green-100">
+                                                        <div className="text-xs font-bold text-green-400 mb-1">AFTER</div>
+                                                        <div className="text-green-900 whitespace-pre-wrap break-words">{changeValueText(change.field, change.newVal)}</div>
+                                                    </div>
                                                 </div>
-                                            </div>
-                                        )}
-                                    </div>
-                                ))}
-                                {selectedLog.changes.length === 0 && selectedLog.action === 'CREATE' && (
-                                    <div className="text-center py-10 text-gray-400">
-                                        초기 생성 버전입니다.
-                                    </div>
-                                )}
-                            </div>
-                        ) : (
-                            <div className="flex items-center justify-center h-full text-gray-400">
-                                좌측 목록에서 이력을 선택하세요.
-                            </div>
-                        )}
+                                            )}
+                                        </div>
+                                    ))}
+                                    {selectedLog.changes.length === 0 && selectedLog.action === 'CREATE' && (
+                                        <div className="text-center py-10 text-gray-400">
+                                            초기 생성 버전입니다.
+                                        </div>
+                                    )}
+                                </div>
+                            ) : (
+                                <div className="flex items-center justify-center h-full text-gray-400">
+                                    좌측 목록에서 이력을 선택하세요.
+                                </div>
+                            )}
+                        </div>
                     </div>
-                </div>
+                )}
             </div>
         </div>
     );
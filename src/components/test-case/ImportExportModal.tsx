@@ -1,17 +1,22 @@
 import React, { useState, useEffect, useRef, useContext } from 'react';
 import { ArrowRightLeft, FileText, Bug, Download, AlertTriangle, Upload, Smartphone, Monitor } from 'lucide-react';
-import { TestCase, Section } from '@/src/types';
+import { TestCase, Section, CustomField } from '@/src/types';
 import { TestCaseService } from '@/src/storage';
 import { AuthContext } from '../../context/AuthContext';
 import { parseCSV, exportToCSV, exportToJSON } from '../../utils/csvHelpers';
 import { normalizePriority, normalizeType } from '../../utils/formatters';
+import { parseCustomFieldValue } from '../../utils/customFields';
+import { parseTagList } from '../../utils/tags';
+
+// Mapping keys of custom fields: "cf:<field key>"
+const CUSTOM_FIELD_PREFIX = 'cf:';
 
 export const ImportExportModal = ({
-    isOpen, onClose, documentId, cases, sections, onImportSuccess
+    isOpen, onClose, documentId, cases, sections, customFields = [], canImport, onImportSuccess
 }: {
-    isOpen: boolean, onClose: () => void, documentId: string, cases: TestCase[], sections: Section[], onImportSuccess: () => void
+    isOpen: boolean, onClose: () => void, documentId: string, cases: TestCase[], sections: Section[], customFields?: CustomField[], canImport: boolean, onImportSuccess: () => void
 }) => {
-    const { user } = useContext(AuthContext);
+    const { user, users } = useContext(AuthContext);
     const [tab, setTab] = useState<'EXPORT' | 'IMPORT'>('EXPORT');
     const [step, setStep] = useState<'UPLOAD' | 'MAP'>('UPLOAD');
 
@@ -35,6 +40,8 @@ export const ImportExportModal = ({
         { key: 'note', label: '비고 (Note)', required: false },
         { key: 'step', label: '단계 (Step Action)', required: false },
         { key: 'expected', label: '기대결과 (Expected Result)', required: false },
+        { key: 'tags', label: '태그 (Tags)', required: false },
+        ...customFields.map(f => ({ key: `${CUSTOM_FIELD_PREFIX}${f.key}`, label: f.name, required: false })),
     ];
 
     useEffect(() => {
@@ -75,7 +82,7 @@ export const ImportExportModal = ({
             const SCAN_LIMIT = Math.min(rows.length, 20);
             
             // [복구됨] 한국어 키워드 매핑 로직
-            const KEYWORDS = ['title', '제목', 'section', '섹션', 'folder', '폴더', 'priority', '우선순위', '중요도', 'type', '유형', 'step', '단계', '절차', 'expected', '기대', '결과', 'note', '비고', '노트', 'remarks', 'precondition', '사전'];
+            const KEYWORDS = ['title', '제목', 'section', '섹션', 'folder', '폴더', 'priority', '우선순위', '중요도', 'type', '유형', 'step', '단계', '절차', 'expected', '기대', '결과', 'note', '비고', '노트', 'remarks', 'precondition', '사전', ...customFields.map(f => f.name.toLowerCase().trim())];
 
             for (let i = 0; i < SCAN_LIMIT; i++) {
                 const row = rows[i];
@@ -124,7 +131,11 @@ export const ImportExportModal = ({
             headers.forEach((h, idx) => {
                 if (!h) return;
                 const header = h.toLowerCase().trim();
-                if (header.includes('title') || header.includes('제목')) initialMapping['title'] = idx;
+                // Custom fields match their exact name first ("Automation Type" is not the case type)
+                const customField = customFields.find(f => f.name.toLowerCase().trim() === header);
+                if (customField) initialMapping[`${CUSTOM_FIELD_PREFIX}${customField.key}`] = idx;
+                else if (['tags', 'tag', 'labels', '태그'].includes(header)) initialMapping['tags'] = idx;
+                else if (header.includes('title') || header.includes('제목')) initialMapping['title'] = idx;
                 else if (header.includes('section') || header.includes('folder') || header.includes('섹션')) initialMapping['section'] = idx;
                 else if (header.includes('priority') || header.includes('우선순위') || header.includes('중요도')) initialMapping['priority'] = idx;
                 else if (header.includes('type') || header.includes('유형')) initialMapping['type'] = idx;
@@ -207,6 +218,10 @@ export const ImportExportModal = ({
                 priority: normalizePriority(getVal('priority')),
                 type: normalizeType(getVal('type')),
                 platform_type: importMode,
+                tags: parseTagList(getVal('tags')),
+                customFields: Object.fromEntries(customFields
+                    .filter(f => mapping[`${CUSTOM_FIELD_PREFIX}${f.key}`] !== undefined)
+                    .map(f => [f.key, parseCustomFieldValue(f, getVal(`${CUSTOM_FIELD_PREFIX}${f.key}`), users)])),
                 
                 // [핵심] 모두 같으면 공통 영역에 표시, 하나라도 다르면 비워둠(숨김)
                 precondition: isAllPreconditionsSame ? preconditions[0] : '',
@@ -280,7 +295,7 @@ export const ImportExportModal = ({
                 <h3 className="text-lg font-bold mb-4 flex items-center gap-2 border-b pb-2"><ArrowRightLeft size={20} /> 데이터 가져오기 / 내보내기</h3>
                 <div className="flex gap-1 bg-gray-100 p-1 rounded mb-4">
                     <button className={`flex-1 py-1.5 rounded text-sm font-semibold transition ${tab === 'EXPORT' ? 'bg-white shadow text-blue-600' : 'text-gray-500 hover:bg-gray-200'}`} onClick={() => setTab('EXPORT')}>내보내기 (Export)</button>
-                    <button className={`flex-1 py-1.5 rounded text-sm font-semibold transition ${tab === 'IMPORT' ? 'bg-white shadow text-blue-600' : 'text-gray-500 hover:bg-gray-200'}`} onClick={() => setTab('IMPORT')}>가져오기 (Import)</button>
+                    {canImport && <button className={`flex-1 py-1.5 rounded text-sm font-semibold transition ${tab === 'IMPORT' ? 'bg-white shadow text-blue-600' : 'text-gray-500 hover:bg-gray-200'}`} onClick={() => setTab('IMPORT')}>가져오기 (Import)</button>}
                 </div>
                 <div className="flex-1 overflow-y-auto">
                     {tab === 'EXPORT' ? (
@@ -288,7 +303,7 @@ export const ImportExportModal = ({
                             <div className="bg-blue-50 p-4 rounded border border-blue-100">
                                 <h4 className="font-bold text-blue-800 mb-2 flex items-center gap-2"><FileText size={18} /> CSV로 내보내기</h4>
                                 <p className="text-sm text-blue-600 mb-4">엑셀이나 구글 스프레드시트에서 편집할 수 있는 CSV 형식입니다.</p>
-                                <button onClick={() => exportToCSV(cases, sections)} className="bg-blue-600 text-white px-4 py-2 rounded shadow hover:bg-blue-700 flex items-center gap-2 font-bold text-sm"><Download size={16} /> CSV 다운로드</button>
+                                <button onClick={() => exportToCSV(cases, sections, customFields, users)} className="bg-blue-600 text-white px-4 py-2 rounded shadow hover:bg-blue-700 flex items-center gap-2 font-bold text-sm"><Download size={16} /> CSV 다운로드</button>
                             </div>
                             <div className="bg-gray-50 p-4 rounded border border-gray-200">
                                 <h4 className="font-bold text-gray-800 mb-2 flex items-center gap-2"><Bug size={18} /> JSON 백업</h4>
@@ -368,7 +383,7 @@ export const ImportExportModal = ({
                                                     {APP_FIELDS.map(field => {
                                                         const idx = mapping[field.key];
                                                         const val = (idx !== undefined && previewRow[idx]) ? previewRow[idx] : '(empty)';
-                                                        return (<div key={field.key} className="flex"><span className="w-32 text-gray-500 text-right mr-3">{field.key}:</span><span className="text-green-400">{val}</span></div>);
+                                                        return (<div key={field.key} className="flex"><span className="w-32 text-gray-500 text-right mr-3 truncate">{field.key.startsWith(CUSTOM_FIELD_PREFIX) ? field.label : field.key}:</span><span className="text-green-400">{val}</span></div>);
                                                     })}
                                                 </div>
                                             ) : (<div className="text-gray-500">데이터가 없습니다.</div>)}
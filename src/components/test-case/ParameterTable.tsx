@@ -0,0 +1,131 @@
+import React from 'react';
+import { Table2, Plus, Trash2, X } from 'lucide-react';
+import { CaseParameters } from '../../types';
+import { getParameterRows } from '../../utils/parameters';
+
+const emptyTable = (): CaseParameters => ({ columns: [], rows: [] });
+
+// Data rows of a parameterized case. Each column fills the {{column}} placeholders of the steps;
+// suggestedColumns are placeholders the steps use that have no column yet.
+export const ParameterTableEditor = ({
+    value, onChange, suggestedColumns
+}: {
+    value: CaseParameters | null | undefined,
+    onChange: (value: CaseParameters | null) => void,
+    suggestedColumns: string[]
+}) => {
+    const table = value || emptyTable();
+    const missing = suggestedColumns.filter(c => !table.columns.includes(c));
+
+    const addColumn = (name: string) => onChange({ ...table, columns: [...table.columns, name] });
+
+    // Renaming keeps the values entered under the old name
+    const renameColumn = (idx: number, name: string) => {
+        const old = table.columns[idx];
+        onChange({
+            columns: table.columns.map((c, i) => (i === idx ? name : c)),
+            rows: table.rows.map(r => {
+                const { [old]: val, ...rest } = r.values;
+                return { ...r, values: { ...rest, [name]: val ?? '' } };
+            })
+        });
+    };
+
+    const removeColumn = (idx: number) => onChange({ ...table, columns: table.columns.filter((_, i) => i !== idx) });
+
+    const addRow = () => onChange({ ...table, rows: [...table.rows, { id: Date.now().toString(), values: {} }] });
+
+    const updateCell = (rowIdx: number, column: string, val: string) =>
+        onChange({ ...table, rows: table.rows.map((r, i) => (i === rowIdx ? { ...r, values: { ...r.values, [column]: val } } : r)) });
+
+    const removeRow = (rowIdx: number) => onChange({ ...table, rows: table.rows.filter((_, i) => i !== rowIdx) });
+
+    return (
+        <div className="space-y-2">
+            {table.columns.length > 0 && (
+                <div className="border rounded-lg overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 border-b">
+                            <tr>
+                                <th className="p-2 w-10 text-center text-gray-400 font-medium">#</th>
+                                {table.columns.map((c, idx) => (
+                                    <th key={idx} className="p-1 border-l">
+                                        <div className="flex items-center gap-1">
+                                            <input
+                                                className="flex-1 min-w-[80px] border rounded px-2 py-1 font-mono text-xs font-bold"
+                                                value={c}
+                                                onChange={e => renameColumn(idx, e.target.value)}
+                                                placeholder="column"
+                                            />
+                                            <button onClick={() => removeColumn(idx)} className="text-gray-400 hover:text-red-500" title="열 삭제"><X size={14} /></button>
+                                        </div>
+                                    </th>
+                                ))}
+                                <th className="w-8" />
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                            {table.rows.map((r, rowIdx) => (
+                                <tr key={r.id}>
+                                    <td className="p-2 text-center text-gray-400 font-mono">{rowIdx + 1}</td>
+                                    {table.columns.map((c, idx) => (
+                                        <td key={idx} className="p-1 border-l">
+                                            <input className="w-full border rounded px-2 py-1 text-sm" value={r.values[c] ?? ''} onChange={e => updateCell(rowIdx, c, e.target.value)} />
+                                        </td>
+                                    ))}
+                                    <td className="text-center">
+                                        <button onClick={() => removeRow(rowIdx)} className="text-gray-400 hover:text-red-500 p-1"><Trash2 size={14} /></button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <div className="flex items-center gap-2 flex-wrap text-sm">
+                <button onClick={() => addColumn('')} className="px-2 py-1 border rounded hover:bg-gray-50 flex items-center gap-1 text-gray-600"><Plus size={14} /> 열 추가</button>
+                {table.columns.length > 0 && (
+                    <button onClick={addRow} className="px-2 py-1 border rounded hover:bg-gray-50 flex items-center gap-1 text-gray-600"><Plus size={14} /> 행 추가</button>
+                )}
+                {missing.map(c => (
+                    <button key={c} onClick={() => addColumn(c)} className="px-2 py-1 rounded bg-indigo-50 text-indigo-700 border border-indigo-100 font-mono text-xs hover:bg-indigo-100">
+                        + {`{{${c}}}`}
+                    </button>
+                ))}
+                {table.columns.length > 0 && (
+                    <span className="ml-auto text-xs text-gray-400">
+                        {table.rows.length > 0 ? `런에서 ${table.rows.length}번 실행됩니다.` : '행이 없으면 파라미터 없이 한 번 실행됩니다.'}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export const ParameterTableView = ({ parameters }: { parameters: CaseParameters | null | undefined }) => {
+    const rows = getParameterRows({ parameters });
+    if (!parameters || rows.length === 0) return null;
+    return (
+        <div>
+            <h4 className="font-bold text-lg text-gray-800 mb-3 flex items-center gap-2"><Table2 size={20} /> Parameters <span className="text-sm font-normal text-gray-500">({rows.length} rows)</span></h4>
+            <div className="border rounded-lg overflow-x-auto shadow-sm">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-gray-500 font-medium border-b">
+                        <tr>
+                            <th className="p-3 w-14 text-center">#</th>
+                            {parameters.columns.map(c => <th key={c} className="p-3 border-l font-mono">{c}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                        {rows.map((r, idx) => (
+                            <tr key={r.id} className="hover:bg-gray-50">
+                                <td className="p-3 text-center text-gray-400 font-mono">{idx + 1}</td>
+                                {parameters.columns.map(c => <td key={c} className="p-3 border-l text-gray-800">{r.values[c]}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { BadgeCheck, Send } from 'lucide-react';
+import { ReviewComment, ReviewStatus, TestCase, User } from '../../types';
+import { TestCaseService } from '../../storage';
+import { REVIEW_TRANSITIONS, getReviewStatus, reviewStatusInfo } from '../../utils/review';
+
+export const ReviewStatusBadge = ({ status, className = '' }: { status: ReviewStatus, className?: string }) => {
+    const info = reviewStatusInfo(status);
+    return <span className={`text-[10px] px-1.5 rounded border font-bold ${info.className} ${className}`}>{info.label}</span>;
+};
+
+// Review state, reviewer and comments of one case. The comment box doubles as the note for a transition.
+export const ReviewPanel = ({
+    testCase, user, users, canManage, canReview, onChange
+}: {
+    testCase: TestCase,
+    user: User,
+    users: User[],
+    canManage: boolean,
+    canReview: boolean,
+    onChange: (updated: TestCase) => void
+}) => {
+    const [comments, setComments] = useState<ReviewComment[]>([]);
+    const [draft, setDraft] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    const loadComments = () => TestCaseService.getReviewComments(testCase.id).then(setComments);
+
+    useEffect(() => {
+        setDraft('');
+        loadComments();
+    }, [testCase.id]);
+
+    const status = getReviewStatus(testCase);
+    // With a reviewer assigned, only that reviewer (or an admin) approves or sends back
+    const isReviewer = !testCase.reviewerId || testCase.reviewerId === user.id || user.role === 'ADMIN';
+    const transitions = REVIEW_TRANSITIONS.filter(t => t.from === status && (t.permission === 'REVIEW_CASES' ? canReview && isReviewer : canManage));
+
+    const run = async (action: () => Promise<TestCase | void>) => {
+        setBusy(true);
+        try {
+            const updated = await action();
+            if (updated) onChange(updated);
+            setDraft('');
+            loadComments();
+        } catch (e: any) {
+            alert(e?.message || '처리하지 못했습니다.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="border rounded-lg p-4 space-y-3 bg-gray-50/50">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div className="flex items-center gap-2 text-sm font-bold text-gray-700">
+                    <BadgeCheck size={16} /> Review
+                    <ReviewStatusBadge status={status} className="text-xs py-0.5" />
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="text-xs text-gray-500">리뷰어</span>
+                    <select
+                        className="border rounded p-1 bg-white text-sm"
+                        value={testCase.reviewerId || ''}
+                        disabled={!canManage || busy}
+                        onChange={e => run(() => TestCaseService.assignReviewer(testCase.id, e.target.value || null, user))}
+                    >
+                        <option value="">지정 안 함</option>
+                        {users.filter(u => u.status === 'ACTIVE' || u.id === testCase.reviewerId).map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            {comments.length > 0 && (
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {comments.map(c => (
+                        <div key={c.id} className="bg-white border rounded p-2 text-sm">
+                            <div className="text-xs text-gray-500 mb-0.5"><span className="font-bold text-gray-700">{c.authorName || 'Unknown'}</span> · {new Date(c.createdAt).toLocaleString()}</div>
+                            <div className="whitespace-pre-wrap text-gray-800">{c.body}</div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {(canReview || transitions.length > 0) && (
+                <div className="space-y-2">
+                    <textarea
+                        className="w-full border rounded p-2 text-sm h-16 resize-none bg-white"
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        placeholder="리뷰 코멘트 (상태를 바꿀 때 함께 기록됩니다)"
+                    />
+                    <div className="flex items-center gap-2 flex-wrap">
+                        {transitions.map(t => (
+                            <button
+                                key={t.to}
+                                disabled={busy}
+                                onClick={() => run(() => TestCaseService.setReviewStatus(testCase.id, t.to, user, draft))}
+                                className={`px-3 py-1.5 rounded text-sm font-semibold disabled:opacity-50 ${t.to === 'APPROVED' ? 'bg-green-600 text-white hover:bg-green-700' : 'border bg-white hover:bg-gray-50 text-gray-700'}`}
+                            >
+                                {t.label}
+                            </button>
+                        ))}
+                        {canReview && (
+                            <button
+                                disabled={busy || !draft.trim()}
+                                onClick={() => run(() => TestCaseService.addReviewComment(testCase.id, draft, user).then(() => undefined))}
+                                className="ml-auto px-3 py-1.5 rounded text-sm font-semibold text-blue-600 hover:bg-blue-50 flex items-center gap-1 disabled:opacity-50"
+                            >
+                                <Send size={14} /> 코멘트 추가
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Section } from '@/src/types';
+import { flattenSectionTree, getDescendantSectionIds } from '../../utils/sectionTree';
+
+// Create / edit a section. The parent picker is the keyboard alternative to dragging sections in the tree.
+export const SectionModal = ({
+    isOpen, onClose, sections, section, defaultParentId, onSubmit
+}: {
+    isOpen: boolean,
+    onClose: () => void,
+    sections: Section[],
+    section: Section | null, // null = create
+    defaultParentId: string | null,
+    onSubmit: (title: string, parentId: string | null) => Promise<void>
+}) => {
+    const [title, setTitle] = useState('');
+    const [parentId, setParentId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setTitle(section?.title || '');
+            setParentId(section ? section.parentId || null : defaultParentId);
+            setError('');
+        }
+    }, [isOpen, section, defaultParentId]);
+
+    // A section cannot be moved under itself or one of its children
+    const options = useMemo(() => {
+        const excluded = section ? getDescendantSectionIds(sections, section.id) : new Set<string>();
+        return flattenSectionTree(sections).filter(({ section: s }) => !excluded.has(s.id));
+    }, [sections, section]);
+
+    if (!isOpen) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!title.trim()) return;
+        try {
+            await onSubmit(title.trim(), parentId);
+            onClose();
+        } catch (err: any) {
+            setError(err?.message || '저장에 실패했습니다.');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl p-6 w-96 space-y-4">
+                <h3 className="text-lg font-bold">{section ? 'Edit Section' : 'New Section'}</h3>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Section Name</label>
+                    <input autoFocus className="w-full border rounded p-2" value={title} onChange={e => setTitle(e.target.value)} placeholder="e.g. Auth Flow" />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Parent Section</label>
+                    <select className="w-full border rounded p-2 bg-white" value={parentId || ''} onChange={e => setParentId(e.target.value || null)}>
+                        <option value="">(최상위)</option>
+                        {options.map(({ section: s, depth }) => (
+                            <option key={s.id} value={s.id}>{'\u00A0\u00A0\u00A0'.repeat(depth)}{s.title}</option>
+                        ))}
+                    </select>
+                </div>
+                {error && <div className="text-sm text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</div>}
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onClose} className="px-3 py-1 text-gray-500 hover:bg-gray-100 rounded">Cancel</button>
+                    <button type="submit" disabled={!title.trim()} className="px-3 py-1 bg-primary text-white rounded hover:bg-blue-600 disabled:opacity-50">
+                        {section ? 'Save' : 'Create'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
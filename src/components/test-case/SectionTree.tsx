@@ -0,0 +1,122 @@
+import React, { useState, useMemo } from 'react';
+import { ChevronRight, ChevronDown, Folder, FolderTree, Plus, Edit2, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import { Section, TestCase } from '@/src/types';
+import { getChildSections, getDescendantSectionIds } from '../../utils/sectionTree';
+
+interface SectionTreeProps {
+    sections: Section[];
+    cases: TestCase[];
+    selectedSectionId: string | null;
+    onSelect: (sectionId: string | null) => void;
+    canEdit: boolean;
+    onAddChild: (parentId: string) => void;
+    onEdit: (section: Section) => void;
+    onDelete: (section: Section, e: React.MouseEvent) => void;
+    // Reorder / reparent; `index` is the place among the new parent's children
+    onMove: (sectionId: string, parentId: string | null, index: number) => void;
+}
+
+export const SectionTree = ({
+    sections, cases, selectedSectionId, onSelect, canEdit, onAddChild, onEdit, onDelete, onMove
+}: SectionTreeProps) => {
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [dragId, setDragId] = useState<string | null>(null);
+    const [dropId, setDropId] = useState<string | null | undefined>(undefined); // null = top level
+
+    // Case count per section, descendants included
+    const caseCounts = useMemo(() => {
+        const direct = new Map<string, number>();
+        cases.forEach(c => direct.set(c.sectionId, (direct.get(c.sectionId) || 0) + 1));
+        const counts = new Map<string, number>();
+        sections.forEach(s => {
+            let total = 0;
+            getDescendantSectionIds(sections, s.id).forEach(id => { total += direct.get(id) || 0; });
+            counts.set(s.id, total);
+        });
+        return counts;
+    }, [sections, cases]);
+
+    const draggedSubtree = useMemo(
+        () => dragId ? getDescendantSectionIds(sections, dragId) : new Set<string>(),
+        [sections, dragId]
+    );
+
+    const toggle = (id: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        const next = new Set(collapsed);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        setCollapsed(next);
+    };
+
+    const dropHandlers = (parentId: string | null) => canEdit ? {
+        onDragOver: (e: React.DragEvent) => {
+            if (dragId && !(parentId && draggedSubtree.has(parentId))) {
+                e.preventDefault();
+                setDropId(parentId);
+            }
+        },
+        onDragLeave: () => setDropId(undefined),
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            if (dragId) onMove(dragId, parentId, getChildSections(sections, parentId).length);
+            setDragId(null);
+            setDropId(undefined);
+        }
+    } : {};
+
+    const stop = (fn: () => void) => (e: React.MouseEvent) => { e.stopPropagation(); fn(); };
+
+    const renderNode = (section: Section, index: number, siblingCount: number, depth: number): React.ReactNode => {
+        const children = getChildSections(sections, section.id);
+        const isOpen = !collapsed.has(section.id);
+        const isSelected = selectedSectionId === section.id;
+
+        return (
+            <div key={section.id}>
+                <div
+                    className={`py-1.5 pr-1 text-sm rounded cursor-pointer flex items-center justify-between group ${isSelected ? 'bg-blue-100 text-blue-700 font-bold' : 'hover:bg-gray-100'} ${dropId === section.id ? 'ring-2 ring-blue-400 bg-blue-50' : ''}`}
+                    style={{ paddingLeft: `${depth * 14 + 4}px` }}
+                    onClick={() => onSelect(section.id)}
+                    draggable={canEdit}
+                    onDragStart={(e) => { e.stopPropagation(); setDragId(section.id); e.dataTransfer.effectAllowed = 'move'; }}
+                    onDragEnd={() => { setDragId(null); setDropId(undefined); }}
+                    {...dropHandlers(section.id)}
+                >
+                    <div className="flex items-center gap-1 overflow-hidden">
+                        <span onClick={(e) => toggle(section.id, e)} className={`p-0.5 rounded hover:bg-gray-200 ${children.length ? 'visible' : 'invisible'}`}>
+                            {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                        </span>
+                        <FolderTree size={14} className="flex-shrink-0" />
+                        <span className="truncate">{section.title}</span>
+                        <span className="text-[10px] text-gray-400 font-normal">{caseCounts.get(section.id) || 0}</span>
+                    </div>
+                    {canEdit && (
+                        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+                            <button onClick={stop(() => onAddChild(section.id))} className="p-0.5 rounded hover:bg-gray-200 text-gray-400 hover:text-blue-600" title="하위 섹션 추가"><Plus size={12} /></button>
+                            <button onClick={stop(() => onEdit(section))} className="p-0.5 rounded hover:bg-gray-200 text-gray-400 hover:text-gray-700" title="이름 변경 / 이동"><Edit2 size={12} /></button>
+                            <button disabled={index === 0} onClick={stop(() => onMove(section.id, section.parentId || null, index - 1))} className="p-0.5 rounded hover:bg-gray-200 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="위로"><ArrowUp size={12} /></button>
+                            <button disabled={index === siblingCount - 1} onClick={stop(() => onMove(section.id, section.parentId || null, index + 1))} className="p-0.5 rounded hover:bg-gray-200 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="아래로"><ArrowDown size={12} /></button>
+                            <button onClick={(e) => onDelete(section, e)} className="p-0.5 rounded hover:bg-red-100 text-gray-400 hover:text-red-500" title="삭제"><Trash2 size={12} /></button>
+                        </div>
+                    )}
+                </div>
+                {isOpen && children.map((child, i) => renderNode(child, i, children.length, depth + 1))}
+            </div>
+        );
+    };
+
+    const roots = getChildSections(sections, null);
+
+    return (
+        <div className="space-y-0.5">
+            <div
+                className={`p-2 text-sm rounded cursor-pointer flex items-center gap-2 ${selectedSectionId === null ? 'bg-blue-100 text-blue-700 font-bold' : 'hover:bg-gray-100'} ${dropId === null ? 'ring-2 ring-blue-400 bg-blue-50' : ''}`}
+                onClick={() => onSelect(null)}
+                {...dropHandlers(null)}
+            >
+                <Folder size={16} /> All Cases
+            </div>
+            {roots.map((s, i) => renderNode(s, i, roots.length, 0))}
+        </div>
+    );
+};
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { Library, X, Plus, Trash2, ChevronUp, ChevronDown, FileText } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { SharedStep, TestCase, TestStep } from '../../types';
+import { DriveService, SharedStepService } from '../../storage';
+import { AuthContext } from '../../context/AuthContext';
+
+type Draft = Pick<SharedStep, 'name' | 'description' | 'steps'>;
+
+const emptyDraft = (): Draft => ({ name: '', description: '', steps: [{ id: Date.now().toString(), step: '', expected: '' }] });
+
+// Library of shared step blocks: edit a block (every case using it follows) and see where it is used.
+// focusId opens the modal on that block.
+export const SharedStepsModal = ({
+    isOpen, onClose, canManage, onChanged, focusId
+}: {
+    isOpen: boolean,
+    onClose: () => void,
+    canManage: boolean,
+    onChanged: () => void,
+    focusId?: string | null
+}) => {
+    const { user } = useContext(AuthContext);
+    const navigate = useNavigate();
+    const [blocks, setBlocks] = useState<SharedStep[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null); // null + draft = new block
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [usages, setUsages] = useState<(TestCase & { documentTitle?: string })[] | null>(null);
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const load = async () => {
+        const all = await SharedStepService.getAll();
+        setBlocks(all);
+        return all;
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelectedId(null);
+        setDraft(null);
+        setError('');
+        load().then(all => {
+            const focused = all.find(b => b.id === focusId);
+            if (focused) select(focused);
+        });
+    }, [isOpen]);
+
+    useEffect(() => {
+        setUsages(null);
+        if (!selectedId) return;
+        SharedStepService.getUsages(selectedId).then(async cases => {
+            const docs = cases.length > 0 ? await DriveService.getDocumentsByIds(Array.from(new Set(cases.map(c => c.documentId)))) : [];
+            setUsages(cases.map(c => ({ ...c, documentTitle: docs.find(d => d.id === c.documentId)?.title })));
+        });
+    }, [selectedId]);
+
+    if (!isOpen) return null;
+
+    const select = (block: SharedStep) => {
+        setSelectedId(block.id);
+        setDraft({ name: block.name, description: block.description || '', steps: block.steps.map(s => ({ ...s })) });
+        setError('');
+    };
+
+    const startNew = () => {
+        setSelectedId(null);
+        setDraft(emptyDraft());
+        setError('');
+    };
+
+    const updateStep = (idx: number, patch: Partial<TestStep>) =>
+        setDraft(d => d && { ...d, steps: d.steps.map((s, i) => i === idx ? { ...s, ...patch } : s) });
+
+    const moveStep = (idx: number, delta: number) => setDraft(d => {
+        if (!d || idx + delta < 0 || idx + delta >= d.steps.length) return d;
+        const steps = [...d.steps];
+        [steps[idx], steps[idx + delta]] = [steps[idx + delta], steps[idx]];
+        return { ...d, steps };
+    });
+
+    const handleSave = async () => {
+        if (!draft || !user) return;
+        setError('');
+        setSaving(true);
+        try {
+            const saved = selectedId ? await SharedStepService.update(selectedId, draft, user) : await SharedStepService.create(draft, user);
+            await load();
+            select(saved);
+            onChanged();
+        } catch (e: any) {
+            setError(e?.message || '저장하지 못했습니다.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        const block = blocks.find(b => b.id === selectedId);
+        if (!block || !window.confirm(`"${block.name}" 공유 스텝을 삭제하시겠습니까?`)) return;
+        try {
+            await SharedStepService.remove(block.id);
+            setSelectedId(null);
+            setDraft(null);
+            await load();
+            onChanged();
+        } catch (e: any) {
+            setError(e?.message || '삭제에 실패했습니다.');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-[1000px] h-[80vh] flex flex-col">
+                <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+                    <h2 className="text-lg font-bold flex items-center gap-2"><Library size={20} /> 공유 스텝 (Shared Steps)</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 flex overflow-hidden">
+                    <div className="w-72 border-r bg-gray-50 flex flex-col">
+                        {canManage && (
+                            <div className="p-3 border-b">
+                                <button onClick={startNew} className="w-full py-1.5 bg-primary text-white rounded text-sm font-semibold hover:bg-blue-600 flex items-center justify-center gap-1">
+                                    <Plus size={14} /> 새 공유 스텝
+                                </button>
+                            </div>
+                        )}
+                        <div className="flex-1 overflow-y-auto">
+                            {blocks.length === 0 && <div className="p-4 text-sm text-gray-400 text-center">공유 스텝이 없습니다.</div>}
+                            {blocks.map(b => (
+                                <div
+                                    key={b.id}
+                                    onClick={() => select(b)}
+                                    className={`p-3 border-b cursor-pointer ${selectedId === b.id ? 'bg-white border-l-4 border-l-primary shadow-sm' : 'hover:bg-gray-100'}`}
+                                >
+                                    <div className="text-sm font-bold text-gray-800 truncate">{b.name}</div>
+                                    <div className="text-xs text-gray-500">{b.steps.length} steps · {new Date(b.updatedAt).toLocaleDateString()}</div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex-1 flex flex-col overflow-hidden">
+                        {!draft ? (
+                            <div className="flex-1 flex items-center justify-center text-gray-400 text-sm">좌측에서 공유 스텝을 선택하세요.</div>
+                        ) : (
+                            <div className="flex-1 overflow-y-auto p-5 space-y-4">
+                                <input
+                                    className="w-full border rounded-lg p-2 font-bold disabled:bg-gray-50"
+                                    value={draft.name}
+                                    disabled={!canManage}
+                                    onChange={e => setDraft({ ...draft, name: e.target.value })}
+                                    placeholder="예: 로그인"
+                                />
+                                <input
+                                    className="w-full border rounded-lg p-2 text-sm disabled:bg-gray-50"
+                                    value={draft.description || ''}
+                                    disabled={!canManage}
+                                    onChange={e => setDraft({ ...draft, description: e.target.value })}
+                                    placeholder="설명 (선택)"
+                                />
+                                <div className="space-y-2">
+                                    {draft.steps.map((step, idx) => (
+                                        <div key={step.id || idx} className="flex gap-2 items-start bg-gray-50 p-2 rounded-lg border border-gray-100">
+                                            <div className="w-6 flex flex-col items-center text-gray-400 text-sm">
+                                                {canManage && <button onClick={() => moveStep(idx, -1)} disabled={idx === 0} className="hover:text-blue-600 disabled:opacity-20"><ChevronUp size={14} /></button>}
+                                                <span className="font-bold">{idx + 1}</span>
+                                                {canManage && <button onClick={() => moveStep(idx, 1)} disabled={idx === draft.steps.length - 1} className="hover:text-blue-600 disabled:opacity-20"><ChevronDown size={14} /></button>}
+                                            </div>
+                                            <textarea className="flex-1 border rounded p-2 h-16 resize-none text-sm" placeholder="Action" value={step.step} disabled={!canManage} onChange={e => updateStep(idx, { step: e.target.value })} />
+                                            <textarea className="flex-1 border rounded p-2 h-16 resize-none text-sm" placeholder="Expected Result" value={step.expected} disabled={!canManage} onChange={e => updateStep(idx, { expected: e.target.value })} />
+                                            {canManage && (
+                                                <button onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== idx) })} className="text-gray-400 hover:text-red-500 p-2"><Trash2 size={14} /></button>
+                                            )}
+                                        </div>
+                                    ))}
+                                    {canManage && (
+                                        <button
+                                            onClick={() => setDraft({ ...draft, steps: [...draft.steps, { id: Date.now().toString(), step: '', expected: '' }] })}
+                                            className="w-full py-2 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-500 hover:border-blue-400 hover:text-blue-600 font-bold flex items-center justify-center gap-1"
+                                        >
+                                            <Plus size={14} /> Add Step
+                                        </button>
+                                    )}
+                                </div>
+
+                                {canManage && (
+                                    <div className="flex items-center gap-2">
+                                        {selectedId && <button onClick={handleDelete} className="px-3 py-1.5 border rounded text-sm text-red-600 hover:bg-red-50 flex items-center gap-1"><Trash2 size={14} /> 삭제</button>}
+                                        <span className="ml-auto text-xs text-gray-400">{selectedId && usages ? `저장하면 ${usages.length}개 케이스에 반영됩니다.` : ''}</span>
+                                        <button onClick={handleSave} disabled={saving} className="px-4 py-1.5 bg-blue-600 text-white rounded text-sm font-bold hover:bg-blue-700 disabled:opacity-50">
+                                            {saving ? 'Saving...' : 'Save'}
+                                        </button>
+                                    </div>
+                                )}
+                                {error && <div className="text-sm text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</div>}
+
+                                {selectedId && (
+                                    <div className="border-t pt-4">
+                                        <h4 className="text-sm font-bold text-gray-700 mb-2">사용 중인 케이스 {usages ? `(${usages.length})` : ''}</h4>
+                                        {usages === null && <div className="text-sm text-gray-400">Loading...</div>}
+                                        {usages && usages.length === 0 && <div className="text-sm text-gray-400">이 공유 스텝을 쓰는 케이스가 없습니다.</div>}
+                                        {usages && usages.length > 0 && <div className="divide-y border rounded">
+                                            {usages.map(c => (
+                                                <div
+                                                    key={c.id}
+                                                    onClick={() => { onClose(); navigate(`/drive/doc/${c.documentId}`); }}
+                                                    className="px-3 py-2 flex items-center gap-2 text-sm cursor-pointer hover:bg-gray-50"
+                                                >
+                                                    <span className="font-mono text-gray-400">#{c.seq_id}</span>
+                                                    <span className="truncate">{c.title}</span>
+                                                    <span className="ml-auto text-xs text-gray-400 flex items-center gap-1 flex-shrink-0"><FileText size={12} /> {c.documentTitle}</span>
+                                                </div>
+                                            ))}
+                                        </div>}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
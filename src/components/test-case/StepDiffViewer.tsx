@@ -1,54 +1,66 @@
 import React from 'react';
 import { TestStep } from '@/src/types';
+import { StepOperation, diffSteps } from '../../utils/stepDiff';
 
-export const StepDiffViewer = ({ oldSteps, newSteps }: { oldSteps: TestStep[], newSteps: TestStep[] }) => {
-    const maxLen = Math.max(oldSteps?.length || 0, newSteps?.length || 0);
-    const rows = [];
+// Renders step operations (matched by step id). Logs written before operations were recorded
+// only carry the old and new step lists, so the operations are derived from those.
+export const StepDiffViewer = ({ oldSteps, newSteps, operations }: { oldSteps?: TestStep[], newSteps?: TestStep[], operations?: StepOperation[] }) => {
+    const ops = operations || diffSteps(oldSteps || [], newSteps || []);
 
-    for (let i = 0; i < maxLen; i++) {
-        const o = oldSteps?.[i];
-        const n = newSteps?.[i];
-
-        if (!o && n) {
-            // Added
-            rows.push(
-                <div key={i} className="bg-green-50 border-l-4 border-green-400 p-2 mb-2 text-xs">
-                    <div className="font-bold text-green-700">Step {i + 1} (Added)</div>
-                    <div className="grid grid-cols-2 gap-2 mt-1">
-                        <div><span className="font-semibold">Act:</span> {n.step}</div>
-                        <div><span className="font-semibold">Exp:</span> {n.expected}</div>
-                    </div>
-                </div>
-            );
-        } else if (o && !n) {
-            // Removed
-            rows.push(
-                <div key={i} className="bg-red-50 border-l-4 border-red-400 p-2 mb-2 text-xs opacity-70">
-                    <div className="font-bold text-red-700">Step {i + 1} (Removed)</div>
-                    <div className="grid grid-cols-2 gap-2 mt-1 line-through text-gray-500">
-                        <div>{o.step}</div><div>{o.expected}</div>
+    const rows = ops.map((op, i) => {
+        switch (op.type) {
+            case 'ADD':
+                return (
+                    <div key={i} className="bg-green-50 border-l-4 border-green-400 p-2 mb-2 text-xs">
+                        <div className="font-bold text-green-700">Step {op.index + 1} (Added)</div>
+                        <div className="grid grid-cols-2 gap-2 mt-1">
+                            <div><span className="font-semibold">Act:</span> {op.step.step}</div>
+                            <div><span className="font-semibold">Exp:</span> {op.step.expected}</div>
+                        </div>
                     </div>
-                </div>
-            );
-        } else if (JSON.stringify(o) !== JSON.stringify(n)) {
-            // Modified
-            rows.push(
-                <div key={i} className="bg-yellow-50 border-l-4 border-yellow-400 p-2 mb-2 text-xs">
-                    <div className="font-bold text-yellow-700">Step {i + 1} (Modified)</div>
-                    <div className="grid grid-cols-2 gap-2 mt-1">
-                        <div className="space-y-1">
-                            <div className="text-red-500 line-through bg-red-100/50 p-0.5">{o?.step}</div>
-                            <div className="text-green-600 bg-green-100/50 p-0.5">{n?.step}</div>
+                );
+            case 'REMOVE':
+                return (
+                    <div key={i} className="bg-red-50 border-l-4 border-red-400 p-2 mb-2 text-xs opacity-70">
+                        <div className="font-bold text-red-700">Step {op.index + 1} (Removed)</div>
+                        <div className="grid grid-cols-2 gap-2 mt-1 line-through text-gray-500">
+                            <div>{op.step.step}</div><div>{op.step.expected}</div>
                         </div>
-                        <div className="space-y-1">
-                            <div className="text-red-500 line-through bg-red-100/50 p-0.5">{o?.expected}</div>
-                            <div className="text-green-600 bg-green-100/50 p-0.5">{n?.expected}</div>
+                    </div>
+                );
+            case 'MOVE':
+                return (
+                    <div key={i} className="bg-blue-50 border-l-4 border-blue-400 p-2 mb-2 text-xs">
+                        <div className="font-bold text-blue-700">Step {op.from + 1} → {op.to + 1} (Moved)</div>
+                        <div className="mt-1 text-gray-600 truncate">{op.step.step}</div>
+                    </div>
+                );
+            case 'MODIFY':
+                return (
+                    <div key={i} className="bg-yellow-50 border-l-4 border-yellow-400 p-2 mb-2 text-xs">
+                        <div className="font-bold text-yellow-700">Step {op.index + 1} (Modified)</div>
+                        <div className="grid grid-cols-2 gap-2 mt-1">
+                            <div className="space-y-1">
+                                {op.before.step !== op.after.step ? (
+                                    <>
+                                        <div className="text-red-500 line-through bg-red-100/50 p-0.5">{op.before.step}</div>
+                                        <div className="text-green-600 bg-green-100/50 p-0.5">{op.after.step}</div>
+                                    </>
+                                ) : <div className="text-gray-500 p-0.5">{op.after.step}</div>}
+                            </div>
+                            <div className="space-y-1">
+                                {op.before.expected !== op.after.expected ? (
+                                    <>
+                                        <div className="text-red-500 line-through bg-red-100/50 p-0.5">{op.before.expected}</div>
+                                        <div className="text-green-600 bg-green-100/50 p-0.5">{op.after.expected}</div>
+                                    </>
+                                ) : <div className="text-gray-500 p-0.5">{op.after.expected}</div>}
+                            </div>
                         </div>
                     </div>
-                </div>
-            );
+                );
         }
-    }
+    });
 
     if (rows.length === 0) return <div className="text-gray-400 text-xs italic">No changes in steps</div>;
     return <div>{rows}</div>;
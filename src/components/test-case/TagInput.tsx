@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { X, Tag } from 'lucide-react';
+import { normalizeTag } from '../../utils/tags';
+
+// Tag chips with autocomplete from the tags already in use. Enter, comma or Tab adds the typed tag.
+export const TagInput = ({
+    tags, suggestions, onChange
+}: {
+    tags: string[],
+    suggestions: string[],
+    onChange: (tags: string[]) => void
+}) => {
+    const [text, setText] = useState('');
+
+    const add = (value: string) => {
+        const tag = normalizeTag(value);
+        if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+        setText('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if ((e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && text.trim())) && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            add(text);
+        } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+        }
+    };
+
+    const query = normalizeTag(text);
+    const matches = query ? suggestions.filter(s => s.includes(query) && !tags.includes(s)).slice(0, 8) : [];
+
+    return (
+        <div className="relative">
+            <div className="w-full border rounded-lg p-1.5 flex flex-wrap items-center gap-1 bg-white focus-within:ring-2 focus-within:ring-blue-500">
+                <Tag size={14} className="text-gray-400 mx-1" />
+                {tags.map(tag => (
+                    <span key={tag} className="flex items-center gap-1 bg-blue-50 text-blue-700 border border-blue-100 rounded px-1.5 py-0.5 text-xs font-medium">
+                        {tag}
+                        <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} className="text-blue-300 hover:text-blue-600"><X size={10} /></button>
+                    </span>
+                ))}
+                <input
+                    className="flex-1 min-w-[120px] outline-none text-sm p-1"
+                    value={text}
+                    onChange={e => setText(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => text.trim() && add(text)}
+                    placeholder={tags.length ? '' : 'smoke, regression...'}
+                />
+            </div>
+            {matches.length > 0 && (
+                <div className="absolute z-10 mt-1 w-64 bg-white border rounded-lg shadow-lg py-1">
+                    {matches.map(s => (
+                        <button
+                            key={s}
+                            type="button"
+                            onMouseDown={e => { e.preventDefault(); add(s); }}
+                            className="w-full text-left px-3 py-1 text-sm hover:bg-blue-50"
+                        >
+                            {s}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,19 +1,37 @@
 import React, { useState, useEffect, useContext } from 'react';
 import {
-    Plus, Folder, FolderTree, Trash2, ArrowRightLeft, Clock, Edit, List, Loader2, Link as LinkIcon,
-    Smartphone, Monitor, AlertTriangle
+    Plus, FolderTree, Trash2, ArrowRightLeft, Clock, Edit, List, Loader2, Link as LinkIcon,
+    Smartphone, Monitor, AlertTriangle, Copy, FolderInput, X, SlidersHorizontal, Filter, Tag, Milestone,
+    ChevronUp, ChevronDown, BadgeCheck, Library, Paperclip
 } from 'lucide-react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Section, TestCase, HistoryLog } from '@/src/types';
-import { TestCaseService, HistoryService, DriveService } from '@/src/storage';
+import { Section, TestCase, TestStep, HistoryLog, CasePriority, CaseType, PlatformType, CustomField, CaseVersion, ReviewStatus, SharedStep } from '@/src/types';
+import { TestCaseService, HistoryService, DriveService, FolderAccessService, CustomFieldService, CaseVersionService, SharedStepService, AttachmentService } from '@/src/storage';
 import { AuthContext } from '../../context/AuthContext';
 import { formatTextWithNumbers } from '../../utils/formatters';
 import { LoadingSpinner } from '../common/Loading';
-import { SimpleInputModal } from '../common/SimpleInputModal';
 import { HistoryModal } from './HistoryModal';
+import { BaselinesModal } from './BaselinesModal';
+import { ReviewPanel, ReviewStatusBadge } from './ReviewPanel';
+import { SharedStepsModal } from './SharedStepsModal';
+import { ParameterTableEditor, ParameterTableView } from './ParameterTable';
+import { Attachments } from '../common/Attachments';
+import { SectionTree } from './SectionTree';
+import { SectionModal } from './SectionModal';
+import { BulkMoveModal } from './BulkMoveModal';
 import { ImportExportModal } from './ImportExportModal';
+import { CustomFieldInput } from './CustomFieldInput';
+import { TagInput } from './TagInput';
+import { CustomFieldsModal } from '../drive/CustomFieldsModal';
 import { StepRenderer } from '../common/StepRenderer';
 import { Breadcrumbs } from '../common/Breadcrumbs';
+import { FolderAccessMap, Permission } from '../../utils/permissions';
+import { flattenSectionTree, getDescendantSectionIds, sortCasesBySection } from '../../utils/sectionTree';
+import { CUSTOM_FIELD_EMPTY, formatCustomFieldValue, matchesCustomFieldFilter } from '../../utils/customFields';
+import { tagQueryFilter, validateTagQuery } from '../../utils/tags';
+import { REVIEW_STATUSES, getReviewStatus } from '../../utils/review';
+import { expandCaseSteps, expandSteps, makeSharedStepRef } from '../../utils/sharedSteps';
+import { findPlaceholders } from '../../utils/parameters';
 
 export const TestCaseManager = () => {
     const { documentId } = useParams();
@@ -29,26 +47,55 @@ export const TestCaseManager = () => {
 
     // Modals
     const [isImportOpen, setImportOpen] = useState(false);
-    const [isSectionModalOpen, setSectionModalOpen] = useState(false);
+    const [sectionModal, setSectionModal] = useState<{ section: Section | null, parentId: string | null } | null>(null);
     const [isHistoryOpen, setHistoryOpen] = useState(false);
 
     const [caseHistory, setCaseHistory] = useState<HistoryLog[]>([]);
+    const [caseVersions, setCaseVersions] = useState<CaseVersion[]>([]);
+    const [isBaselinesOpen, setBaselinesOpen] = useState(false);
     const [editForm, setEditForm] = useState<Partial<TestCase>>({});
     const [loading, setLoading] = useState(true);
+    const [dragCaseId, setDragCaseId] = useState<string | null>(null);
+    const [checkedIds, setCheckedIds] = useState<string[]>([]); // Bulk selection
+    const [isBulkMoveOpen, setBulkMoveOpen] = useState(false);
+    const [dropCaseId, setDropCaseId] = useState<string | null>(null);
+    const [docFolderId, setDocFolderId] = useState<string | null>(null);
+    const [access, setAccess] = useState<FolderAccessMap | null>(null);
+    const [customFields, setCustomFields] = useState<CustomField[]>([]);
+    const [fieldFilter, setFieldFilter] = useState<{ key: string, value: string }>({ key: '', value: '' });
+    const [isFieldsOpen, setFieldsOpen] = useState(false);
+    const [allTags, setAllTags] = useState<string[]>([]); // Editor autocomplete
+    const [tagQuery, setTagQuery] = useState('');
+    const [reviewFilter, setReviewFilter] = useState<ReviewStatus | ''>('');
+    const [sharedSteps, setSharedSteps] = useState<SharedStep[]>([]);
+    const [sharedStepsModal, setSharedStepsModal] = useState<{ focusId: string | null } | null>(null);
+
+    // Role permissions, overridden by a grant on the document's folder
+    const can = (permission: Permission) => !!access?.can(docFolderId, permission);
 
     const loadData = async () => {
         if (!documentId) return;
         setLoading(true);
         try {
-            const [doc, s, c] = await Promise.all([
+            const [doc, s, c, acl, fields, tags, blocks] = await Promise.all([
                 DriveService.getDocument(documentId),
                 TestCaseService.getSections(documentId),
-                TestCaseService.getCases(documentId)
+                TestCaseService.getCases(documentId),
+                FolderAccessService.getMyAccess(),
+                CustomFieldService.getForDocument(documentId),
+                TestCaseService.getAllTags(),
+                SharedStepService.getAll()
             ]);
-            if (doc) setDocumentTitle(doc.title);
+            if (doc) {
+                setDocumentTitle(doc.title);
+                setDocFolderId(doc.folderId);
+            }
+            setAccess(acl);
+            setCustomFields(fields);
+            setAllTags(tags);
+            setSharedSteps(blocks);
             setSections(s);
-            const sortedCases = c.sort((a, b) => (a.seq_id || 0) - (b.seq_id || 0));
-            setCases(sortedCases);
+            setCases(sortCasesBySection(c, s));
         } catch (e) {
             console.error(e);
         } finally {
@@ -62,18 +109,47 @@ export const TestCaseManager = () => {
             setSelectedSectionId(null);
             setSelectedCase(null);
             setIsEditing(false);
+            setCheckedIds([]);
+            setFieldFilter({ key: '', value: '' });
+            setTagQuery('');
+            setReviewFilter('');
         }
     }, [documentId]);
 
+    const loadHistory = (caseId: string) => {
+        HistoryService.getLogs(caseId).then(setCaseHistory);
+        CaseVersionService.getVersions(caseId).then(setCaseVersions);
+    };
+
     useEffect(() => {
-        if (selectedCase && isHistoryOpen) {
-            HistoryService.getLogs(selectedCase.id).then(setCaseHistory);
-        }
+        if (selectedCase && isHistoryOpen) loadHistory(selectedCase.id);
     }, [isHistoryOpen, selectedCase]);
 
-    const filteredCases = selectedSectionId
-        ? cases.filter(c => c.sectionId === selectedSectionId)
+    const handleRestoreVersion = async (version: CaseVersion) => {
+        try {
+            const restored = await CaseVersionService.restore(version.id, user!);
+            setSelectedCase(restored);
+            setIsEditing(false);
+            loadHistory(restored.id);
+            loadData();
+        } catch (e: any) {
+            alert(e?.message || '복원에 실패했습니다.');
+        }
+    };
+
+    // A parent section shows the cases of all its descendants
+    const sectionCases = selectedSectionId
+        ? (() => {
+            const ids = getDescendantSectionIds(sections, selectedSectionId);
+            return cases.filter(c => ids.has(c.sectionId));
+        })()
         : cases;
+    const filterField = customFields.find(f => f.key === fieldFilter.key);
+    const tagQueryError = validateTagQuery(tagQuery);
+    const filteredCases = sectionCases
+        .filter(c => !filterField || matchesCustomFieldFilter(c, filterField, fieldFilter.value))
+        .filter(tagQueryError ? () => true : tagQueryFilter(tagQuery))
+        .filter(c => !reviewFilter || getReviewStatus(c) === reviewFilter);
 
     const handleCreateCase = () => {
         if (!documentId) return;
@@ -84,6 +160,8 @@ export const TestCaseManager = () => {
             priority: 'MEDIUM',
             type: 'FUNCTIONAL',
             platform_type: 'WEB',
+            customFields: {},
+            tags: [],
             steps: [{ id: '1', step: '', expected: '' }]
         };
         setEditForm(newCase);
@@ -101,10 +179,10 @@ export const TestCaseManager = () => {
 
     const handleDeleteCase = async (caseId: string, event?: React.MouseEvent) => {
         event?.stopPropagation();
-        const isConfirmed = window.confirm(`⚠️ CASCADE WARNING ⚠️\n\nDeleting this test case will PERMANENTLY DELETE it.\nActive Runners utilizing this case may be affected.\n\nAre you sure?`);
-        if (!isConfirmed) return;
+        const isConfirmed = window.confirm(`Move this test case to the Trash?\n\nActive Runners will hide it until it is restored.`);
+        if (!isConfirmed || !user) return;
 
-        await TestCaseService.deleteCase(caseId);
+        await TestCaseService.deleteCases([caseId], user);
         loadData();
         if (selectedCase?.id === caseId) {
             setSelectedCase(null);
@@ -116,24 +194,122 @@ export const TestCaseManager = () => {
         event.stopPropagation();
         event.preventDefault();
 
-        const sectionCases = cases.filter(c => c.sectionId === sectionId);
-        const count = sectionCases.length;
+        const subtree = getDescendantSectionIds(sections, sectionId);
+        const count = cases.filter(c => subtree.has(c.sectionId)).length;
 
         // Cascade Warning
-        if (count > 0) {
-            const isConfirmed = window.confirm(`⚠️ CASCADE WARNING ⚠️\n\nDeleting this section will PERMANENTLY DELETE ${count} Test Cases.\nActive Runners utilizing these cases may be affected.\n\nAre you sure?`);
+        if (count > 0 || subtree.size > 1) {
+            const isConfirmed = window.confirm(`Move this section, its ${subtree.size - 1} sub-sections and ${count} Test Cases to the Trash?\n\nActive Runners will hide these cases until they are restored.`);
             if (!isConfirmed) return;
         }
 
         await TestCaseService.deleteSection(sectionId);
         loadData();
-        if (selectedSectionId === sectionId) {
+        if (selectedSectionId && subtree.has(selectedSectionId)) {
             setSelectedSectionId(null);
         }
     };
 
+    const handleMoveSection = async (sectionId: string, parentId: string | null, index: number) => {
+        try {
+            await TestCaseService.moveSection(sectionId, parentId, index);
+        } catch (e: any) {
+            alert(e?.message || '섹션 이동에 실패했습니다.');
+        }
+        loadData();
+    };
+
+    const handleSubmitSection = async (title: string, parentId: string | null) => {
+        if (!documentId || !sectionModal) return;
+        const { section } = sectionModal;
+        if (!section) {
+            await TestCaseService.createSection({ documentId, title, parentId });
+        } else {
+            if (title !== section.title) await TestCaseService.renameSection(section.id, title);
+            if (parentId !== (section.parentId || null)) {
+                const siblingCount = sections.filter(s => (s.parentId || null) === parentId).length;
+                await TestCaseService.moveSection(section.id, parentId, siblingCount);
+            }
+        }
+        loadData();
+    };
+
+    // Drag-to-reorder: the dragged case takes the place of the case it is dropped on (moving sections if needed).
+    // Dragging down lands after the target, dragging up or from another section lands before it.
+    const handleDropCase = async (target: TestCase) => {
+        const caseId = dragCaseId;
+        setDragCaseId(null);
+        setDropCaseId(null);
+        if (!caseId || caseId === target.id) return;
+        const index = cases.filter(c => c.sectionId === target.sectionId).findIndex(c => c.id === target.id);
+        try {
+            await TestCaseService.moveCase(caseId, target.sectionId, index);
+        } catch (e: any) {
+            alert(e?.message || '순서 변경에 실패했습니다.');
+        }
+        loadData();
+    };
+
+    // --- Bulk actions on the checked cases ---
+    const toggleChecked = (caseId: string) =>
+        setCheckedIds(prev => prev.includes(caseId) ? prev.filter(id => id !== caseId) : [...prev, caseId]);
+    const allChecked = filteredCases.length > 0 && filteredCases.every(c => checkedIds.includes(c.id));
+
+    const runBulk = async (action: (ids: string[]) => Promise<unknown>) => {
+        if (!user || checkedIds.length === 0) return;
+        try {
+            await action(checkedIds);
+            setCheckedIds([]);
+            if (selectedCase && checkedIds.includes(selectedCase.id)) {
+                setSelectedCase(null);
+                setIsEditing(false);
+            }
+        } catch (e: any) {
+            alert(e?.message || '일괄 작업에 실패했습니다.');
+        }
+        loadData();
+    };
+
+    const handleBulkDelete = () => {
+        if (!window.confirm(`Move ${checkedIds.length} test cases to the Trash?\n\nActive Runners will hide them until they are restored.`)) return;
+        runBulk(ids => TestCaseService.deleteCases(ids, user!));
+    };
+
+    // Step edits copy the step so the case being edited is not mutated before it is saved
+    const updateStep = (idx: number, patch: Partial<TestStep>) => {
+        setEditForm({ ...editForm, steps: (editForm.steps || []).map((s, i) => i === idx ? { ...s, ...patch } : s) });
+    };
+
+    const moveStep = (idx: number, delta: number) => {
+        const steps = [...(editForm.steps || [])];
+        const target = idx + delta;
+        if (target < 0 || target >= steps.length) return;
+        [steps[idx], steps[target]] = [steps[target], steps[idx]];
+        setEditForm({ ...editForm, steps });
+    };
+
+    const sharedStepMap = new Map(sharedSteps.map(b => [b.id, b]));
+    const selectedSteps = selectedCase ? expandSteps(selectedCase.steps, sharedStepMap) : [];
+
+    const addSharedStep = (blockId: string) => {
+        const block = sharedStepMap.get(blockId);
+        if (block) setEditForm({ ...editForm, steps: [...(editForm.steps || []), makeSharedStepRef(block, Date.now().toString())] });
+    };
+
     const getUserName = (id: string) => users.find(u => u.id === id)?.name || id;
 
+    const historyLabels = {
+        ...Object.fromEntries(customFields.map(f => [`customFields.${f.key}`, f.name])),
+        reviewStatus: '리뷰 상태', reviewer: '리뷰어', reviewComment: '리뷰 코멘트', parameters: '파라미터', attachments: '첨부 파일'
+    };
+
+    // Review and attachment changes do not touch the list order, so the case is patched in place
+    const handleCasePatched = (updated: TestCase) => {
+        setSelectedCase(updated);
+        setCases(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+        if (isHistoryOpen) loadHistory(updated.id);
+    };
+
     if (!documentId) return <div className="p-8 text-center text-gray-500">Document ID missing.</div>;
 
     return (
@@ -153,7 +329,7 @@ export const TestCaseManager = () => {
                 <div className="w-64 bg-gray-50 border-r flex flex-col">
                     <div className="p-3 border-b flex justify-between items-center">
                         <span className="font-bold text-gray-700 text-sm">Sections</span>
-                        <button onClick={() => setSectionModalOpen(true)} className="p-1 hover:bg-gray-200 rounded text-blue-600"><Plus size={16} /></button>
+                        {can('MANAGE_CASES') && <button onClick={() => setSectionModal({ section: null, parentId: null })} className="p-1 hover:bg-gray-200 rounded text-blue-600"><Plus size={16} /></button>}
                     </div>
 
                     {loading ? (
@@ -161,30 +337,18 @@ export const TestCaseManager = () => {
                             <Loader2 className="animate-spin text-gray-400" />
                         </div>
                     ) : (
-                        <div className="flex-1 overflow-y-auto p-2 space-y-1">
-                            <div
-                                className={`p-2 text-sm rounded cursor-pointer flex items-center gap-2 ${selectedSectionId === null ? 'bg-blue-100 text-blue-700 font-bold' : 'hover:bg-gray-100'}`}
-                                onClick={() => setSelectedSectionId(null)}
-                            >
-                                <Folder size={16} /> All Cases
-                            </div>
-                            {sections.map(s => (
-                                <div
-                                    key={s.id}
-                                    className={`p-2 text-sm rounded cursor-pointer flex items-center justify-between group ${selectedSectionId === s.id ? 'bg-blue-100 text-blue-700 font-bold' : 'hover:bg-gray-100'}`}
-                                    onClick={() => setSelectedSectionId(s.id)}
-                                >
-                                    <div className="flex items-center gap-2 overflow-hidden">
-                                        <FolderTree size={16} className="flex-shrink-0" /> <span className="truncate">{s.title}</span>
-                                    </div>
-                                    <button
-                                        onClick={(e) => handleDeleteSection(s.id, e)}
-                                        className="p-1 rounded hover:bg-red-100 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
-                                    >
-                                        <Trash2 size={14} />
-                                    </button>
-                                </div>
-                            ))}
+                        <div className="flex-1 overflow-y-auto p-2">
+                            <SectionTree
+                                sections={sections}
+                                cases={cases}
+                                selectedSectionId={selectedSectionId}
+                                onSelect={setSelectedSectionId}
+                                canEdit={can('MANAGE_CASES')}
+                                onAddChild={(parentId) => setSectionModal({ section: null, parentId })}
+                                onEdit={(section) => setSectionModal({ section, parentId: section.parentId || null })}
+                                onDelete={(section, e) => handleDeleteSection(section.id, e)}
+                                onMove={handleMoveSection}
+                            />
                         </div>
                     )}
                 </div>
@@ -192,13 +356,103 @@ export const TestCaseManager = () => {
                 {/* 2. Middle: Case List */}
                 <div className="w-80 border-r flex flex-col bg-white">
                     <div className="p-3 border-b flex justify-between items-center bg-gray-50/50">
-                        <span className="font-bold text-sm text-gray-700">{filteredCases.length} Cases</span>
+                        <label className="font-bold text-sm text-gray-700 flex items-center gap-2">
+                            {can('MANAGE_CASES') && (
+                                <input
+                                    type="checkbox"
+                                    className="accent-blue-600"
+                                    checked={allChecked}
+                                    onChange={() => setCheckedIds(allChecked ? [] : filteredCases.map(c => c.id))}
+                                    title="전체 선택"
+                                />
+                            )}
+                            {filteredCases.length} Cases
+                        </label>
                         <div className="flex gap-1">
+                            {can('MANAGE_DRIVE') && <button onClick={() => setFieldsOpen(true)} className="p-1 hover:bg-gray-100 rounded text-gray-500" title="사용자 정의 필드"><SlidersHorizontal size={16} /></button>}
+                            <button onClick={() => setBaselinesOpen(true)} className="p-1 hover:bg-gray-100 rounded text-gray-500" title="베이스라인"><Milestone size={16} /></button>
+                            <button onClick={() => setSharedStepsModal({ focusId: null })} className="p-1 hover:bg-gray-100 rounded text-gray-500" title="공유 스텝"><Library size={16} /></button>
                             <button onClick={() => setImportOpen(true)} className="p-1 hover:bg-gray-100 rounded text-gray-500" title="Import/Export"><ArrowRightLeft size={16} /></button>
-                            <button onClick={handleCreateCase} className="p-1 hover:bg-blue-50 text-blue-600 rounded"><Plus size={18} /></button>
+                            {can('MANAGE_CASES') && <button onClick={handleCreateCase} className="p-1 hover:bg-blue-50 text-blue-600 rounded"><Plus size={18} /></button>}
                         </div>
                     </div>
 
+                    <div className="p-2 border-b text-xs">
+                        <div className="flex items-center gap-1">
+                            <Tag size={12} className="text-gray-400 flex-shrink-0" />
+                            <input
+                                className={`border rounded p-1 min-w-0 flex-1 ${tagQueryError ? 'border-red-300 bg-red-50' : ''}`}
+                                value={tagQuery}
+                                onChange={e => setTagQuery(e.target.value)}
+                                placeholder="태그 필터 (예: smoke AND NOT deprecated)"
+                            />
+                            {tagQuery && <button onClick={() => setTagQuery('')} className="p-1 rounded hover:bg-gray-100 text-gray-400" title="필터 해제"><X size={12} /></button>}
+                        </div>
+                        {tagQueryError && <div className="text-red-500 mt-1">{tagQueryError}</div>}
+                        <div className="flex items-center gap-1 mt-1">
+                            <BadgeCheck size={12} className="text-gray-400 flex-shrink-0" />
+                            <select className="border rounded p-1 bg-white min-w-0 flex-1" value={reviewFilter} onChange={e => setReviewFilter(e.target.value as ReviewStatus | '')}>
+                                <option value="">리뷰 상태 전체</option>
+                                {REVIEW_STATUSES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    {customFields.length > 0 && (
+                        <div className="p-2 border-b flex items-center gap-1 text-xs">
+                            <Filter size={12} className="text-gray-400 flex-shrink-0" />
+                            <select className="border rounded p-1 bg-white min-w-0 flex-1" value={fieldFilter.key} onChange={e => setFieldFilter({ key: e.target.value, value: '' })}>
+                                <option value="">필드로 필터...</option>
+                                {customFields.map(f => <option key={f.key} value={f.key}>{f.name}</option>)}
+                            </select>
+                            {filterField && (filterField.fieldType === 'SELECT' || filterField.fieldType === 'USER' ? (
+                                <select className="border rounded p-1 bg-white min-w-0 flex-1" value={fieldFilter.value} onChange={e => setFieldFilter({ ...fieldFilter, value: e.target.value })}>
+                                    <option value="">(전체)</option>
+                                    <option value={CUSTOM_FIELD_EMPTY}>(비어 있음)</option>
+                                    {filterField.fieldType === 'SELECT'
+                                        ? filterField.options.map(o => <option key={o} value={o}>{o}</option>)
+                                        : users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                                </select>
+                            ) : (
+                                <input
+                                    type={filterField.fieldType === 'NUMBER' ? 'number' : filterField.fieldType === 'DATE' ? 'date' : 'text'}
+                                    className="border rounded p-1 min-w-0 flex-1"
+                                    value={fieldFilter.value}
+                                    onChange={e => setFieldFilter({ ...fieldFilter, value: e.target.value })}
+                                />
+                            ))}
+                            {filterField && <button onClick={() => setFieldFilter({ key: '', value: '' })} className="p-1 rounded hover:bg-gray-100 text-gray-400" title="필터 해제"><X size={12} /></button>}
+                        </div>
+                    )}
+
+                    {checkedIds.length > 0 && (
+                        <div className="p-2 border-b bg-blue-50 flex flex-wrap items-center gap-1 text-xs">
+                            <span className="font-bold text-blue-700 mr-1">{checkedIds.length}개 선택</span>
+                            <select className="border rounded p-1 bg-white" value="" onChange={e => runBulk(ids => TestCaseService.bulkUpdateCases(ids, { priority: e.target.value as CasePriority }, user!))}>
+                                <option value="" disabled>Priority</option>
+                                <option value="HIGH">High</option>
+                                <option value="MEDIUM">Medium</option>
+                                <option value="LOW">Low</option>
+                            </select>
+                            <select className="border rounded p-1 bg-white" value="" onChange={e => runBulk(ids => TestCaseService.bulkUpdateCases(ids, { type: e.target.value as CaseType }, user!))}>
+                                <option value="" disabled>Type</option>
+                                <option value="FUNCTIONAL">Functional</option>
+                                <option value="UI">UI</option>
+                                <option value="PERFORMANCE">Performance</option>
+                                <option value="SECURITY">Security</option>
+                            </select>
+                            <select className="border rounded p-1 bg-white" value="" onChange={e => runBulk(ids => TestCaseService.bulkUpdateCases(ids, { platform_type: e.target.value as PlatformType }, user!))}>
+                                <option value="" disabled>Platform</option>
+                                <option value="WEB">WEB</option>
+                                <option value="APP">APP</option>
+                            </select>
+                            <button onClick={() => setBulkMoveOpen(true)} className="p-1 rounded hover:bg-blue-100 text-gray-600" title="섹션/문서로 이동"><FolderInput size={14} /></button>
+                            <button onClick={() => runBulk(ids => TestCaseService.duplicateCases(ids, user!))} className="p-1 rounded hover:bg-blue-100 text-gray-600" title="복제"><Copy size={14} /></button>
+                            <button onClick={handleBulkDelete} className="p-1 rounded hover:bg-red-100 text-red-500" title="삭제"><Trash2 size={14} /></button>
+                            <button onClick={() => setCheckedIds([])} className="p-1 rounded hover:bg-blue-100 text-gray-400 ml-auto" title="선택 해제"><X size={14} /></button>
+                        </div>
+                    )}
+
                     {loading ? (
                         <LoadingSpinner />
                     ) : (
@@ -206,22 +460,54 @@ export const TestCaseManager = () => {
                             {filteredCases.map(c => (
                                 <div
                                     key={c.id}
-                                    className={`p-3 border-b cursor-pointer hover:bg-gray-50 group transition-colors ${selectedCase?.id === c.id ? 'bg-blue-50 border-l-4 border-l-blue-500' : 'border-l-4 border-l-transparent'}`}
+                                    className={`p-3 border-b cursor-pointer hover:bg-gray-50 group transition-colors ${selectedCase?.id === c.id ? 'bg-blue-50 border-l-4 border-l-blue-500' : 'border-l-4 border-l-transparent'} ${dropCaseId === c.id ? 'border-t-2 border-t-blue-500' : ''} ${dragCaseId === c.id ? 'opacity-50' : ''}`}
                                     onClick={() => { setSelectedCase(c); setIsEditing(false); }}
+                                    draggable={can('MANAGE_CASES')}
+                                    onDragStart={(e) => { setDragCaseId(c.id); e.dataTransfer.effectAllowed = 'move'; }}
+                                    onDragEnd={() => { setDragCaseId(null); setDropCaseId(null); }}
+                                    onDragOver={(e) => { if (dragCaseId) { e.preventDefault(); setDropCaseId(c.id); } }}
+                                    onDragLeave={() => setDropCaseId(null)}
+                                    onDrop={(e) => { e.preventDefault(); handleDropCase(c); }}
                                 >
                                     <div className="text-xs text-gray-500 mb-1 flex justify-between items-start">
                                         <div className="flex gap-2 items-center">
+                                            {can('MANAGE_CASES') && (
+                                                <input
+                                                    type="checkbox"
+                                                    className="accent-blue-600"
+                                                    checked={checkedIds.includes(c.id)}
+                                                    onClick={e => e.stopPropagation()}
+                                                    onChange={() => toggleChecked(c.id)}
+                                                />
+                                            )}
                                             <span className="font-mono text-gray-400">#{c.seq_id || '?'}</span>
                                             <span className={`px-1.5 rounded text-[10px] font-bold ${c.priority === 'HIGH' ? 'bg-red-100 text-red-600' : 'bg-gray-100 text-gray-500'}`}>{c.priority}</span>
+                                            <ReviewStatusBadge status={getReviewStatus(c)} />
                                         </div>
-                                        <button onClick={(e) => handleDeleteCase(c.id, e)} className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
-                                            <Trash2 size={12} />
-                                        </button>
+                                        {can('MANAGE_CASES') && (
+                                            <button onClick={(e) => handleDeleteCase(c.id, e)} className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                <Trash2 size={12} />
+                                            </button>
+                                        )}
                                     </div>
                                     <div className="font-medium text-sm line-clamp-2 flex items-center gap-1 text-gray-800">
                                         {c.platform_type === 'APP' && <Smartphone size={12} className="text-purple-500 flex-shrink-0" />}
                                         {c.title}
                                     </div>
+                                    {(c.tags || []).length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                            {c.tags!.map(tag => (
+                                                <button
+                                                    key={tag}
+                                                    onClick={(e) => { e.stopPropagation(); setTagQuery(tag); }}
+                                                    className="text-[10px] px-1.5 rounded bg-gray-100 text-gray-500 hover:bg-blue-100 hover:text-blue-700"
+                                                    title="이 태그로 필터"
+                                                >
+                                                    {tag}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             ))}
                             {filteredCases.length === 0 && <div className="p-8 text-center text-gray-400 text-sm">No cases found.</div>}
@@ -272,7 +558,9 @@ export const TestCaseManager = () => {
                                     <div>
                                         <label className="block text-sm font-bold text-gray-700 mb-1">Section</label>
                                         <select className="w-full border rounded-lg p-2 bg-white" value={editForm.sectionId || ''} onChange={e => setEditForm({ ...editForm, sectionId: e.target.value })}>
-                                            {sections.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+                                            {flattenSectionTree(sections).map(({ section: s, depth }) => (
+                                                <option key={s.id} value={s.id}>{'\u00A0\u00A0\u00A0'.repeat(depth)}{s.title}</option>
+                                            ))}
                                         </select>
                                     </div>
                                     <div>
@@ -284,6 +572,25 @@ export const TestCaseManager = () => {
                                         </select>
                                     </div>
                                 </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-gray-700 mb-1">Tags</label>
+                                    <TagInput tags={editForm.tags || []} suggestions={allTags} onChange={tags => setEditForm({ ...editForm, tags })} />
+                                </div>
+                                {customFields.length > 0 && (
+                                    <div className="grid grid-cols-2 gap-4">
+                                        {customFields.map(f => (
+                                            <div key={f.key}>
+                                                <label className="block text-sm font-bold text-gray-700 mb-1">{f.name}</label>
+                                                <CustomFieldInput
+                                                    field={f}
+                                                    value={editForm.customFields?.[f.key]}
+                                                    users={users}
+                                                    onChange={value => setEditForm({ ...editForm, customFields: { ...(editForm.customFields || {}), [f.key]: value } })}
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                                 <div>
                                     <label className="block text-sm font-bold text-gray-700 mb-1">Preconditions</label>
                                     <textarea className="w-full border rounded-lg p-2 h-20 focus:ring-2 focus:ring-blue-500 outline-none" value={editForm.precondition || ''} onChange={e => setEditForm({ ...editForm, precondition: e.target.value })} />
@@ -300,28 +607,37 @@ export const TestCaseManager = () => {
                                     <label className="block text-sm font-bold text-gray-700 mb-2">Test Steps</label>
                                     <div className="space-y-3">
                                         {editForm.steps?.map((step, idx) => (
-                                            <div key={idx} className="flex gap-2 items-start group bg-gray-50 p-3 rounded-lg border border-gray-100">
-                                                <div className="w-6 text-center text-gray-400 py-2 font-bold">{idx + 1}</div>
-                                                <textarea
-                                                    className="flex-1 border rounded p-2 h-20 resize-none focus:ring-2 focus:ring-blue-500 outline-none"
-                                                    placeholder="Action"
-                                                    value={step.step}
-                                                    onChange={e => {
-                                                        const newSteps = [...(editForm.steps || [])];
-                                                        newSteps[idx].step = e.target.value;
-                                                        setEditForm({ ...editForm, steps: newSteps });
-                                                    }}
-                                                />
-                                                <textarea
-                                                    className="flex-1 border rounded p-2 h-20 resize-none focus:ring-2 focus:ring-blue-500 outline-none"
-                                                    placeholder="Expected Result"
-                                                    value={step.expected}
-                                                    onChange={e => {
-                                                        const newSteps = [...(editForm.steps || [])];
-                                                        newSteps[idx].expected = e.target.value;
-                                                        setEditForm({ ...editForm, steps: newSteps });
-                                                    }}
-                                                />
+                                            <div key={step.id || idx} className="flex gap-2 items-start group bg-gray-50 p-3 rounded-lg border border-gray-100">
+                                                <div className="w-6 flex flex-col items-center text-gray-400">
+                                                    <button onClick={() => moveStep(idx, -1)} disabled={idx === 0} className="hover:text-blue-600 disabled:opacity-20" title="위로"><ChevronUp size={14} /></button>
+                                                    <span className="font-bold">{idx + 1}</span>
+                                                    <button onClick={() => moveStep(idx, 1)} disabled={idx === (editForm.steps?.length || 0) - 1} className="hover:text-blue-600 disabled:opacity-20" title="아래로"><ChevronDown size={14} /></button>
+                                                </div>
+                                                {step.sharedStepId ? (
+                                                    <div className="flex-1 border border-indigo-100 bg-indigo-50 rounded p-2 text-sm text-indigo-800">
+                                                        <div className="font-bold flex items-center gap-1"><Library size={14} /> 공유 스텝: {sharedStepMap.get(step.sharedStepId)?.name || step.step}</div>
+                                                        <div className="text-xs text-indigo-600 mt-1">
+                                                            {sharedStepMap.has(step.sharedStepId)
+                                                                ? `${sharedStepMap.get(step.sharedStepId)!.steps.length} steps · 내용은 공유 스텝에서 수정합니다.`
+                                                                : '삭제된 공유 스텝입니다.'}
+                                                        </div>
+                                                    </div>
+                                                ) : (
+                                                    <>
+                                                        <textarea
+                                                            className="flex-1 border rounded p-2 h-20 resize-none focus:ring-2 focus:ring-blue-500 outline-none"
+                                                            placeholder="Action"
+                                                            value={step.step}
+                                                            onChange={e => updateStep(idx, { step: e.target.value })}
+                                                        />
+                                                        <textarea
+                                                            className="flex-1 border rounded p-2 h-20 resize-none focus:ring-2 focus:ring-blue-500 outline-none"
+                                                            placeholder="Expected Result"
+                                                            value={step.expected}
+                                                            onChange={e => updateStep(idx, { expected: e.target.value })}
+                                                        />
+                                                    </>
+                                                )}
                                                 <button
                                                     onClick={() => {
                                                         const newSteps = editForm.steps?.filter((_, i) => i !== idx);
@@ -339,8 +655,26 @@ export const TestCaseManager = () => {
                                         >
                                             <Plus size={16} /> Add Step
                                         </button>
+                                        {sharedSteps.length > 0 && (
+                                            <div className="flex items-center gap-2 text-sm">
+                                                <Library size={16} className="text-indigo-500" />
+                                                <select className="flex-1 border rounded-lg p-2 bg-white" value="" onChange={e => addSharedStep(e.target.value)}>
+                                                    <option value="">공유 스텝 추가...</option>
+                                                    {sharedSteps.map(b => <option key={b.id} value={b.id}>{b.name} ({b.steps.length} steps)</option>)}
+                                                </select>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-gray-700 mb-1">Parameters</label>
+                                    <p className="text-xs text-gray-500 mb-2">스텝에 {'{{column}}'} 형태로 쓰면 런에서 행마다 값이 채워져 한 번씩 실행됩니다.</p>
+                                    <ParameterTableEditor
+                                        value={editForm.parameters}
+                                        onChange={parameters => setEditForm({ ...editForm, parameters })}
+                                        suggestedColumns={findPlaceholders({ precondition: editForm.precondition, steps: expandSteps(editForm.steps, sharedStepMap) })}
+                                    />
+                                </div>
                                 <div className="pt-4 flex gap-3 justify-end sticky bottom-0 bg-white/90 backdrop-blur pb-4 border-t mt-4">
                                     <button onClick={() => setIsEditing(false)} className="px-6 py-2 border rounded-lg hover:bg-gray-50 font-medium">Cancel</button>
                                     <button onClick={handleSaveCase} className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-bold shadow-sm">Save Case</button>
@@ -361,6 +695,13 @@ export const TestCaseManager = () => {
                                         )}
                                     </div>
                                     <h2 className="text-2xl font-bold text-gray-900 leading-tight">{selectedCase.title}</h2>
+                                    {(selectedCase.tags || []).length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mt-2">
+                                            {selectedCase.tags!.map(tag => (
+                                                <span key={tag} className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-blue-50 text-blue-700 border border-blue-100"><Tag size={10} /> {tag}</span>
+                                            ))}
+                                        </div>
+                                    )}
 
                                     <div className="flex items-center gap-4 mt-3 text-xs text-gray-500">
                                         <div className="flex items-center gap-1">
@@ -378,7 +719,7 @@ export const TestCaseManager = () => {
                                     </div>
 
                                 </div>
-                                <div className="flex gap-2">
+                                {can('MANAGE_CASES') && <div className="flex gap-2">
                                     <button
                                         onClick={() => handleDeleteCase(selectedCase.id)}
                                         className="px-3 py-1.5 border hover:bg-red-50 text-red-600 rounded-lg flex items-center gap-2 text-sm font-semibold transition"
@@ -391,10 +732,31 @@ export const TestCaseManager = () => {
                                     >
                                         <Edit size={16} /> Edit
                                     </button>
-                                </div>
+                                </div>}
                             </div>
 
                             <div className="space-y-6 max-w-4xl">
+                                {user && (
+                                    <ReviewPanel
+                                        testCase={selectedCase}
+                                        user={user}
+                                        users={users}
+                                        canManage={can('MANAGE_CASES')}
+                                        canReview={can('REVIEW_CASES')}
+                                        onChange={handleCasePatched}
+                                    />
+                                )}
+                                {customFields.length > 0 && (
+                                    <div className="grid grid-cols-3 gap-3 bg-gray-50 p-4 rounded-lg border border-gray-200 text-sm">
+                                        {customFields.map(f => (
+                                            <div key={f.key}>
+                                                <div className="text-xs font-bold text-gray-500">{f.name}</div>
+                                                <div className="text-gray-800">{formatCustomFieldValue(f, selectedCase.customFields?.[f.key], users) || '-'}</div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
                                 {selectedCase.precondition && (
                                     <div className="bg-amber-50 p-4 rounded-lg border border-amber-100 text-amber-900">
                                         <h4 className="font-bold text-sm text-amber-800 mb-1 flex items-center gap-2"><AlertTriangle size={14} /> Preconditions</h4>
@@ -414,16 +776,27 @@ export const TestCaseManager = () => {
                                                 </tr>
                                             </thead>
                                             <tbody className="divide-y">
-                                                {selectedCase.steps.map((s, idx) => (
-                                                    <tr key={idx} className="hover:bg-gray-50 transition-colors">
-                                                        <td className="p-3 text-center text-gray-400 font-mono">{idx + 1}</td>
-                                                        <td className="p-3 border-r whitespace-pre-wrap align-top text-gray-800 leading-relaxed">
-                                                            <StepRenderer text={s.step} />
-                                                        </td>
-                                                        <td className="p-3 whitespace-pre-wrap align-top text-gray-800 leading-relaxed">{formatTextWithNumbers(s.expected)}</td>
-                                                    </tr>
+                                                {selectedSteps.map((s, idx) => (
+                                                    <React.Fragment key={idx}>
+                                                        {s.sharedFrom && selectedSteps[idx - 1]?.sharedFrom?.id !== s.sharedFrom.id && (
+                                                            <tr className="bg-indigo-50">
+                                                                <td colSpan={3} className="px-3 py-1">
+                                                                    <button onClick={() => setSharedStepsModal({ focusId: s.sharedFrom!.id })} className="text-xs font-bold text-indigo-700 flex items-center gap-1 hover:underline">
+                                                                        <Library size={12} /> 공유 스텝: {s.sharedFrom.name}
+                                                                    </button>
+                                                                </td>
+                                                            </tr>
+                                                        )}
+                                                        <tr className={`hover:bg-gray-50 transition-colors ${s.sharedFrom ? 'bg-indigo-50/30' : ''}`}>
+                                                            <td className="p-3 text-center text-gray-400 font-mono">{idx + 1}</td>
+                                                            <td className="p-3 border-r whitespace-pre-wrap align-top text-gray-800 leading-relaxed">
+                                                                <StepRenderer text={s.step} />
+                                                            </td>
+                                                            <td className="p-3 whitespace-pre-wrap align-top text-gray-800 leading-relaxed">{formatTextWithNumbers(s.expected)}</td>
+                                                        </tr>
+                                                    </React.Fragment>
                                                 ))}
-                                                {selectedCase.steps.length === 0 && (
+                                                {selectedSteps.length === 0 && (
                                                     <tr><td colSpan={3} className="p-8 text-center text-gray-400 italic">No steps defined.</td></tr>
                                                 )}
                                             </tbody>
@@ -431,6 +804,21 @@ export const TestCaseManager = () => {
                                     </div>
                                 </div>
 
+                                <ParameterTableView parameters={selectedCase.parameters} />
+
+                                {((selectedCase.attachments || []).length > 0 || can('MANAGE_CASES')) && (
+                                    <div>
+                                        <h4 className="font-bold text-sm text-gray-600 mb-2 flex items-center gap-2"><Paperclip size={14} /> Attachments</h4>
+                                        <Attachments
+                                            attachments={selectedCase.attachments || []}
+                                            onAdd={can('MANAGE_CASES') && user ? files => AttachmentService.addToCase(selectedCase.id, files, user).then(handleCasePatched) : undefined}
+                                            onRemove={can('MANAGE_CASES') && user ? a => {
+                                                if (window.confirm(`"${a.name}" 첨부를 삭제하시겠습니까?`)) AttachmentService.removeFromCase(selectedCase.id, a.id, user).then(handleCasePatched);
+                                            } : undefined}
+                                        />
+                                    </div>
+                                )}
+
                                 {selectedCase.note && (
                                     <div className="mt-6 bg-gray-50 p-4 rounded-lg border border-gray-200">
                                         <h4 className="font-bold text-sm text-gray-600 mb-1 flex items-center gap-2">
@@ -445,26 +833,22 @@ export const TestCaseManager = () => {
                         <div className="flex-1 flex flex-col items-center justify-center text-gray-300 bg-gray-50/50">
                             <FolderTree size={64} className="mb-4 text-gray-200" />
                             <p className="text-lg font-medium text-gray-400">Select a case to view details</p>
-                            <button onClick={handleCreateCase} className="mt-4 px-4 py-2 bg-white border rounded-lg text-sm text-blue-600 font-bold shadow-sm hover:shadow hover:bg-gray-50 transition">
-                                + Create New Case
-                            </button>
+                            {can('MANAGE_CASES') && (
+                                <button onClick={handleCreateCase} className="mt-4 px-4 py-2 bg-white border rounded-lg text-sm text-blue-600 font-bold shadow-sm hover:shadow hover:bg-gray-50 transition">
+                                    + Create New Case
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
 
-                <SimpleInputModal
-                    isOpen={isSectionModalOpen}
-                    onClose={() => setSectionModalOpen(false)}
-                    title="New Section"
-                    label="Section Name"
-                    placeholder="e.g. Auth Flow"
-                    onSubmit={async (val) => {
-                        if (documentId) {
-                            await TestCaseService.createSection({ documentId: documentId, title: val });
-                            loadData();
-                            setSectionModalOpen(false);
-                        }
-                    }}
+                <SectionModal
+                    isOpen={!!sectionModal}
+                    onClose={() => setSectionModal(null)}
+                    sections={sections}
+                    section={sectionModal?.section || null}
+                    defaultParentId={sectionModal?.parentId || null}
+                    onSubmit={handleSubmitSection}
                 />
 
                 {documentId && (
@@ -472,13 +856,54 @@ export const TestCaseManager = () => {
                         isOpen={isImportOpen}
                         onClose={() => setImportOpen(false)}
                         documentId={documentId}
-                        cases={cases}
+                        cases={cases.map(c => expandCaseSteps(c, sharedStepMap))}
                         sections={sections}
+                        customFields={customFields}
+                        canImport={can('IMPORT_CASES')}
                         onImportSuccess={loadData}
                     />
                 )}
 
-                <HistoryModal isOpen={isHistoryOpen} onClose={() => setHistoryOpen(false)} logs={caseHistory} />
+                {documentId && (
+                    <BulkMoveModal
+                        isOpen={isBulkMoveOpen}
+                        onClose={() => setBulkMoveOpen(false)}
+                        count={checkedIds.length}
+                        currentDocumentId={documentId}
+                        canManageDocument={(doc) => !!access?.can(doc.folderId, 'MANAGE_CASES')}
+                        onMove={(sectionId) => runBulk(ids => TestCaseService.moveCasesToSection(ids, sectionId, user!))}
+                    />
+                )}
+
+                <CustomFieldsModal
+                    scope={isFieldsOpen ? { id: documentId, name: documentTitle, type: 'DOCUMENT' } : null}
+                    onClose={() => { setFieldsOpen(false); loadData(); }}
+                />
+
+                <HistoryModal
+                    isOpen={isHistoryOpen}
+                    onClose={() => setHistoryOpen(false)}
+                    logs={caseHistory}
+                    fieldLabels={historyLabels}
+                    versions={caseVersions}
+                    onRestore={can('MANAGE_CASES') ? handleRestoreVersion : undefined}
+                />
+
+                <SharedStepsModal
+                    isOpen={!!sharedStepsModal}
+                    onClose={() => setSharedStepsModal(null)}
+                    focusId={sharedStepsModal?.focusId}
+                    canManage={can('MANAGE_CASES')}
+                    onChanged={() => SharedStepService.getAll().then(setSharedSteps)}
+                />
+
+                <BaselinesModal
+                    isOpen={isBaselinesOpen}
+                    onClose={() => setBaselinesOpen(false)}
+                    documentId={documentId}
+                    documentTitle={documentTitle}
+                    canManage={can('MANAGE_CASES')}
+                />
             </div>
         </div>
     );
@@ -0,0 +1,54 @@
+import React, { useState, useEffect } from 'react';
+import { CustomField } from '../../types';
+import { CustomFieldService } from '../../storage';
+import { CaseFieldChange } from '../../utils/caseDiff';
+import { StepDiffViewer } from '../test-case/StepDiffViewer';
+
+const formatValue = (change: CaseFieldChange, value: any, fields: CustomField[]): string => {
+    if (change.key === 'tags') return (value || []).join(', ');
+    if (change.key === 'customFields') {
+        return Object.entries(value || {})
+            .filter(([, v]) => v !== null && v !== '')
+            .map(([key, v]) => `${fields.find(f => f.key === key)?.name || key}: ${v}`)
+            .join('\n');
+    }
+    return value === null || value === undefined ? '' : String(value);
+};
+
+// Two versions of a case, one row per changed field. Defaults to the runner's pinned vs. current case.
+export const CaseUpdateDiff = ({
+    changes, documentId, beforeLabel = '실행 시작 시점', afterLabel = '현재'
+}: {
+    changes: CaseFieldChange[],
+    documentId: string,
+    beforeLabel?: string,
+    afterLabel?: string
+}) => {
+    const [fields, setFields] = useState<CustomField[]>([]);
+
+    useEffect(() => {
+        if (changes.some(c => c.key === 'customFields')) CustomFieldService.getForDocument(documentId).then(setFields);
+    }, [documentId]);
+
+    return (
+        <div className="border rounded-lg overflow-hidden text-sm">
+            <div className="grid grid-cols-2 bg-gray-50 border-b text-xs font-bold text-gray-500">
+                <div className="p-2">{beforeLabel}</div>
+                <div className="p-2 border-l">{afterLabel}</div>
+            </div>
+            {changes.map(change => (
+                <div key={change.key} className="border-b last:border-b-0">
+                    <div className="px-2 pt-2 text-xs font-bold text-gray-600">{change.label}</div>
+                    {change.key === 'steps' ? (
+                        <div className="p-2"><StepDiffViewer oldSteps={change.before || []} newSteps={change.after || []} /></div>
+                    ) : (
+                        <div className="grid grid-cols-2">
+                            <div className="p-2 whitespace-pre-wrap text-red-800 bg-red-50/60">{formatValue(change, change.before, fields) || <span className="text-gray-400">-</span>}</div>
+                            <div className="p-2 whitespace-pre-wrap text-green-800 bg-green-50/60 border-l">{formatValue(change, change.after, fields) || <span className="text-gray-400">-</span>}</div>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -1,8 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { BarChart2, XCircle, FileText, Bug, ExternalLink } from 'lucide-react';
+import { BarChart2, XCircle, FileText, Bug, ExternalLink, Paperclip } from 'lucide-react';
 import { ResponsiveContainer, PieChart, Pie, Cell, Tooltip, Legend } from 'recharts';
-import { TestRun, TestResult, Issue, TestCase, TestStatus } from '../../types';
-import { RunService, TestCaseService } from '../../storage';
+import { TestRun, TestResult, Issue, TestCase, TestStatus, TestStatusDefinition, RunStatusCounts, RunEnvironment, Attachment, Defect } from '../../types';
+import { RunService, DefectService, TestStatusService } from '../../storage';
+import { isFailing, percentOf, statusBreakdown, statusInfo, statusStyle, summarizeRun } from '../../utils/testStatus';
+import { environmentName, runEnvironments } from '../../utils/environments';
+import { DefectTrendPoint, defectTrend, isDefectClosed } from '../../utils/defects';
+import { Attachments } from '../common/Attachments';
+import { DefectKey, DefectSeverityBadge, DefectStatusBadge, ExternalIssue } from '../defects/DefectBadges';
+import { DefectTrendChart } from '../defects/DefectTrendChart';
+
+const StatusBadge = ({ statuses, status, className = '' }: { statuses: TestStatusDefinition[], status: TestStatus, className?: string }) => {
+    const info = statusInfo(statuses, status);
+    return <span className={`px-1.5 rounded font-bold ${className}`} style={statusStyle(info, true)}>{info.label}</span>;
+};
+
+// Rolled-up status of a data-driven case and the status of each of its rows
+type ParameterizedSummary = { caseId: string, title: string, status: TestStatus, rows: { label: string, status: TestStatus }[] };
 
 export const ReportModal = ({
     isOpen, onClose, runId
@@ -14,12 +28,16 @@ export const ReportModal = ({
     const [reportData, setReportData] = useState<{
         run: TestRun,
         results: TestResult[],
-        pass: number,
-        fail: number,
-        untested: number,
-        block: number,
-        na: number,
-        allDefects: { issue: Issue, caseTitle: string }[]
+        statuses: TestStatusDefinition[],
+        counts: RunStatusCounts,
+        caseCounts: RunStatusCounts,
+        byEnvironment: { environment: RunEnvironment, counts: RunStatusCounts }[],
+        parameterized: ParameterizedSummary[],
+        allDefects: { key: string, caseTitle: string, defect?: Defect, issue?: Issue }[],
+        openDefects: number,
+        closedDefects: number,
+        defectTrend: DefectTrendPoint[],
+        evidence: { key: string, caseTitle: string, platform?: string, status: TestStatus, attachments: Attachment[] }[]
     } | null>(null);
 
     useEffect(() => {
@@ -37,7 +55,7 @@ export const ReportModal = ({
     useEffect(() => {
         if (!selectedRunId) return;
 
-        RunService.getById(selectedRunId).then(async (run) => {
+        Promise.all([RunService.getById(selectedRunId), TestStatusService.getAll()]).then(async ([run, statuses]) => {
             if (!run) return;
 
             let results: TestResult[] = [];
@@ -47,51 +65,55 @@ export const ReportModal = ({
                 results = run.snapshot_data.results || [];
                 cases = run.snapshot_data.cases || [];
             } else {
-                const targetDocIds = run.target_document_ids || [];
-                [results, cases] = await Promise.all([
-                    RunService.getResults(run.id),
-                    targetDocIds.length > 0 ? TestCaseService.getCasesByDocumentIds(targetDocIds) : Promise.resolve([])
-                ]);
+                const [pins, runResults] = await Promise.all([RunService.getRunCases(run), RunService.getResults(run.id)]);
+                results = runResults;
+                cases = pins.map(p => p.snapshot);
             }
 
-            let pass = 0, fail = 0, block = 0, na = 0;
-            cases.forEach(c => {
-                const caseResults = results.filter(r => r.caseId === c.id);
-                let finalStatus: TestStatus = 'UNTESTED';
-
-                if (c.platform_type === 'APP') {
-                    const iosRes = caseResults.find(r => r.device_platform === 'iOS');
-                    const aosRes = caseResults.find(r => r.device_platform === 'Android');
-                    if (iosRes?.status === 'FAIL' || aosRes?.status === 'FAIL') finalStatus = 'FAIL';
-                    else if (iosRes?.status === 'BLOCK' || aosRes?.status === 'BLOCK') finalStatus = 'BLOCK';
-                    else if (iosRes?.status === 'NA' || aosRes?.status === 'NA') finalStatus = 'NA';
-                    else if (iosRes?.status === 'PASS' && aosRes?.status === 'PASS') finalStatus = 'PASS';
-                    else finalStatus = 'UNTESTED';
-                } else {
-                    const pcRes = caseResults.find(r => !r.device_platform || r.device_platform === 'PC');
-                    finalStatus = pcRes?.status || 'UNTESTED';
-                }
-
-                if (finalStatus === 'PASS') pass++;
-                else if (finalStatus === 'FAIL') fail++;
-                else if (finalStatus === 'BLOCK') block++;
-                else if (finalStatus === 'NA') na++;
-            });
-
-            const untested = cases.length - (pass + fail + block + na);
+            // One execution per parameter row; counts are per execution, then rolled up per case
+            const environments = runEnvironments(run);
+            const { executions: executionStatuses, caseStatuses, counts, caseCounts, byEnvironment } = summarizeRun(statuses, cases, results, environments);
+            const parameterized: ParameterizedSummary[] = cases
+                .map(c => ({ c, rows: executionStatuses.filter(e => e.execution.id === c.id) }))
+                .filter(({ rows }) => rows.some(r => r.execution.rowId))
+                .map(({ c, rows }) => ({
+                    caseId: c.id, title: c.title, status: caseStatuses.get(c.id)!,
+                    rows: rows.map(r => ({ label: r.execution.rowLabel || '', status: r.status }))
+                }));
 
-            const allDefects: { issue: Issue, caseTitle: string }[] = [];
             const caseMap = new Map(cases.map(c => [c.id, c.title]));
+            const titleFor = (caseId: string, rowId?: string | null) => {
+                const caseTitle = caseMap.get(caseId) || 'Unknown Case';
+                const rowLabel = executionStatuses.find(e => e.execution.id === caseId && (e.execution.rowId || null) === (rowId || null))?.execution.rowLabel;
+                return rowLabel ? `${caseTitle} [${rowLabel}]` : caseTitle;
+            };
+            const titleOf = (res: TestResult) => titleFor(res.caseId, res.rowId);
 
+            const evidence = results
+                .filter(res => (res.attachments || []).length > 0)
+                .map(res => ({ key: res.id, caseTitle: titleOf(res), platform: environmentName(environments, res.device_platform), status: res.status, attachments: res.attachments! }));
+
+            // Tracked defects linked to this run, plus free-text issues left on older results
+            const runDefects = await DefectService.getRunDefects(run.id);
+            const allDefects: { key: string, caseTitle: string, defect?: Defect, issue?: Issue }[] = runDefects.map(({ defect, link }) => ({
+                key: link.id, caseTitle: titleFor(link.caseId, link.rowId), defect
+            }));
             results.forEach(res => {
-                if (res.issues && res.issues.length > 0) {
-                    res.issues.forEach(issue => {
-                        allDefects.push({ issue, caseTitle: caseMap.get(res.caseId) || 'Unknown Case' });
-                    });
-                }
+                (res.issues || []).filter(issue => issue.label || issue.url).forEach(issue => {
+                    allDefects.push({ key: `${res.id}-${issue.id}`, caseTitle: titleOf(res), issue });
+                });
             });
 
-            setReportData({ run, results, pass, fail, block, na, untested, allDefects });
+            // Daily trend over the run's lifetime, capped to the last 30 days
+            const distinct = Array.from(new Map(runDefects.map(d => [d.defect.id, d.defect])).values());
+            const end = run.completedAt ? new Date(run.completedAt) : new Date();
+            const days = Math.min(30, Math.max(7, Math.ceil((end.getTime() - new Date(run.createdAt).getTime()) / 86400000) + 1));
+            const openDefects = distinct.filter(d => !isDefectClosed(d.status)).length;
+
+            setReportData({
+                run, results, statuses, counts, caseCounts, byEnvironment: byEnvironment.filter(e => e.counts.total > 0), parameterized, allDefects, evidence,
+                openDefects, closedDefects: distinct.length - openDefects, defectTrend: distinct.length ? defectTrend(distinct, days, end) : []
+            });
         });
     }, [selectedRunId]);
 
@@ -120,45 +142,49 @@ export const ReportModal = ({
                         <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
                             <div className="grid grid-cols-4 gap-4">
                                 <div className="bg-blue-50 p-4 rounded border border-blue-100 text-center">
-                                    <div className="text-sm text-blue-600 font-semibold uppercase">Total Cases</div>
-                                    <div className="text-3xl font-bold text-blue-900">{reportData.pass + reportData.fail + reportData.block + reportData.na + reportData.untested}</div>
+                                    <div className="text-sm text-blue-600 font-semibold uppercase">{reportData.parameterized.length > 0 ? 'Total Executions' : 'Total Cases'}</div>
+                                    <div className="text-3xl font-bold text-blue-900">{reportData.counts.total}</div>
                                 </div>
                                 <div className="bg-green-50 p-4 rounded border border-green-100 text-center">
                                     <div className="text-sm text-green-600 font-semibold uppercase">Passed</div>
-                                    <div className="text-3xl font-bold text-green-900">{reportData.pass}</div>
+                                    <div className="text-3xl font-bold text-green-900">{reportData.counts.passed}</div>
                                 </div>
                                 <div className="bg-red-50 p-4 rounded border border-red-100 text-center">
                                     <div className="text-sm text-red-600 font-semibold uppercase">Failed</div>
-                                    <div className="text-3xl font-bold text-red-900">{reportData.fail}</div>
+                                    <div className="text-3xl font-bold text-red-900">
+                                        {statusBreakdown(reportData.statuses, reportData.counts).filter(b => isFailing(reportData.statuses, b.status.code)).reduce((sum, b) => sum + b.count, 0)}
+                                    </div>
                                 </div>
                                 <div className="bg-gray-50 p-4 rounded border border-gray-200 text-center">
-                                    <div className="text-sm text-gray-500 font-semibold uppercase">Untested</div>
-                                    <div className="text-3xl font-bold text-gray-700">{reportData.untested}</div>
+                                    <div className="text-sm text-gray-500 font-semibold uppercase">Not Executed</div>
+                                    <div className="text-3xl font-bold text-gray-700">{reportData.counts.total - reportData.counts.executed}</div>
                                 </div>
                             </div>
+                            {reportData.parameterized.length > 0 && (
+                                <div className="text-sm text-gray-600 bg-gray-50 border rounded p-3 flex flex-wrap gap-4">
+                                    <span className="font-bold">케이스 기준 ({reportData.caseCounts.total} cases)</span>
+                                    {statusBreakdown(reportData.statuses, reportData.caseCounts).filter(b => b.count > 0).map(b => (
+                                        <span key={b.status.code} style={{ color: b.status.color }}>{b.status.label} {b.count}</span>
+                                    ))}
+                                </div>
+                            )}
                             <div className="grid grid-cols-2 gap-8">
                                 <div className="bg-white border rounded p-4 h-80 shadow-sm">
                                     <h4 className="font-bold text-gray-700 mb-4 border-b pb-2">최종 상태 분포 (Status Distribution)</h4>
                                     <ResponsiveContainer width="100%" height="90%">
                                         <PieChart>
                                             <Pie
-                                                data={[
-                                                    { name: 'Pass', value: reportData.pass, fill: '#22c55e' },
-                                                    { name: 'Fail', value: reportData.fail, fill: '#ef4444' },
-                                                    { name: 'Block', value: reportData.block, fill: '#1f2937' },
-                                                    { name: 'NA', value: reportData.na, fill: '#fb923c' },
-                                                    { name: 'Untested', value: reportData.untested, fill: '#e5e7eb' }
-                                                ].filter(d => d.value > 0)}
+                                                data={statusBreakdown(reportData.statuses, reportData.counts)
+                                                    .filter(b => b.count > 0)
+                                                    .map(b => ({ name: b.status.label, value: b.count, fill: b.status.color }))}
                                                 innerRadius={60}
                                                 outerRadius={80}
                                                 paddingAngle={5}
                                                 dataKey="value"
                                             >
-                                                <Cell fill="#22c55e" />
-                                                <Cell fill="#ef4444" />
-                                                <Cell fill="#1f2937" />
-                                                <Cell fill="#fb923c" />
-                                                <Cell fill="#e5e7eb" />
+                                                {statusBreakdown(reportData.statuses, reportData.counts)
+                                                    .filter(b => b.count > 0)
+                                                    .map(b => <Cell key={b.status.code} fill={b.status.color} />)}
                                             </Pie>
                                             <Tooltip />
                                             <Legend />
@@ -168,26 +194,116 @@ export const ReportModal = ({
                                 <div className="bg-white border rounded p-4 h-80 shadow-sm flex flex-col">
                                     <h4 className="font-bold text-gray-700 mb-4 border-b pb-2 flex justify-between">
                                         <span>발생 결함 목록 (Defects)</span>
-                                        <span className="bg-red-100 text-red-700 px-2 rounded text-sm">{reportData.allDefects.length}</span>
+                                        <span className="flex gap-1 text-sm">
+                                            <span className="bg-red-100 text-red-700 px-2 rounded">Open {reportData.openDefects}</span>
+                                            <span className="bg-gray-100 text-gray-600 px-2 rounded">Closed {reportData.closedDefects}</span>
+                                        </span>
                                     </h4>
                                     <div className="flex-1 overflow-y-auto space-y-2 pr-2">
                                         {reportData.allDefects.length === 0 ? (
                                             <div className="text-center text-gray-400 py-10">발견된 결함이 없습니다.</div>
                                         ) : (
-                                            reportData.allDefects.map((d, i) => (
-                                                <div key={i} className="p-3 bg-red-50 border border-red-100 rounded hover:bg-red-100 transition">
+                                            reportData.allDefects.map(d => (
+                                                <div key={d.key} className="p-3 bg-red-50 border border-red-100 rounded hover:bg-red-100 transition">
                                                     <div className="text-xs text-gray-500 mb-1 flex items-center gap-1">
                                                         <FileText size={10} /> {d.caseTitle}
                                                     </div>
-                                                    <a href={d.issue.url} target="_blank" rel="noreferrer" className="text-red-700 font-bold hover:underline flex items-center gap-1">
-                                                        <Bug size={14} /> {d.issue.label} <ExternalLink size={12} />
-                                                    </a>
+                                                    {d.defect ? (
+                                                        <div className="flex items-center gap-2">
+                                                            <DefectKey defect={d.defect} />
+                                                            <span className={`flex-1 font-bold truncate ${isDefectClosed(d.defect.status) ? 'text-gray-400 line-through' : 'text-red-700'}`}>{d.defect.title}</span>
+                                                            <DefectSeverityBadge severity={d.defect.severity} />
+                                                            <DefectStatusBadge status={d.defect.status} />
+                                                            <ExternalIssue defect={d.defect} />
+                                                        </div>
+                                                    ) : (
+                                                        <a href={d.issue!.url || undefined} target="_blank" rel="noreferrer" className="text-red-700 font-bold hover:underline flex items-center gap-1">
+                                                            <Bug size={14} /> {d.issue!.label || d.issue!.url} {d.issue!.url && <ExternalLink size={12} />}
+                                                        </a>
+                                                    )}
                                                 </div>
                                             ))
                                         )}
                                     </div>
                                 </div>
                             </div>
+                            {reportData.byEnvironment.length > 1 && (
+                                <div className="bg-white border rounded p-4 shadow-sm">
+                                    <h4 className="font-bold text-gray-700 mb-4 border-b pb-2">환경별 결과 (Configurations)</h4>
+                                    <table className="w-full text-sm">
+                                        <thead className="text-xs text-gray-500 text-left">
+                                            <tr>
+                                                <th className="py-1">환경</th>
+                                                <th className="py-1 w-1/3">상태</th>
+                                                <th className="py-1 text-right">실행</th>
+                                                <th className="py-1 text-right">통과율</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y">
+                                            {reportData.byEnvironment.map(({ environment, counts }) => (
+                                                <tr key={environment.id}>
+                                                    <td className="py-2 font-bold text-gray-800">{environment.name}</td>
+                                                    <td className="py-2">
+                                                        <div className="h-2.5 bg-gray-200 rounded-full overflow-hidden flex" title={statusBreakdown(reportData.statuses, counts).filter(b => b.count > 0).map(b => `${b.status.label} ${b.count}`).join(', ')}>
+                                                            {statusBreakdown(reportData.statuses, counts).filter(b => b.count > 0).map(b => (
+                                                                <div key={b.status.code} className="h-full" style={{ width: `${(b.count / counts.total) * 100}%`, backgroundColor: b.status.color }} />
+                                                            ))}
+                                                        </div>
+                                                    </td>
+                                                    <td className="py-2 text-right text-gray-600">{counts.executed}/{counts.total}</td>
+                                                    <td className="py-2 text-right font-bold">{percentOf(counts.passed, counts.executed)}%</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                            {reportData.defectTrend.length > 0 && (
+                                <div className="bg-white border rounded p-4 shadow-sm">
+                                    <h4 className="font-bold text-gray-700 mb-4 border-b pb-2 flex items-center gap-2"><Bug size={16} /> 결함 추이 (Defect Trend)</h4>
+                                    <DefectTrendChart data={reportData.defectTrend} height={220} />
+                                </div>
+                            )}
+                            {reportData.evidence.length > 0 && (
+                                <div className="bg-white border rounded p-4 shadow-sm">
+                                    <h4 className="font-bold text-gray-700 mb-4 border-b pb-2 flex items-center gap-2"><Paperclip size={16} /> 첨부 파일 (Evidence)</h4>
+                                    <div className="space-y-4">
+                                        {reportData.evidence.map(e => (
+                                            <div key={e.key}>
+                                                <div className="flex items-center gap-2 text-sm font-bold text-gray-800 mb-1">
+                                                    <StatusBadge statuses={reportData.statuses} status={e.status} className="text-[10px] py-0.5" />
+                                                    {e.caseTitle}
+                                                    {reportData.byEnvironment.length > 1 && <span className="text-xs font-normal text-gray-500">{e.platform}</span>}
+                                                </div>
+                                                <Attachments attachments={e.attachments} />
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {reportData.parameterized.length > 0 && (
+                                <div className="bg-white border rounded p-4 shadow-sm">
+                                    <h4 className="font-bold text-gray-700 mb-4 border-b pb-2">파라미터 케이스 (Data rows)</h4>
+                                    <div className="space-y-3">
+                                        {reportData.parameterized.map(p => (
+                                            <div key={p.caseId}>
+                                                <div className="flex items-center gap-2 text-sm font-bold text-gray-800">
+                                                    <StatusBadge statuses={reportData.statuses} status={p.status} className="text-[10px] py-0.5" />
+                                                    {p.title}
+                                                </div>
+                                                <div className="mt-1 ml-4 space-y-0.5">
+                                                    {p.rows.map((row, i) => (
+                                                        <div key={i} className="flex items-center gap-2 text-xs text-gray-600">
+                                                            <StatusBadge statuses={reportData.statuses} status={row.status} />
+                                                            <span className="font-mono">{row.label}</span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                         </div>
                     ) : (
                         <div className="h-full flex items-center justify-center text-gray-400">
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { Bug, X, Plus, Link2, ExternalLink, Send } from 'lucide-react';
+import { Defect, DefectLink, DefectLinkTarget, DefectSeverity, Issue } from '../../types';
+import { DefectService } from '../../storage';
+import { TrackerIssueInput } from '../../repository';
+import { AuthContext } from '../../context/AuthContext';
+import { DEFECT_SEVERITIES, defectKey, isDefectClosed } from '../../utils/defects';
+import { DefectKey, DefectSeverityBadge, DefectStatusBadge, ExternalIssue } from '../defects/DefectBadges';
+import { IssueDraftForm } from '../defects/IssueDraftForm';
+
+// Defects linked to one result in the runner: file a new one or link an existing open one.
+// ensureResultId saves the result first when it has not been stored yet.
+// With an issue tracker configured, defects can also be filed there from a draft built by issueDraft.
+export const ResultDefects = ({
+    resultId, target, defaultTitle, legacyIssues = [], disabled, ensureResultId, issueDraft
+}: {
+    resultId?: string,
+    target: Omit<DefectLinkTarget, 'resultId'>,
+    defaultTitle: string,
+    legacyIssues?: Issue[],
+    disabled?: boolean,
+    ensureResultId: () => Promise<string | undefined>,
+    issueDraft: () => TrackerIssueInput
+}) => {
+    const { user } = useContext(AuthContext);
+    const [linked, setLinked] = useState<{ defect: Defect, link: DefectLink }[]>([]);
+    const [openDefects, setOpenDefects] = useState<Defect[] | null>(null);
+    const [title, setTitle] = useState('');
+    const [severity, setSeverity] = useState<DefectSeverity>('MAJOR');
+    const [busy, setBusy] = useState(false);
+    // defectId null: the issue is filed together with a new defect
+    const [issueFor, setIssueFor] = useState<{ defectId: string | null, input: TrackerIssueInput, openedAt: number } | null>(null);
+    const tracker = DefectService.trackerName();
+
+    const load = () => {
+        setIssueFor(null);
+        if (!resultId) {
+            setLinked([]);
+            return;
+        }
+        DefectService.getResultDefects(resultId).then(async items => {
+            setLinked(items);
+            if (!tracker || !items.some(i => i.defect.externalKey)) return;
+            const synced = await DefectService.syncIssues(items.map(i => i.defect)).catch(() => null);
+            if (synced) setLinked(items.map((item, i) => ({ ...item, defect: synced[i] })));
+        });
+    };
+
+    useEffect(load, [resultId]);
+
+    const run = async (action: (resultId: string) => Promise<unknown>) => {
+        setBusy(true);
+        try {
+            const id = resultId || await ensureResultId();
+            if (!id) throw new Error('결과를 먼저 저장하지 못했습니다.');
+            await action(id);
+            const fresh = await DefectService.getResultDefects(id);
+            setLinked(fresh);
+            setOpenDefects(null);
+        } catch (e: any) {
+            alert(e?.message || '처리하지 못했습니다.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = () => run(async id => {
+        await DefectService.create({ title: title.trim() || defaultTitle, severity, description: '', assigneeId: null, externalUrl: null }, user!, { ...target, resultId: id });
+        setTitle('');
+    });
+
+    const handleLink = (defectId: string) => run(id => DefectService.link(defectId, { ...target, resultId: id }));
+
+    const handleUnlink = (linkId: string) => run(() => DefectService.unlink(linkId));
+
+    const handleCreateIssue = (input: TrackerIssueInput) => run(async id => {
+        let defectId = issueFor?.defectId;
+        if (!defectId) {
+            const defect = await DefectService.create({ title: input.summary, severity, description: input.description, assigneeId: null, externalUrl: null }, user!, { ...target, resultId: id });
+            defectId = defect.id;
+            // A retry after a tracker error files the defect created here instead of a second one
+            setIssueFor(prev => prev && { ...prev, defectId });
+        }
+        await DefectService.createIssue(defectId, input);
+        setIssueFor(null);
+    });
+
+    const linkable = (openDefects || []).filter(d => !linked.some(l => l.defect.id === d.id));
+
+    return (
+        <div className="space-y-2">
+            {linked.map(({ defect, link }) => (
+                <div key={link.id} className="flex items-center gap-2 bg-red-50 border border-red-100 rounded px-2 py-1.5 text-sm">
+                    <DefectKey defect={defect} />
+                    <span className={`flex-1 truncate ${isDefectClosed(defect.status) ? 'text-gray-400 line-through' : 'text-gray-800'}`}>{defect.title}</span>
+                    <DefectSeverityBadge severity={defect.severity} />
+                    <DefectStatusBadge status={defect.status} />
+                    <ExternalIssue defect={defect} />
+                    {tracker && !defect.externalKey && !disabled && (
+                        <button
+                            onClick={() => setIssueFor({ defectId: defect.id, input: { ...issueDraft(), summary: defect.title }, openedAt: Date.now() })}
+                            disabled={busy}
+                            className="text-blue-500 hover:text-blue-700"
+                            title={`${tracker} 이슈 생성`}
+                        >
+                            <Send size={14} />
+                        </button>
+                    )}
+                    {!disabled && (
+                        <button onClick={() => handleUnlink(link.id)} disabled={busy} className="text-gray-400 hover:text-red-500" title="연결 해제"><X size={14} /></button>
+                    )}
+                </div>
+            ))}
+            {legacyIssues.filter(i => i.label || i.url).map(i => (
+                <a key={i.id} href={i.url || undefined} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-sm text-red-700 hover:underline">
+                    <Bug size={12} /> {i.label || i.url} {i.url && <ExternalLink size={12} />}
+                </a>
+            ))}
+            {!disabled && (
+                <>
+                    <div className="flex gap-2 items-center bg-red-50 p-2 rounded border border-red-100">
+                        <input
+                            className="border rounded px-2 py-1.5 flex-1 text-sm focus:border-red-400 focus:ring-1 focus:ring-red-400 outline-none"
+                            placeholder={`새 결함 제목 (기본: ${defaultTitle})`}
+                            value={title}
+                            onChange={e => setTitle(e.target.value)}
+                            onKeyDown={e => e.key === 'Enter' && !busy && handleCreate()}
+                        />
+                        <select className="border rounded px-1 py-1.5 text-sm bg-white" value={severity} onChange={e => setSeverity(e.target.value as DefectSeverity)}>
+                            {DEFECT_SEVERITIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                        </select>
+                        <button onClick={handleCreate} disabled={busy} className="px-2 py-1.5 bg-red-600 text-white rounded text-xs font-bold hover:bg-red-700 flex items-center gap-1 disabled:opacity-50">
+                            <Plus size={12} /> 등록
+                        </button>
+                        {tracker && (
+                            <button
+                                onClick={() => setIssueFor({ defectId: null, input: title.trim() ? { ...issueDraft(), summary: title.trim() } : issueDraft(), openedAt: Date.now() })}
+                                disabled={busy}
+                                className="px-2 py-1.5 bg-blue-600 text-white rounded text-xs font-bold hover:bg-blue-700 flex items-center gap-1 disabled:opacity-50 whitespace-nowrap"
+                            >
+                                <Send size={12} /> {tracker} 이슈
+                            </button>
+                        )}
+                    </div>
+                    {issueFor && tracker && (
+                        <IssueDraftForm
+                            key={issueFor.openedAt}
+                            tracker={tracker}
+                            initial={issueFor.input}
+                            onSubmit={handleCreateIssue}
+                            onCancel={() => setIssueFor(null)}
+                        />
+                    )}
+                    <div className="flex items-center gap-2 text-sm">
+                        <Link2 size={14} className="text-gray-400" />
+                        <select
+                            className="flex-1 border rounded px-2 py-1 bg-white text-sm"
+                            value=""
+                            disabled={busy}
+                            onFocus={() => openDefects === null && DefectService.getAll().then(all => setOpenDefects(all.filter(d => !isDefectClosed(d.status))))}
+                            onChange={e => e.target.value && handleLink(e.target.value)}
+                        >
+                            <option value="">기존 결함 연결...</option>
+                            {linkable.map(d => <option key={d.id} value={d.id}>{defectKey(d)} {d.title}</option>)}
+                        </select>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
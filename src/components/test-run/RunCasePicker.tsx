@@ -0,0 +1,118 @@
+import React, { useState, useMemo } from 'react';
+import { Search, Tag, CheckSquare, Square } from 'lucide-react';
+import { Document, Section, TestCase } from '@/src/types';
+import { flattenSectionTree, getDescendantSectionIds, getSectionPath, sortCasesBySection } from '../../utils/sectionTree';
+import { compileTagQuery, validateTagQuery } from '../../utils/tags';
+
+interface RunCasePickerProps {
+    documents: Document[]; // Documents in scope, in display order
+    cases: TestCase[];
+    sections: Section[];
+    picked: Set<string>;
+    onChange: (picked: Set<string>) => void;
+}
+
+// Explicit case selection for a run: narrow down by section / priority / text / tags, then tick cases
+export const RunCasePicker = ({ documents, cases, sections, picked, onChange }: RunCasePickerProps) => {
+    const [sectionId, setSectionId] = useState('');
+    const [priority, setPriority] = useState('');
+    const [search, setSearch] = useState('');
+    const [tagQuery, setTagQuery] = useState('');
+
+    const tagQueryError = tagQuery.trim() ? validateTagQuery(tagQuery) : null;
+
+    // Document order, then section tree + manual order inside each document
+    const ordered = useMemo(() => documents.flatMap(d => sortCasesBySection(
+        cases.filter(c => c.documentId === d.id),
+        sections.filter(s => s.documentId === d.id)
+    )), [documents, cases, sections]);
+
+    const visible = useMemo(() => {
+        const sectionIds = sectionId ? getDescendantSectionIds(sections, sectionId) : null;
+        const matchesTags = tagQuery.trim() && !tagQueryError ? compileTagQuery(tagQuery) : () => true;
+        const text = search.trim().toLowerCase();
+        return ordered.filter(c =>
+            (!sectionIds || sectionIds.has(c.sectionId))
+            && (!priority || c.priority === priority)
+            && (!text || c.title.toLowerCase().includes(text) || String(c.seq_id) === text.replace('#', ''))
+            && matchesTags(c.tags)
+        );
+    }, [ordered, sections, sectionId, priority, search, tagQuery, tagQueryError]);
+
+    const allVisiblePicked = visible.length > 0 && visible.every(c => picked.has(c.id));
+
+    const toggle = (caseId: string) => {
+        const next = new Set(picked);
+        if (next.has(caseId)) next.delete(caseId); else next.add(caseId);
+        onChange(next);
+    };
+
+    const toggleVisible = () => {
+        const next = new Set(picked);
+        visible.forEach(c => allVisiblePicked ? next.delete(c.id) : next.add(c.id));
+        onChange(next);
+    };
+
+    const docTitle = new Map(documents.map(d => [d.id, d.title]));
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+                <select className="border rounded-lg p-2 bg-white" value={sectionId} onChange={e => setSectionId(e.target.value)}>
+                    <option value="">모든 섹션</option>
+                    {documents.map(d => (
+                        <optgroup key={d.id} label={d.title}>
+                            {flattenSectionTree(sections.filter(s => s.documentId === d.id)).map(({ section: s, depth }) => (
+                                <option key={s.id} value={s.id}>{'\u00A0\u00A0\u00A0'.repeat(depth)}{s.title}</option>
+                            ))}
+                        </optgroup>
+                    ))}
+                </select>
+                <select className="border rounded-lg p-2 bg-white" value={priority} onChange={e => setPriority(e.target.value)}>
+                    <option value="">모든 우선순위</option>
+                    <option value="HIGH">High</option>
+                    <option value="MEDIUM">Medium</option>
+                    <option value="LOW">Low</option>
+                </select>
+                <div className="relative">
+                    <Search size={14} className="absolute left-2.5 top-2.5 text-gray-400" />
+                    <input className="w-full border rounded-lg p-2 pl-7" value={search} onChange={e => setSearch(e.target.value)} placeholder="제목 또는 #번호" />
+                </div>
+                <div className="relative">
+                    <Tag size={14} className="absolute left-2.5 top-2.5 text-gray-400" />
+                    <input
+                        className={`w-full border rounded-lg p-2 pl-7 font-mono ${tagQueryError ? 'border-red-300 bg-red-50' : ''}`}
+                        value={tagQuery}
+                        onChange={e => setTagQuery(e.target.value)}
+                        placeholder="태그 쿼리"
+                        title={tagQueryError || undefined}
+                    />
+                </div>
+            </div>
+
+            <div className="flex justify-between items-center text-xs text-gray-500">
+                <span>{visible.length}개 표시 · {picked.size}개 선택</span>
+                <button onClick={toggleVisible} disabled={visible.length === 0} className="font-bold text-blue-600 hover:underline disabled:opacity-40">
+                    {allVisiblePicked ? '표시된 케이스 선택 해제' : '표시된 케이스 모두 선택'}
+                </button>
+            </div>
+
+            <div className="border rounded-lg h-[260px] overflow-y-auto bg-gray-50 divide-y">
+                {visible.map(c => (
+                    <div key={c.id} onClick={() => toggle(c.id)} className="flex items-start gap-2 px-2 py-1.5 cursor-pointer hover:bg-blue-50">
+                        {picked.has(c.id) ? <CheckSquare size={16} className="text-blue-600 flex-shrink-0 mt-0.5" /> : <Square size={16} className="text-gray-400 flex-shrink-0 mt-0.5" />}
+                        <div className="min-w-0">
+                            <div className="text-sm text-gray-800 truncate">
+                                <span className="font-mono text-gray-400 mr-1">#{c.seq_id}</span>
+                                {c.title}
+                                {c.priority === 'HIGH' && <span className="ml-1 text-[10px] font-bold px-1 rounded bg-red-100 text-red-600">HIGH</span>}
+                            </div>
+                            <div className="text-[11px] text-gray-400 truncate">{docTitle.get(c.documentId)} · {getSectionPath(sections, c.sectionId)}</div>
+                        </div>
+                    </div>
+                ))}
+                {visible.length === 0 && <div className="p-4 text-center text-sm text-gray-400">조건에 맞는 케이스가 없습니다.</div>}
+            </div>
+        </div>
+    );
+};
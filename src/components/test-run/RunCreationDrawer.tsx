@@ -1,8 +1,12 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { XCircle, FolderOpen, FileText, CheckSquare, Square, ChevronRight, ChevronDown, User, Layers } from 'lucide-react';
-import { Folder, Document, User as UserType } from '@/src/types';
-import { DriveService, RunService, AuthService } from '@/src/storage';
+import { XCircle, FolderOpen, FileText, CheckSquare, Square, ChevronRight, ChevronDown, User, Layers, Tag, Monitor } from 'lucide-react';
+import { Folder, Document, Section, TestCase, User as UserType, RunEnvironment } from '@/src/types';
+import { DriveService, RunService, AuthService, TestCaseService } from '@/src/storage';
+import { compileTagQuery, validateTagQuery } from '../../utils/tags';
+import { getReviewStatus } from '../../utils/review';
+import { RunCasePicker } from './RunCasePicker';
+import { RunEnvironmentEditor } from './RunEnvironmentEditor';
 
 interface RunCreationDrawerProps {
     isOpen: boolean;
@@ -17,6 +21,15 @@ export const RunCreationDrawer = ({ isOpen, onClose, onCreated }: RunCreationDra
     const [phase, setPhase] = useState('Alpha');
     const [assignees, setAssignees] = useState<string[]>([]);
     const [selectedDocIds, setSelectedDocIds] = useState<Set<string>>(new Set());
+    // TAGS: cases matching a tag query, CASES: hand-picked cases. Both look in the selected documents
+    // (or all of them if none are selected).
+    const [scopeMode, setScopeMode] = useState<'DOCUMENTS' | 'TAGS' | 'CASES'>('DOCUMENTS');
+    const [tagQuery, setTagQuery] = useState('');
+    const [pickedCaseIds, setPickedCaseIds] = useState<Set<string>>(new Set());
+    const [allCases, setAllCases] = useState<TestCase[] | null>(null);
+    const [allSections, setAllSections] = useState<Section[]>([]);
+    const [approvedOnly, setApprovedOnly] = useState(false);
+    const [environments, setEnvironments] = useState<RunEnvironment[]>([]);
 
     const [folders, setFolders] = useState<Folder[]>([]);
     const [documents, setDocuments] = useState<Document[]>([]);
@@ -33,6 +46,12 @@ export const RunCreationDrawer = ({ isOpen, onClose, onCreated }: RunCreationDra
             setPhase('Alpha');
             setAssignees([]);
             setSelectedDocIds(new Set());
+            setScopeMode('DOCUMENTS');
+            setTagQuery('');
+            setPickedCaseIds(new Set());
+            setAllCases(null);
+            setApprovedOnly(false);
+            setEnvironments([]);
             loadData();
         }
     }, [isOpen]);
@@ -47,7 +66,8 @@ export const RunCreationDrawer = ({ isOpen, onClose, onCreated }: RunCreationDra
             ]);
             setFolders(f);
             setDocuments(d);
-            setUsers(u);
+            // Deactivated users keep their past results but can no longer be assigned
+            setUsers(u.filter(x => x.status === 'ACTIVE'));
         } catch (e) {
             console.error(e);
         } finally {
@@ -84,6 +104,46 @@ export const RunCreationDrawer = ({ isOpen, onClose, onCreated }: RunCreationDra
         return { roots: rootNodes, rootDocs };
     }, [folders, documents]);
 
+    // Cases are only needed for the tag preview and the case picker, so they load on first use
+    useEffect(() => {
+        if (scopeMode !== 'DOCUMENTS' && allCases === null && documents.length > 0) {
+            const docIds = documents.map(d => d.id);
+            Promise.all([
+                TestCaseService.getCasesByDocumentIds(docIds),
+                TestCaseService.getSectionsByDocumentIds(docIds)
+            ]).then(([c, s]) => {
+                setAllCases(c);
+                setAllSections(s);
+            });
+        }
+    }, [scopeMode, documents]);
+
+    // Same rule as runCaseFilter: deprecated cases never run, approvedOnly also drops drafts and cases in review
+    const runnableCases = useMemo(() => (allCases || []).filter(c => {
+        const status = getReviewStatus(c);
+        return status !== 'DEPRECATED' && (!approvedOnly || status === 'APPROVED');
+    }), [allCases, approvedOnly]);
+    const scopeDocuments = selectedDocIds.size > 0 ? documents.filter(d => selectedDocIds.has(d.id)) : documents;
+    const scopeCases = useMemo(() => {
+        const ids = new Set(scopeDocuments.map(d => d.id));
+        return runnableCases.filter(c => ids.has(c.documentId));
+    }, [runnableCases, selectedDocIds, documents]);
+    // Picks in documents that were deselected afterwards do not count
+    const pickedInScope = scopeCases.filter(c => pickedCaseIds.has(c.id)).map(c => c.id);
+
+    const tagQueryError = tagQuery.trim() ? validateTagQuery(tagQuery) : null;
+    const availableTags = useMemo(() => Array.from(new Set((allCases || []).flatMap(c => c.tags || []))).sort(), [allCases]);
+    const tagMatches = useMemo(() => {
+        if (scopeMode !== 'TAGS' || !tagQuery.trim() || tagQueryError || !allCases) return [];
+        const matches = compileTagQuery(tagQuery);
+        return runnableCases.filter(c => (selectedDocIds.size === 0 || selectedDocIds.has(c.documentId)) && matches(c.tags));
+    }, [scopeMode, tagQuery, tagQueryError, allCases, runnableCases, selectedDocIds]);
+    const tagMatchDocIds = Array.from(new Set(tagMatches.map(c => c.documentId)));
+
+    const canSubmit = scopeMode === 'DOCUMENTS' ? selectedDocIds.size > 0
+        : scopeMode === 'TAGS' ? tagMatches.length > 0
+            : pickedInScope.length > 0;
+
     const toggleDoc = (id: string) => {
         const newSet = new Set(selectedDocIds);
         if (newSet.has(id)) newSet.delete(id);
@@ -113,7 +173,11 @@ export const RunCreationDrawer = ({ isOpen, onClose, onCreated }: RunCreationDra
 
     const handleSubmit = async () => {
         if (!title.trim()) return alert("Title is required");
-        if (selectedDocIds.size === 0) return alert("Select at least one document");
+        if (!canSubmit) return alert(
+            scopeMode === 'DOCUMENTS' ? "Select at least one document"
+                : scopeMode === 'TAGS' ? "No cases match the tag query"
+                    : "Select at least one case"
+        );
 
         setCreating(true);
         try {
@@ -122,13 +186,18 @@ export const RunCreationDrawer = ({ isOpen, onClose, onCreated }: RunCreationDra
                 description,
                 phase,
                 assignees,
-                target_document_ids: Array.from(selectedDocIds)
+                // A tag run targets only the documents that have matching cases; for picked cases RunService derives them
+                target_document_ids: scopeMode === 'DOCUMENTS' ? Array.from(selectedDocIds) : scopeMode === 'TAGS' ? tagMatchDocIds : [],
+                tag_query: scopeMode === 'TAGS' ? tagQuery.trim() : null,
+                case_ids: scopeMode === 'CASES' ? pickedInScope : null,
+                approved_only: approvedOnly,
+                environments: environments.length > 0 ? environments : null
             });
             onCreated();
             onClose();
-        } catch (e) {
+        } catch (e: any) {
             console.error(e);
-            alert("Failed to create run");
+            alert(e?.message || "Failed to create run");
         } finally {
             setCreating(false);
         }
@@ -224,17 +293,88 @@ export const RunCreationDrawer = ({ isOpen, onClose, onCreated }: RunCreationDra
 
                     <hr />
 
+                    {/* Environment matrix */}
+                    <div className="space-y-4">
+                        <div className="flex justify-between items-center">
+                            <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                                <Monitor size={14} /> Environments
+                            </h3>
+                            {environments.length > 0 && (
+                                <span className="text-xs bg-blue-100 text-blue-700 font-bold px-2 py-0.5 rounded-full">{environments.length} Configurations</span>
+                            )}
+                        </div>
+                        <RunEnvironmentEditor value={environments} onChange={setEnvironments} />
+                    </div>
+
+                    <hr />
+
                     {/* Step 2: Document Selection */}
                     <div className="space-y-4">
                         <div className="flex justify-between items-center">
                             <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
-                                <FolderOpen size={14} /> Select Documents
+                                <FolderOpen size={14} /> Select Cases
                             </h3>
                             <span className="text-xs bg-blue-100 text-blue-700 font-bold px-2 py-0.5 rounded-full">
-                                {selectedDocIds.size} Selected
+                                {scopeMode === 'DOCUMENTS' ? `${selectedDocIds.size} Selected`
+                                    : scopeMode === 'TAGS' ? `${tagMatches.length} Cases / ${tagMatchDocIds.length} Docs`
+                                        : `${pickedInScope.length} Cases`}
                             </span>
                         </div>
 
+                        <div className="flex gap-1 bg-gray-100 p-1 rounded">
+                            <button className={`flex-1 py-1.5 rounded text-sm font-semibold transition ${scopeMode === 'DOCUMENTS' ? 'bg-white shadow text-blue-600' : 'text-gray-500 hover:bg-gray-200'}`} onClick={() => setScopeMode('DOCUMENTS')}>문서 전체</button>
+                            <button className={`flex-1 py-1.5 rounded text-sm font-semibold transition ${scopeMode === 'TAGS' ? 'bg-white shadow text-blue-600' : 'text-gray-500 hover:bg-gray-200'}`} onClick={() => setScopeMode('TAGS')}>태그 쿼리</button>
+                            <button className={`flex-1 py-1.5 rounded text-sm font-semibold transition ${scopeMode === 'CASES' ? 'bg-white shadow text-blue-600' : 'text-gray-500 hover:bg-gray-200'}`} onClick={() => setScopeMode('CASES')}>케이스 선택</button>
+                        </div>
+
+                        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                            <input type="checkbox" className="rounded accent-blue-600" checked={approvedOnly} onChange={e => setApprovedOnly(e.target.checked)} />
+                            승인된 케이스만 포함 (Approved only)
+                        </label>
+
+                        {scopeMode === 'CASES' && <p className="text-xs text-gray-500">아래에서 문서를 선택하면 그 문서의 케이스만 표시됩니다.</p>}
+                        {scopeMode === 'CASES' && (
+                            allCases === null
+                                ? <div className="text-center p-4 text-gray-400">Loading cases...</div>
+                                : <RunCasePicker
+                                    documents={scopeDocuments}
+                                    cases={scopeCases}
+                                    sections={allSections}
+                                    picked={pickedCaseIds}
+                                    onChange={setPickedCaseIds}
+                                />
+                        )}
+
+                        {scopeMode === 'TAGS' && (
+                            <div className="space-y-2">
+                                <div className="relative">
+                                    <Tag size={14} className="absolute left-3 top-3 text-gray-400" />
+                                    <input
+                                        className={`w-full border rounded-lg p-2.5 pl-8 font-mono text-sm focus:ring-2 focus:ring-blue-500 outline-none ${tagQueryError ? 'border-red-300 bg-red-50' : ''}`}
+                                        value={tagQuery}
+                                        onChange={e => setTagQuery(e.target.value)}
+                                        placeholder="smoke AND NOT deprecated"
+                                    />
+                                </div>
+                                {tagQueryError
+                                    ? <p className="text-xs text-red-500">{tagQueryError}</p>
+                                    : <p className="text-xs text-gray-500">AND / OR / NOT 과 괄호를 쓸 수 있습니다. 아래에서 문서를 선택하지 않으면 모든 문서에서 찾습니다.</p>}
+                                {availableTags.length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {availableTags.map(tag => (
+                                            <button
+                                                key={tag}
+                                                onClick={() => setTagQuery(tagQuery.trim() ? `${tagQuery.trim()} AND ${tag}` : tag)}
+                                                className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600 hover:bg-blue-100 hover:text-blue-700"
+                                            >
+                                                {tag}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
                         <div className="border rounded-lg h-[300px] overflow-y-auto bg-gray-50 p-2">
                             {loading && <div className="text-center p-4 text-gray-400">Loading directory...</div>}
 
@@ -260,7 +400,7 @@ export const RunCreationDrawer = ({ isOpen, onClose, onCreated }: RunCreationDra
                     <button onClick={onClose} className="px-5 py-2.5 text-gray-600 font-bold hover:bg-white border border-transparent hover:border-gray-200 rounded-lg transition">Cancel</button>
                     <button
                         onClick={handleSubmit}
-                        disabled={creating || selectedDocIds.size === 0}
+                        disabled={creating || !canSubmit}
                         className="px-6 py-2.5 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 disabled:opacity-50 disabled:shadow-none flex items-center gap-2 transition"
                     >
                         {creating ? 'Creating...' : 'Create Run'}
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Plus, X, Monitor, Smartphone, Grid3x3 } from 'lucide-react';
+import { PlatformType, RunEnvironment } from '@/src/types';
+import { LEGACY_ENVIRONMENTS, expandMatrix } from '../../utils/environments';
+
+type AxisDraft = { name: string, text: string }; // text: comma-separated values
+
+const DEFAULT_AXES: AxisDraft[] = [{ name: 'Browser', text: '' }, { name: 'OS', text: '' }];
+
+// Environment matrix of a new run. Empty list = the fixed PC / iOS + Android set.
+// Axes are combined into configurations, which can be added in several goes (e.g. browsers for WEB cases, devices for APP cases).
+export const RunEnvironmentEditor = ({ value, onChange }: { value: RunEnvironment[], onChange: (environments: RunEnvironment[]) => void }) => {
+    const [useMatrix, setUseMatrix] = useState(value.length > 0);
+    const [axes, setAxes] = useState<AxisDraft[]>(DEFAULT_AXES);
+    const [platformType, setPlatformType] = useState<PlatformType | ''>('');
+
+    const combos = expandMatrix(axes.map(a => ({ name: a.name, values: a.text.split(',') })), platformType || null)
+        .filter(c => !value.some(e => e.name.toLowerCase() === c.name.toLowerCase()));
+
+    const updateAxis = (index: number, patch: Partial<AxisDraft>) => setAxes(axes.map((a, i) => i === index ? { ...a, ...patch } : a));
+
+    const handleAdd = () => {
+        // Ids are assigned when the run is created
+        onChange([...value, ...combos.map(c => ({ ...c, id: '' }))]);
+        setAxes(axes.map(a => ({ ...a, text: '' })));
+    };
+
+    const switchMode = (matrix: boolean) => {
+        setUseMatrix(matrix);
+        if (!matrix) onChange([]);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex gap-1 bg-gray-100 p-1 rounded">
+                <button className={`flex-1 py-1.5 rounded text-sm font-semibold transition ${!useMatrix ? 'bg-white shadow text-blue-600' : 'text-gray-500 hover:bg-gray-200'}`} onClick={() => switchMode(false)}>기본 플랫폼</button>
+                <button className={`flex-1 py-1.5 rounded text-sm font-semibold transition ${useMatrix ? 'bg-white shadow text-blue-600' : 'text-gray-500 hover:bg-gray-200'}`} onClick={() => switchMode(true)}>환경 매트릭스</button>
+            </div>
+
+            {!useMatrix ? (
+                <p className="text-xs text-gray-500">
+                    WEB 케이스는 {LEGACY_ENVIRONMENTS.filter(e => e.platform_type === 'WEB').map(e => e.name).join(', ')},
+                    APP 케이스는 {LEGACY_ENVIRONMENTS.filter(e => e.platform_type === 'APP').map(e => e.name).join(' · ')}에서 실행합니다.
+                </p>
+            ) : (
+                <>
+                    <div className="border rounded-lg p-3 bg-gray-50 space-y-2">
+                        {axes.map((axis, i) => (
+                            <div key={i} className="flex gap-2 items-center">
+                                <input
+                                    className="w-28 border rounded p-1.5 text-sm font-semibold"
+                                    placeholder="축 (예: Browser)"
+                                    value={axis.name}
+                                    onChange={e => updateAxis(i, { name: e.target.value })}
+                                />
+                                <input
+                                    className="flex-1 border rounded p-1.5 text-sm"
+                                    placeholder="값을 쉼표로 구분 (예: Chrome, Safari)"
+                                    value={axis.text}
+                                    onChange={e => updateAxis(i, { text: e.target.value })}
+                                />
+                                <button onClick={() => setAxes(axes.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-500" title="축 삭제"><X size={14} /></button>
+                            </div>
+                        ))}
+                        <div className="flex items-center gap-2 pt-1">
+                            <button onClick={() => setAxes([...axes, { name: '', text: '' }])} className="text-xs text-blue-600 font-bold hover:underline flex items-center gap-1">
+                                <Plus size={12} /> 축 추가
+                            </button>
+                            <select className="ml-auto border rounded p-1 text-xs bg-white" value={platformType} onChange={e => setPlatformType(e.target.value as PlatformType | '')}>
+                                <option value="">모든 케이스</option>
+                                <option value="WEB">WEB 케이스</option>
+                                <option value="APP">APP 케이스</option>
+                            </select>
+                            <button
+                                onClick={handleAdd}
+                                disabled={combos.length === 0}
+                                className="px-2 py-1 bg-blue-600 text-white rounded text-xs font-bold hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+                            >
+                                <Grid3x3 size={12} /> 조합 {combos.length}개 추가
+                            </button>
+                        </div>
+                    </div>
+
+                    {value.length === 0 ? (
+                        <p className="text-xs text-gray-400">추가된 환경이 없으면 기본 플랫폼으로 실행합니다.</p>
+                    ) : (
+                        <div className="border rounded-lg divide-y max-h-48 overflow-y-auto">
+                            {value.map((env, i) => (
+                                <div key={i} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                                    {env.platform_type === 'APP' ? <Smartphone size={14} className="text-purple-500" /> : <Monitor size={14} className={env.platform_type === 'WEB' ? 'text-blue-500' : 'text-gray-400'} />}
+                                    <input
+                                        className="flex-1 border-b border-transparent hover:border-gray-300 focus:border-blue-400 outline-none bg-transparent"
+                                        value={env.name}
+                                        onChange={e => onChange(value.map((x, j) => j === i ? { ...x, name: e.target.value } : x))}
+                                    />
+                                    <span className="text-[10px] text-gray-400">{env.platform_type || 'ALL'}</span>
+                                    <button onClick={() => onChange(value.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-500" title="삭제"><X size={14} /></button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,15 +1,21 @@
 import React, { useState, useEffect, useContext } from 'react';
-import { Search, Loader2, PlayCircle, FolderOpen, CheckCircle, BarChart2, Plus, Users, Calendar, Filter, Archive, Trash2 } from 'lucide-react';
+import { Search, Loader2, PlayCircle, FolderOpen, CheckCircle, BarChart2, Plus, Users, Calendar, Filter, Archive, Trash2, Tag, ListChecks, BadgeCheck } from 'lucide-react';
 import { TestRun, User } from '@/src/types';
 import { RunService, AuthService } from '@/src/storage';
 import { useNavigate } from 'react-router-dom';
 import { LoadingSpinner } from '../common/Loading';
 import { RunCreationDrawer } from './RunCreationDrawer';
 import { AuthContext } from '../../context/AuthContext';
+import { usePermission } from '../../hooks/usePermission';
+import { useTestStatuses } from '../../hooks/useTestStatuses';
+import { percentOf, summarizeRun } from '../../utils/testStatus';
+import { runEnvironments } from '../../utils/environments';
 
 export const RunnerList = () => {
     const navigate = useNavigate();
     const { user } = useContext(AuthContext);
+    const can = usePermission();
+    const statuses = useTestStatuses();
     const [runs, setRuns] = useState<TestRun[]>([]);
     const [users, setUsers] = useState<User[]>([]);
     const [runStats, setRunStats] = useState<Record<string, any>>({});
@@ -79,20 +85,15 @@ export const RunnerList = () => {
 
     const getProgress = (run: TestRun) => {
         if (run.status === 'COMPLETED' && run.snapshot_data) {
-            const results = run.snapshot_data.results || [];
-            const total = run.snapshot_data.cases ? run.snapshot_data.cases.length : results.length;
-            const pass = results.filter((r: any) => r.status === 'PASS').length;
-            const fail = results.filter((r: any) => r.status === 'FAIL').length;
-            const block = results.filter((r: any) => r.status === 'BLOCK').length;
-            const na = results.filter((r: any) => r.status === 'NA').length;
-            const executed = pass + fail + block + na;
-            const percent = total > 0 ? Math.round((executed / total) * 100) : 0;
+            const { total, executed } = summarizeRun(statuses, run.snapshot_data.cases || [], run.snapshot_data.results || [], runEnvironments(run)).counts;
+            const percent = percentOf(executed, total);
             return { percent, label: `${percent}% (${executed}/${total})` };
         } else if (runStats[run.id]) {
-            const { total, pass, fail, block, na } = runStats[run.id];
-            const executed = pass + fail + block + na;
-            const percent = total > 0 ? Math.round((executed / total) * 100) : 0;
-            return { percent, label: `${percent}% (${executed}/${total})` };
+            const { total, executed, cases } = runStats[run.id];
+            const percent = percentOf(executed, total);
+            // Parameterized cases run once per data row; also show the per-case rollup then
+            const caseLabel = cases && cases.total !== total ? ` · ${cases.executed}/${cases.total} cases` : '';
+            return { percent, label: `${percent}% (${executed}/${total})${caseLabel}` };
         }
         return { percent: 0, label: 'Calculating...' };
     };
@@ -109,12 +110,14 @@ export const RunnerList = () => {
                     </h1>
                     <p className="text-sm text-gray-500 mt-1">Manage and execute test cycles across multiple documents.</p>
                 </div>
-                <button
-                    onClick={() => setCreationOpen(true)}
-                    className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold shadow hover:bg-blue-700 flex items-center gap-2 transition"
-                >
-                    <Plus size={18} /> New Test Run
-                </button>
+                {can('MANAGE_RUNS') && (
+                    <button
+                        onClick={() => setCreationOpen(true)}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold shadow hover:bg-blue-700 flex items-center gap-2 transition"
+                    >
+                        <Plus size={18} /> New Test Run
+                    </button>
+                )}
             </div>
 
             {/* Filter Bar */}
@@ -183,13 +186,15 @@ export const RunnerList = () => {
                                             </span>
                                         )}
                                     </div>
-                                    <button 
-                                        onClick={(e) => handleDeleteRun(run.id, e)} 
-                                        className="text-gray-400 hover:text-red-500 hover:bg-red-50 p-1.5 rounded transition opacity-0 group-hover:opacity-100"
-                                        title="Delete Test Run"
-                                    >
-                                        <Trash2 size={16} />
-                                    </button>
+                                    {can('MANAGE_RUNS') && (
+                                        <button 
+                                            onClick={(e) => handleDeleteRun(run.id, e)} 
+                                            className="text-gray-400 hover:text-red-500 hover:bg-red-50 p-1.5 rounded transition opacity-0 group-hover:opacity-100"
+                                            title="Delete Test Run"
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    )}
                                 </div>
                                 <h3 className="font-bold text-lg text-gray-800 mb-2 group-hover:text-blue-600 transition-colors line-clamp-2">
                                     {run.title}
@@ -211,6 +216,24 @@ export const RunnerList = () => {
                                         <FolderOpen size={14} />
                                         {(run.target_document_ids || []).length} Docs
                                     </div>
+                                    {run.case_ids && (
+                                        <div className="flex items-center gap-1">
+                                            <ListChecks size={14} />
+                                            {run.case_ids.length} Cases
+                                        </div>
+                                    )}
+                                    {run.approved_only && (
+                                        <div className="flex items-center gap-1">
+                                            <BadgeCheck size={14} />
+                                            Approved
+                                        </div>
+                                    )}
+                                    {run.tag_query && (
+                                        <div className="flex items-center gap-1 min-w-0" title={run.tag_query}>
+                                            <Tag size={14} />
+                                            <span className="font-mono truncate">{run.tag_query}</span>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
 
@@ -3,17 +3,31 @@ import React, { useState, useEffect, useContext, useMemo, useRef } from 'react';
 import {
     PlayCircle, Trash2, ArrowLeft, ChevronUp, ChevronDown, BarChart2,
     AlertOctagon, ChevronLeft, ChevronRight, CheckCircle, Bug, RotateCcw, Loader2, FileText,
-    Smartphone, FolderOpen, Save
+    Smartphone, Monitor, FolderOpen, Save, RefreshCw, History, Library
 } from 'lucide-react';
 import { ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { TestRun, TestResult, TestCase, TestStatus, Issue, ExecutionHistoryItem, DevicePlatform, Section, Document } from '../../types';
-import { RunService, TestCaseService, DriveService } from '../../storage';
+import { TestRun, TestResult, TestCase, TestStatus, TestStatusDefinition, RunStatusCounts, RunEnvironment, Issue, ExecutionHistoryItem, DevicePlatform, Section, Document, Attachment, DefectLinkTarget } from '../../types';
+import { RunService, TestCaseService, DriveService, SharedStepService, AttachmentService } from '../../storage';
+import { TrackerIssueInput } from '../../repository';
 import { AuthContext } from '../../context/AuthContext';
 import { formatTextWithNumbers } from '../../utils/formatters';
 import { LoadingSpinner } from '../common/Loading';
 import { ReportModal } from './ReportModal';
 import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { StepRenderer } from '../common/StepRenderer';
+import { usePermission } from '../../hooks/usePermission';
+import { getSectionPath, sortCasesBySection } from '../../utils/sectionTree';
+import { diffCaseContent, CaseFieldChange } from '../../utils/caseDiff';
+import { CaseUpdateDiff } from './CaseUpdateDiff';
+import { CaseExecution, expandExecutions, isResultOf } from '../../utils/parameters';
+import { Attachments, filesFromClipboard } from '../common/Attachments';
+import { ResultDefects } from './ResultDefects';
+import { issueDraft } from '../../utils/defects';
+import { useTestStatuses } from '../../hooks/useTestStatuses';
+import {
+    PASS, UNTESTED, executionStatus, isFailing, percentOf, pickableStatuses, rollupStatus, statusBreakdown, statusInfo, statusStyle, summarizeRun
+} from '../../utils/testStatus';
+import { caseEnvironments, resultEnvironmentId, runEnvironments } from '../../utils/environments';
 
 interface TestCaseWithContext extends TestCase {
     sectionTitle?: string;
@@ -21,41 +35,62 @@ interface TestCaseWithContext extends TestCase {
     documentId: string;
 }
 
+// How the live case differs from the copy the run pinned; `deleted` when the case is gone
+type CaseUpdate = { deleted: boolean, changes: CaseFieldChange[] };
+
 // -------------------------------------------------------------------------
 // [Reusable] Dashboard Stats
 // -------------------------------------------------------------------------
-const DashboardStats = React.memo(({ stats, isDashboardOpen }: { stats: any, isDashboardOpen: boolean }) => {
+const DashboardStats = React.memo(({ stats, byEnvironment, statuses, isDashboardOpen }: {
+    stats: RunStatusCounts,
+    byEnvironment: { environment: RunEnvironment, counts: RunStatusCounts }[],
+    statuses: TestStatusDefinition[],
+    isDashboardOpen: boolean
+}) => {
     if (!isDashboardOpen) return null;
+    // Every active status, plus retired ones that results still carry
+    const breakdown = statusBreakdown(statuses, stats).filter(b => b.status.active || b.count > 0);
     return (
         <div className="bg-white border-b p-4 shadow-sm animate-in fade-in slide-in-from-top-2 duration-300">
             <div className="max-w-6xl mx-auto flex gap-8 items-center justify-center">
                 <div className="h-32 w-32 relative">
                     <ResponsiveContainer width="100%" height="100%">
                         <PieChart>
-                            <Pie data={[
-                                { name: 'Pass', value: stats.pass, fill: '#22c55e' },
-                                { name: 'Fail', value: stats.fail, fill: '#ef4444' },
-                                { name: 'Block', value: stats.block, fill: '#1f2937' },
-                                { name: 'NA', value: stats.na, fill: '#fb923c' },
-                                { name: 'Untested', value: stats.untested, fill: '#e5e7eb' }
-                            ].filter(d => d.value > 0)}
+                            <Pie data={breakdown.filter(b => b.count > 0).map(b => ({ name: b.status.label, value: b.count }))}
                                 innerRadius={25} outerRadius={40} paddingAngle={2} dataKey="value"
                             >
-                                <Cell fill="#22c55e" /><Cell fill="#ef4444" /><Cell fill="#1f2937" /><Cell fill="#fb923c" /><Cell fill="#e5e7eb" />
+                                {breakdown.filter(b => b.count > 0).map(b => <Cell key={b.status.code} fill={b.status.color} />)}
                             </Pie>
                         </PieChart>
                     </ResponsiveContainer>
                     <div className="absolute inset-0 flex flex-col items-center justify-center font-bold text-gray-600 text-xs">
-                        <span>{Math.round(((stats.total - stats.untested) / (stats.total || 1)) * 100) || 0}%</span>
+                        <span>{percentOf(stats.executed, stats.total)}%</span>
                         <span className="text-gray-400 font-normal">Done</span>
                     </div>
                 </div>
-                <div className="grid grid-cols-5 gap-4">
-                    <div className="p-3 bg-green-50 rounded border border-green-100 w-24 text-center"><div className="text-xs font-bold text-green-700">Pass</div><div className="text-xl font-bold text-green-800">{stats.pass}</div></div>
-                    <div className="p-3 bg-red-50 rounded border border-red-100 w-24 text-center"><div className="text-xs font-bold text-red-700">Fail</div><div className="text-xl font-bold text-red-800">{stats.fail}</div></div>
-                    <div className="p-3 bg-gray-100 rounded border border-gray-200 w-24 text-center"><div className="text-xs font-bold text-gray-700">Block</div><div className="text-xl font-bold text-gray-800">{stats.block}</div></div>
-                    <div className="p-3 bg-orange-50 rounded border border-orange-100 w-24 text-center"><div className="text-xs font-bold text-orange-600">N/A</div><div className="text-xl font-bold text-orange-700">{stats.na}</div></div>
-                    <div className="p-3 bg-white rounded border border-gray-200 w-24 text-center"><div className="text-xs font-bold text-gray-400">Untested</div><div className="text-xl font-bold text-gray-500">{stats.untested}</div></div>
+                <div className="flex flex-wrap gap-4 max-w-3xl">
+                    {breakdown.map(({ status, count }) => (
+                        <div key={status.code} className="p-3 rounded border w-24 text-center" style={statusStyle(status)}>
+                            <div className="text-xs font-bold truncate">{status.label}</div>
+                            <div className="text-xl font-bold">{count}</div>
+                        </div>
+                    ))}
+                </div>
+                {/* Progress per configuration of the environment matrix */}
+                <div className="space-y-1.5 min-w-[220px] max-h-32 overflow-y-auto">
+                    {byEnvironment.filter(e => e.counts.total > 0).map(({ environment, counts }) => (
+                        <div key={environment.id} className="text-xs">
+                            <div className="flex justify-between gap-2 text-gray-600">
+                                <span className="font-bold truncate">{environment.name}</span>
+                                <span>{counts.executed}/{counts.total}</span>
+                            </div>
+                            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden flex">
+                                {statusBreakdown(statuses, counts).filter(b => b.status.code !== UNTESTED && b.count > 0).map(b => (
+                                    <div key={b.status.code} className="h-full" style={{ width: `${(b.count / counts.total) * 100}%`, backgroundColor: b.status.color }} />
+                                ))}
+                            </div>
+                        </div>
+                    ))}
                 </div>
             </div>
         </div>
@@ -65,11 +100,19 @@ const DashboardStats = React.memo(({ stats, isDashboardOpen }: { stats: any, isD
 // -------------------------------------------------------------------------
 // [Reusable] Sidebar
 // -------------------------------------------------------------------------
-const CaseSidebar = React.memo(({ runCases, runResults, activeCaseIndex, onSelect }: any) => {
+const CaseSidebar = React.memo(({ runCases, runResults, statuses, environments, caseUpdates, activeCaseIndex, onSelect }: {
+    runCases: CaseExecution<TestCaseWithContext>[],
+    runResults: TestResult[],
+    statuses: TestStatusDefinition[],
+    environments: RunEnvironment[],
+    caseUpdates: Record<string, CaseUpdate>,
+    activeCaseIndex: number,
+    onSelect: (index: number) => void
+}) => {
     // Group By Document
     const grouped = useMemo(() => {
         const groups: Record<string, typeof runCases> = {};
-        runCases.forEach((c: any) => {
+        runCases.forEach(c => {
             const key = c.documentTitle || 'Unknown Document';
             if (!groups[key]) groups[key] = [];
             groups[key].push(c);
@@ -79,42 +122,29 @@ const CaseSidebar = React.memo(({ runCases, runResults, activeCaseIndex, onSelec
 
     return (
         <div className="w-72 bg-white border-r overflow-y-auto hidden md:block">
-            {Object.entries(grouped).map(([docTitle, cases]: [string, any[]]) => (
+            {Object.entries(grouped).map(([docTitle, cases]) => (
                 <div key={docTitle}>
                     <div className="bg-gray-100 px-3 py-2 text-xs font-bold text-gray-500 uppercase flex items-center gap-2 sticky top-0 z-10 border-y">
                         <FolderOpen size={12} /> {docTitle}
                     </div>
-                    {cases.map((c: any) => {
-                        // Find global index
-                        const globalIndex = runCases.findIndex((rc: any) => rc.id === c.id);
-                        const cPcRes = runResults.find((r: any) => r.caseId === c.id && (!r.device_platform || r.device_platform === 'PC'));
-                        const cIosRes = runResults.find((r: any) => r.caseId === c.id && r.device_platform === 'iOS');
-                        const cAosRes = runResults.find((r: any) => r.caseId === c.id && r.device_platform === 'Android');
-
-                        let status: TestStatus = 'UNTESTED';
-                        if (c.platform_type === 'APP') {
-                            if (cIosRes?.status === 'FAIL' || cAosRes?.status === 'FAIL') status = 'FAIL';
-                            else if (cIosRes?.status === 'BLOCK' || cAosRes?.status === 'BLOCK') status = 'BLOCK';
-                            else if (cIosRes?.status === 'NA' || cAosRes?.status === 'NA') status = 'NA';
-                            else if (cIosRes?.status === 'PASS' && cAosRes?.status === 'PASS') status = 'PASS';
-                            else status = 'UNTESTED';
-                        } else {
-                            status = cPcRes?.status || 'UNTESTED';
-                        }
-
-                        let statusColor = 'bg-gray-300';
-                        if (status === 'PASS') statusColor = 'bg-green-500';
-                        else if (status === 'FAIL') statusColor = 'bg-red-500';
-                        else if (status === 'BLOCK') statusColor = 'bg-gray-800';
-                        else if (status === 'NA') statusColor = 'bg-orange-400';
+                    {cases.map(c => {
+                        // Find global index (one entry per parameter row)
+                        const globalIndex = runCases.findIndex(rc => rc.executionKey === c.executionKey);
+                        const status = statusInfo(statuses, executionStatus(statuses, c, runResults, environments));
 
                         return (
-                            <div key={c.id} onClick={() => onSelect(globalIndex)} className={`p-3 border-b cursor-pointer flex items-center gap-2 text-sm hover:bg-gray-50 ${activeCaseIndex === globalIndex ? 'bg-blue-50 border-l-4 border-l-primary' : ''}`}>
-                                <div className={`w-3 h-3 rounded-full flex-shrink-0 ${statusColor}`} />
+                            <div key={c.executionKey} onClick={() => onSelect(globalIndex)} className={`p-3 border-b cursor-pointer flex items-center gap-2 text-sm hover:bg-gray-50 ${activeCaseIndex === globalIndex ? 'bg-blue-50 border-l-4 border-l-primary' : ''}`}>
+                                <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: status.color }} title={status.label} />
                                 <div className="flex flex-col min-w-0">
                                     <span className="truncate">{c.title}</span>
+                                    {c.rowLabel && <span className="text-[10px] font-mono text-indigo-500 truncate">{c.rowLabel}</span>}
                                     {c.sectionTitle && <span className="text-[10px] text-gray-400 truncate">{c.sectionTitle}</span>}
                                 </div>
+                                {caseUpdates[c.id] && (
+                                    <span className="ml-auto flex-shrink-0" title={caseUpdates[c.id].deleted ? '원본 케이스 삭제됨' : '실행 시작 후 수정됨'}>
+                                        <History size={12} className={caseUpdates[c.id].deleted ? 'text-gray-400' : 'text-amber-500'} />
+                                    </span>
+                                )}
                             </div>
                         );
                     })}
@@ -124,29 +154,21 @@ const CaseSidebar = React.memo(({ runCases, runResults, activeCaseIndex, onSelec
     );
 });
 
-const StatusDropdown = ({ value, onChange, disabled }: { value: TestStatus, onChange: (s: TestStatus) => void, disabled?: boolean }) => {
-    const getBgColor = (s: TestStatus) => {
-        switch (s) {
-            case 'PASS': return 'bg-green-100 text-green-700 border-green-200';
-            case 'FAIL': return 'bg-red-100 text-red-700 border-red-200';
-            case 'BLOCK': return 'bg-gray-800 text-white border-gray-900';
-            case 'NA': return 'bg-orange-100 text-orange-700 border-orange-200';
-            default: return 'bg-white text-gray-400 border-gray-200';
-        }
-    };
+const StatusDropdown = ({ value, statuses, onChange, disabled }: { value: TestStatus, statuses: TestStatusDefinition[], onChange: (s: TestStatus) => void, disabled?: boolean }) => {
+    const current = statusInfo(statuses, value);
+    // A retired status stays selectable where it is already set
+    const options = [statusInfo(statuses, UNTESTED), ...pickableStatuses(statuses)];
+    if (!options.some(o => o.code === current.code)) options.push(current);
     return (
         <select
             value={value}
-            onChange={(e) => onChange(e.target.value as TestStatus)}
+            onChange={(e) => onChange(e.target.value)}
             disabled={disabled}
-            className={`h-8 text-xs font-bold rounded border focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-blue-500 cursor-pointer px-2 w-full transition-colors ${getBgColor(value)} disabled:opacity-50 disabled:cursor-not-allowed`}
+            style={value === UNTESTED ? undefined : statusStyle(current)}
+            className="h-8 text-xs font-bold rounded border focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-blue-500 cursor-pointer px-2 w-full transition-colors bg-white text-gray-400 border-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
             onClick={(e) => e.stopPropagation()}
         >
-            <option value="UNTESTED" className="bg-white text-gray-500">Untested</option>
-            <option value="PASS" className="bg-white text-green-600">PASS</option>
-            <option value="FAIL" className="bg-white text-red-600">FAIL</option>
-            <option value="BLOCK" className="bg-white text-gray-800">BLOCK</option>
-            <option value="NA" className="bg-white text-orange-600">N/A</option>
+            {options.map(o => <option key={o.code} value={o.code} className="bg-white text-gray-700">{o.label}</option>)}
         </select>
     );
 };
@@ -155,62 +177,82 @@ const StatusDropdown = ({ value, onChange, disabled }: { value: TestStatus, onCh
 // [Sub Component] Bottom Pane
 // -------------------------------------------------------------------------
 const BottomResultPane = ({
-    platform,
+    environment,
     data,
-    initialHistory,
     onUpdate,
     onSave,
     onStatusUpdate,
     onSaveNext,
+    onAttach,
+    onRemoveAttachment,
+    onEnsureSaved,
+    issueDraft,
+    defectTarget,
+    defaultDefectTitle,
+    statuses,
     disabled
-}: any) => {
-    const status = data.status || 'UNTESTED';
+}: {
+    environment: RunEnvironment,
+    data: Partial<TestResult>,
+    onUpdate: (field: keyof TestResult, value: any) => void,
+    onSave: () => void,
+    onStatusUpdate: (status: TestStatus) => Promise<boolean>, // false when the save failed and was rolled back
+    onSaveNext: () => void,
+    onAttach: (files: File[]) => Promise<void>,
+    onRemoveAttachment: (attachment: Attachment) => void,
+    onEnsureSaved: () => Promise<string | undefined>,
+    issueDraft: () => TrackerIssueInput,
+    defectTarget: Omit<DefectLinkTarget, 'resultId'>,
+    defaultDefectTitle: string,
+    statuses: TestStatusDefinition[],
+    disabled: boolean
+}) => {
+    const status: TestStatus = data.status || UNTESTED;
+    const info = statusInfo(statuses, status);
+    const failing = isFailing(statuses, status);
     const actual = data.actualResult || '';
     const comment = data.comment || '';
-    const defectLabel = data.issues?.[0]?.label || '';
-    const defectUrl = data.issues?.[0]?.url || '';
 
     const [historyExpanded, setHistoryExpanded] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
 
-    const handlePassAndNext = () => {
-        if (isProcessing || disabled) return;
-        setIsProcessing(true);
-        const nextStatus = status === 'FAIL' ? 'FAIL' : 'PASS';
-        onStatusUpdate(nextStatus);
-        onSaveNext();
-        setTimeout(() => setIsProcessing(false), 300);
+    // A pasted screenshot becomes an attachment; pasted text goes into the field as usual
+    const handlePaste = (e: React.ClipboardEvent) => {
+        if (disabled) return;
+        const files = filesFromClipboard(e);
+        if (files.length === 0) return;
+        e.preventDefault();
+        onAttach(files);
     };
 
-    const getStatusColor = (s: TestStatus) => {
-        switch (s) {
-            case 'PASS': return 'bg-green-100 text-green-700 border-green-500';
-            case 'FAIL': return 'bg-red-100 text-red-700 border-red-500';
-            case 'BLOCK': return 'bg-gray-800 text-white border-gray-900';
-            case 'NA': return 'bg-orange-100 text-orange-700 border-orange-500';
-            default: return 'bg-gray-100 text-gray-500 border-gray-300';
-        }
+    // Moves on only once the result is stored
+    const handlePassAndNext = async () => {
+        if (isProcessing || disabled) return;
+        setIsProcessing(true);
+        const nextStatus = failing ? status : PASS;
+        if (await onStatusUpdate(nextStatus)) onSaveNext();
+        setIsProcessing(false);
     };
 
     return (
-        <div className={`flex flex-col h-full rounded-xl shadow-sm border-2 bg-white overflow-hidden ${getStatusColor(status).replace('text-', 'border-').split(' ')[2]}`}>
+        <div onPaste={handlePaste} className="flex flex-col h-full rounded-xl shadow-sm border-2 bg-white overflow-hidden" style={{ borderColor: status === UNTESTED ? '#d1d5db' : info.color }}>
             <div className="flex items-center justify-between p-3 border-b bg-gray-50">
-                <div className="font-bold text-sm flex items-center gap-2">
-                    {platform === 'iOS' && 'iOS'}
-                    {platform === 'Android' && 'Android'}
-                    {platform === 'PC' && 'WEB'}
+                <div className="font-bold text-sm flex items-center gap-2 min-w-0" title={Object.entries(environment.values || {}).map(([k, v]) => `${k}: ${v}`).join('\n')}>
+                    {environment.platform_type === 'APP' ? <Smartphone size={14} className="text-purple-500 flex-shrink-0" /> : <Monitor size={14} className="text-blue-500 flex-shrink-0" />}
+                    <span className="truncate">{environment.name}</span>
                 </div>
                 <div className="flex gap-1 scale-90 origin-right">
-                    {!disabled && (['PASS', 'FAIL', 'BLOCK', 'NA'] as TestStatus[]).map(s => (
+                    {!disabled && pickableStatuses(statuses).map(s => (
                         <button
-                            key={s}
-                            onClick={() => onStatusUpdate(s)}
-                            className={`px-3 py-1 rounded-md text-[10px] font-bold transition-all ${status === s ? getStatusColor(s) + ' shadow-sm' : 'text-gray-400 hover:bg-gray-200 bg-white border'}`}
+                            key={s.code}
+                            onClick={() => onStatusUpdate(s.code)}
+                            style={status === s.code ? statusStyle(s, true) : undefined}
+                            className={`px-3 py-1 rounded-md text-[10px] font-bold uppercase transition-all border ${status === s.code ? 'shadow-sm' : 'text-gray-400 hover:bg-gray-200 bg-white'}`}
                         >
-                            {s}
+                            {s.label}
                         </button>
                     ))}
-                    {disabled && <span className="text-xs font-bold text-gray-500 px-2">{status}</span>}
+                    {disabled && <span className="text-xs font-bold px-2" style={{ color: info.color }}>{info.label}</span>}
                 </div>
             </div>
 
@@ -237,37 +279,30 @@ const BottomResultPane = ({
                         onBlur={onSave}
                     />
                 </div>
-                {status === 'FAIL' && (
+                <div>
+                    <label className="block text-xs font-bold text-gray-500 mb-1">Attachments</label>
+                    <Attachments
+                        attachments={data.attachments || []}
+                        onAdd={onAttach}
+                        onRemove={onRemoveAttachment}
+                        disabled={disabled}
+                        hint="스크린샷은 Ctrl+V로 붙여넣을 수 있습니다."
+                    />
+                </div>
+                {(failing || (data.issues || []).length > 0) && (
                     <div className="mt-4 pt-4 border-t border-red-100">
                         <label className="text-sm font-semibold text-red-600 flex items-center gap-1 mb-2">
                             <Bug size={14} /> 결함 (Defects)
                         </label>
-                        <div className="flex gap-2 items-center bg-red-50 p-2 rounded border border-red-100">
-                            <input
-                                disabled={disabled}
-                                className="border rounded px-2 py-1.5 flex-1 text-sm focus:border-red-400 focus:ring-1 focus:ring-red-400 outline-none disabled:bg-gray-100"
-                                placeholder="이슈 제목 (예: QA-123 로그인 버튼 겹침)"
-                                value={defectLabel}
-                                onChange={e => onUpdate('issues', [{
-                                    id: data.issues?.[0]?.id || Date.now().toString(),
-                                    label: e.target.value,
-                                    url: defectUrl
-                                }])}
-                                onBlur={onSave}
-                            />
-                            <input
-                                disabled={disabled}
-                                className="border rounded px-2 py-1.5 flex-1 text-sm focus:border-red-400 focus:ring-1 focus:ring-red-400 outline-none disabled:bg-gray-100"
-                                placeholder="이슈 URL (옵션)"
-                                value={defectUrl}
-                                onChange={e => onUpdate('issues', [{
-                                    id: data.issues?.[0]?.id || Date.now().toString(),
-                                    label: defectLabel,
-                                    url: e.target.value
-                                }])}
-                                onBlur={onSave}
-                            />
-                        </div>
+                        <ResultDefects
+                            resultId={data.id}
+                            target={defectTarget}
+                            defaultTitle={defaultDefectTitle}
+                            legacyIssues={data.issues}
+                            disabled={disabled}
+                            ensureResultId={onEnsureSaved}
+                            issueDraft={issueDraft}
+                        />
                     </div>
                 )}
             </div>
@@ -281,7 +316,7 @@ const BottomResultPane = ({
                             className={`px-4 py-1.5 text-xs font-bold rounded shadow flex items-center gap-1 transition-all duration-200 text-white ${isProcessing ? 'bg-blue-400 cursor-not-allowed' : 'bg-primary hover:bg-blue-700'}`}
                         >
                             {isProcessing ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle size={14} />}
-                            {status === 'FAIL' ? 'Save & Next' : 'Pass & Next'}
+                            {failing ? 'Save & Next' : 'Pass & Next'}
                         </button>
                     )}
                 </div>
@@ -295,32 +330,33 @@ const BottomResultPane = ({
 // -------------------------------------------------------------------------
 export const TestRunner = () => {
     const { runId } = useParams();
+    const can = usePermission();
+    const statuses = useTestStatuses();
     const [searchParams, setSearchParams] = useSearchParams();
     const navigate = useNavigate();
     const { user } = useContext(AuthContext);
 
     const [run, setRun] = useState<TestRun | null>(null);
-    const [runCases, setRunCases] = useState<TestCaseWithContext[]>([]);
+    const [pinnedCases, setPinnedCases] = useState<TestCaseWithContext[]>([]);
+    // What the tester works through: one entry per parameter row of data-driven cases
+    const runCases = useMemo<CaseExecution<TestCaseWithContext>[]>(() => expandExecutions(pinnedCases), [pinnedCases]);
     const [runResults, setRunResults] = useState<TestResult[]>([]);
+    const [caseUpdates, setCaseUpdates] = useState<Record<string, CaseUpdate>>({});
+    const [showDiff, setShowDiff] = useState(false);
     const [loading, setLoading] = useState(true);
 
     const [activeCaseIndex, setActiveCaseIndex] = useState(0);
     const [isDashboardOpen, setDashboardOpen] = useState(true);
     const [isReportOpen, setReportOpen] = useState(false);
 
-    // Local State for Active Case
-    const [pcResult, setPcResult] = useState<Partial<TestResult>>({});
-    const [iosResult, setIosResult] = useState<Partial<TestResult>>({});
-    const [aosResult, setAosResult] = useState<Partial<TestResult>>({});
+    // Local state for the active case: one result per configuration it runs on
+    const [envResults, setEnvResults] = useState<Record<DevicePlatform, Partial<TestResult>>>({});
 
-    // Refs for latest state access
-    const pcRef = useRef(pcResult);
-    const iosRef = useRef(iosResult);
-    const aosRef = useRef(aosResult);
+    // Ref for latest state access
+    const envRef = useRef(envResults);
+    useEffect(() => { envRef.current = envResults; }, [envResults]);
 
-    useEffect(() => { pcRef.current = pcResult; }, [pcResult]);
-    useEffect(() => { iosRef.current = iosResult; }, [iosResult]);
-    useEffect(() => { aosRef.current = aosResult; }, [aosResult]);
+    const environments = useMemo(() => runEnvironments(run), [run]);
 
     // Initialize Data
     useEffect(() => {
@@ -337,39 +373,47 @@ export const TestRunner = () => {
 
             if (r.status === 'COMPLETED' && r.snapshot_data) {
                 // Load from Snapshot
-                setRunCases(r.snapshot_data.cases || []);
+                setPinnedCases(r.snapshot_data.cases || []);
                 setRunResults(r.snapshot_data.results || []);
+                setCaseUpdates({});
             } else {
-                // Fetch Live Data
-                const docIds = r.target_document_ids || [];
-                if (docIds.length > 0) {
-                    const [cases, sections, results, docs] = await Promise.all([
-                        TestCaseService.getCasesByDocumentIds(docIds),
-                        TestCaseService.getSectionsByDocumentIds(docIds),
-                        RunService.getResults(runId),
-                        DriveService.getAllDocuments() // To map doc titles
-                    ]);
-
-                    const docMap = new Map(docs.map(d => [d.id, d.title]));
-                    const secMap = new Map(sections.map(s => [s.id, s.title]));
-
-                    // Enrich Cases
-                    const enrichedCases = cases.map(c => ({
-                        ...c,
-                        documentTitle: docMap.get(c.documentId) || 'Unknown Doc',
-                        sectionTitle: secMap.get(c.sectionId)
-                    }));
-
-                    // Sort: Doc Title -> Section Title -> Priority -> SeqID
-                    enrichedCases.sort((a, b) => {
-                        if (a.documentTitle !== b.documentTitle) return (a.documentTitle || '').localeCompare(b.documentTitle || '');
-                        if (a.sectionTitle !== b.sectionTitle) return (a.sectionTitle || '').localeCompare(b.sectionTitle || '');
-                        return (a.seq_id || 0) - (b.seq_id || 0);
-                    });
-
-                    setRunCases(enrichedCases);
-                    setRunResults(results);
-                }
+                // Cases as pinned at run start; the live cases are only used to flag updates
+                const [pins, results] = await Promise.all([RunService.getRunCases(r), RunService.getResults(runId)]);
+                const docIds = Array.from(new Set(pins.map(p => p.documentId)));
+                const [liveCases, sections, docs] = await Promise.all([
+                    // Expanded like the pins, so an edited shared step block counts as an update
+                    TestCaseService.getCasesByIds(pins.map(p => p.caseId)).then(c => SharedStepService.expandCases(c)),
+                    docIds.length > 0 ? TestCaseService.getSectionsByDocumentIds(docIds) : Promise.resolve([]),
+                    docIds.length > 0 ? DriveService.getDocumentsByIds(docIds) : Promise.resolve([]) // To map doc titles
+                ]);
+
+                const docMap = new Map(docs.map(d => [d.id, d.title]));
+                const secMap = new Map(sections.map(s => [s.id, getSectionPath(sections, s.id)]));
+
+                // Enrich Cases, in section tree + manual order
+                const enrichedCases = sortCasesBySection(pins.map(p => p.snapshot), sections).map(c => ({
+                    ...c,
+                    documentTitle: docMap.get(c.documentId) || 'Unknown Doc',
+                    sectionTitle: secMap.get(c.sectionId)
+                }));
+
+                // Sort: Doc Title (stable, keeps the order within each document)
+                enrichedCases.sort((a, b) => (a.documentTitle || '').localeCompare(b.documentTitle || ''));
+
+                const liveMap = new Map(liveCases.map(c => [c.id, c]));
+                const updates: Record<string, CaseUpdate> = {};
+                pins.forEach(p => {
+                    const live = liveMap.get(p.caseId);
+                    if (!live) updates[p.caseId] = { deleted: true, changes: [] };
+                    else {
+                        const changes = diffCaseContent(p.snapshot, live);
+                        if (changes.length > 0) updates[p.caseId] = { deleted: false, changes };
+                    }
+                });
+
+                setPinnedCases(enrichedCases);
+                setRunResults(results);
+                setCaseUpdates(updates);
             }
 
             // Set Initial Index from URL
@@ -386,39 +430,56 @@ export const TestRunner = () => {
     // Update URL when index changes
     const handleCaseSelect = (index: number) => {
         setActiveCaseIndex(index);
+        setShowDiff(false);
         setSearchParams({ case: index.toString() });
     };
 
+    // Take over the current version of the case; results recorded so far stay
+    const handleRefreshCase = async (caseId: string) => {
+        if (!run) return;
+        try {
+            const pin = await RunService.refreshCase(run.id, caseId);
+            setPinnedCases(prev => prev.map(c => c.id === caseId ? { ...c, ...pin.snapshot } : c));
+            setCaseUpdates(prev => {
+                const next = { ...prev };
+                delete next[caseId];
+                return next;
+            });
+            setShowDiff(false);
+        } catch (e: any) {
+            alert(e?.message || '갱신에 실패했습니다.');
+        }
+    };
+
     // Initialize Local State when Active Case Changes
     useEffect(() => {
         const activeCase = runCases[activeCaseIndex];
         if (!activeCase) return;
 
-        const caseResults = runResults.filter(r => r.caseId === activeCase.id);
-        const init = (platform: DevicePlatform) => {
-            const found = caseResults.find(r => r.device_platform === platform) || caseResults.find(r => !r.device_platform && platform === 'PC');
-            return found || { status: 'UNTESTED', stepResults: [], device_platform: platform };
-        };
-
-        setPcResult(init('PC'));
-        setIosResult(init('iOS'));
-        setAosResult(init('Android'));
-    }, [activeCaseIndex, runResults]); // runCases stable typically
+        const caseResults = runResults.filter(r => isResultOf(r, activeCase.id, activeCase.rowId));
+        setEnvResults(Object.fromEntries(caseEnvironments(environments, activeCase).map(env => [
+            env.id,
+            caseResults.find(r => resultEnvironmentId(r) === env.id) || { status: UNTESTED, stepResults: [], device_platform: env.id }
+        ])));
+    }, [activeCaseIndex, runResults, environments]); // runCases stable typically
 
     // Actions
     const updateLocalState = (platform: DevicePlatform, field: keyof TestResult, value: any) => {
-        const setter = platform === 'PC' ? setPcResult : platform === 'iOS' ? setIosResult : setAosResult;
-        setter(prev => ({ ...prev, [field]: value }));
+        setEnvResults(prev => ({ ...prev, [platform]: { ...prev[platform], [field]: value } }));
     };
 
-    const saveToBackend = async (platform: DevicePlatform, data = null) => {
+    const latest = (platform: DevicePlatform) => envRef.current[platform] || {};
+
+    // Resolves to the stored result's id, so defects can be linked to a result saved just now
+    const saveToBackend = async (platform: DevicePlatform, data: Partial<TestResult> | null = null): Promise<string | undefined> => {
         if (!run || run.status === 'COMPLETED') return;
         const currentCase = runCases[activeCaseIndex];
-        const targetState = data || (platform === 'iOS' ? iosRef.current : platform === 'Android' ? aosRef.current : pcRef.current);
+        const targetState = data || latest(platform);
 
         const payload: Partial<TestResult> = {
             runId: run.id,
             caseId: currentCase.id,
+            rowId: currentCase.rowId,
             device_platform: platform,
             testerId: user?.id,
             ...targetState
@@ -426,38 +487,81 @@ export const TestRunner = () => {
         await RunService.saveResult(payload);
         const newResults = await RunService.getResults(run.id);
         setRunResults(newResults);
+        return newResults.find(r => isResultOf(r, currentCase.id, currentCase.rowId) && resultEnvironmentId(r) === platform)?.id;
+    };
+
+    // Saves a change already shown on screen; if the save fails, the changed fields get their previous values back
+    const saveOrRollback = async (platform: DevicePlatform, data: Partial<TestResult>, previous: Partial<TestResult>): Promise<boolean> => {
+        try {
+            await saveToBackend(platform, data);
+            return true;
+        } catch (e: any) {
+            setEnvResults(prev => ({ ...prev, [platform]: { ...prev[platform], ...previous } }));
+            alert(e?.message || '결과를 저장하지 못했습니다.');
+            return false;
+        }
+    };
+
+    // Typed fields stay on screen when the save fails, so it can be retried
+    const handleFieldSave = async (platform: DevicePlatform) => {
+        try {
+            await saveToBackend(platform);
+        } catch (e: any) {
+            alert(e?.message || '결과를 저장하지 못했습니다.');
+        }
     };
 
     const handleStatusUpdate = (platform: DevicePlatform, newStatus: TestStatus) => {
+        const current = latest(platform);
         updateLocalState(platform, 'status', newStatus);
-        const ref = platform === 'iOS' ? iosRef : platform === 'Android' ? aosRef : pcRef;
-        const newState = { ...ref.current, status: newStatus };
-        saveToBackend(platform, newState);
+        return saveOrRollback(platform, { ...current, status: newStatus }, { status: current.status });
+    };
+
+    // Files are uploaded first, then saved on the result like any other field
+    const handleAttach = async (platform: DevicePlatform, files: File[]) => {
+        if (!run || !user) return;
+        let added: Attachment[];
+        try {
+            added = await AttachmentService.uploadForResult(run.id, files, user);
+        } catch (e: any) {
+            alert(e?.message || '파일을 올리지 못했습니다.');
+            return;
+        }
+        const current = latest(platform);
+        const attachments = [...(current.attachments || []), ...added];
+        updateLocalState(platform, 'attachments', attachments);
+        if (!(await saveOrRollback(platform, { ...current, attachments }, { attachments: current.attachments }))) {
+            await AttachmentService.deleteResultFiles(run.id, added);
+        }
+    };
+
+    const handleRemoveAttachment = async (platform: DevicePlatform, attachment: Attachment) => {
+        if (!run || !window.confirm(`"${attachment.name}" 첨부를 삭제하시겠습니까?`)) return;
+        const current = latest(platform);
+        const attachments = (current.attachments || []).filter(a => a.id !== attachment.id);
+        updateLocalState(platform, 'attachments', attachments);
+        // The file goes only once the result no longer points at it
+        if (await saveOrRollback(platform, { ...current, attachments }, { attachments: current.attachments })) {
+            await AttachmentService.deleteResultFiles(run.id, [attachment]);
+        }
     };
 
     const handleStepUpdate = (platform: DevicePlatform, stepId: string, newStatus: TestStatus) => {
-        const ref = platform === 'iOS' ? iosRef : platform === 'Android' ? aosRef : pcRef;
-        const currentSteps = ref.current.stepResults || [];
+        const current = latest(platform);
+        const currentSteps = current.stepResults || [];
         const updatedSteps = currentSteps.filter(s => s.stepId !== stepId);
         updatedSteps.push({ stepId, status: newStatus });
 
-        // Autocalc Status logic (same as before)
+        // Autocalc: the set steps roll up by precedence; a passing rollup needs every step done
         const totalSteps = runCases[activeCaseIndex].steps.length;
-        const validResults = updatedSteps.filter(s => s.status !== 'UNTESTED');
-        let calculatedStatus: TestStatus = 'UNTESTED';
-        const hasFail = validResults.some(s => s.status === 'FAIL');
-        const hasBlock = validResults.some(s => s.status === 'BLOCK');
-        const hasNA = validResults.some(s => s.status === 'NA');
-
-        if (hasFail) calculatedStatus = 'FAIL';
-        else if (hasBlock) calculatedStatus = 'BLOCK';
-        else if (hasNA) calculatedStatus = 'NA';
-        else if (validResults.length >= totalSteps) calculatedStatus = 'PASS';
+        const setSteps = updatedSteps.filter(s => s.status !== UNTESTED).map(s => s.status);
+        let calculatedStatus = rollupStatus(statuses, setSteps);
+        if (statusInfo(statuses, calculatedStatus).passed && setSteps.length < totalSteps) calculatedStatus = UNTESTED;
 
         updateLocalState(platform, 'stepResults', updatedSteps);
         updateLocalState(platform, 'status', calculatedStatus);
 
-        saveToBackend(platform, { ...ref.current, stepResults: updatedSteps, status: calculatedStatus });
+        saveOrRollback(platform, { ...current, stepResults: updatedSteps, status: calculatedStatus }, { stepResults: current.stepResults, status: current.status });
     };
 
     const handleFinishRun = async () => {
@@ -466,54 +570,45 @@ export const TestRunner = () => {
 
         const snapshot = {
             meta: run,
-            cases: runCases,
+            cases: pinnedCases, // Parameter rows are expanded again when the snapshot is read
             results: runResults,
             completedAt: new Date().toISOString()
         };
 
-        await RunService.finishRun(run.id, snapshot);
+        try {
+            await RunService.finishRun(run.id, snapshot);
+        } catch (e: any) {
+            alert(e?.message || '런을 완료하지 못했습니다.');
+            return;
+        }
         loadData(); // Reload to show read-only view
     };
 
     // Stats
-    const stats = useMemo(() => {
-        const total = runCases.length;
-        let pass = 0, fail = 0, block = 0, na = 0;
-
-        runCases.forEach(c => {
-            const caseResults = runResults.filter(r => r.caseId === c.id);
-            let finalStatus: TestStatus = 'UNTESTED';
-
-            if (c.platform_type === 'APP') {
-                const iosRes = caseResults.find(r => r.device_platform === 'iOS');
-                const aosRes = caseResults.find(r => r.device_platform === 'Android');
-
-                if (iosRes?.status === 'FAIL' || aosRes?.status === 'FAIL') finalStatus = 'FAIL';
-                else if (iosRes?.status === 'BLOCK' || aosRes?.status === 'BLOCK') finalStatus = 'BLOCK';
-                else if (iosRes?.status === 'NA' || aosRes?.status === 'NA') finalStatus = 'NA';
-                else if (iosRes?.status === 'PASS' && aosRes?.status === 'PASS') finalStatus = 'PASS';
-                else finalStatus = 'UNTESTED';
-            } else {
-                const pcRes = caseResults.find(r => !r.device_platform || r.device_platform === 'PC');
-                finalStatus = pcRes?.status || 'UNTESTED';
-            }
-
-            if (finalStatus === 'PASS') pass++;
-            else if (finalStatus === 'FAIL') fail++;
-            else if (finalStatus === 'BLOCK') block++;
-            else if (finalStatus === 'NA') na++;
-        });
-
-        const untested = total - (pass + fail + block + na);
-        return { total, pass, fail, block, na, untested };
-    }, [runCases, runResults]);
+    // Per execution (rolled up over its configurations) and per configuration
+    const summary = useMemo(
+        () => summarizeRun(statuses, pinnedCases, runResults, environments),
+        [statuses, pinnedCases, runResults, environments]
+    );
+    const stats = summary.counts;
 
     if (loading) return <LoadingSpinner />;
     if (!run) return <div>Run not found</div>;
 
     const activeCase = runCases[activeCaseIndex];
-    const isAppMode = activeCase?.platform_type === 'APP';
+    const activeUpdate = activeCase ? caseUpdates[activeCase.id] : undefined;
+    const activeEnvironments = activeCase ? caseEnvironments(environments, activeCase) : [];
+    const stepGrid = { gridTemplateColumns: `2.5rem minmax(0, 4fr) minmax(0, 4fr) repeat(${activeEnvironments.length}, 8rem)` };
     const isReadOnly = run.status === 'COMPLETED';
+    const defectTarget = activeCase ? { caseId: activeCase.id, documentId: activeCase.documentId, runId: run.id, rowId: activeCase.rowId } : null;
+    const defectTitle = activeCase ? (activeCase.rowLabel ? `${activeCase.title} [${activeCase.rowLabel}]` : activeCase.title) : '';
+    const buildIssueDraft = (environment: RunEnvironment) => issueDraft({
+        testCase: activeCase,
+        result: latest(environment.id),
+        run,
+        rowLabel: activeCase.rowLabel,
+        environment
+    });
 
     return (
         <div className="flex flex-col h-full bg-gray-100">
@@ -535,10 +630,9 @@ export const TestRunner = () => {
                             </button>
                             {/* Mini Progress Bar */}
                             <div className="w-32 h-2.5 bg-gray-200 rounded-full overflow-hidden flex shadow-inner">
-                                <div className="h-full bg-green-500" style={{ width: `${(stats.pass / (stats.total || 1)) * 100}%` }} />
-                                <div className="h-full bg-red-500" style={{ width: `${(stats.fail / (stats.total || 1)) * 100}%` }} />
-                                <div className="h-full bg-gray-800" style={{ width: `${(stats.block / (stats.total || 1)) * 100}%` }} />
-                                <div className="h-full bg-orange-400" style={{ width: `${(stats.na / (stats.total || 1)) * 100}%` }} />
+                                {statusBreakdown(statuses, stats).filter(b => b.status.code !== UNTESTED && b.count > 0).map(b => (
+                                    <div key={b.status.code} className="h-full" title={`${b.status.label} ${b.count}`} style={{ width: `${(b.count / (stats.total || 1)) * 100}%`, backgroundColor: b.status.color }} />
+                                ))}
                             </div>
                         </div>
                     </div>
@@ -548,7 +642,7 @@ export const TestRunner = () => {
                     <button onClick={() => setReportOpen(true)} className="px-4 py-2 bg-blue-600 text-white rounded-lg font-bold shadow hover:bg-blue-700 flex items-center gap-2">
                         <BarChart2 size={18} /> 리포트 보기
                     </button>
-                    {!isReadOnly && (
+                    {!isReadOnly && can('MANAGE_RUNS') && (
                         <button onClick={handleFinishRun} className="px-4 py-2 bg-green-600 text-white rounded-lg font-bold shadow hover:bg-green-700 flex items-center gap-2">
                             <Save size={18} /> Finish Run
                         </button>
@@ -557,13 +651,16 @@ export const TestRunner = () => {
             </div>
 
             {/* Dashboard */}
-            <DashboardStats stats={stats} isDashboardOpen={isDashboardOpen} />
+            <DashboardStats stats={stats} byEnvironment={summary.byEnvironment} statuses={statuses} isDashboardOpen={isDashboardOpen} />
 
             {/* Content Area */}
             <div className="flex-1 flex overflow-hidden">
                 <CaseSidebar
                     runCases={runCases}
                     runResults={runResults}
+                    statuses={statuses}
+                    environments={environments}
+                    caseUpdates={caseUpdates}
                     activeCaseIndex={activeCaseIndex}
                     onSelect={handleCaseSelect}
                 />
@@ -584,101 +681,106 @@ export const TestRunner = () => {
                                             <span className={`px-2 py-0.5 rounded text-xs font-bold border ${activeCase.priority === 'HIGH' ? 'bg-red-50 text-red-600 border-red-100' : 'bg-blue-50 text-blue-600 border-blue-100'}`}>{activeCase.priority}</span>
                                         </div>
                                         <h1 className="text-2xl font-bold text-gray-900 mb-2">{activeCase.title}</h1>
+                                        {activeCase.rowLabel && (
+                                            <div className="mb-2 inline-flex items-center gap-2 px-2 py-1 rounded bg-indigo-50 border border-indigo-100 text-xs text-indigo-700">
+                                                <span className="font-bold">Data row</span>
+                                                <span className="font-mono">{activeCase.rowLabel}</span>
+                                            </div>
+                                        )}
+                                        {activeUpdate?.deleted && (
+                                            <div className="mb-2 bg-gray-50 p-3 rounded text-sm text-gray-600 border flex gap-2 items-center">
+                                                <History size={16} className="flex-shrink-0" />
+                                                원본 케이스가 삭제되었습니다. 실행 시작 시점의 내용으로 진행하며, 결과는 유지됩니다.
+                                            </div>
+                                        )}
+                                        {activeUpdate && !activeUpdate.deleted && (
+                                            <div className="mb-2 bg-amber-50 p-3 rounded text-sm text-amber-800 border border-amber-200 space-y-3">
+                                                <div className="flex gap-2 items-center">
+                                                    <History size={16} className="flex-shrink-0" />
+                                                    <span className="flex-1">실행 시작 후 케이스가 수정되었습니다 ({activeUpdate.changes.map(c => c.label).join(', ')})</span>
+                                                    <button onClick={() => setShowDiff(!showDiff)} className="text-xs font-bold hover:underline">{showDiff ? '차이 숨기기' : '차이 보기'}</button>
+                                                    {!isReadOnly && can('EXECUTE_RUNS') && (
+                                                        <button onClick={() => handleRefreshCase(activeCase.id)} className="flex items-center gap-1 px-2 py-1 bg-white border border-amber-300 rounded text-xs font-bold hover:bg-amber-100">
+                                                            <RefreshCw size={12} /> 최신 내용으로 갱신
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                {showDiff && <CaseUpdateDiff changes={activeUpdate.changes} documentId={activeCase.documentId} />}
+                                            </div>
+                                        )}
                                         {activeCase.precondition && (
                                             <div className="bg-yellow-50 p-3 rounded text-sm text-yellow-800 border border-yellow-200 whitespace-pre-wrap flex gap-2">
                                                 <AlertOctagon size={16} className="mt-0.5 flex-shrink-0" />
                                                 <div><strong>Precondition:</strong> {formatTextWithNumbers(activeCase.precondition)}</div>
                                             </div>
                                         )}
+                                        {(activeCase.attachments || []).length > 0 && (
+                                            <div className="mt-2">
+                                                <div className="text-xs font-bold text-gray-500 mb-1">참고 첨부</div>
+                                                <Attachments attachments={activeCase.attachments!} />
+                                            </div>
+                                        )}
                                     </div>
 
                                     {/* Steps Table */}
                                     <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-                                        <div className="bg-gray-50 border-b p-3 font-bold text-sm text-gray-600 grid grid-cols-12 gap-4">
-                                            <div className="col-span-1 text-center">#</div>
-                                            <div className="col-span-4">Action</div>
-                                            <div className={`col-span-${isAppMode ? '3' : '5'}`}>Expected Result</div>
-                                            {isAppMode ? (
-                                                <>
-                                                    <div className="col-span-2 text-center">iOS</div>
-                                                    <div className="col-span-2 text-center">Android</div>
-                                                </>
-                                            ) : (
-                                                <div className="col-span-2 text-center">Result</div>
-                                            )}
+                                        <div className="bg-gray-50 border-b p-3 font-bold text-sm text-gray-600 grid gap-4" style={stepGrid}>
+                                            <div className="text-center">#</div>
+                                            <div>Action</div>
+                                            <div>Expected Result</div>
+                                            {activeEnvironments.map(env => (
+                                                <div key={env.id} className="text-center truncate" title={env.name}>{activeEnvironments.length === 1 && env.id === 'PC' ? 'Result' : env.name}</div>
+                                            ))}
                                         </div>
                                         <div className="divide-y">
                                             {activeCase.steps.map((step, i) => (
-                                                <div key={i} className="p-3 grid grid-cols-12 gap-4 items-start text-sm hover:bg-gray-50">
-                                                    <div className="col-span-1 text-center text-gray-400 font-bold pt-1">{i + 1}</div>
-                                                    <div className="col-span-4"><StepRenderer text={step.step} /></div>
-                                                    <div className={`col-span-${isAppMode ? '3' : '5'} whitespace-pre-wrap leading-relaxed text-gray-600 border-l pl-4`}>{formatTextWithNumbers(step.expected)}</div>
-
-                                                    {isAppMode ? (
-                                                        <>
-                                                            <div className="col-span-2">
-                                                                <StatusDropdown
-                                                                    value={iosResult.stepResults?.find(s => s.stepId === step.id)?.status || 'UNTESTED'}
-                                                                    onChange={(val) => handleStepUpdate('iOS', step.id, val)}
-                                                                    disabled={isReadOnly}
-                                                                />
-                                                            </div>
-                                                            <div className="col-span-2">
+                                                <React.Fragment key={i}>
+                                                    {step.sharedFrom && activeCase.steps[i - 1]?.sharedFrom?.id !== step.sharedFrom.id && (
+                                                        <div className="px-3 py-1 bg-indigo-50 text-xs font-bold text-indigo-700 flex items-center gap-1">
+                                                            <Library size={12} /> 공유 스텝: {step.sharedFrom.name}
+                                                        </div>
+                                                    )}
+                                                    <div className={`p-3 grid gap-4 items-start text-sm hover:bg-gray-50 ${step.sharedFrom ? 'border-l-4 border-l-indigo-200' : ''}`} style={stepGrid}>
+                                                        <div className="text-center text-gray-400 font-bold pt-1">{i + 1}</div>
+                                                        <div><StepRenderer text={step.step} /></div>
+                                                        <div className="whitespace-pre-wrap leading-relaxed text-gray-600 border-l pl-4">{formatTextWithNumbers(step.expected)}</div>
+                                                        {activeEnvironments.map(env => (
+                                                            <div key={env.id}>
                                                                 <StatusDropdown
-                                                                    value={aosResult.stepResults?.find(s => s.stepId === step.id)?.status || 'UNTESTED'}
-                                                                    onChange={(val) => handleStepUpdate('Android', step.id, val)}
+                                                                    statuses={statuses}
+                                                                    value={envResults[env.id]?.stepResults?.find(s => s.stepId === step.id)?.status || UNTESTED}
+                                                                    onChange={(val) => handleStepUpdate(env.id, step.id, val)}
                                                                     disabled={isReadOnly}
                                                                 />
                                                             </div>
-                                                        </>
-                                                    ) : (
-                                                        <div className="col-span-2">
-                                                            <StatusDropdown
-                                                                value={pcResult.stepResults?.find(s => s.stepId === step.id)?.status || 'UNTESTED'}
-                                                                onChange={(val) => handleStepUpdate('PC', step.id, val)}
-                                                                disabled={isReadOnly}
-                                                            />
-                                                        </div>
-                                                    )}
-                                                </div>
+                                                        ))}
+                                                    </div>
+                                                </React.Fragment>
                                             ))}
                                         </div>
                                     </div>
 
                                     {/* Bottom Input Area */}
-                                    <div className="h-[400px]">
-                                        {isAppMode ? (
-                                            <div className="grid grid-cols-2 gap-6 h-full">
-                                                <BottomResultPane
-                                                    platform="iOS"
-                                                    data={iosResult}
-                                                    onUpdate={(f: any, v: any) => updateLocalState('iOS', f, v)}
-                                                    onSave={() => saveToBackend('iOS')}
-                                                    onStatusUpdate={(s: any) => handleStatusUpdate('iOS', s)}
-                                                    onSaveNext={() => handleCaseSelect(Math.min(runCases.length - 1, activeCaseIndex + 1))}
-                                                    disabled={isReadOnly}
-                                                />
-                                                <BottomResultPane
-                                                    platform="Android"
-                                                    data={aosResult}
-                                                    onUpdate={(f: any, v: any) => updateLocalState('Android', f, v)}
-                                                    onSave={() => saveToBackend('Android')}
-                                                    onStatusUpdate={(s: any) => handleStatusUpdate('Android', s)}
-                                                    onSaveNext={() => handleCaseSelect(Math.min(runCases.length - 1, activeCaseIndex + 1))}
-                                                    disabled={isReadOnly}
-                                                />
-                                            </div>
-                                        ) : (
+                                    <div className="h-[400px] grid gap-6 overflow-x-auto" style={{ gridTemplateColumns: `repeat(${activeEnvironments.length}, minmax(360px, 1fr))` }}>
+                                        {activeEnvironments.map(env => (
                                             <BottomResultPane
-                                                platform="PC"
-                                                data={pcResult}
-                                                onUpdate={(f: any, v: any) => updateLocalState('PC', f, v)}
-                                                onSave={() => saveToBackend('PC')}
-                                                onStatusUpdate={(s: any) => handleStatusUpdate('PC', s)}
+                                                key={env.id}
+                                                environment={env}
+                                                data={envResults[env.id] || {}}
+                                                onUpdate={(f, v) => updateLocalState(env.id, f, v)}
+                                                onSave={() => handleFieldSave(env.id)}
+                                                onStatusUpdate={s => handleStatusUpdate(env.id, s)}
+                                                onAttach={files => handleAttach(env.id, files)}
+                                                onRemoveAttachment={a => handleRemoveAttachment(env.id, a)}
+                                                onEnsureSaved={() => saveToBackend(env.id)}
+                                                issueDraft={() => buildIssueDraft(env)}
+                                                defectTarget={defectTarget!}
+                                                defaultDefectTitle={defectTitle}
                                                 onSaveNext={() => handleCaseSelect(Math.min(runCases.length - 1, activeCaseIndex + 1))}
+                                                statuses={statuses}
                                                 disabled={isReadOnly}
                                             />
-                                        )}
+                                        ))}
                                     </div>
                                 </>
                             ) : (
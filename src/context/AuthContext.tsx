@@ -3,14 +3,20 @@ import { User } from '@/src/types';
 
 interface AuthContextType {
     user: User | null;
-    login: (email: string) => Promise<void>;
+    login: (email: string, password: string) => Promise<void>;
+    loginWithMagicLink: (token: string) => Promise<void>;
+    bootstrapAdmin: (name: string, email: string, password: string) => Promise<void>;
     logout: () => void;
     users: User[];
+    reloadUsers: () => Promise<void>;
 }
 
 export const AuthContext = createContext<AuthContextType>({
     user: null,
     login: async () => { },
+    loginWithMagicLink: async () => { },
+    bootstrapAdmin: async () => { },
     logout: () => { },
-    users: []
+    users: [],
+    reloadUsers: async () => { }
 });
@@ -0,0 +1,26 @@
+import type { Permission } from './utils/permissions';
+import type { FolderAccessLevel } from './types';
+
+export type AuthErrorCode =
+    | 'INVALID_CREDENTIALS'
+    | 'INACTIVE_USER'
+    | 'INVALID_LINK'
+    | 'SESSION_EXPIRED'
+    | 'WEAK_PASSWORD'
+    | 'ALREADY_INITIALIZED'
+    | 'DUPLICATE_EMAIL'
+    | 'SELF_LOCKOUT';
+
+export class AuthError extends Error {
+    constructor(public code: AuthErrorCode, message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+export class PermissionError extends Error {
+    constructor(public permission: Permission | FolderAccessLevel) {
+        super(`권한이 없습니다. (${permission})`);
+        this.name = 'PermissionError';
+    }
+}
@@ -0,0 +1,9 @@
+import { useCallback, useContext } from 'react';
+import { AuthContext } from '../context/AuthContext';
+import { Permission, hasPermission } from '../utils/permissions';
+
+// const can = usePermission(); can('MANAGE_CASES')
+export const usePermission = () => {
+    const { user } = useContext(AuthContext);
+    return useCallback((permission: Permission) => hasPermission(user, permission), [user]);
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { TestStatusDefinition } from '../types';
+import { TestStatusService } from '../storage';
+import { DEFAULT_TEST_STATUSES } from '../utils/testStatus';
+
+// const statuses = useTestStatuses(); built-in set until the registry has loaded
+export const useTestStatuses = () => {
+    const [statuses, setStatuses] = useState<TestStatusDefinition[]>(DEFAULT_TEST_STATUSES);
+    useEffect(() => {
+        TestStatusService.getAll().then(setStatuses).catch(console.error);
+    }, []);
+    return statuses;
+};
@@ -0,0 +1,169 @@
+import { hashPassword, randomToken, verifyPassword } from '../utils/crypto';
+import { Row } from './types';
+import type { InsertRow, Tables } from './schema';
+
+// Auth RPCs (21_auth_rpc.sql) and user administration (23_user_admin_rpc.sql).
+// Errors carry an AuthErrorCode, FORBIDDEN or INVALID_INPUT as the message, like RAISE EXCEPTION.
+
+const ACCESS_TOKEN_TTL_MS = 60 * 60 * 1000; // 1h
+const REFRESH_TOKEN_TTL_MS = 14 * 24 * 60 * 60 * 1000; // 14d
+const MAGIC_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const ROLES = ['ADMIN', 'INTERNAL', 'EXTERNAL'];
+const USER_STATUSES = ['ACTIVE', 'INACTIVE'];
+
+const inFuture = (iso: string) => new Date(iso).getTime() > Date.now();
+const later = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+const sessionResult = (tables: Tables, session: Row) => ({
+    user: tables.users.find(u => u.id === session.userId) || null,
+    session: {
+        token: session.token,
+        refreshToken: session.refreshToken,
+        expiresAt: session.expiresAt,
+        refreshExpiresAt: session.refreshExpiresAt
+    }
+});
+
+const startSession = (tables: Tables, insert: InsertRow, userId: string) =>
+    sessionResult(tables, insert('sessions', {
+        userId,
+        token: randomToken(),
+        refreshToken: randomToken(),
+        expiresAt: later(ACCESS_TOKEN_TTL_MS),
+        refreshExpiresAt: later(REFRESH_TOKEN_TTL_MS)
+    }));
+
+const removeSession = (tables: Tables, id: string) => {
+    tables.sessions = tables.sessions.filter(s => s.id !== id);
+};
+
+// Active user behind a live access token
+const caller = (tables: Tables, sessionToken: string) => {
+    const session = tables.sessions.find(s => s.token === sessionToken && inFuture(s.expiresAt));
+    const user = session && tables.users.find(u => u.id === session.userId && u.status !== 'INACTIVE');
+    if (!user) throw new Error('SESSION_EXPIRED');
+    return user;
+};
+
+const requireSelfOrAdmin = (tables: Tables, sessionToken: string, userId: string) => {
+    const user = caller(tables, sessionToken);
+    if (user.id !== userId && user.role !== 'ADMIN') throw new Error('FORBIDDEN');
+};
+
+const requireAdmin = (tables: Tables, sessionToken: string) => {
+    const user = caller(tables, sessionToken);
+    if (user.role !== 'ADMIN') throw new Error('FORBIDDEN');
+    return user;
+};
+
+const storePassword = async (tables: Tables, insert: InsertRow, userId: string, password: string) => {
+    if ((password || '').length < MIN_PASSWORD_LENGTH) throw new Error('WEAK_PASSWORD');
+    const passwordHash = await hashPassword(password);
+    const existing = tables.credentials.find(c => c.userId === userId);
+    if (existing) Object.assign(existing, { passwordHash, updatedAt: new Date().toISOString() });
+    else insert('credentials', { userId, passwordHash });
+};
+
+export const AUTH_PROCEDURES: Record<string, (tables: Tables, params: Record<string, any>, insert: InsertRow) => any> = {
+    // Same error for unknown email and wrong password
+    auth_login: async (tables, { login_email, login_password }, insert) => {
+        const user = tables.users.find(u => u.email === String(login_email).trim());
+        const credential = user && tables.credentials.find(c => c.userId === user.id);
+        if (!user || !credential || !(await verifyPassword(login_password, credential.passwordHash))) {
+            throw new Error('INVALID_CREDENTIALS');
+        }
+        if (user.status === 'INACTIVE') throw new Error('INACTIVE_USER');
+        return startSession(tables, insert, user.id);
+    },
+    auth_redeem_magic_link: (tables, { link_token }, insert) => {
+        const link = tables.magicLinks.find(l => l.token === link_token);
+        if (!link || link.usedAt || !inFuture(link.expiresAt)) throw new Error('INVALID_LINK');
+        const user = tables.users.find(u => u.id === link.userId);
+        if (!user) throw new Error('INVALID_LINK');
+        if (user.status === 'INACTIVE') throw new Error('INACTIVE_USER');
+        link.usedAt = new Date().toISOString();
+        return startSession(tables, insert, user.id);
+    },
+    // Deactivated or deleted users lose the session
+    auth_session_user: (tables, { session_token }) => {
+        const session = tables.sessions.find(s => s.token === session_token && inFuture(s.expiresAt));
+        if (!session) return null;
+        const user = tables.users.find(u => u.id === session.userId);
+        if (!user || user.status === 'INACTIVE') {
+            removeSession(tables, session.id);
+            return null;
+        }
+        return user;
+    },
+    // Rotates both tokens; the refresh window itself does not slide
+    auth_refresh_session: (tables, { refresh_token }) => {
+        const session = tables.sessions.find(s => s.refreshToken === refresh_token);
+        if (!session) return null;
+        const user = tables.users.find(u => u.id === session.userId);
+        if (!inFuture(session.refreshExpiresAt) || !user || user.status === 'INACTIVE') {
+            removeSession(tables, session.id);
+            return null;
+        }
+        Object.assign(session, { token: randomToken(), refreshToken: randomToken(), expiresAt: later(ACCESS_TOKEN_TTL_MS) });
+        return sessionResult(tables, session);
+    },
+    auth_logout: (tables, { session_token }) => {
+        tables.sessions = tables.sessions.filter(s => s.token !== session_token);
+        return null;
+    },
+    auth_set_password: async (tables, { session_token, target_user_id, new_password }, insert) => {
+        requireSelfOrAdmin(tables, session_token, target_user_id);
+        await storePassword(tables, insert, target_user_id, new_password);
+        return null;
+    },
+    auth_has_password: (tables, { session_token, target_user_id }) => {
+        requireSelfOrAdmin(tables, session_token, target_user_id);
+        return tables.credentials.some(c => c.userId === target_user_id);
+    },
+    auth_create_magic_link: (tables, { session_token, target_user_id }, insert) => {
+        requireAdmin(tables, session_token);
+        return insert('magicLinks', { userId: target_user_id, token: randomToken(), expiresAt: later(MAGIC_LINK_TTL_MS) }).token;
+    },
+    auth_revoke_user_sessions: (tables, { session_token, target_user_id }) => {
+        requireAdmin(tables, session_token);
+        tables.sessions = tables.sessions.filter(s => s.userId !== target_user_id);
+        tables.magicLinks = tables.magicLinks.filter(l => l.userId !== target_user_id);
+        return null;
+    },
+    auth_bootstrap_admin: async (tables, { admin_name, admin_email, admin_password }, insert) => {
+        if (tables.users.length > 0) throw new Error('ALREADY_INITIALIZED');
+        if ((admin_password || '').length < MIN_PASSWORD_LENGTH) throw new Error('WEAK_PASSWORD');
+        const admin = insert('users', { name: admin_name, email: String(admin_email).trim(), role: 'ADMIN', status: 'ACTIVE' });
+        await storePassword(tables, insert, admin.id, admin_password);
+        return startSession(tables, insert, admin.id);
+    },
+    admin_create_user: (tables, { session_token, user_name, user_email, user_role }, insert) => {
+        requireAdmin(tables, session_token);
+        if (!ROLES.includes(user_role)) throw new Error('INVALID_INPUT');
+        const email = String(user_email).trim();
+        if (tables.users.some(u => u.email === email)) throw new Error('DUPLICATE_EMAIL');
+        return insert('users', { name: String(user_name).trim(), email, role: user_role, status: 'ACTIVE' });
+    },
+    // null keeps the current value
+    admin_update_user: (tables, { session_token, target_user_id, user_name, user_role }) => {
+        const admin = requireAdmin(tables, session_token);
+        if (user_role != null && !ROLES.includes(user_role)) throw new Error('INVALID_INPUT');
+        if (target_user_id === admin.id && (user_role ?? 'ADMIN') !== 'ADMIN') throw new Error('SELF_LOCKOUT');
+        const user = tables.users.find(u => u.id === target_user_id);
+        if (user) Object.assign(user, { name: user_name != null ? String(user_name).trim() : user.name, role: user_role ?? user.role });
+        return null;
+    },
+    admin_set_user_status: (tables, { session_token, target_user_id, user_status }) => {
+        const admin = requireAdmin(tables, session_token);
+        if (!USER_STATUSES.includes(user_status)) throw new Error('INVALID_INPUT');
+        if (target_user_id === admin.id && user_status === 'INACTIVE') throw new Error('SELF_LOCKOUT');
+        const user = tables.users.find(u => u.id === target_user_id);
+        if (user) user.status = user_status;
+        if (user_status === 'INACTIVE') {
+            tables.sessions = tables.sessions.filter(s => s.userId !== target_user_id);
+            tables.magicLinks = tables.magicLinks.filter(l => l.userId !== target_user_id);
+        }
+        return null;
+    },
+};
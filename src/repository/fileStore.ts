@@ -0,0 +1,145 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { FileStore, StoreResult } from './types';
+import { storedAccessToken } from '../utils/session';
+
+const ok = <T>(data: T): StoreResult<T> => ({ data, error: null });
+
+/**
+ * Private Supabase Storage bucket (created in supabase/migrations/16_attachments.sql). Uploads go straight to the
+ * bucket; signed URLs, copies and deletes go through the "attachments" edge function, which checks the session's
+ * access to the case or run the files belong to (22_attachment_access.sql).
+ */
+export class SupabaseFileStore implements FileStore {
+    constructor(
+        private client: SupabaseClient,
+        private bucket = 'attachments',
+        private sessionToken: () => string | null = storedAccessToken
+    ) { }
+
+    private async gateway<T>(body: Record<string, unknown>): Promise<StoreResult<T | null>> {
+        const { data, error } = await this.client.functions.invoke('attachments', {
+            body,
+            headers: { 'X-Session-Token': this.sessionToken() || '' }
+        });
+        if (!error) return { data: data as T, error: null };
+        // Non-2xx answers carry { error } in the response body
+        const detail = await error.context?.json?.().catch(() => null);
+        return { data: null, error: { message: detail?.error || error.message, code: error.context?.status ? String(error.context.status) : undefined } };
+    }
+
+    async upload(path: string, file: Blob, contentType?: string): Promise<StoreResult<null>> {
+        const { error } = await this.client.storage.from(this.bucket).upload(path, file, { contentType, upsert: false });
+        return { data: null, error };
+    }
+
+    async getUrl(path: string): Promise<StoreResult<string | null>> {
+        const { data, error } = await this.gateway<{ url: string }>({ action: 'url', path });
+        return { data: data?.url || null, error };
+    }
+
+    async copy(fromPath: string, toPath: string): Promise<StoreResult<null>> {
+        const { error } = await this.gateway({ action: 'copy', from: fromPath, to: toPath });
+        return { data: null, error };
+    }
+
+    async remove(paths: string[]): Promise<StoreResult<null>> {
+        if (paths.length === 0) return ok(null);
+        const { error } = await this.gateway({ action: 'remove', paths });
+        return { data: null, error };
+    }
+}
+
+export interface BlobPersistence {
+    get(path: string): Promise<Blob | null>;
+    put(path: string, file: Blob): Promise<void>;
+    delete(path: string): Promise<void>;
+}
+
+/**
+ * Server-less FileStore, the local stand-in for a storage bucket. Files live in memory;
+ * pass a BlobPersistence (e.g. IndexedDbBlobPersistence) to keep them across reloads.
+ */
+export class LocalFileStore implements FileStore {
+    private files = new Map<string, Blob>();
+    private urls = new Map<string, string>();
+
+    constructor(private persistence?: BlobPersistence) { }
+
+    private async read(path: string): Promise<Blob | null> {
+        if (!this.files.has(path) && this.persistence) {
+            const stored = await this.persistence.get(path);
+            if (stored) this.files.set(path, stored);
+        }
+        return this.files.get(path) || null;
+    }
+
+    async upload(path: string, file: Blob, contentType?: string): Promise<StoreResult<null>> {
+        if (await this.read(path)) return { data: null, error: { message: `File already exists: ${path}`, code: '409' } };
+        const blob = contentType && file.type !== contentType ? new Blob([file], { type: contentType }) : file;
+        this.files.set(path, blob);
+        if (this.persistence) await this.persistence.put(path, blob);
+        return ok(null);
+    }
+
+    async getUrl(path: string): Promise<StoreResult<string | null>> {
+        if (!this.urls.has(path)) {
+            const blob = await this.read(path);
+            if (!blob) return { data: null, error: { message: `File not found: ${path}`, code: '404' } };
+            this.urls.set(path, URL.createObjectURL(blob));
+        }
+        return ok(this.urls.get(path)!);
+    }
+
+    async copy(fromPath: string, toPath: string): Promise<StoreResult<null>> {
+        const blob = await this.read(fromPath);
+        if (!blob) return { data: null, error: { message: `File not found: ${fromPath}`, code: '404' } };
+        return this.upload(toPath, blob);
+    }
+
+    async remove(paths: string[]): Promise<StoreResult<null>> {
+        for (const path of paths) {
+            const url = this.urls.get(path);
+            if (url) URL.revokeObjectURL(url);
+            this.urls.delete(path);
+            this.files.delete(path);
+            if (this.persistence) await this.persistence.delete(path);
+        }
+        return ok(null);
+    }
+}
+
+export class IndexedDbBlobPersistence implements BlobPersistence {
+    private static STORE = 'files';
+
+    constructor(private dbName = 'tm_local_files') { }
+
+    private open(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const req = indexedDB.open(this.dbName, 1);
+            req.onupgradeneeded = () => req.result.createObjectStore(IndexedDbBlobPersistence.STORE);
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    }
+
+    private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const req = run(db.transaction(IndexedDbBlobPersistence.STORE, mode).objectStore(IndexedDbBlobPersistence.STORE));
+            req.onsuccess = () => resolve(req.result as T);
+            req.onerror = () => reject(req.error);
+        });
+    }
+
+    async get(path: string): Promise<Blob | null> {
+        return (await this.request<Blob | undefined>('readonly', store => store.get(path))) || null;
+    }
+
+    async put(path: string, file: Blob): Promise<void> {
+        await this.request('readwrite', store => store.put(file, path));
+    }
+
+    async delete(path: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(path));
+    }
+}
@@ -0,0 +1,101 @@
+import { supabase, SUPABASE_ANON_KEY, SUPABASE_URL } from '../../supabaseClient';
+import { storedAccessToken } from '../utils/session';
+import { DataStore, FileStore, IssueTracker } from './types';
+import { SupabaseDataStore } from './supabaseStore';
+import { MemoryDataStore, IndexedDbPersistence } from './memoryStore';
+import { SupabaseFileStore, LocalFileStore, IndexedDbBlobPersistence } from './fileStore';
+import { JiraIssueTracker, MockJiraServer } from './issueTracker';
+
+export type { DataStore, FileStore, IssueTracker, Query, Row, StoreResult, TableName, TrackerIssue, TrackerIssueInput, TrackerResult, TrackerStatusCategory } from './types';
+export { SupabaseDataStore } from './supabaseStore';
+export { MemoryDataStore, IndexedDbPersistence } from './memoryStore';
+export { SupabaseFileStore, LocalFileStore, IndexedDbBlobPersistence } from './fileStore';
+export { JiraIssueTracker, MockJiraServer } from './issueTracker';
+export type { JiraConfig } from './issueTracker';
+
+// VITE_DATA_BACKEND: 'supabase' (default, also used for self-hosted PostgREST) | 'indexeddb' | 'memory'
+const createDefaultStore = (): DataStore => {
+    const backend = import.meta.env?.VITE_DATA_BACKEND || 'supabase';
+    switch (backend) {
+        case 'memory':
+            return new MemoryDataStore();
+        case 'indexeddb':
+            return new MemoryDataStore(new IndexedDbPersistence());
+        default:
+            return new SupabaseDataStore(supabase);
+    }
+};
+
+let store: DataStore | null = null;
+
+export const getDataStore = (): DataStore => {
+    if (!store) store = createDefaultStore();
+    return store;
+};
+
+// Swap the backend at runtime (tests, offline demos)
+export const setDataStore = (next: DataStore) => {
+    store = next;
+};
+
+// Attachments follow the same VITE_DATA_BACKEND choice
+const createDefaultFileStore = (): FileStore => {
+    const backend = import.meta.env?.VITE_DATA_BACKEND || 'supabase';
+    switch (backend) {
+        case 'memory':
+            return new LocalFileStore();
+        case 'indexeddb':
+            return new LocalFileStore(new IndexedDbBlobPersistence());
+        default:
+            return new SupabaseFileStore(supabase);
+    }
+};
+
+let fileStore: FileStore | null = null;
+
+export const getFileStore = (): FileStore => {
+    if (!fileStore) fileStore = createDefaultFileStore();
+    return fileStore;
+};
+
+export const setFileStore = (next: FileStore) => {
+    fileStore = next;
+};
+
+// VITE_ISSUE_TRACKER: 'jira' | 'mock' (local MockJiraServer) | unset = no tracker, defects stay in the app.
+// Jira is reached through the jira-proxy edge function, which holds the API token and checks the app session;
+// VITE_JIRA_URL points at another proxy with the same contract.
+const createDefaultIssueTracker = (): IssueTracker | null => {
+    const env: Partial<ImportMetaEnv> = import.meta.env || {};
+    switch (env.VITE_ISSUE_TRACKER) {
+        case 'jira':
+            return new JiraIssueTracker({
+                baseUrl: env.VITE_JIRA_URL || `${SUPABASE_URL}/functions/v1/jira-proxy`,
+                projectKey: env.VITE_JIRA_PROJECT || '',
+                issueType: env.VITE_JIRA_ISSUE_TYPE,
+                headers: () => ({
+                    Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+                    apikey: SUPABASE_ANON_KEY,
+                    'X-Session-Token': storedAccessToken() || ''
+                }),
+                browseUrl: env.VITE_JIRA_BROWSE_URL
+            });
+        case 'mock': {
+            const server = new MockJiraServer(env.VITE_JIRA_PROJECT || 'QA');
+            return new JiraIssueTracker({ baseUrl: 'http://mock-jira.local', projectKey: server.projectKey }, server.fetch);
+        }
+        default:
+            return null;
+    }
+};
+
+let issueTracker: IssueTracker | null | undefined;
+
+export const getIssueTracker = (): IssueTracker | null => {
+    if (issueTracker === undefined) issueTracker = createDefaultIssueTracker();
+    return issueTracker;
+};
+
+export const setIssueTracker = (next: IssueTracker | null) => {
+    issueTracker = next;
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { JiraIssueTracker, MockJiraServer } from './issueTracker';
+
+const setup = (config: Partial<ConstructorParameters<typeof JiraIssueTracker>[0]> = {}) => {
+    const server = new MockJiraServer('QA');
+    const tracker = new JiraIssueTracker({ baseUrl: 'https://jira.example.com/', projectKey: 'QA', ...config }, server.fetch);
+    return { server, tracker };
+};
+
+describe('JiraIssueTracker against MockJiraServer', () => {
+    it('creates an issue and reads its status back', async () => {
+        const { server, tracker } = setup();
+        const { data, error } = await tracker.createIssue({ summary: 'Login fails', description: 'steps', labels: ['qa'] });
+
+        expect(error).toBeNull();
+        expect(data).toEqual({ key: 'QA-1', url: 'https://jira.example.com/browse/QA-1', status: 'To Do', statusCategory: 'new' });
+        expect(server.getIssue('QA-1')?.fields).toMatchObject({ summary: 'Login fails', issuetype: { name: 'Bug' }, labels: ['qa'] });
+    });
+
+    it('links to browseUrl when baseUrl is a proxy', async () => {
+        const { tracker } = setup({ baseUrl: 'https://proj.supabase.co/functions/v1/jira-proxy', browseUrl: 'https://acme.atlassian.net' });
+        const { data } = await tracker.createIssue({ summary: 'a', description: '' });
+        expect(data?.url).toBe('https://acme.atlassian.net/browse/QA-1');
+    });
+
+    it('truncates summaries to what Jira accepts', async () => {
+        const { server, tracker } = setup();
+        await tracker.createIssue({ summary: 'x'.repeat(300), description: '' });
+        expect(server.getIssue('QA-1')?.fields.summary).toHaveLength(255);
+    });
+
+    it('reports workflow transitions and skips keys Jira does not know', async () => {
+        const { server, tracker } = setup();
+        await tracker.createIssue({ summary: 'a', description: '' });
+        await tracker.createIssue({ summary: 'b', description: '' });
+        server.transition('QA-1', 'Done');
+        server.transition('QA-2', 'In Review', 'indeterminate');
+
+        const { data, error } = await tracker.getIssues(['QA-1', 'QA-2', 'QA-99']);
+
+        expect(error).toBeNull();
+        expect(data.map(i => [i.key, i.status, i.statusCategory])).toEqual([
+            ['QA-1', 'Done', 'done'],
+            ['QA-2', 'In Review', 'indeterminate']
+        ]);
+    });
+
+    it('does not call Jira for an empty key list', async () => {
+        let calls = 0;
+        const tracker = new JiraIssueTracker({ baseUrl: 'https://jira.example.com', projectKey: 'QA' }, async () => {
+            calls++;
+            return new Response('{}');
+        });
+        expect(await tracker.getIssues([])).toEqual({ data: [], error: null });
+        expect(calls).toBe(0);
+    });
+
+    it('passes on Jira field errors with the HTTP status as code', async () => {
+        const { tracker } = setup({ projectKey: 'OTHER' });
+        const { data, error } = await tracker.createIssue({ summary: 'a', description: '' });
+
+        expect(data).toBeNull();
+        expect(error).toEqual({ message: 'valid project is required', code: '400' });
+    });
+
+    it('returns an error instead of throwing when Jira is unreachable', async () => {
+        const tracker = new JiraIssueTracker({ baseUrl: 'https://jira.example.com', projectKey: 'QA' }, async () => {
+            throw new TypeError('');
+        });
+
+        expect(await tracker.createIssue({ summary: 'a', description: '' })).toEqual({ data: null, error: { message: 'Jira is not reachable' } });
+        expect((await tracker.getIssues(['QA-1'])).error?.message).toBe('Jira is not reachable');
+    });
+
+    it('sends the per-request proxy headers with every call', async () => {
+        const server = new MockJiraServer('QA');
+        const seen: Record<string, string>[] = [];
+        let token = 'first';
+        const tracker = new JiraIssueTracker(
+            { baseUrl: 'https://jira.example.com', projectKey: 'QA', headers: () => ({ 'X-Session-Token': token }) },
+            (url, init) => {
+                seen.push(init?.headers as Record<string, string>);
+                return server.fetch(url, init);
+            }
+        );
+        await tracker.createIssue({ summary: 'a', description: '' });
+        token = 'second';
+        await tracker.getIssues(['QA-1']);
+
+        expect(seen.map(h => h['X-Session-Token'])).toEqual(['first', 'first', 'second']);
+        expect(seen.every(h => h['Content-Type'] === 'application/json')).toBe(true);
+    });
+});
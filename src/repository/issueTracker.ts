@@ -0,0 +1,132 @@
+import { IssueTracker, StoreError, StoreResult, TrackerIssue, TrackerIssueInput, TrackerResult, TrackerStatusCategory } from './types';
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface JiraConfig {
+    baseUrl: string;       // Proxy in front of Jira that adds the credentials (supabase/functions/jira-proxy)
+    projectKey: string;
+    issueType?: string;    // Default "Bug"
+    headers?: () => Record<string, string>; // Per-request headers for the proxy itself; never Jira credentials
+    browseUrl?: string;    // Base for issue links when baseUrl is a proxy; defaults to baseUrl
+}
+
+const SUMMARY_MAX = 255; // Jira rejects longer summaries
+
+// Jira answers errors as { errorMessages: [], errors: { field: message } }
+const jiraError = async (res: Response): Promise<StoreError> => {
+    const body = await res.json().catch(() => null);
+    const messages = [...(body?.errorMessages || []), ...Object.values(body?.errors || {})];
+    return { message: messages.join(' ') || `Jira responded ${res.status}`, code: String(res.status) };
+};
+
+// Jira REST API v2: POST /rest/api/2/issue to create, /rest/api/2/search for statuses
+export class JiraIssueTracker implements IssueTracker {
+    readonly name = 'Jira';
+    private baseUrl: string;
+
+    constructor(private config: JiraConfig, private fetchImpl: FetchLike = (url, init) => fetch(url, init)) {
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    }
+
+    private request(path: string, init: RequestInit = {}) {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json', Accept: 'application/json', ...this.config.headers?.() };
+        return this.fetchImpl(`${this.baseUrl}${path}`, { ...init, headers });
+    }
+
+    private toIssue(raw: any): TrackerIssue {
+        const browseBase = (this.config.browseUrl || this.baseUrl).replace(/\/+$/, '');
+        return {
+            key: raw.key,
+            url: `${browseBase}/browse/${raw.key}`,
+            status: raw.fields?.status?.name || 'To Do',
+            statusCategory: (raw.fields?.status?.statusCategory?.key || 'new') as TrackerStatusCategory
+        };
+    }
+
+    async createIssue(input: TrackerIssueInput): Promise<TrackerResult<TrackerIssue>> {
+        try {
+            const res = await this.request('/rest/api/2/issue', {
+                method: 'POST',
+                body: JSON.stringify({
+                    fields: {
+                        project: { key: this.config.projectKey },
+                        issuetype: { name: this.config.issueType || 'Bug' },
+                        summary: input.summary.slice(0, SUMMARY_MAX),
+                        description: input.description,
+                        labels: input.labels || []
+                    }
+                })
+            });
+            if (!res.ok) return { data: null, error: await jiraError(res) };
+            const created = await res.json();
+            // The create response has no status; read it back, a fresh issue is in the first status otherwise
+            const { data } = await this.getIssues([created.key]);
+            return { data: data[0] || this.toIssue(created), error: null };
+        } catch (e: any) {
+            return { data: null, error: { message: e?.message || 'Jira is not reachable' } };
+        }
+    }
+
+    async getIssues(keys: string[]): Promise<StoreResult<TrackerIssue[]>> {
+        if (keys.length === 0) return { data: [], error: null };
+        try {
+            // validateQuery=warn: keys deleted in Jira are skipped instead of failing the whole query
+            const params = new URLSearchParams({
+                jql: `key in (${keys.join(',')})`,
+                fields: 'status',
+                maxResults: String(keys.length),
+                validateQuery: 'warn'
+            });
+            const res = await this.request(`/rest/api/2/search?${params}`);
+            if (!res.ok) return { data: [], error: await jiraError(res) };
+            const body = await res.json();
+            return { data: (body.issues || []).map((raw: any) => this.toIssue(raw)), error: null };
+        } catch (e: any) {
+            return { data: [], error: { message: e?.message || 'Jira is not reachable' } };
+        }
+    }
+}
+
+const MOCK_STATUSES: Record<string, TrackerStatusCategory> = { 'To Do': 'new', 'In Progress': 'indeterminate', 'Done': 'done' };
+
+/**
+ * In-process stand-in for a Jira site: answers the REST calls JiraIssueTracker makes, from memory.
+ * Pass `server.fetch` as the tracker's fetch; move issues along with transition().
+ */
+export class MockJiraServer {
+    private issues = new Map<string, { key: string, fields: any }>();
+    private seq = 0;
+
+    constructor(readonly projectKey = 'QA') { }
+
+    transition(key: string, status: string, category: TrackerStatusCategory = MOCK_STATUSES[status] || 'indeterminate') {
+        const issue = this.issues.get(key);
+        if (!issue) throw new Error(`Issue does not exist: ${key}`);
+        issue.fields.status = { name: status, statusCategory: { key: category } };
+    }
+
+    getIssue(key: string) {
+        return this.issues.get(key) || null;
+    }
+
+    fetch: FetchLike = async (url, init = {}) => {
+        const { pathname, searchParams } = new URL(url, 'http://mock-jira.local');
+        const json = (status: number, body: unknown) =>
+            new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+        if (init.method === 'POST' && pathname.endsWith('/rest/api/2/issue')) {
+            const fields = JSON.parse(String(init.body || '{}')).fields || {};
+            if (fields.project?.key !== this.projectKey) return json(400, { errorMessages: [], errors: { project: 'valid project is required' } });
+            if (!fields.summary?.trim()) return json(400, { errorMessages: [], errors: { summary: 'You must specify a summary of the issue.' } });
+            const key = `${this.projectKey}-${++this.seq}`;
+            this.issues.set(key, { key, fields: { ...fields, status: { name: 'To Do', statusCategory: { key: 'new' } } } });
+            return json(201, { id: String(this.seq), key, self: `${url}/${this.seq}` });
+        }
+        if (pathname.endsWith('/rest/api/2/search')) {
+            const keys = (searchParams.get('jql') || '').match(/\(([^)]*)\)/)?.[1].split(',').map(k => k.trim()) || [];
+            const found = keys.map(k => this.issues.get(k)).filter(Boolean);
+            return json(200, { total: found.length, issues: found });
+        }
+        return json(404, { errorMessages: [`No route: ${pathname}`], errors: {} });
+    };
+}
@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MemoryDataStore, Persistence } from './memoryStore';
+import { PROCEDURES, Tables } from './schema';
+
+const recordingPersistence = () => {
+    const saves: Tables[] = [];
+    const persistence: Persistence = {
+        load: async () => null,
+        save: async tables => { saves.push(JSON.parse(JSON.stringify(tables))); }
+    };
+    return { persistence, saves };
+};
+
+describe('MemoryDataStore insert', () => {
+    it('applies column defaults, ids and SERIAL values across a batch', async () => {
+        const store = new MemoryDataStore(undefined, { testCases: [{ id: 'c0', seq_id: 4, title: 'old' }] });
+        const { data, error } = await store.insert('testCases', [{ title: 'a' }, { title: 'b' }]);
+
+        expect(error).toBeNull();
+        expect(data.map(r => r.seq_id)).toEqual([5, 6]);
+        expect(data.every(r => typeof r.id === 'string' && r.id.length > 0)).toBe(true);
+        expect(new Set(data.map(r => r.id)).size).toBe(2);
+    });
+
+    it('stores nothing when one row of a batch fails', async () => {
+        const store = new MemoryDataStore(undefined, { folders: [{ id: 'f1', name: 'existing' }] });
+        const { data, error } = await store.insert('folders', [{ id: 'f2', name: 'new' }, { id: 'f1', name: 'clash' }]);
+
+        expect(error?.code).toBe('23505');
+        expect(data).toEqual([]);
+        const { data: folders } = await store.select('folders');
+        expect(folders.map(f => f.id)).toEqual(['f1']);
+    });
+
+    it('rejects a batch that repeats an id within itself', async () => {
+        const store = new MemoryDataStore();
+        const { error } = await store.insert('folders', [{ id: 'f1', name: 'a' }, { id: 'f1', name: 'b' }]);
+
+        expect(error?.code).toBe('23505');
+        expect((await store.count('folders')).data).toBe(0);
+    });
+
+    it('skips rows that clash on ignoreConflicts columns, stored or earlier in the batch', async () => {
+        const store = new MemoryDataStore(undefined, { runCases: [{ id: 'p1', runId: 'r1', caseId: 'c1' }] });
+        const { data, error } = await store.insert('runCases', [
+            { runId: 'r1', caseId: 'c1' },
+            { runId: 'r1', caseId: 'c2' },
+            { runId: 'r1', caseId: 'c2' }
+        ], { ignoreConflicts: ['runId', 'caseId'] });
+
+        expect(error).toBeNull();
+        expect(data.map(r => r.caseId)).toEqual(['c2']);
+        expect((await store.count('runCases', { eq: { runId: 'r1' } })).data).toBe(2);
+    });
+
+    it('persists a successful insert', async () => {
+        const { persistence, saves } = recordingPersistence();
+        const store = new MemoryDataStore(persistence);
+        await store.insert('folders', { name: 'a' });
+
+        expect(saves).toHaveLength(1);
+        expect(saves[0].folders.map(f => f.name)).toEqual(['a']);
+    });
+});
+
+describe('MemoryDataStore remove', () => {
+    it('cascades through the ON DELETE CASCADE chain and leaves other rows alone', async () => {
+        const store = new MemoryDataStore(undefined, {
+            folders: [{ id: 'f1', parentId: null }, { id: 'f2', parentId: 'f1' }, { id: 'f3', parentId: null }],
+            documents: [{ id: 'd1', folderId: 'f2' }, { id: 'd2', folderId: 'f3' }],
+            sections: [{ id: 's1', documentId: 'd1' }, { id: 's2', documentId: 'd2' }],
+            testCases: [{ id: 'c1', documentId: 'd1', sectionId: 's1' }, { id: 'c2', documentId: 'd2', sectionId: 's2' }],
+            reviewComments: [{ id: 'rc1', caseId: 'c1' }, { id: 'rc2', caseId: 'c2' }]
+        });
+        await store.remove('folders', { eq: { id: 'f1' } });
+
+        const ids = async (table: 'folders' | 'documents' | 'sections' | 'testCases' | 'reviewComments') =>
+            (await store.select(table)).data.map(r => r.id);
+        expect(await ids('folders')).toEqual(['f3']);
+        expect(await ids('documents')).toEqual(['d2']);
+        expect(await ids('sections')).toEqual(['s2']);
+        expect(await ids('testCases')).toEqual(['c2']);
+        expect(await ids('reviewComments')).toEqual(['rc2']);
+    });
+});
+
+describe('MemoryDataStore rpc', () => {
+    afterEach(() => {
+        delete PROCEDURES.test_partial_failure;
+        delete PROCEDURES.test_success;
+    });
+
+    it('restores every table when a procedure throws part-way', async () => {
+        const { persistence, saves } = recordingPersistence();
+        const store = new MemoryDataStore(persistence, {
+            folders: [{ id: 'f1', name: 'keep' }],
+            documents: [{ id: 'd1', folderId: 'f1', title: 'doc' }]
+        });
+        PROCEDURES.test_partial_failure = (tables, _params, insert) => {
+            insert('folders', { name: 'inserted' });
+            tables.documents[0].title = 'changed in place';
+            tables.folders = tables.folders.filter(f => f.id !== 'f1');
+            throw new Error('boom');
+        };
+
+        const { data, error } = await store.rpc('test_partial_failure', {});
+
+        expect(data).toBeNull();
+        expect(error).toEqual({ message: 'boom', code: 'P0001' });
+        expect((await store.select('folders')).data).toEqual([{ id: 'f1', name: 'keep' }]);
+        expect((await store.select('documents')).data[0].title).toBe('doc');
+        expect(saves).toHaveLength(0);
+    });
+
+    it('commits and returns the result of a procedure that succeeds', async () => {
+        const { persistence, saves } = recordingPersistence();
+        const store = new MemoryDataStore(persistence);
+        PROCEDURES.test_success = async (_tables, { name }, insert) => insert('folders', { name }).id;
+
+        const { data, error } = await store.rpc<string>('test_success', { name: 'made' });
+
+        expect(error).toBeNull();
+        expect((await store.select('folders', { eq: { id: data } })).data[0].name).toBe('made');
+        expect(saves).toHaveLength(1);
+    });
+
+    it('reports an unknown procedure like PostgREST', async () => {
+        const { error } = await new MemoryDataStore().rpc('no_such_function', {});
+        expect(error?.code).toBe('PGRST202');
+    });
+});
+
+describe('MemoryDataStore load', () => {
+    it('backfills columns missing on stored rows', async () => {
+        const store = new MemoryDataStore(undefined, { testCases: [{ id: 'c1' }, { id: 'c2', reviewStatus: 'DRAFT' }] });
+        const { data } = await store.select('testCases', { order: { column: 'id' } });
+        expect(data.map(r => r.reviewStatus)).toEqual(['APPROVED', 'DRAFT']);
+    });
+});
@@ -0,0 +1,220 @@
+import { DataStore, InsertOptions, Query, Row, StoreResult, TableName } from './types';
+import { BACKFILLS, CASCADES, PROCEDURES, SERIAL_COLUMNS, TABLE_DEFAULTS, TABLE_NAMES, Tables, emptyTables } from './schema';
+
+export interface Persistence {
+    load(): Promise<Partial<Tables> | null>;
+    save(tables: Tables): Promise<void>;
+}
+
+const generateUuid = () =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+            const r = Math.random() * 16 | 0;
+            return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+        });
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const ok = <T>(data: T): StoreResult<T> => ({ data, error: null });
+
+const matches = (row: Row, query: Query = {}) => {
+    for (const [column, value] of Object.entries(query.eq || {})) {
+        if (value === null || value === undefined) {
+            if (row[column] !== null && row[column] !== undefined) return false;
+        } else if (row[column] !== value) return false;
+    }
+    for (const [column, values] of Object.entries(query.in || {})) {
+        if (!values.includes(row[column])) return false;
+    }
+    return true;
+};
+
+// Postgres ordering: NULLs sort last on ascending, first on descending
+const compare = (a: any, b: any) => {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return 1;
+    if (b === null || b === undefined) return -1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b));
+};
+
+const sortRows = (rows: Row[], query: Query = {}) => {
+    const orders = query.order ? (Array.isArray(query.order) ? query.order : [query.order]) : [];
+    if (orders.length === 0) return rows;
+    return [...rows].sort((a, b) => {
+        for (const o of orders) {
+            const c = compare(a[o.column], b[o.column]);
+            if (c !== 0) return o.ascending === false ? -c : c;
+        }
+        return 0;
+    });
+};
+
+/**
+ * Server-less DataStore. Rows live in memory; pass a Persistence (e.g. IndexedDbPersistence)
+ * to keep them across reloads. Defaults, SERIAL columns, cascades and RPCs follow schema.ts.
+ */
+export class MemoryDataStore implements DataStore {
+    private tables: Tables = emptyTables();
+    private ready: Promise<void>;
+
+    constructor(private persistence?: Persistence, seed?: Partial<Tables>) {
+        this.ready = (async () => {
+            const stored = persistence ? await persistence.load() : null;
+            const initial = stored || seed || {};
+            TABLE_NAMES.forEach(t => {
+                this.tables[t] = clone(initial[t] || []).map(r => ({ ...BACKFILLS[t], ...r }));
+            });
+        })();
+    }
+
+    private async commit() {
+        if (this.persistence) await this.persistence.save(this.tables);
+    }
+
+    // `pending`: rows of the same batch that are not stored yet (SERIAL values continue after them)
+    private withDefaults(table: TableName, row: Row, pending: Row[] = []): Row {
+        const clean = Object.fromEntries(Object.entries(row).filter(([, v]) => v !== undefined));
+        const result: Row = { ...(TABLE_DEFAULTS[table]?.() || {}), ...clean };
+        if (!result.id) result.id = generateUuid();
+        const serial = SERIAL_COLUMNS[table];
+        if (serial && result[serial] === undefined) {
+            result[serial] = [...this.tables[table], ...pending].reduce((max, r) => Math.max(max, r[serial] || 0), 0) + 1;
+        }
+        return result;
+    }
+
+    private cascadeDelete(table: TableName, removed: Row[]) {
+        CASCADES.filter(c => c.parent === table).forEach(c => {
+            const ids = new Set(removed.map(r => r.id));
+            const children = this.tables[c.child].filter(r => ids.has(r[c.column]));
+            if (children.length === 0) return;
+            this.tables[c.child] = this.tables[c.child].filter(r => !ids.has(r[c.column]));
+            this.cascadeDelete(c.child, children);
+        });
+    }
+
+    async select<T = Row>(table: TableName, query?: Query): Promise<StoreResult<T[]>> {
+        await this.ready;
+        let rows = sortRows(this.tables[table].filter(r => matches(r, query)), query);
+        if (query?.limit !== undefined) rows = rows.slice(0, query.limit);
+        return ok(clone(rows) as T[]);
+    }
+
+    async selectOne<T = Row>(table: TableName, query: Query): Promise<StoreResult<T | null>> {
+        const { data } = await this.select<T>(table, query);
+        if (data.length > 1) return { data: null, error: { message: 'Multiple rows returned', code: 'PGRST116' } };
+        return ok(data[0] || null);
+    }
+
+    async count(table: TableName, query?: Query): Promise<StoreResult<number>> {
+        await this.ready;
+        return ok(this.tables[table].filter(r => matches(r, query)).length);
+    }
+
+    async insert<T = Row>(table: TableName, rows: Row | Row[], options?: InsertOptions): Promise<StoreResult<T[]>> {
+        await this.ready;
+        const conflict = options?.ignoreConflicts;
+        const clashes = (a: Row, b: Row) => !!conflict && conflict.every(column => a[column] === b[column]);
+        // All or nothing: every row is checked before any is stored
+        const inserted: Row[] = [];
+        for (const row of Array.isArray(rows) ? rows : [rows]) {
+            if ([...this.tables[table], ...inserted].some(r => clashes(r, row))) continue;
+            const full = this.withDefaults(table, row, inserted);
+            if ([...this.tables[table], ...inserted].some(r => r.id === full.id)) {
+                return { data: [], error: { message: `duplicate key value violates unique constraint "${table}_pkey"`, code: '23505' } };
+            }
+            inserted.push(full);
+        }
+        this.tables[table].push(...inserted);
+        await this.commit();
+        return ok(clone(inserted) as T[]);
+    }
+
+    async update<T = Row>(table: TableName, query: Query, patch: Row): Promise<StoreResult<T[]>> {
+        await this.ready;
+        const changes = Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== undefined));
+        const updated: Row[] = [];
+        this.tables[table] = this.tables[table].map(r => {
+            if (!matches(r, query)) return r;
+            const next = { ...r, ...clone(changes) };
+            updated.push(next);
+            return next;
+        });
+        await this.commit();
+        return ok(clone(updated) as T[]);
+    }
+
+    async remove(table: TableName, query: Query): Promise<StoreResult<null>> {
+        await this.ready;
+        const removed = this.tables[table].filter(r => matches(r, query));
+        this.tables[table] = this.tables[table].filter(r => !matches(r, query));
+        this.cascadeDelete(table, removed);
+        await this.commit();
+        return ok(null);
+    }
+
+    async rpc<T = any>(fn: string, params: Record<string, unknown>): Promise<StoreResult<T>> {
+        await this.ready;
+        const procedure = PROCEDURES[fn];
+        if (!procedure) return { data: null as T, error: { message: `Could not find the function public.${fn}`, code: 'PGRST202' } };
+
+        // Procedures run as one transaction: on a throw every table is restored from the snapshot,
+        // which also undoes in-place updates and removals
+        const snapshot = clone(this.tables);
+        const insert = (table: TableName, row: Row) => {
+            const full = this.withDefaults(table, row);
+            this.tables[table].push(full);
+            return full;
+        };
+        try {
+            const result = await procedure(this.tables, params, insert);
+            await this.commit();
+            return ok(clone(result ?? null) as T);
+        } catch (e: any) {
+            TABLE_NAMES.forEach(t => { this.tables[t] = snapshot[t]; });
+            return { data: null as T, error: { message: e?.message || String(e), code: 'P0001' } };
+        }
+    }
+}
+
+/** Persists the whole table set into a single IndexedDB object store. */
+export class IndexedDbPersistence implements Persistence {
+    private static STORE = 'tables';
+
+    constructor(private dbName = 'tm_local_db') { }
+
+    private open(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const req = indexedDB.open(this.dbName, 1);
+            req.onupgradeneeded = () => req.result.createObjectStore(IndexedDbPersistence.STORE);
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    }
+
+    async load(): Promise<Partial<Tables> | null> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const req = db.transaction(IndexedDbPersistence.STORE, 'readonly').objectStore(IndexedDbPersistence.STORE).getAll();
+            req.onsuccess = () => {
+                const entries = req.result as { name: TableName, rows: Row[] }[];
+                if (entries.length === 0) return resolve(null);
+                resolve(Object.fromEntries(entries.map(e => [e.name, e.rows])) as Partial<Tables>);
+            };
+            req.onerror = () => reject(req.error);
+        });
+    }
+
+    async save(tables: Tables): Promise<void> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(IndexedDbPersistence.STORE, 'readwrite');
+            const store = tx.objectStore(IndexedDbPersistence.STORE);
+            TABLE_NAMES.forEach(name => store.put({ name, rows: tables[name] }, name));
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+}
@@ -0,0 +1,183 @@
+import { Row, TableName } from './types';
+import { AUTH_PROCEDURES } from './authProcedures';
+
+// Mirrors supabase/migrations so the in-memory backend behaves like the real DB.
+
+export type Tables = Record<TableName, Row[]>;
+
+export const TABLE_NAMES: TableName[] = [
+    'users', 'folders', 'documents', 'sections', 'testCases', 'testRuns', 'testResults', 'historyLogs',
+    'credentials', 'sessions', 'magicLinks', 'folderAccess', 'trash', 'customFields', 'runCases',
+    'caseVersions', 'baselines', 'baselineCases', 'reviewComments',
+    'sharedSteps', 'defects', 'defectLinks', 'testStatuses'
+];
+
+export const emptyTables = (): Tables =>
+    TABLE_NAMES.reduce((acc, t) => ({ ...acc, [t]: [] }), {} as Tables);
+
+// Column DEFAULTs (evaluated per insert)
+export const TABLE_DEFAULTS: Partial<Record<TableName, () => Row>> = {
+    users: () => ({ role: 'INTERNAL', status: 'ACTIVE' }),
+    folders: () => ({ parentId: null, deletedAt: null, trashId: null, createdAt: new Date().toISOString() }),
+    documents: () => ({ deletedAt: null, trashId: null, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() }),
+    sections: () => ({ parentId: null, position: 0, deletedAt: null, trashId: null, createdAt: new Date().toISOString() }),
+    testCases: () => ({
+        steps: [], priority: 'MEDIUM', type: 'FUNCTIONAL', platform_type: 'WEB', position: 0, customFields: {}, tags: [],
+        reviewStatus: 'DRAFT', reviewerId: null, parameters: null, attachments: [], deletedAt: null, trashId: null,
+        createdAt: new Date().toISOString(), updatedAt: new Date().toISOString()
+    }),
+    testRuns: () => ({ status: 'OPEN', target_document_ids: [], tag_query: null, case_ids: null, approved_only: false, pinned_at: null, environments: null, assignees: [], createdAt: new Date().toISOString() }),
+    testResults: () => ({
+        status: 'UNTESTED', issues: [], stepResults: [], device_platform: 'PC', rowId: null, attachments: [], history: [],
+        timestamp: new Date().toISOString()
+    }),
+    historyLogs: () => ({ changes: [], version: null, restoredFrom: null, timestamp: new Date().toISOString() }),
+    credentials: () => ({ updatedAt: new Date().toISOString() }),
+    sessions: () => ({ createdAt: new Date().toISOString() }),
+    magicLinks: () => ({ usedAt: null }),
+    folderAccess: () => ({ createdAt: new Date().toISOString() }),
+    trash: () => ({ deletedAt: new Date().toISOString() }),
+    customFields: () => ({ folderId: null, documentId: null, options: [], position: 0, createdAt: new Date().toISOString() }),
+    runCases: () => ({ pinnedAt: new Date().toISOString() }),
+    caseVersions: () => ({ authorId: null, authorName: null, createdAt: new Date().toISOString() }),
+    baselines: () => ({ createdBy: null, createdAt: new Date().toISOString() }),
+    baselineCases: () => ({}),
+    reviewComments: () => ({ authorId: null, authorName: null, createdAt: new Date().toISOString() }),
+    sharedSteps: () => ({ description: '', steps: [], createdBy: null, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() }),
+    defects: () => ({
+        description: '', status: 'OPEN', severity: 'MAJOR', assigneeId: null, reporterId: null, closedAt: null,
+        externalUrl: null, externalKey: null, externalStatus: null, externalSyncedAt: null,
+        createdAt: new Date().toISOString(), updatedAt: new Date().toISOString()
+    }),
+    defectLinks: () => ({ documentId: null, runId: null, resultId: null, rowId: null, createdAt: new Date().toISOString() }),
+    testStatuses: () => ({
+        color: '#9ca3af', executed: true, passed: false, precedence: 0, position: 0, active: true, builtIn: false,
+        createdAt: new Date().toISOString()
+    }),
+};
+
+// Values a migration backfilled into rows that predate the column; the memory store applies them to stored rows
+// that lack it (13_case_review.sql approves the cases that were already in use)
+export const BACKFILLS: Partial<Record<TableName, Row>> = {
+    testCases: { reviewStatus: 'APPROVED' },
+};
+
+// SERIAL columns
+export const SERIAL_COLUMNS: Partial<Record<TableName, string>> = {
+    testCases: 'seq_id',
+    defects: 'seq_id',
+};
+
+// ON DELETE CASCADE foreign keys: deleting a parent row removes children whose `column` references it
+export const CASCADES: { parent: TableName; child: TableName; column: string }[] = [
+    { parent: 'folders', child: 'folders', column: 'parentId' },
+    { parent: 'folders', child: 'documents', column: 'folderId' },
+    { parent: 'documents', child: 'sections', column: 'documentId' },
+    { parent: 'documents', child: 'testCases', column: 'documentId' },
+    { parent: 'sections', child: 'testCases', column: 'sectionId' },
+    { parent: 'testRuns', child: 'testResults', column: 'runId' },
+    { parent: 'users', child: 'credentials', column: 'userId' },
+    { parent: 'users', child: 'sessions', column: 'userId' },
+    { parent: 'users', child: 'magicLinks', column: 'userId' },
+    { parent: 'folders', child: 'folderAccess', column: 'folderId' },
+    { parent: 'users', child: 'folderAccess', column: 'userId' },
+    { parent: 'folders', child: 'customFields', column: 'folderId' },
+    { parent: 'documents', child: 'customFields', column: 'documentId' },
+    { parent: 'testRuns', child: 'runCases', column: 'runId' },
+    { parent: 'documents', child: 'baselines', column: 'documentId' },
+    { parent: 'baselines', child: 'baselineCases', column: 'baselineId' },
+    { parent: 'testCases', child: 'reviewComments', column: 'caseId' },
+    { parent: 'defects', child: 'defectLinks', column: 'defectId' },
+    { parent: 'documents', child: 'defectLinks', column: 'documentId' },
+    { parent: 'testRuns', child: 'defectLinks', column: 'runId' },
+    { parent: 'testResults', child: 'defectLinks', column: 'resultId' },
+];
+
+// Row insert with column defaults applied, handed to procedures by the store
+export type InsertRow = (table: TableName, row: Row) => Row;
+
+// duplicate_document / duplicate_folder (05_duplicate.sql, latest in 16_attachments.sql). Trashed rows are skipped.
+// Field definitions keep their key, so the copied cases' values still resolve
+const copyCustomFields = (tables: Tables, insert: InsertRow, column: 'folderId' | 'documentId', sourceId: string, targetId: string) => {
+    tables.customFields
+        .filter(f => f[column] === sourceId)
+        .forEach(({ id, createdAt, ...def }) => insert('customFields', { ...def, [column]: targetId }));
+};
+
+const duplicateDocument = (tables: Tables, insert: InsertRow, sourceId: string, folderId: string | null, title: string, actorId: string, includeHistory: boolean) => {
+    const source = tables.documents.find(d => d.id === sourceId && !d.deletedAt);
+    if (!source) throw new Error(`Document ${sourceId} not found`);
+    const copy = insert('documents', { folderId, title, description: source.description });
+    copyCustomFields(tables, insert, 'documentId', sourceId, copy.id);
+
+    // Insert first, then point parentId at the copies (rows returned by insert are the stored rows)
+    const sectionIds = new Map<string, string>();
+    const sections = tables.sections.filter(s => s.documentId === sourceId && !s.deletedAt);
+    const copies = sections.map(s => {
+        const inserted = insert('sections', { documentId: copy.id, title: s.title, position: s.position });
+        sectionIds.set(s.id, inserted.id);
+        return inserted;
+    });
+    sections.forEach((s, i) => { copies[i].parentId = (s.parentId && sectionIds.get(s.parentId)) || null; });
+
+    const caseIds = new Map<string, string>();
+    tables.testCases
+        .filter(c => c.documentId === sourceId && !c.deletedAt && sectionIds.has(c.sectionId))
+        .sort((a, b) => a.seq_id - b.seq_id)
+        .forEach(c => {
+            const { id, seq_id, createdAt, updatedAt, deletedAt, trashId, ...fields } = c;
+            const inserted = insert('testCases', { ...fields, documentId: copy.id, sectionId: sectionIds.get(c.sectionId), authorId: actorId });
+            caseIds.set(id, inserted.id);
+        });
+
+    if (includeHistory) {
+        tables.historyLogs
+            .filter(h => h.entityType === 'CASE' && caseIds.has(h.entityId))
+            .forEach(({ id, ...log }) => insert('historyLogs', { ...log, entityId: caseIds.get(log.entityId) }));
+        tables.caseVersions
+            .filter(v => caseIds.has(v.caseId))
+            .forEach(({ id, ...v }) => {
+                const caseId = caseIds.get(v.caseId);
+                insert('caseVersions', { ...v, caseId, documentId: copy.id, snapshot: { ...v.snapshot, id: caseId, documentId: copy.id } });
+            });
+    }
+    return copy.id;
+};
+
+const duplicateFolder = (tables: Tables, insert: InsertRow, sourceId: string, parentId: string | null, name: string, actorId: string, includeHistory: boolean): string => {
+    const source = tables.folders.find(f => f.id === sourceId && !f.deletedAt);
+    if (!source) throw new Error(`Folder ${sourceId} not found`);
+    const childFolders = tables.folders.filter(f => f.parentId === sourceId && !f.deletedAt);
+    const copy = insert('folders', { name, desc: source.desc, parentId });
+    copyCustomFields(tables, insert, 'folderId', sourceId, copy.id);
+
+    tables.documents
+        .filter(d => d.folderId === sourceId && !d.deletedAt)
+        .forEach(d => duplicateDocument(tables, insert, d.id, copy.id, d.title, actorId, includeHistory));
+    childFolders.forEach(f => duplicateFolder(tables, insert, f.id, copy.id, f.name, actorId, includeHistory));
+    return copy.id;
+};
+
+// Stored procedures (plpgsql functions in the migrations)
+export const PROCEDURES: Record<string, (tables: Tables, params: Record<string, any>, insert: InsertRow) => any> = {
+    get_recursive_document_ids: (tables, { target_folder_id }) => {
+        const live = tables.folders.filter(f => !f.deletedAt);
+        const folderIds = new Set<string>(live.some(f => f.id === target_folder_id) ? [target_folder_id] : []);
+        let grew = true;
+        while (grew) {
+            grew = false;
+            live.forEach(f => {
+                if (f.parentId && folderIds.has(f.parentId) && !folderIds.has(f.id)) {
+                    folderIds.add(f.id);
+                    grew = true;
+                }
+            });
+        }
+        return tables.documents.filter(d => !d.deletedAt && folderIds.has(d.folderId)).map(d => ({ doc_id: d.id }));
+    },
+    duplicate_document: (tables, p, insert) =>
+        duplicateDocument(tables, insert, p.source_document_id, p.target_folder_id, p.new_title, p.actor_id, !!p.include_history),
+    duplicate_folder: (tables, p, insert) =>
+        duplicateFolder(tables, insert, p.source_folder_id, p.target_parent_id, p.new_name, p.actor_id, !!p.include_history),
+    ...AUTH_PROCEDURES,
+};
@@ -0,0 +1,61 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DataStore, InsertOptions, Query, Row, StoreResult, TableName } from './types';
+
+// Applies our Query shape onto a PostgREST filter builder
+const applyQuery = (builder: any, query: Query = {}) => {
+    let b = builder;
+    Object.entries(query.eq || {}).forEach(([column, value]) => {
+        b = value === null || value === undefined ? b.is(column, null) : b.eq(column, value);
+    });
+    Object.entries(query.in || {}).forEach(([column, values]) => {
+        b = b.in(column, values);
+    });
+    const orders = query.order ? (Array.isArray(query.order) ? query.order : [query.order]) : [];
+    orders.forEach(o => {
+        b = b.order(o.column, { ascending: o.ascending !== false });
+    });
+    if (query.limit !== undefined) b = b.limit(query.limit);
+    return b;
+};
+
+export class SupabaseDataStore implements DataStore {
+    constructor(private client: SupabaseClient) { }
+
+    async select<T = Row>(table: TableName, query?: Query): Promise<StoreResult<T[]>> {
+        const { data, error } = await applyQuery(this.client.from(table).select('*'), query);
+        return { data: data || [], error };
+    }
+
+    async selectOne<T = Row>(table: TableName, query: Query): Promise<StoreResult<T | null>> {
+        const { data, error } = await applyQuery(this.client.from(table).select('*'), query).maybeSingle();
+        return { data: data || null, error };
+    }
+
+    async count(table: TableName, query?: Query): Promise<StoreResult<number>> {
+        const { count, error } = await applyQuery(this.client.from(table).select('id', { count: 'exact', head: true }), query);
+        return { data: count || 0, error };
+    }
+
+    async insert<T = Row>(table: TableName, rows: Row | Row[], options?: InsertOptions): Promise<StoreResult<T[]>> {
+        const conflict = options?.ignoreConflicts;
+        const { data, error } = conflict
+            ? await this.client.from(table).upsert(rows, { onConflict: conflict.join(','), ignoreDuplicates: true }).select()
+            : await this.client.from(table).insert(rows).select();
+        return { data: (data as T[]) || [], error };
+    }
+
+    async update<T = Row>(table: TableName, query: Query, patch: Row): Promise<StoreResult<T[]>> {
+        const { data, error } = await applyQuery(this.client.from(table).update(patch), query).select();
+        return { data: data || [], error };
+    }
+
+    async remove(table: TableName, query: Query): Promise<StoreResult<null>> {
+        const { error } = await applyQuery(this.client.from(table).delete(), query);
+        return { data: null, error };
+    }
+
+    async rpc<T = any>(fn: string, params: Record<string, unknown>): Promise<StoreResult<T>> {
+        const { data, error } = await this.client.rpc(fn, params);
+        return { data: data as T, error };
+    }
+}
@@ -0,0 +1,112 @@
+// Table names as they exist in supabase/migrations (camelCase tables are quoted in SQL)
+export type TableName =
+    | 'users'
+    | 'folders'
+    | 'documents'
+    | 'sections'
+    | 'testCases'
+    | 'testRuns'
+    | 'testResults'
+    | 'historyLogs'
+    | 'credentials'
+    | 'sessions'
+    | 'magicLinks'
+    | 'folderAccess'
+    | 'trash'
+    | 'customFields'
+    | 'runCases'
+    | 'caseVersions'
+    | 'baselines'
+    | 'baselineCases'
+    | 'reviewComments'
+    | 'sharedSteps'
+    | 'defects'
+    | 'defectLinks'
+    | 'testStatuses';
+
+export type Row = Record<string, any>;
+
+export interface OrderBy {
+    column: string;
+    ascending?: boolean;
+}
+
+// Filters are AND-ed together. `eq` with a null value means "IS NULL".
+export interface Query {
+    eq?: Record<string, unknown>;
+    in?: Record<string, unknown[]>;
+    order?: OrderBy | OrderBy[];
+    limit?: number;
+}
+
+// ON CONFLICT (<columns>) DO NOTHING: rows that clash with a stored row on these UNIQUE columns are skipped
+export interface InsertOptions {
+    ignoreConflicts?: string[];
+}
+
+export interface StoreError {
+    message: string;
+    code?: string;
+}
+
+// Same shape as the supabase-js responses the services were written against
+export interface StoreResult<T> {
+    data: T;
+    error: StoreError | null;
+}
+
+/**
+ * Backend-agnostic persistence used by the services in storage.ts.
+ * Implementations: SupabaseDataStore (Supabase / self-hosted PostgREST) and MemoryDataStore (offline).
+ */
+export interface DataStore {
+    select<T = Row>(table: TableName, query?: Query): Promise<StoreResult<T[]>>;
+    selectOne<T = Row>(table: TableName, query: Query): Promise<StoreResult<T | null>>;
+    count(table: TableName, query?: Query): Promise<StoreResult<number>>;
+    insert<T = Row>(table: TableName, rows: Row | Row[], options?: InsertOptions): Promise<StoreResult<T[]>>;
+    update<T = Row>(table: TableName, query: Query, patch: Row): Promise<StoreResult<T[]>>;
+    remove(table: TableName, query: Query): Promise<StoreResult<null>>;
+    rpc<T = any>(fn: string, params: Record<string, unknown>): Promise<StoreResult<T>>;
+}
+
+/**
+ * Binary storage for attachments, addressed by path. Rows only keep the path.
+ * Implementations: SupabaseFileStore (Supabase Storage bucket) and LocalFileStore (offline stand-in).
+ */
+export interface FileStore {
+    upload(path: string, file: Blob, contentType?: string): Promise<StoreResult<null>>;
+    // URL the browser can open or embed; may expire (signed URLs)
+    getUrl(path: string): Promise<StoreResult<string | null>>;
+    // Server-side copy to a new path (never overwrites)
+    copy(fromPath: string, toPath: string): Promise<StoreResult<null>>;
+    remove(paths: string[]): Promise<StoreResult<null>>;
+}
+
+export interface TrackerIssueInput {
+    summary: string;
+    description: string;
+    labels?: string[];
+}
+
+// Jira's status categories: To Do / In Progress / Done, whatever the workflow calls its statuses
+export type TrackerStatusCategory = 'new' | 'indeterminate' | 'done';
+
+export interface TrackerIssue {
+    key: string; // e.g. QA-123
+    url: string; // Browse URL for people, not the REST URL
+    status: string;
+    statusCategory: TrackerStatusCategory;
+}
+
+/**
+ * External issue tracker that defects are filed to.
+ * Implementations: JiraIssueTracker (Jira REST v2 shape); MockJiraServer serves that shape locally.
+ */
+// Either the data or the error; checking `error` narrows `data` to non-null
+export type TrackerResult<T> = { data: T; error: null } | { data: null; error: StoreError };
+
+export interface IssueTracker {
+    readonly name: string;
+    createIssue(input: TrackerIssueInput): Promise<TrackerResult<TrackerIssue>>;
+    getIssues(keys: string[]): Promise<StoreResult<TrackerIssue[]>>;
+}
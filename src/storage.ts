@@ -1,304 +1,978 @@
 import {
   User, Folder, Document, Section, TestCase, TestRun, TestResult, HistoryLog,
-  Issue, ExecutionHistoryItem, TestStatus
+  Issue, ExecutionHistoryItem, TestStatus, UserStatus, AuthSession,
+  FolderAccess, FolderAccessLevel, TrashItem, TrashItemType, DriveItemRef, DuplicateOptions, CustomField, RunCase, CaseVersion, Baseline, BaselineCase,
+  ReviewStatus, ReviewComment, SharedStep, TestStep, RunStatusCounts, TestStatusDefinition, RunEnvironment, Attachment, Defect, DefectLink, DefectLinkTarget, DescribedDefectLink
 } from './types';
-import { supabase } from '../supabaseClient';
-
+import { getDataStore, getFileStore, getIssueTracker, TrackerIssueInput } from './repository';
+import { AuthError, AuthErrorCode, PermissionError } from './errors';
+import { canMoveInto, getFolderAncestorIds } from './utils/folderTree';
+import { resolveCustomFields } from './utils/customFields';
+import { normalizeTags, compileTagQuery } from './utils/tags';
+import { runCaseFilter } from './utils/runScope';
+import { CASE_CONTENT_FIELDS, diffCaseContent } from './utils/caseDiff';
+import { diffSteps } from './utils/stepDiff';
+import { findTransition, getReviewStatus, reviewStatusInfo } from './utils/review';
+import { expandCaseSteps, isSharedStepRef, sharedStepIdsOf, usesSharedStep } from './utils/sharedSteps';
+import { expandExecutions, isResultOf, normalizeParameters } from './utils/parameters';
+import { DEFAULT_TEST_STATUSES, UNTESTED, isFailing, summarizeRun } from './utils/testStatus';
+import { runEnvironments } from './utils/environments';
+import { defectStatusFromTracker, defectTrend, isDefectClosed } from './utils/defects';
+import { SESSION_STORAGE_KEY } from './utils/session';
+import { SECTION_PATH_SEPARATOR, getChildSections, getDescendantSectionIds, getSectionPath } from './utils/sectionTree';
+import { Permission, hasPermission, FolderAccessMap, resolveFolderAccess, hasFolderAccess } from './utils/permissions';
+
+const db = () => getDataStore();
+const files = () => getFileStore();
 const generateId = () => Math.random().toString(36).substr(2, 9);
 const now = () => new Date().toISOString();
 
+// Service-side half of the role matrix in utils/permissions.ts; the UI hides what this rejects
+const requirePermission = (permission: Permission) => {
+  if (!hasPermission(AuthService.getCurrentUser(), permission)) throw new PermissionError(permission);
+};
+
+// Folder ACLs of the current user, resolved against the whole folder tree
+const loadFolderAccess = async (): Promise<FolderAccessMap> => {
+  const user = AuthService.getCurrentUser();
+  const [folders, grants] = await Promise.all([
+    db().select<Folder>('folders'),
+    user ? db().select<FolderAccess>('folderAccess', { eq: { userId: user.id } }) : Promise.resolve({ data: [] as FolderAccess[] })
+  ]);
+  return resolveFolderAccess(user, folders.data || [], grants.data || []);
+};
+
+// Like requirePermission, but a folder grant on the target (or an ancestor) takes precedence over the role
+const requireFolderPermission = async (folderId: string | null, permission: Permission) => {
+  const access = await loadFolderAccess();
+  if (!access.can(folderId, permission)) throw new PermissionError(permission);
+};
+
+const requireDocumentPermission = async (documentId: string | undefined, permission: Permission) => {
+  const { data: doc } = documentId
+    ? await db().selectOne<Document>('documents', { eq: { id: documentId } })
+    : { data: null };
+  await requireFolderPermission(doc ? doc.folderId : null, permission);
+};
+
+// Read side of the folder ACLs, for reads scoped to one document
+const canReadDocument = async (documentId: string) => {
+  const [{ data: doc }, access] = await Promise.all([
+    db().selectOne<Document>('documents', { eq: { id: documentId } }),
+    loadFolderAccess()
+  ]);
+  return !!doc && !!access.levelOf(doc.folderId);
+};
+
 // --- Services ---
 
+const REFRESH_MARGIN_MS = 5 * 60 * 1000; // refresh when less than 5m left
+const MIN_PASSWORD_LENGTH = 8;
+
+type StoredSession = Pick<AuthSession, 'token' | 'refreshToken' | 'expiresAt' | 'refreshExpiresAt'>;
+type SessionGrant = { user: User; session: StoredSession };
+
+// Auth RPCs (21_auth_rpc.sql) raise one of these codes, or FORBIDDEN, as the error message
+const AUTH_ERROR_MESSAGES: Partial<Record<AuthErrorCode, string>> = {
+  INVALID_CREDENTIALS: '이메일 또는 비밀번호가 올바르지 않습니다.',
+  INACTIVE_USER: '비활성화된 계정입니다. 관리자에게 문의해 주세요.',
+  INVALID_LINK: '로그인 링크가 만료되었거나 이미 사용되었습니다.',
+  SESSION_EXPIRED: '세션이 만료되었습니다. 다시 로그인해 주세요.',
+  WEAK_PASSWORD: `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다.`,
+  ALREADY_INITIALIZED: '이미 초기 관리자가 생성되었습니다.',
+  DUPLICATE_EMAIL: '이미 등록된 이메일입니다.',
+  SELF_LOCKOUT: '자신의 관리자 권한이나 계정은 해제할 수 없습니다.'
+};
+
+// Credentials, sessions and magic links are only reachable through these RPCs; the tables are closed to the client.
+// "users" is readable, but written only by the admin RPCs (23_user_admin_rpc.sql).
 export class AuthService {
+  private static currentUser: User | null = null;
+
+  // User of the active session; services authorize against it
+  static getCurrentUser(): User | null {
+    return AuthService.currentUser;
+  }
+
   static async getAllUsers(): Promise<User[]> {
-    const { data, error } = await supabase.from('users').select('*');
+    const { data, error } = await db().select<User>('users');
     if (error) { console.error(error); return []; }
-    return data || [];
+    return data;
   }
 
-  static async login(email: string): Promise<User | null> {
-    const { data } = await supabase.from('users').select('*').eq('email', email).maybeSingle();
-    if (data) return data;
+  static async login(email: string, password: string): Promise<User> {
+    return AuthService.applySession(await AuthService.call<SessionGrant>('auth_login', {
+      login_email: email.trim(),
+      login_password: password
+    }));
+  }
 
-    // Auto-create for demo if not exists
-    const newUser: User = {
-      id: generateId(),
-      name: email.split('@')[0],
-      email,
-      role: email.includes('admin') ? 'ADMIN' : 'INTERNAL',
-      status: 'ACTIVE'
-    };
-    const { error } = await supabase.from('users').insert(newUser);
-    if (!error) return newUser;
-    return null;
+  static async loginWithMagicLink(token: string): Promise<User> {
+    return AuthService.applySession(await AuthService.call<SessionGrant>('auth_redeem_magic_link', { link_token: token }));
+  }
+
+  // Issues a single-use login link (invites, password resets). There is no mailer; the caller delivers it.
+  static async createMagicLink(userId: string): Promise<string> {
+    requirePermission('MANAGE_USERS');
+    const token = await AuthService.call<string>('auth_create_magic_link', {
+      session_token: AuthService.sessionToken(),
+      target_user_id: userId
+    });
+    return `${window.location.origin}/login?magic=${token}`;
+  }
+
+  static async setPassword(userId: string, password: string): Promise<void> {
+    if (AuthService.currentUser?.id !== userId) requirePermission('MANAGE_USERS');
+    AuthService.assertStrongPassword(password);
+    await AuthService.call('auth_set_password', {
+      session_token: AuthService.sessionToken(),
+      target_user_id: userId,
+      new_password: password
+    });
+  }
+
+  static async hasPassword(userId: string): Promise<boolean> {
+    return AuthService.call<boolean>('auth_has_password', {
+      session_token: AuthService.sessionToken(),
+      target_user_id: userId
+    });
+  }
+
+  // First run: an empty users table lets the first visitor create the initial ADMIN
+  static async needsBootstrap(): Promise<boolean> {
+    const { data, error } = await db().count('users');
+    return !error && data === 0;
+  }
+
+  static async bootstrapAdmin(name: string, email: string, password: string): Promise<User> {
+    AuthService.assertStrongPassword(password);
+    return AuthService.applySession(await AuthService.call<SessionGrant>('auth_bootstrap_admin', {
+      admin_name: name,
+      admin_email: email.trim(),
+      admin_password: password
+    }));
+  }
+
+  // --- User administration (ADMIN) ---
+
+  static async createUser(data: Pick<User, 'name' | 'email' | 'role'>): Promise<User> {
+    requirePermission('MANAGE_USERS');
+    const email = data.email.trim();
+    const { data: existing } = await db().selectOne<User>('users', { eq: { email } });
+    if (existing) throw new AuthError('DUPLICATE_EMAIL', `이미 등록된 이메일입니다. (${email})`);
+
+    return AuthService.call<User>('admin_create_user', {
+      session_token: AuthService.sessionToken(),
+      user_name: data.name.trim(),
+      user_email: email,
+      user_role: data.role
+    });
+  }
+
+  static async updateUser(id: string, patch: Partial<Pick<User, 'name' | 'role'>>): Promise<void> {
+    requirePermission('MANAGE_USERS');
+    if (id === AuthService.currentUser?.id && patch.role && patch.role !== 'ADMIN') {
+      throw new AuthError('SELF_LOCKOUT', '자신의 관리자 권한은 해제할 수 없습니다.');
+    }
+    await AuthService.call('admin_update_user', {
+      session_token: AuthService.sessionToken(),
+      target_user_id: id,
+      user_name: patch.name ?? null,
+      user_role: patch.role ?? null
+    });
+  }
+
+  // Deactivation keeps the row so testResults.testerId etc. stay attributed; only sign-in is blocked
+  // (the RPC also ends the user's sessions)
+  static async setUserStatus(id: string, status: UserStatus): Promise<void> {
+    requirePermission('MANAGE_USERS');
+    if (id === AuthService.currentUser?.id && status === 'INACTIVE') {
+      throw new AuthError('SELF_LOCKOUT', '자신의 계정은 비활성화할 수 없습니다.');
+    }
+    await AuthService.call('admin_set_user_status', {
+      session_token: AuthService.sessionToken(),
+      target_user_id: id,
+      user_status: status
+    });
+  }
+
+  // Rows that fail (duplicate email, bad role, ...) are skipped and reported instead of aborting the batch
+  static async importUsers(rows: Pick<User, 'name' | 'email' | 'role'>[]): Promise<{ created: User[]; skipped: { email: string; reason: string }[] }> {
+    requirePermission('MANAGE_USERS');
+    const created: User[] = [];
+    const skipped: { email: string; reason: string }[] = [];
+    for (const row of rows) {
+      try {
+        created.push(await AuthService.createUser(row));
+      } catch (e: any) {
+        skipped.push({ email: row.email, reason: e?.message || String(e) });
+      }
+    }
+    return { created, skipped };
+  }
+
+  // Restores the stored session, refreshing the access token when it is (about to be) expired
+  static async restoreSession(): Promise<User | null> {
+    const stored = AuthService.readStoredSession();
+    if (!stored) return null;
+
+    if (new Date(stored.expiresAt).getTime() - Date.now() < REFRESH_MARGIN_MS) {
+      return AuthService.refreshSession();
+    }
+
+    // Deactivated or deleted users come back as null
+    const user = await AuthService.call<User | null>('auth_session_user', { session_token: stored.token });
+    if (!user) {
+      AuthService.clearStoredSession();
+      return null;
+    }
+    AuthService.currentUser = user;
+    return user;
+  }
+
+  static async refreshSession(): Promise<User | null> {
+    const stored = AuthService.readStoredSession();
+    if (!stored) return null;
+
+    const grant = await AuthService.call<SessionGrant | null>('auth_refresh_session', { refresh_token: stored.refreshToken });
+    if (!grant) {
+      AuthService.clearStoredSession();
+      return null;
+    }
+    return AuthService.applySession(grant);
+  }
+
+  static async logout(): Promise<void> {
+    const stored = AuthService.readStoredSession();
+    AuthService.clearStoredSession();
+    if (stored) await db().rpc('auth_logout', { session_token: stored.token });
+  }
+
+  private static assertStrongPassword(password: string) {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new AuthError('WEAK_PASSWORD', AUTH_ERROR_MESSAGES.WEAK_PASSWORD!);
+    }
+  }
+
+  private static async call<T = null>(fn: string, params: Record<string, unknown>): Promise<T> {
+    const { data, error } = await db().rpc<T>(fn, params);
+    if (!error) return data;
+    if (error.message === 'FORBIDDEN') throw new PermissionError('MANAGE_USERS');
+    const code = error.message as AuthErrorCode;
+    const message = AUTH_ERROR_MESSAGES[code];
+    if (message) throw new AuthError(code, message);
+    throw error;
   }
 
-  static logout() {
-    localStorage.removeItem('tm_current_user_email');
+  private static sessionToken(): string | null {
+    return AuthService.readStoredSession()?.token || null;
+  }
+
+  private static applySession({ user, session }: SessionGrant): User {
+    AuthService.writeStoredSession(session);
+    AuthService.currentUser = user;
+    return user;
+  }
+
+  private static readStoredSession(): StoredSession | null {
+    try {
+      const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static writeStoredSession(session: StoredSession) {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({
+      token: session.token,
+      refreshToken: session.refreshToken,
+      expiresAt: session.expiresAt,
+      refreshExpiresAt: session.refreshExpiresAt
+    }));
+  }
+
+  private static clearStoredSession() {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    AuthService.currentUser = null;
   }
 }
 
 export class DriveService {
   // [NEW] Folder Operations
   static async getFoldersAndDocuments(parentId: string | null): Promise<{ folders: Folder[], documents: Document[] }> {
-    let folderQuery = supabase.from('folders').select('*').order('name', { ascending: true });
-    let docQuery = supabase.from('documents').select('*').order('title', { ascending: true });
-
-    if (parentId === null) {
-      folderQuery = folderQuery.is('parentId', null);
-      docQuery = docQuery.is('folderId', null); // Should technically be empty if enforced
-    } else {
-      folderQuery = folderQuery.eq('parentId', parentId);
-      docQuery = docQuery.eq('folderId', parentId);
-    }
-
-    const [folders, docs] = await Promise.all([folderQuery, docQuery]);
-    return { folders: folders.data || [], documents: docs.data || [] };
+    // parentId === null matches root rows (IS NULL); root documents should technically be empty if enforced
+    const [folders, docs, access] = await Promise.all([
+      db().select<Folder>('folders', { eq: { parentId, deletedAt: null }, order: { column: 'name' } }),
+      db().select<Document>('documents', { eq: { folderId: parentId, deletedAt: null }, order: { column: 'title' } }),
+      loadFolderAccess()
+    ]);
+    return {
+      folders: folders.data.filter(f => access.isVisible(f.id)),
+      documents: access.levelOf(parentId) ? docs.data : []
+    };
   }
 
   static async getAllFolders(): Promise<Folder[]> {
-    const { data, error } = await supabase.from('folders').select('*').order('name', { ascending: true });
+    const { data, error } = await db().select<Folder>('folders', { eq: { deletedAt: null }, order: { column: 'name' } });
     if (error) { console.error(error); return []; }
-    return data || [];
+    const access = await loadFolderAccess();
+    return data.filter(f => access.isVisible(f.id));
   }
 
   static async createFolder(name: string, parentId: string | null): Promise<Folder | null> {
+    await requireFolderPermission(parentId, 'MANAGE_DRIVE');
     const newFolder: Partial<Folder> = {
       name,
       parentId, // can be null
       desc: ''
     };
-    const { data, error } = await supabase.from('folders').insert(newFolder).select().single();
+    const { data, error } = await db().insert<Folder>('folders', newFolder);
     if (error) { console.error(error); return null; }
-    return data;
+    return data[0];
   }
 
   static async renameFolder(id: string, name: string): Promise<void> {
-    await supabase.from('folders').update({ name }).eq('id', id);
+    await requireFolderPermission(id, 'MANAGE_DRIVE');
+    await db().update('folders', { eq: { id } }, { name });
+  }
+
+  static async moveFolder(id: string, newParentId: string | null): Promise<void> {
+    await requireFolderPermission(id, 'MANAGE_DRIVE');
+    await requireFolderPermission(newParentId, 'MANAGE_DRIVE');
+    await DriveService.assertMoveTarget([{ id, type: 'FOLDER' }], newParentId);
+    await db().update('folders', { eq: { id } }, { parentId: newParentId });
+  }
+
+  // Multi-select move; everything is validated before the first row changes
+  static async moveItems(items: DriveItemRef[], targetFolderId: string | null): Promise<void> {
+    await DriveService.assertMoveTarget(items, targetFolderId);
+    for (const item of items) {
+      if (item.type === 'FOLDER') await DriveService.moveFolder(item.id, targetFolderId);
+      else await DriveService.moveDocument(item.id, targetFolderId as string);
+    }
+  }
+
+  private static async assertMoveTarget(items: DriveItemRef[], targetFolderId: string | null) {
+    const { data: folders } = await db().select<Folder>('folders', { eq: { deletedAt: null } });
+    if (targetFolderId && !folders.some(f => f.id === targetFolderId)) {
+      throw new Error('대상 폴더를 찾을 수 없습니다.');
+    }
+    if (!canMoveInto(folders, items, targetFolderId)) {
+      throw new Error(targetFolderId === null
+        ? '문서는 최상위에 둘 수 없습니다. 폴더를 선택해 주세요.'
+        : '폴더를 자기 자신이나 하위 폴더로 이동할 수 없습니다.');
+    }
   }
 
   static async deleteFolder(id: string): Promise<void> {
-    // DB Cascade handles children
-    await supabase.from('folders').delete().eq('id', id);
+    await requireFolderPermission(id, 'MANAGE_DRIVE');
+    // Soft delete; children follow on restore/purge
+    await TrashService.moveToTrash('FOLDER', id);
   }
 
   // [NEW] Document Operations
   static async createDocument(title: string, folderId: string): Promise<Document | null> {
+    await requireFolderPermission(folderId, 'MANAGE_DRIVE');
     const newDoc: Partial<Document> = {
       title,
       folderId,
       description: ''
     };
-    const { data, error } = await supabase.from('documents').insert(newDoc).select().single();
+    const { data, error } = await db().insert<Document>('documents', newDoc);
     if (error) { console.error(error); return null; }
-    return data;
+    return data[0];
   }
 
   static async renameDocument(id: string, title: string): Promise<void> {
-    await supabase.from('documents').update({ title, updatedAt: now() }).eq('id', id);
+    await requireDocumentPermission(id, 'MANAGE_DRIVE');
+    await db().update('documents', { eq: { id } }, { title, updatedAt: now() });
   }
 
   static async moveDocument(id: string, newFolderId: string): Promise<void> {
-    await supabase.from('documents').update({ folderId: newFolderId, updatedAt: now() }).eq('id', id);
+    await requireDocumentPermission(id, 'MANAGE_DRIVE');
+    await requireFolderPermission(newFolderId, 'MANAGE_DRIVE');
+    await DriveService.assertMoveTarget([{ id, type: 'DOCUMENT' }], newFolderId);
+    await db().update('documents', { eq: { id } }, { folderId: newFolderId, updatedAt: now() });
   }
 
   static async deleteDocument(id: string): Promise<void> {
-    await supabase.from('documents').delete().eq('id', id);
+    await requireDocumentPermission(id, 'MANAGE_DRIVE');
+    await TrashService.moveToTrash('DOCUMENT', id);
   }
 
   static async getAllDocuments(): Promise<Document[]> {
-    const { data, error } = await supabase.from('documents').select('*').order('title', { ascending: true });
+    const { data, error } = await db().select<Document>('documents', { eq: { deletedAt: null }, order: { column: 'title' } });
     if (error) { console.error(error); return []; }
-    return data || [];
+    const access = await loadFolderAccess();
+    return data.filter(d => access.levelOf(d.folderId));
+  }
+
+  // Not ACL-filtered: a run exposes its target documents to everyone executing it
+  static async getDocumentsByIds(ids: string[]): Promise<Document[]> {
+    const { data, error } = await db().select<Document>('documents', { in: { id: ids } });
+    if (error) { console.error(error); return []; }
+    return data;
   }
 
   static async getDocument(id: string): Promise<Document | null> {
-    const { data, error } = await supabase.from('documents').select('*').eq('id', id).single();
+    const { data, error } = await db().selectOne<Document>('documents', { eq: { id, deletedAt: null } });
     if (error) { console.error(error); return null; }
     return data;
   }
 
   // [CRITICAL] Deep Copy Logic
-  static async duplicateDocument(sourceDocId: string, newTitle: string, user: User): Promise<Document | null> {
-    // 1. Get Source Document
-    const { data: sourceDoc } = await supabase.from('documents').select('*').eq('id', sourceDocId).single();
+  // Deep copy in one transaction (duplicate_document, 05_duplicate.sql): the section hierarchy is
+  // remapped onto the copy and cases keep their seq_id order. History logs are copied on request.
+  static async duplicateDocument(sourceDocId: string, newTitle: string, user: User, options: DuplicateOptions = {}): Promise<Document | null> {
+    const { data: sourceDoc } = await db().selectOne<Document>('documents', { eq: { id: sourceDocId, deletedAt: null } });
     if (!sourceDoc) return null;
+    const targetFolderId = options.targetFolderId === undefined ? sourceDoc.folderId : options.targetFolderId;
+    await DriveService.assertCanCopy(sourceDoc.folderId, targetFolderId);
+
+    const { data: newId, error } = await db().rpc<string>('duplicate_document', {
+      source_document_id: sourceDocId,
+      target_folder_id: targetFolderId,
+      new_title: newTitle,
+      actor_id: user.id,
+      include_history: !!options.includeHistory
+    });
+    if (error || !newId) { console.error("Copy failed", error); return null; }
+    await AttachmentService.copyBorrowedFiles([newId]);
+    const { data } = await db().selectOne<Document>('documents', { eq: { id: newId } });
+    return data;
+  }
 
-    // 2. Create New Document
-    const newDocPayload = {
-      ...sourceDoc,
-      id: undefined, // Let DB generate
-      title: newTitle,
-      createdAt: now(),
-      updatedAt: now()
-    };
-    const { data: newDoc, error } = await supabase.from('documents').insert(newDocPayload).select().single();
-    if (error || !newDoc) { console.error("Copy failed", error); return null; }
+  // Copies the folder with every live subfolder, document, section and case below it (duplicate_folder)
+  static async duplicateFolder(sourceFolderId: string, newName: string, user: User, options: DuplicateOptions = {}): Promise<Folder | null> {
+    const { data: source } = await db().selectOne<Folder>('folders', { eq: { id: sourceFolderId, deletedAt: null } });
+    if (!source) return null;
+    const targetFolderId = options.targetFolderId === undefined ? source.parentId : options.targetFolderId;
+    await DriveService.assertCanCopy(sourceFolderId, targetFolderId);
+
+    const { data: newId, error } = await db().rpc<string>('duplicate_folder', {
+      source_folder_id: sourceFolderId,
+      target_parent_id: targetFolderId,
+      new_name: newName,
+      actor_id: user.id,
+      include_history: !!options.includeHistory
+    });
+    if (error || !newId) { console.error("Copy failed", error); return null; }
+    const { data: docIds } = await db().rpc<{ doc_id: string }[]>('get_recursive_document_ids', { target_folder_id: newId });
+    await AttachmentService.copyBorrowedFiles((docIds || []).map(d => d.doc_id));
+    const { data } = await db().selectOne<Folder>('folders', { eq: { id: newId } });
+    return data;
+  }
 
-    // 3. Get All Source Sections
-    const { data: sourceSections } = await supabase.from('sections').select('*').eq('documentId', sourceDocId);
+  // Copying needs read access to the source and write access to the destination
+  private static async assertCanCopy(sourceFolderId: string, targetFolderId: string | null) {
+    const access = await loadFolderAccess();
+    if (!access.isVisible(sourceFolderId)) throw new PermissionError('VIEWER');
+    if (!access.can(targetFolderId, 'MANAGE_DRIVE')) throw new PermissionError('MANAGE_DRIVE');
+  }
+}
 
-    // 4. Get All Source TestCases
-    const { data: sourceCases } = await supabase.from('testCases').select('*').eq('documentId', sourceDocId);
+export class FolderAccessService {
+  // Effective access of the signed-in user over the Drive (UI gating)
+  static async getMyAccess(): Promise<FolderAccessMap> {
+    return loadFolderAccess();
+  }
 
-    // 5. Map Sections (Old ID -> New ID)
-    const sectionMap = new Map<string, string>(); // OldID -> NewID
+  static async getGrants(folderId: string): Promise<FolderAccess[]> {
+    await FolderAccessService.requireOwner(folderId);
+    const { data, error } = await db().select<FolderAccess>('folderAccess', { eq: { folderId } });
+    if (error) { console.error(error); return []; }
+    return data;
+  }
 
-    if (sourceSections && sourceSections.length > 0) {
-      const newSections = sourceSections.map(sec => ({
-        documentId: newDoc.id,
-        title: sec.title,
-        parentId: sec.parentId // Note: Nested sections logic complex, strictly flat or needs 2-pass if recursion used
-      }));
+  // One grant per user and folder; granting again changes the level
+  static async grant(folderId: string, userId: string, level: FolderAccessLevel): Promise<void> {
+    await FolderAccessService.requireOwner(folderId);
+    const { data: existing } = await db().selectOne<FolderAccess>('folderAccess', { eq: { folderId, userId } });
+    const { error } = existing
+      ? await db().update('folderAccess', { eq: { id: existing.id } }, { level })
+      : await db().insert('folderAccess', { folderId, userId, level });
+    if (error) throw error;
+  }
 
-      const { data: insertedSections } = await supabase.from('sections').insert(newSections).select();
+  static async revoke(folderId: string, userId: string): Promise<void> {
+    await FolderAccessService.requireOwner(folderId);
+    await db().remove('folderAccess', { eq: { folderId, userId } });
+  }
 
-      if (insertedSections) {
-        // Build Map. Assuming order preservation or title matching. 
-        // Better strategy: Insert one by one or bulk insert and match by title if unique? 
-        // Since title is not unique, we rely on the fact that we process them. 
-        // For robustness, single insert loop is safer here despite performance hit, or use client-side ID generation if UUID.
-        // Let's use single insert loop to guarantee ID mapping.
+  private static async requireOwner(folderId: string) {
+    const access = await loadFolderAccess();
+    if (!hasFolderAccess(access.levelOf(folderId), 'OWNER')) throw new PermissionError('OWNER');
+  }
+}
 
-        // Re-do section insertion safely
-        await supabase.from('sections').delete().eq('documentId', newDoc.id); // Clean up bulk attempt
+// Custom case fields. A folder's fields apply to every document below it; see 08_custom_fields.sql.
+export class CustomFieldService {
+  // Everything that applies at the scope: folder fields from the root down, then the scope's own
+  static async getForScope(scope: DriveItemRef): Promise<CustomField[]> {
+    let folderId = scope.id;
+    if (scope.type === 'DOCUMENT') {
+      const { data: doc } = await db().selectOne<Document>('documents', { eq: { id: scope.id } });
+      if (!doc) return [];
+      folderId = doc.folderId;
+    }
+    const { data: folders } = await db().select<Folder>('folders');
+    const folderIds = getFolderAncestorIds(folders, folderId).reverse();
+    const [byFolder, byDocument] = await Promise.all([
+      db().select<CustomField>('customFields', { in: { folderId: folderIds } }),
+      scope.type === 'DOCUMENT'
+        ? db().select<CustomField>('customFields', { eq: { documentId: scope.id } })
+        : Promise.resolve({ data: [] as CustomField[] })
+    ]);
+    const scopes = scope.type === 'DOCUMENT' ? [...folderIds, scope.id] : folderIds;
+    return resolveCustomFields([...byFolder.data, ...byDocument.data], scopes);
+  }
 
-        for (const oldSec of sourceSections) {
-          const { data: newSec } = await supabase.from('sections').insert({
-            documentId: newDoc.id,
-            title: oldSec.title,
-            parentId: oldSec.parentId // Limitation: Parent references might point to old IDs if nested. 
-          }).select().single();
+  static async getForDocument(documentId: string): Promise<CustomField[]> {
+    return CustomFieldService.getForScope({ id: documentId, type: 'DOCUMENT' });
+  }
 
-          if (newSec) sectionMap.set(oldSec.id, newSec.id);
-        }
-      }
-    }
+  static async create(scope: DriveItemRef, data: Pick<CustomField, 'name' | 'fieldType' | 'options'>): Promise<CustomField> {
+    await CustomFieldService.requireManage(scope);
+    CustomFieldService.validate(data);
+    const column = scope.type === 'FOLDER' ? 'folderId' : 'documentId';
+    const { data: siblings } = await db().select<CustomField>('customFields', { eq: { [column]: scope.id } });
+    const { data: inserted, error } = await db().insert<CustomField>('customFields', {
+      key: `cf_${generateId()}`,
+      [column]: scope.id,
+      name: data.name.trim(),
+      fieldType: data.fieldType,
+      options: data.fieldType === 'SELECT' ? data.options : [],
+      position: siblings.reduce((max, f) => Math.max(max, f.position + 1), 0)
+    });
+    if (error) throw error;
+    return inserted[0];
+  }
 
-    // 6. Insert TestCases with New Section IDs
-    if (sourceCases && sourceCases.length > 0) {
-      const newCases = sourceCases.map(c => ({
-        ...c,
-        id: undefined,
-        documentId: newDoc.id,
-        sectionId: sectionMap.get(c.sectionId) || c.sectionId, // Fallback (should not happen if map complete)
-        createdAt: now(),
-        updatedAt: now(),
-        authorId: user.id
-        // HistoryLog is NOT copied, starting fresh.
-      }));
-      await supabase.from('testCases').insert(newCases);
+  // The type is fixed once created, since stored values are not converted
+  static async update(id: string, patch: Partial<Pick<CustomField, 'name' | 'options'>>): Promise<void> {
+    const field = await CustomFieldService.getOwnField(id);
+    CustomFieldService.validate({ ...field, ...patch });
+    const { error } = await db().update('customFields', { eq: { id } }, {
+      ...patch,
+      ...(patch.name !== undefined ? { name: patch.name.trim() } : {})
+    });
+    if (error) throw error;
+  }
 
-      // [LOGIC] Add initial history log for copy
-      // Optimization: Batch insert history logs? Or just skip. 
-      // Let's skip for performance, "Created" timestamp is enough.
-    }
+  // Values already stored on cases are left in place (hidden until a field with the same key exists again)
+  static async remove(id: string): Promise<void> {
+    await CustomFieldService.getOwnField(id);
+    await db().remove('customFields', { eq: { id } });
+  }
+
+  private static async getOwnField(id: string): Promise<CustomField> {
+    const { data: field } = await db().selectOne<CustomField>('customFields', { eq: { id } });
+    if (!field) throw new Error('필드를 찾을 수 없습니다.');
+    await CustomFieldService.requireManage(field.folderId
+      ? { id: field.folderId, type: 'FOLDER' }
+      : { id: field.documentId as string, type: 'DOCUMENT' });
+    return field;
+  }
+
+  private static validate(data: Pick<CustomField, 'name' | 'fieldType' | 'options'>) {
+    if (!data.name.trim()) throw new Error('필드 이름을 입력해 주세요.');
+    if (data.fieldType === 'SELECT' && data.options.length === 0) throw new Error('드롭다운 항목을 하나 이상 입력해 주세요.');
+  }
 
-    return newDoc;
+  // Field definitions are Drive settings, so they follow MANAGE_DRIVE on the folder
+  private static async requireManage(scope: DriveItemRef) {
+    if (scope.type === 'FOLDER') await requireFolderPermission(scope.id, 'MANAGE_DRIVE');
+    else await requireDocumentPermission(scope.id, 'MANAGE_DRIVE');
   }
 }
 
 export class TestCaseService {
   static async getSections(documentId: string): Promise<Section[]> {
-    const { data } = await supabase.from('sections').select('*').eq('documentId', documentId);
-    return data || [];
+    const { data } = await db().select<Section>('sections', {
+      eq: { documentId, deletedAt: null },
+      order: [{ column: 'position' }, { column: 'createdAt' }]
+    });
+    return data;
   }
 
+  // Appended after the last sibling; pass parentId to create a child section
   static async createSection(data: Partial<Section>) {
-    const { data: newSec, error } = await supabase.from('sections').insert(data).select().single();
+    await requireDocumentPermission(data.documentId, 'MANAGE_CASES');
+    const parentId = data.parentId || null;
+    const all = await TestCaseService.getSections(data.documentId!);
+    if (parentId && !all.some(s => s.id === parentId)) throw new Error('상위 섹션을 찾을 수 없습니다.');
+    const position = getChildSections(all, parentId).reduce((max, s) => Math.max(max, (s.position ?? 0) + 1), 0);
+
+    const { data: inserted, error } = await db().insert<Section>('sections', { ...data, parentId, position });
     if (error) throw error;
-    return newSec;
+    return inserted[0];
+  }
+
+  static async renameSection(sectionId: string, title: string): Promise<void> {
+    const { data: section } = await db().selectOne<Section>('sections', { eq: { id: sectionId } });
+    await requireDocumentPermission(section?.documentId, 'MANAGE_CASES');
+    await db().update('sections', { eq: { id: sectionId } }, { title });
+  }
+
+  // Reorders within a parent or moves under another one; `index` is the new place among the target's children
+  static async moveSection(sectionId: string, parentId: string | null, index: number): Promise<void> {
+    const { data: section } = await db().selectOne<Section>('sections', { eq: { id: sectionId, deletedAt: null } });
+    if (!section) throw new Error('섹션을 찾을 수 없습니다.');
+    await requireDocumentPermission(section.documentId, 'MANAGE_CASES');
+
+    const all = await TestCaseService.getSections(section.documentId);
+    if (parentId && !all.some(s => s.id === parentId)) throw new Error('상위 섹션을 찾을 수 없습니다.');
+    if (parentId && getDescendantSectionIds(all, sectionId).has(parentId)) {
+      throw new Error('섹션을 자기 자신이나 하위 섹션으로 이동할 수 없습니다.');
+    }
+
+    const siblings = getChildSections(all, parentId).filter(s => s.id !== sectionId);
+    siblings.splice(Math.max(0, Math.min(index, siblings.length)), 0, section);
+    for (let position = 0; position < siblings.length; position++) {
+      const s = siblings[position];
+      if (s.id === sectionId) await db().update('sections', { eq: { id: s.id } }, { parentId, position });
+      else if (s.position !== position) await db().update('sections', { eq: { id: s.id } }, { position });
+    }
   }
 
   static async getSectionsByDocumentIds(documentIds: string[]): Promise<Section[]> {
-    const { data } = await supabase.from('sections').select('*').in('documentId', documentIds);
-    return data || [];
+    const { data } = await db().select<Section>('sections', {
+      eq: { deletedAt: null },
+      in: { documentId: documentIds },
+      order: [{ column: 'position' }, { column: 'createdAt' }]
+    });
+    return data;
   }
 
   static async deleteSection(sectionId: string): Promise<void> {
-    // DB Cascade handles cases
-    await supabase.from('sections').delete().eq('id', sectionId);
+    const { data: section } = await db().selectOne<Section>('sections', { eq: { id: sectionId } });
+    await requireDocumentPermission(section?.documentId, 'MANAGE_CASES');
+    await TrashService.moveToTrash('SECTION', sectionId);
   }
 
+  // Ordered within each section; use sortCasesBySection for the full section-tree order
   static async getCasesByDocumentIds(documentIds: string[]): Promise<TestCase[]> {
-    const { data } = await supabase
-      .from('testCases')
-      .select('*')
-      .in('documentId', documentIds)
-      .order('seq_id', { ascending: true });
-    return data || [];
+    const { data } = await db().select<TestCase>('testCases', {
+      eq: { deletedAt: null },
+      in: { documentId: documentIds },
+      order: [{ column: 'position' }, { column: 'seq_id' }]
+    });
+    return data;
+  }
+
+  // Live (not trashed) cases among `ids`, e.g. to compare a run's pinned cases with the current ones
+  static async getCasesByIds(ids: string[]): Promise<TestCase[]> {
+    if (ids.length === 0) return [];
+    const { data } = await db().select<TestCase>('testCases', { eq: { deletedAt: null }, in: { id: ids } });
+    return data;
   }
 
+  // Empty when the document is outside the user's folders
   static async getCases(documentId: string): Promise<TestCase[]> {
-    const { data } = await supabase
-      .from('testCases')
-      .select('*')
-      .eq('documentId', documentId)
-      .order('seq_id', { ascending: true });
-    return data || [];
+    if (!(await canReadDocument(documentId))) return [];
+    const { data } = await db().select<TestCase>('testCases', {
+      eq: { documentId, deletedAt: null },
+      order: [{ column: 'position' }, { column: 'seq_id' }]
+    });
+    return data;
+  }
+
+  // Every tag in use in the documents the user can see (editor autocomplete)
+  static async getAllTags(): Promise<string[]> {
+    const docs = await DriveService.getAllDocuments();
+    if (docs.length === 0) return [];
+    const cases = await TestCaseService.getCasesByDocumentIds(docs.map(d => d.id));
+    return Array.from(new Set(cases.flatMap(c => c.tags || []))).sort();
+  }
+
+  private static async nextCasePosition(sectionId: string): Promise<number> {
+    const { data } = await db().select<TestCase>('testCases', { eq: { sectionId, deletedAt: null } });
+    return data.reduce((max, c) => Math.max(max, (c.position ?? 0) + 1), 0);
+  }
+
+  // Drag-to-reorder: places the case at `index` among the cases of `sectionId` (which may be a different section)
+  static async moveCase(caseId: string, sectionId: string, index: number): Promise<void> {
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: caseId, deletedAt: null } });
+    if (!tc) throw new Error('케이스를 찾을 수 없습니다.');
+    await requireDocumentPermission(tc.documentId, 'MANAGE_CASES');
+    const { data: section } = await db().selectOne<Section>('sections', { eq: { id: sectionId, deletedAt: null } });
+    if (!section || section.documentId !== tc.documentId) throw new Error('섹션을 찾을 수 없습니다.');
+
+    const { data: siblings } = await db().select<TestCase>('testCases', {
+      eq: { sectionId, deletedAt: null },
+      order: [{ column: 'position' }, { column: 'seq_id' }]
+    });
+    const ordered = siblings.filter(c => c.id !== caseId);
+    ordered.splice(Math.max(0, Math.min(index, ordered.length)), 0, tc);
+    for (let position = 0; position < ordered.length; position++) {
+      const c = ordered[position];
+      if (c.id === caseId) await db().update('testCases', { eq: { id: c.id } }, { sectionId, position });
+      else if (c.position !== position) await db().update('testCases', { eq: { id: c.id } }, { position });
+    }
   }
 
+  // Review state and reviewer only change through setReviewStatus / assignReviewer
+  // Authorized against the stored case's document; cases change documents only through moveCasesToSection
   static async saveCase(data: Partial<TestCase>, user: User): Promise<TestCase> {
-    const payload = { ...data, updatedAt: now() };
+    const { data: oldData } = data.id
+      ? await db().selectOne<TestCase>('testCases', { eq: { id: data.id } })
+      : { data: null };
+    if (data.id && !oldData) throw new Error('케이스를 찾을 수 없습니다.');
+    if (oldData && data.documentId && data.documentId !== oldData.documentId) {
+      throw new Error('케이스의 문서는 변경할 수 없습니다.');
+    }
+    const documentId = oldData ? oldData.documentId : data.documentId;
+    await requireDocumentPermission(documentId, 'MANAGE_CASES');
+    if (data.sectionId) {
+      const { data: section } = await db().selectOne<Section>('sections', { eq: { id: data.sectionId, deletedAt: null } });
+      if (!section || section.documentId !== documentId) throw new Error('섹션을 찾을 수 없습니다.');
+    }
+
+    const { reviewStatus, reviewerId, attachments, ...fields } = data;
+    const payload = { ...fields, updatedAt: now() };
+    if (payload.tags) payload.tags = normalizeTags(payload.tags);
+    if (payload.parameters !== undefined) payload.parameters = normalizeParameters(payload.parameters);
 
     if (!payload.id) {
-      // Create
+      // Create (appended to the end of its section)
       payload.authorId = user.id;
-      const { data: newCase, error } = await supabase.from('testCases').insert(payload).select().single();
+      if (payload.position === undefined && payload.sectionId) payload.position = await TestCaseService.nextCasePosition(payload.sectionId);
+      const { data: inserted, error } = await db().insert<TestCase>('testCases', payload);
       if (error) throw error;
-      await HistoryService.logChange(null, newCase, user);
-      return newCase;
+      await HistoryService.logChange(null, inserted[0], user);
+      return inserted[0];
     } else {
       // Update
-      const { data: oldData } = await supabase.from('testCases').select('*').eq('id', payload.id).single();
+      if (oldData && payload.sectionId && payload.sectionId !== oldData.sectionId) {
+        payload.position = await TestCaseService.nextCasePosition(payload.sectionId);
+      }
       await HistoryService.logChange(oldData, payload, user);
 
-      const { data: updated, error } = await supabase.from('testCases').update(payload).eq('id', payload.id).select().single();
+      const { data: updated, error } = await db().update<TestCase>('testCases', { eq: { id: payload.id } }, payload);
       if (error) throw error;
-      return updated;
+      return { ...updated[0], reviewStatus: await TestCaseService.reopenIfApproved(oldData!, updated[0], user) };
     }
   }
 
   static async deleteCase(caseId: string): Promise<void> {
-    await supabase.from('testCases').delete().eq('id', caseId);
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: caseId } });
+    await requireDocumentPermission(tc?.documentId, 'MANAGE_CASES');
+    await TrashService.moveToTrash('CASE', caseId);
+  }
+
+  // --- Bulk actions (multi-select in TestCaseManager). Each affected case gets a history log. ---
+
+  // Live cases in selection order; every document involved must allow MANAGE_CASES
+  private static async loadForBulk(caseIds: string[]): Promise<TestCase[]> {
+    const { data } = await db().select<TestCase>('testCases', { eq: { deletedAt: null }, in: { id: caseIds } });
+    for (const documentId of new Set(data.map(c => c.documentId))) {
+      await requireDocumentPermission(documentId, 'MANAGE_CASES');
+    }
+    return caseIds.map(id => data.find(c => c.id === id)).filter((c): c is TestCase => !!c);
+  }
+
+  static async bulkUpdateCases(caseIds: string[], patch: Partial<Pick<TestCase, 'priority' | 'type' | 'platform_type'>>, user: User): Promise<void> {
+    const cases = await TestCaseService.loadForBulk(caseIds);
+    for (const tc of cases) {
+      const updated = { ...tc, ...patch, updatedAt: now() };
+      await HistoryService.logChange(tc, updated, user);
+      await db().update('testCases', { eq: { id: tc.id } }, { ...patch, updatedAt: updated.updatedAt });
+      await TestCaseService.reopenIfApproved(tc, updated, user);
+    }
+  }
+
+  // Appends the cases to the end of the section; the section may belong to another document
+  static async moveCasesToSection(caseIds: string[], sectionId: string, user: User): Promise<void> {
+    const { data: section } = await db().selectOne<Section>('sections', { eq: { id: sectionId, deletedAt: null } });
+    if (!section) throw new Error('섹션을 찾을 수 없습니다.');
+    await requireDocumentPermission(section.documentId, 'MANAGE_CASES');
+    const cases = await TestCaseService.loadForBulk(caseIds);
+
+    let position = await TestCaseService.nextCasePosition(sectionId);
+    for (const tc of cases) {
+      if (tc.sectionId === sectionId) continue;
+      const updated = { ...tc, sectionId, documentId: section.documentId, position: position++, updatedAt: now() };
+      await HistoryService.logChange(tc, updated, user);
+      await db().update('testCases', { eq: { id: tc.id } }, {
+        sectionId, documentId: section.documentId, position: updated.position, updatedAt: updated.updatedAt
+      });
+    }
+  }
+
+  // Copies are appended to their section with a fresh seq_id
+  static async duplicateCases(caseIds: string[], user: User): Promise<TestCase[]> {
+    const cases = await TestCaseService.loadForBulk(caseIds);
+    const nextPosition = new Map<string, number>();
+    const copies: TestCase[] = [];
+    for (const tc of cases) {
+      // A copy starts over as an unassigned Draft and gets its own copies of the files
+      const { id, seq_id, createdAt, updatedAt, deletedAt, trashId, position, reviewStatus, reviewerId, attachments, ...fields } = tc;
+      if (!nextPosition.has(tc.sectionId)) nextPosition.set(tc.sectionId, await TestCaseService.nextCasePosition(tc.sectionId));
+      const { data: inserted, error } = await db().insert<TestCase>('testCases', {
+        ...fields,
+        attachments: [],
+        title: `${tc.title} (복사본)`,
+        position: nextPosition.get(tc.sectionId),
+        authorId: user.id,
+        createdAt: now(),
+        updatedAt: now()
+      });
+      if (error) throw error;
+      nextPosition.set(tc.sectionId, nextPosition.get(tc.sectionId)! + 1);
+      const copy = attachments?.length ? await AttachmentService.copyToCase(inserted[0], attachments) : inserted[0];
+      await HistoryService.logChange(null, copy, user);
+      copies.push(copy);
+    }
+    return copies;
+  }
+
+  // --- Review workflow (transitions in utils/review.ts) ---
+
+  // Every transition is logged as TRANSITION; an optional comment is also kept with the review comments
+  static async setReviewStatus(caseId: string, status: ReviewStatus, user: User, comment?: string): Promise<TestCase> {
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: caseId, deletedAt: null } });
+    if (!tc) throw new Error('케이스를 찾을 수 없습니다.');
+    const from = getReviewStatus(tc);
+    const transition = findTransition(from, status);
+    if (!transition) throw new Error(`${reviewStatusInfo(from).label} → ${reviewStatusInfo(status).label} 전환은 할 수 없습니다.`);
+    await requireDocumentPermission(tc.documentId, transition.permission);
+    if (transition.permission === 'REVIEW_CASES' && tc.reviewerId && tc.reviewerId !== user.id && user.role !== 'ADMIN') {
+      throw new Error('지정된 리뷰어만 승인하거나 수정을 요청할 수 있습니다.');
+    }
+
+    const { data: updated, error } = await db().update<TestCase>('testCases', { eq: { id: caseId } }, { reviewStatus: status, updatedAt: now() });
+    if (error) throw error;
+    const body = comment?.trim();
+    if (body) await TestCaseService.insertReviewComment(caseId, body, user);
+    await HistoryService.logEvent(caseId, 'TRANSITION', [
+      { field: 'reviewStatus', oldVal: from, newVal: status },
+      ...(body ? [{ field: 'reviewComment', oldVal: null, newVal: body }] : [])
+    ], user);
+    return updated[0];
+  }
+
+  // Approval covers the reviewed content: changing the content of an approved case sends it back to Draft
+  static async reopenIfApproved(before: TestCase, after: TestCase, user: User): Promise<ReviewStatus> {
+    const from = getReviewStatus(before);
+    if (from !== 'APPROVED' || diffCaseContent(before, after).length === 0) return from;
+    await db().update('testCases', { eq: { id: before.id } }, { reviewStatus: 'DRAFT' });
+    await HistoryService.logEvent(before.id, 'TRANSITION', [{ field: 'reviewStatus', oldVal: from, newVal: 'DRAFT' }], user);
+    return 'DRAFT';
+  }
+
+  // reviewerId null = anyone with REVIEW_CASES may approve
+  static async assignReviewer(caseId: string, reviewerId: string | null, user: User): Promise<TestCase> {
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: caseId, deletedAt: null } });
+    if (!tc) throw new Error('케이스를 찾을 수 없습니다.');
+    await requireDocumentPermission(tc.documentId, 'MANAGE_CASES');
+    if ((tc.reviewerId || null) === reviewerId) return tc;
+
+    const userIds = [tc.reviewerId, reviewerId].filter((id): id is string => !!id);
+    const { data: users } = userIds.length ? await db().select<User>('users', { in: { id: userIds } }) : { data: [] as User[] };
+    const nameOf = (id?: string | null) => (id ? users.find(u => u.id === id)?.name || id : null);
+    if (reviewerId && !users.some(u => u.id === reviewerId)) throw new Error('리뷰어를 찾을 수 없습니다.');
+
+    const { data: updated, error } = await db().update<TestCase>('testCases', { eq: { id: caseId } }, { reviewerId, updatedAt: now() });
+    if (error) throw error;
+    await HistoryService.logEvent(caseId, 'UPDATE', [{ field: 'reviewer', oldVal: nameOf(tc.reviewerId), newVal: nameOf(reviewerId) }], user);
+    return updated[0];
+  }
+
+  static async getReviewComments(caseId: string): Promise<ReviewComment[]> {
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: caseId } });
+    if (!tc || !(await canReadDocument(tc.documentId))) return [];
+    const { data } = await db().select<ReviewComment>('reviewComments', {
+      eq: { caseId },
+      order: { column: 'createdAt', ascending: true }
+    });
+    return data;
+  }
+
+  static async addReviewComment(caseId: string, body: string, user: User): Promise<ReviewComment> {
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: caseId } });
+    if (!tc) throw new Error('케이스를 찾을 수 없습니다.');
+    await requireDocumentPermission(tc.documentId, 'REVIEW_CASES');
+    if (!body.trim()) throw new Error('코멘트를 입력하세요.');
+    return TestCaseService.insertReviewComment(caseId, body.trim(), user);
+  }
+
+  private static async insertReviewComment(caseId: string, body: string, user: User): Promise<ReviewComment> {
+    const { data, error } = await db().insert<ReviewComment>('reviewComments', {
+      caseId, body, authorId: user.id, authorName: user.name, createdAt: now()
+    });
+    if (error) throw error;
+    return data[0];
+  }
+
+  static async deleteCases(caseIds: string[], user: User): Promise<void> {
+    const cases = await TestCaseService.loadForBulk(caseIds);
+    for (const tc of cases) {
+      await TrashService.moveToTrash('CASE', tc.id);
+      await HistoryService.logEvent(tc.id, 'DELETE', [{ field: 'ALL', oldVal: null, newVal: 'TRASHED' }], user);
+    }
   }
 
   static async importCases(documentId: string, cases: any[], user: User) {
-    // 1. 기존 섹션(폴더) 조회
+    await requireDocumentPermission(documentId, 'IMPORT_CASES');
+    // 섹션 경로 정규화: "Feature>Screen" -> "Feature > Screen"
+    const toPath = (title?: string) =>
+      (title || 'Uncategorized').split(SECTION_PATH_SEPARATOR.trim()).map(t => t.trim()).filter(Boolean).join(SECTION_PATH_SEPARATOR) || 'Uncategorized';
+
+    // 1. 기존 섹션(폴더) 조회 (경로 -> ID)
     const existingSections = await TestCaseService.getSections(documentId);
     const sectionMap = new Map<string, string>();
-    existingSections.forEach(s => sectionMap.set(s.title, s.id));
-
-    // 2. CSV 데이터에서 유니크한 섹션 이름 추출
-    const uniqueSectionTitles = Array.from(new Set(cases.map(c => c.sectionTitle || 'Uncategorized')));
-
-    // 3. 존재하지 않는 섹션은 DB에 새로 생성 후 Map에 매핑
-    for (const title of uniqueSectionTitles) {
-      if (!sectionMap.has(title)) {
-        const newSec = await TestCaseService.createSection({ documentId, title });
-        if (newSec) sectionMap.set(title, newSec.id);
+    existingSections.forEach(s => sectionMap.set(getSectionPath(existingSections, s.id), s.id));
+
+    // 2. CSV 데이터에서 유니크한 섹션 경로 추출
+    const uniqueSectionPaths = Array.from(new Set(cases.map(c => toPath(c.sectionTitle))));
+
+    // 3. 존재하지 않는 섹션은 상위부터 차례로 생성 후 Map에 매핑
+    for (const path of uniqueSectionPaths) {
+      const titles = path.split(SECTION_PATH_SEPARATOR);
+      let parentId: string | null = null;
+      for (let i = 0; i < titles.length; i++) {
+        const key = titles.slice(0, i + 1).join(SECTION_PATH_SEPARATOR);
+        if (!sectionMap.has(key)) {
+          const newSec = await TestCaseService.createSection({ documentId, title: titles[i], parentId });
+          if (newSec) sectionMap.set(key, newSec.id);
+        }
+        parentId = sectionMap.get(key) || null;
       }
     }
 
-    // 4. DB 스키마에 맞게 삽입할 케이스 데이터 매핑
-    const newCases = cases.map(c => ({
-      documentId: documentId,
-      sectionId: sectionMap.get(c.sectionTitle || 'Uncategorized')!,
-      title: c.title,
-      precondition: c.precondition || '',
-      steps: c.steps || [],
-      priority: c.priority || 'MEDIUM',
-      type: c.type || 'FUNCTIONAL',
-      note: c.note || '',
-      platform_type: c.platform_type || 'WEB',
-      authorId: user.id,
-      createdAt: now(),
-      updatedAt: now()
-    }));
+    // 4. DB 스키마에 맞게 삽입할 케이스 데이터 매핑 (섹션별로 기존 케이스 뒤에 이어 붙임)
+    const nextPosition = new Map<string, number>();
+    for (const sectionId of new Set(sectionMap.values())) {
+      nextPosition.set(sectionId, await TestCaseService.nextCasePosition(sectionId));
+    }
+    const newCases = cases.map(c => {
+      const sectionId = sectionMap.get(toPath(c.sectionTitle))!;
+      const position = nextPosition.get(sectionId) ?? 0;
+      nextPosition.set(sectionId, position + 1);
+      return {
+        documentId: documentId,
+        sectionId,
+        position,
+        title: c.title,
+        precondition: c.precondition || '',
+        steps: c.steps || [],
+        priority: c.priority || 'MEDIUM',
+        type: c.type || 'FUNCTIONAL',
+        note: c.note || '',
+        platform_type: c.platform_type || 'WEB',
+        customFields: c.customFields || {},
+        tags: normalizeTags(c.tags || []),
+        parameters: normalizeParameters(c.parameters),
+        authorId: user.id,
+        createdAt: now(),
+        updatedAt: now()
+      };
+    });
 
-    // 5. Supabase에 대량 삽입 (Bulk Insert)
+    // 5. 대량 삽입 (Bulk Insert)
     if (newCases.length > 0) {
-      const { error } = await supabase.from('testCases').insert(newCases);
+      const { error } = await db().insert('testCases', newCases);
       if (error) {
         console.error("Import Error:", error);
         throw error;
@@ -307,124 +981,421 @@ export class TestCaseService {
   }
 }
 
+// --- Trash ---
+const TRASH_RETENTION_DAYS = 30;
+
+type TrashTable = 'folders' | 'documents' | 'sections' | 'testCases';
+type TrashRow = { id: string; parentId?: string | null; trashId?: string | null };
+
+const ITEM_TABLE: Record<TrashItemType, TrashTable> = {
+  FOLDER: 'folders', DOCUMENT: 'documents', SECTION: 'sections', CASE: 'testCases'
+};
+
+// Rows of the subtree under an item (the item included). With `onlyLive`, rows already in the
+// trash under an earlier entry are left out so each entry restores exactly what it removed.
+const collectSubtree = async (itemType: TrashItemType, itemId: string, onlyLive: boolean): Promise<Record<TrashTable, TrashRow[]>> => {
+  const live = onlyLive ? { deletedAt: null } : {};
+  const rows: Record<TrashTable, TrashRow[]> = { folders: [], documents: [], sections: [], testCases: [] };
+  const descend = (all: TrashRow[], rootId: string) => {
+    const ids = new Set([rootId]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      all.forEach(r => {
+        if (r.parentId && ids.has(r.parentId) && !ids.has(r.id)) { ids.add(r.id); grew = true; }
+      });
+    }
+    return all.filter(r => ids.has(r.id));
+  };
+
+  if (itemType === 'FOLDER') {
+    const { data: folders } = await db().select<Folder>('folders', { eq: live });
+    rows.folders = descend(folders, itemId);
+    const folderIds = rows.folders.map(f => f.id);
+    if (folderIds.length) rows.documents = (await db().select<Document>('documents', { eq: live, in: { folderId: folderIds } })).data;
+  } else if (itemType === 'DOCUMENT') {
+    rows.documents = (await db().select<Document>('documents', { eq: { id: itemId } })).data;
+  }
+
+  if (itemType === 'FOLDER' || itemType === 'DOCUMENT') {
+    const docIds = rows.documents.map(d => d.id);
+    if (docIds.length) {
+      const [sections, cases] = await Promise.all([
+        db().select<Section>('sections', { eq: live, in: { documentId: docIds } }),
+        db().select<TestCase>('testCases', { eq: live, in: { documentId: docIds } })
+      ]);
+      rows.sections = sections.data;
+      rows.testCases = cases.data;
+    }
+  } else if (itemType === 'SECTION') {
+    const { data: section } = await db().selectOne<Section>('sections', { eq: { id: itemId } });
+    if (section) {
+      const { data: siblings } = await db().select<Section>('sections', { eq: { ...live, documentId: section.documentId } });
+      rows.sections = descend([section, ...siblings.filter(x => x.id !== section.id)], itemId);
+      rows.testCases = (await db().select<TestCase>('testCases', { eq: live, in: { sectionId: rows.sections.map(x => x.id) } })).data;
+    }
+  } else {
+    rows.testCases = (await db().select<TestCase>('testCases', { eq: { id: itemId } })).data;
+  }
+  return rows;
+};
+
+const isLive = async (table: TrashTable, id: string | null | undefined): Promise<boolean> => {
+  if (!id) return true;
+  const { data } = await db().selectOne<TrashRow & { deletedAt?: string | null }>(table, { eq: { id } });
+  return !!data && !data.deletedAt;
+};
+
+export class TrashService {
+  static readonly RETENTION_DAYS = TRASH_RETENTION_DAYS;
+
+  // Called by the delete methods after their permission checks
+  static async moveToTrash(itemType: TrashItemType, itemId: string): Promise<void> {
+    const { data: item } = await db().selectOne<any>(ITEM_TABLE[itemType], { eq: { id: itemId } });
+    if (!item || item.deletedAt) return;
+
+    let folderId: string | null = itemType === 'FOLDER' ? item.parentId : item.folderId;
+    if (itemType === 'SECTION' || itemType === 'CASE') {
+      const { data: doc } = await db().selectOne<Document>('documents', { eq: { id: item.documentId } });
+      folderId = doc ? doc.folderId : null;
+    }
+
+    const { data: inserted, error } = await db().insert<TrashItem>('trash', {
+      itemType,
+      itemId,
+      title: item.title ?? item.name,
+      folderId,
+      documentId: item.documentId ?? null,
+      deletedBy: AuthService.getCurrentUser()?.id ?? null,
+      deletedAt: now()
+    });
+    if (error) throw error;
+    const entry = inserted[0];
+
+    const rows = await collectSubtree(itemType, itemId, true);
+    for (const table of Object.keys(rows) as TrashTable[]) {
+      const ids = rows[table].map(r => r.id);
+      if (ids.length) await db().update(table, { in: { id: ids } }, { deletedAt: entry.deletedAt, trashId: entry.id });
+    }
+  }
+
+  // Entries in folders the user can see, newest first. Expired entries are purged on the way.
+  static async list(): Promise<TrashItem[]> {
+    await TrashService.purgeExpired();
+    const [{ data, error }, access] = await Promise.all([
+      db().select<TrashItem>('trash', { order: { column: 'deletedAt', ascending: false } }),
+      loadFolderAccess()
+    ]);
+    if (error) { console.error(error); return []; }
+    return data.filter(t => access.levelOf(t.folderId));
+  }
+
+  static async restore(trashId: string): Promise<void> {
+    const entry = await TrashService.getEntry(trashId);
+    const { data: item } = await db().selectOne<any>(ITEM_TABLE[entry.itemType], { eq: { id: entry.itemId } });
+    const parentsLive = entry.itemType === 'FOLDER'
+      ? await isLive('folders', item?.parentId)
+      : entry.itemType === 'DOCUMENT'
+        ? await isLive('folders', item?.folderId)
+        : await isLive('documents', item?.documentId) &&
+          await isLive('sections', entry.itemType === 'SECTION' ? item?.parentId : item?.sectionId);
+    if (!parentsLive) throw new Error('상위 항목이 휴지통에 있습니다. 상위 항목을 먼저 복원해 주세요.');
+
+    for (const table of Object.values(ITEM_TABLE)) {
+      await db().update(table, { eq: { trashId } }, { deletedAt: null, trashId: null });
+    }
+    await db().remove('trash', { eq: { id: trashId } });
+  }
+
+  static async purge(trashId: string): Promise<void> {
+    await TrashService.purgeEntry(await TrashService.getEntry(trashId));
+  }
+
+  static async purgeExpired(): Promise<void> {
+    const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const { data } = await db().select<TrashItem>('trash');
+    for (const entry of data.filter(t => new Date(t.deletedAt).getTime() < cutoff)) {
+      await TrashService.purgeEntry(entry);
+    }
+  }
+
+  // Loads an entry and checks the same permission that deleting it required
+  private static async getEntry(trashId: string): Promise<TrashItem> {
+    const { data: entry } = await db().selectOne<TrashItem>('trash', { eq: { id: trashId } });
+    if (!entry) throw new Error('휴지통 항목을 찾을 수 없습니다.');
+    const permission = entry.itemType === 'FOLDER' || entry.itemType === 'DOCUMENT' ? 'MANAGE_DRIVE' : 'MANAGE_CASES';
+    await requireFolderPermission(entry.folderId, permission);
+    return entry;
+  }
+
+  // Hard delete, children first; test results go with their cases (ON DELETE CASCADE).
+  // Older entries nested inside the subtree are dropped with it.
+  private static async purgeEntry(entry: TrashItem): Promise<void> {
+    const rows = await collectSubtree(entry.itemType, entry.itemId, false);
+    const all = [...rows.testCases, ...rows.sections, ...rows.documents, ...rows.folders];
+    const trashIds = Array.from(new Set(all.map(r => r.trashId).filter((id): id is string => !!id)));
+
+    for (const table of ['testCases', 'sections', 'documents', 'folders'] as TrashTable[]) {
+      const ids = rows[table].map(r => r.id);
+      if (ids.length) await db().remove(table, { in: { id: ids } });
+    }
+    await db().remove('trash', { in: { id: Array.from(new Set([entry.id, ...trashIds])) } });
+  }
+}
+
+const STATUS_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Result statuses (TestStatusDefinition); the built-in set stands in until the table has rows
+export class TestStatusService {
+  static async getAll(): Promise<TestStatusDefinition[]> {
+    const { data } = await db().select<TestStatusDefinition>('testStatuses', { order: { column: 'position' } });
+    return data.length > 0 ? data : DEFAULT_TEST_STATUSES;
+  }
+
+  static async create(data: Pick<TestStatusDefinition, 'label' | 'color' | 'executed' | 'passed' | 'precedence'>): Promise<TestStatusDefinition> {
+    requirePermission('MANAGE_SETTINGS');
+    TestStatusService.validate(data);
+    const current = await TestStatusService.ensureRows();
+    const code = data.label.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || `STATUS_${generateId().toUpperCase()}`;
+    if (current.some(s => s.code === code)) throw new Error(`이미 있는 상태입니다: ${code}`);
+    const { data: inserted, error } = await db().insert<TestStatusDefinition>('testStatuses', {
+      code,
+      label: data.label.trim(),
+      color: data.color,
+      executed: data.executed,
+      passed: data.passed,
+      precedence: data.precedence,
+      position: current.reduce((max, s) => Math.max(max, s.position + 1), 0),
+      active: true,
+      builtIn: false
+    });
+    if (error) throw error;
+    return inserted[0];
+  }
+
+  // Built-in statuses keep their meaning: UNTESTED is "not run", PASS is the passing status the runner sets
+  static async update(code: string, patch: Partial<Pick<TestStatusDefinition, 'label' | 'color' | 'executed' | 'passed' | 'precedence' | 'position' | 'active'>>): Promise<void> {
+    requirePermission('MANAGE_SETTINGS');
+    const current = (await TestStatusService.ensureRows()).find(s => s.code === code);
+    if (!current) throw new Error('상태를 찾을 수 없습니다.');
+    if (current.builtIn && (
+      (patch.executed !== undefined && patch.executed !== current.executed) ||
+      (patch.passed !== undefined && patch.passed !== current.passed) ||
+      patch.active === false
+    )) throw new Error('기본 상태는 집계 기준을 바꾸거나 비활성화할 수 없습니다.');
+    TestStatusService.validate({ ...current, ...patch });
+    const { error } = await db().update('testStatuses', { eq: { code } }, {
+      ...patch,
+      ...(patch.label !== undefined ? { label: patch.label.trim() } : {})
+    });
+    if (error) throw error;
+  }
+
+  // Only statuses no result uses; retire the others with active = false
+  static async remove(code: string): Promise<void> {
+    requirePermission('MANAGE_SETTINGS');
+    const current = (await TestStatusService.ensureRows()).find(s => s.code === code);
+    if (!current) return;
+    if (current.builtIn) throw new Error('기본 상태는 삭제할 수 없습니다.');
+    const { data: used } = await db().count('testResults', { eq: { status: code } });
+    if (used > 0) throw new Error(`${used}개의 결과가 사용 중인 상태입니다. 삭제 대신 비활성화하세요.`);
+    await db().remove('testStatuses', { eq: { code } });
+  }
+
+  // Write the built-in set on first change, so edits have rows to apply to
+  private static async ensureRows(): Promise<TestStatusDefinition[]> {
+    const { data } = await db().select<TestStatusDefinition>('testStatuses', { order: { column: 'position' } });
+    if (data.length > 0) return data;
+    const { data: inserted, error } = await db().insert<TestStatusDefinition>('testStatuses', DEFAULT_TEST_STATUSES);
+    if (error) throw error;
+    return inserted;
+  }
+
+  private static validate(data: Pick<TestStatusDefinition, 'label' | 'color' | 'executed' | 'passed' | 'precedence'>) {
+    if (!data.label?.trim()) throw new Error('상태 이름을 입력하세요.');
+    if (!STATUS_COLOR.test(data.color)) throw new Error('색상은 #rrggbb 형식이어야 합니다.');
+    if (data.passed && !data.executed) throw new Error('통과로 집계되는 상태는 실행된 것으로도 집계되어야 합니다.');
+    if (!Number.isInteger(data.precedence)) throw new Error('우선순위는 정수여야 합니다.');
+  }
+}
+
 export class RunService {
+  // Runs over a document the user can read, plus the runs they are assigned to (e.g. external testers)
   static async getAll(): Promise<TestRun[]> {
-    const { data } = await supabase.from('testRuns').select('*').order('createdAt', { ascending: false });
-    return data || [];
+    const user = AuthService.getCurrentUser();
+    const [{ data }, docs] = await Promise.all([
+      db().select<TestRun>('testRuns', { order: { column: 'createdAt', ascending: false } }),
+      DriveService.getAllDocuments()
+    ]);
+    const readableDocIds = new Set(docs.map(d => d.id));
+    return data.filter(run =>
+      (!!user && (run.assignees || []).includes(user.id)) ||
+      (run.target_document_ids || []).some(id => readableDocIds.has(id))
+    );
   }
 
-  static async getRunStats(openRuns: TestRun[]): Promise<Record<string, { total: number, pass: number, fail: number, block: number, na: number, untested: number }>> {
+  // Counts per execution (one per parameter row, see utils/parameters.ts) and rolled up per case.
+  // Read-only: runs that are not pinned yet are counted against their current cases.
+  static async getRunStats(openRuns: TestRun[]): Promise<Record<string, RunStatusCounts & { cases: RunStatusCounts }>> {
     if (openRuns.length === 0) return {};
     const openRunIds = openRuns.map(r => r.id);
-    const targetDocIds = Array.from(new Set(openRuns.flatMap(r => r.target_document_ids || [])));
-
-    const [casesRes, resultsRes] = await Promise.all([
-      targetDocIds.length > 0
-        // 💡 [수정 1] 조회를 위해 platform_type 명시적 추가
-        ? supabase.from('testCases').select('id, documentId, platform_type').in('documentId', targetDocIds)
-        : Promise.resolve({ data: [] }),
-      // 💡 [수정 2] 조회를 위해 caseId, device_platform 명시적 추가
-      supabase.from('testResults').select('runId, caseId, status, device_platform').in('runId', openRunIds)
-    ]);
+    const unpinnedDocIds = Array.from(new Set(openRuns.filter(r => !r.pinned_at).flatMap(r => r.target_document_ids || [])));
 
-    const cases = casesRes.data || [];
-    const results = resultsRes.data || [];
+    const [pinsRes, resultsRes, liveCases] = await Promise.all([
+      db().select<RunCase>('runCases', { in: { runId: openRunIds } }),
+      db().select<TestResult>('testResults', { in: { runId: openRunIds } }),
+      unpinnedDocIds.length > 0 ? TestCaseService.getCasesByDocumentIds(unpinnedDocIds) : Promise.resolve([] as TestCase[])
+    ]);
 
-    const stats: Record<string, any> = {};
+    const pins = pinsRes.data;
+    const results = resultsRes.data;
+    const casesOf = (run: TestRun) => run.pinned_at
+      ? pins.filter(p => p.runId === run.id).map(p => p.snapshot)
+      : liveCases.filter(runCaseFilter(run));
 
+    const registry = await TestStatusService.getAll();
+    const stats: Record<string, RunStatusCounts & { cases: RunStatusCounts }> = {};
     openRuns.forEach(run => {
-      const runDocIds = new Set(run.target_document_ids || []);
-      const runCases = cases.filter(c => runDocIds.has(c.documentId));
-      const runRes = results.filter(r => r.runId === run.id);
-
-      const total = runCases.length;
-      let pass = 0, fail = 0, block = 0, na = 0;
-
-      // 💡 [수정 3] 결과(Result) 행 단순 덧셈이 아닌 케이스(Case) 단위 순회
-      runCases.forEach(c => {
-        const cRes = runRes.filter(r => r.caseId === c.id);
-        let fStatus: TestStatus = 'UNTESTED';
-
-        if (c.platform_type === 'APP') {
-          const iStat = cRes.find(r => r.device_platform === 'iOS')?.status || 'UNTESTED';
-          const aStat = cRes.find(r => r.device_platform === 'Android')?.status || 'UNTESTED';
-
-          if (iStat === 'UNTESTED' || aStat === 'UNTESTED') fStatus = 'UNTESTED';
-          else if (iStat === 'FAIL' || aStat === 'FAIL') fStatus = 'FAIL';
-          else if (iStat === 'BLOCK' || aStat === 'BLOCK') fStatus = 'BLOCK';
-          else if (iStat === 'NA' || aStat === 'NA') fStatus = 'NA';
-          else fStatus = 'PASS';
-        } else {
-          fStatus = cRes.find(r => !r.device_platform || r.device_platform === 'PC')?.status || 'UNTESTED';
-        }
-
-        if (fStatus === 'PASS') pass++;
-        else if (fStatus === 'FAIL') fail++;
-        else if (fStatus === 'BLOCK') block++;
-        else if (fStatus === 'NA') na++;
-      });
-
-      const untested = Math.max(0, total - (pass + fail + block + na));
-      stats[run.id] = { total, pass, fail, block, na, untested };
+      const { counts, caseCounts } = summarizeRun(registry, casesOf(run), results.filter(r => r.runId === run.id), runEnvironments(run));
+      stats[run.id] = { ...counts, cases: caseCounts };
     });
 
     return stats;
   }
 
   static async getById(id: string): Promise<TestRun | null> {
-    const { data, error } = await supabase.from('testRuns').select('*').eq('id', id).single();
+    const { data, error } = await db().selectOne<TestRun>('testRuns', { eq: { id } });
     if (error) return null;
     return data;
   }
 
   static async create(data: Partial<TestRun>): Promise<TestRun> {
+    requirePermission('MANAGE_RUNS');
+    const tagQuery = data.tag_query?.trim() || null;
+    if (tagQuery) compileTagQuery(tagQuery); // throws on a malformed query
+    let targetDocumentIds = data.target_document_ids || [];
+    let caseIds: string[] | null = null;
+    if (data.case_ids) {
+      // Explicit selection: the run targets exactly the documents of the selected cases
+      const { data: cases } = await db().select<TestCase>('testCases', { eq: { deletedAt: null }, in: { id: data.case_ids } });
+      if (cases.length === 0) throw new Error('선택된 케이스가 없습니다.');
+      targetDocumentIds = Array.from(new Set(cases.map(c => c.documentId)));
+      caseIds = cases.map(c => c.id);
+    }
     const newRun = {
       ...data,
+      target_document_ids: targetDocumentIds,
+      case_ids: caseIds,
+      tag_query: tagQuery,
+      environments: RunService.normalizeEnvironments(data.environments),
       status: 'OPEN',
       createdAt: now()
     };
-    const { data: res, error } = await supabase.from('testRuns').insert(newRun).select().single();
+    const { data: res, error } = await db().insert<TestRun>('testRuns', newRun);
     if (error) throw error;
-    return res;
+    await RunService.pinCases(res[0]);
+    return res[0];
+  }
+
+  // Trimmed, unique names; each configuration gets the id its results are stored under. Empty = no matrix
+  private static normalizeEnvironments(environments: RunEnvironment[] | null | undefined): RunEnvironment[] | null {
+    if (!environments || environments.length === 0) return null;
+    const names = new Set<string>();
+    return environments.map(e => {
+      const name = e.name?.trim();
+      if (!name) throw new Error('환경 이름을 입력하세요.');
+      if (names.has(name.toLowerCase())) throw new Error(`같은 이름의 환경이 있습니다: ${name}`);
+      names.add(name.toLowerCase());
+      return { id: e.id || generateId(), name, values: e.values || {}, platform_type: e.platform_type || null };
+    });
+  }
+
+  // Copies the cases the run covers into runCases; testers see these copies until they refresh a case
+  private static async pinCases(run: TestRun): Promise<void> {
+    const docIds = run.target_document_ids || [];
+    const { data: cases } = docIds.length > 0
+      ? await db().select<TestCase>('testCases', { eq: { deletedAt: null }, in: { documentId: docIds } })
+      : { data: [] as TestCase[] };
+    const pinnedAt = now();
+    // Shared step blocks are expanded into the pinned copy, so later block edits show up as case updates
+    const covered = await SharedStepService.expandCases(cases.filter(runCaseFilter(run)));
+    const pins = covered.map(c => ({ runId: run.id, caseId: c.id, documentId: c.documentId, snapshot: c, pinnedAt }));
+    if (pins.length > 0) {
+      // Two tabs opening the same legacy run may pin at once; UNIQUE ("runId", "caseId") keeps the first pin
+      const { error } = await db().insert('runCases', pins, { ignoreConflicts: ['runId', 'caseId'] });
+      if (error) throw error;
+    }
+    await db().update('testRuns', { eq: { id: run.id } }, { pinned_at: pinnedAt });
+    run.pinned_at = pinnedAt;
+  }
+
+  // Pinned cases of an open run (runs from before pinning are pinned here on first load)
+  static async getRunCases(run: TestRun): Promise<RunCase[]> {
+    if (!run.pinned_at && run.status === 'OPEN') await RunService.pinCases(run);
+    const { data } = await db().select<RunCase>('runCases', { eq: { runId: run.id } });
+    return data;
+  }
+
+  // Opt-in per case: replace the pinned copy with the current case. Results are kept.
+  static async refreshCase(runId: string, caseId: string): Promise<RunCase> {
+    requirePermission('EXECUTE_RUNS');
+    const run = await RunService.getById(runId);
+    if (!run || run.status !== 'OPEN') throw new Error('진행 중인 실행이 아닙니다.');
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: caseId, deletedAt: null } });
+    if (!tc) throw new Error('원본 케이스가 삭제되어 갱신할 수 없습니다.');
+    const [snapshot] = await SharedStepService.expandCases([tc]);
+    const { data, error } = await db().update<RunCase>('runCases', { eq: { runId, caseId } }, {
+      snapshot,
+      documentId: tc.documentId,
+      pinnedAt: now()
+    });
+    if (error) throw error;
+    if (data.length === 0) throw new Error('이 실행에 포함된 케이스가 아닙니다.');
+    return data[0];
   }
 
   static async finishRun(runId: string, snapshotData: any): Promise<void> {
-    await supabase.from('testRuns').update({
+    requirePermission('MANAGE_RUNS');
+    await db().update('testRuns', { eq: { id: runId } }, {
       status: 'COMPLETED',
       completedAt: now(),
       snapshot_data: snapshotData
-    }).eq('id', runId);
+    });
   }
 
   static async delete(runId: string): Promise<void> {
+    requirePermission('MANAGE_RUNS');
+    // Result files belong to this run only (runs/<runId>/...), live results or the completed snapshot
+    const [{ data: results }, run] = await Promise.all([db().select<TestResult>('testResults', { eq: { runId } }), RunService.getById(runId)]);
+    const paths = [...results, ...(run?.snapshot_data?.results || [])].flatMap((r: TestResult) => (r.attachments || []).map(a => a.path));
+    await files().remove(Array.from(new Set(paths)));
+
     // 1. 하위 데이터(테스트 결과)를 먼저 삭제하여 409 Conflict 방지
-    await supabase.from('testResults').delete().eq('runId', runId);
+    await db().remove('testResults', { eq: { runId } });
 
     // 2. 그 다음 실행 계획 본체 삭제
-    await supabase.from('testRuns').delete().eq('id', runId);
+    await db().remove('testRuns', { eq: { id: runId } });
   }
 
   static async getResults(runId: string): Promise<TestResult[]> {
-    const { data } = await supabase.from('testResults').select('*').eq('runId', runId);
-    return data || [];
+    const { data } = await db().select<TestResult>('testResults', { eq: { runId } });
+    return data;
   }
 
   static async saveResult(data: Partial<TestResult>) {
+    requirePermission('EXECUTE_RUNS');
     // Upsert logic based on composite key or ID
     // Simplify: always upsert by ID if present, or match constraints
 
     // 1. Check existing
-    let query = supabase.from('testResults').select('*');
-    if (data.id && data.id !== 'temp') {
-      query = query.eq('id', data.id);
-    } else {
-      query = query.eq('runId', data.runId).eq('caseId', data.caseId).eq('device_platform', data.device_platform || 'PC');
-    }
+    const query = data.id && data.id !== 'temp'
+      ? { eq: { id: data.id } }
+      : { eq: { runId: data.runId, caseId: data.caseId, device_platform: data.device_platform || 'PC', rowId: data.rowId || null } };
 
-    const { data: existing } = await query.maybeSingle();
+    const { data: existing } = await db().selectOne<TestResult>('testResults', query);
 
     let history = existing?.history || [];
-    if (existing && existing.status !== 'UNTESTED') {
+    if (existing && existing.status !== UNTESTED) {
       history.unshift({
         status: existing.status,
         actualResult: existing.actualResult,
@@ -442,28 +1413,48 @@ export class RunService {
     };
 
     if (existing) {
-      await supabase.from('testResults').update(payload).eq('id', existing.id);
+      await db().update('testResults', { eq: { id: existing.id } }, payload);
     } else {
-      await supabase.from('testResults').insert(payload);
+      await db().insert('testResults', payload);
     }
   }
 }
 
 export class HistoryService {
   static async getLogs(entityId: string): Promise<HistoryLog[]> {
-    const { data } = await supabase.from('historyLogs').select('*').eq('entityId', entityId).order('timestamp', { ascending: false });
-    return data || [];
+    const { data } = await db().select<HistoryLog>('historyLogs', {
+      eq: { entityId },
+      order: { column: 'timestamp', ascending: false }
+    });
+    return data;
   }
 
-  static async logChange(oldObj: any, newObj: any, user: User) {
+  // restoredFrom: set by CaseVersionService.restore, logged as RESTORE
+  static async logChange(oldObj: any, newObj: any, user: User, restoredFrom?: number) {
     // Only log diff
     const changes: any[] = [];
     if (!oldObj) {
       changes.push({ field: 'ALL', oldVal: null, newVal: 'CREATED' });
     } else {
       for (const key of Object.keys(newObj)) {
-        if (['updatedAt', 'createdAt', 'history', 'steps'].includes(key)) continue;
-        // Note: steps comparison is heavy, skip for now or specialized diff later
+        if (['updatedAt', 'createdAt', 'history', 'position'].includes(key)) continue;
+        if (key === 'customFields') {
+          // One entry per changed field ("customFields.<key>")
+          const oldValues = oldObj.customFields || {};
+          const newValues = newObj.customFields || {};
+          for (const fieldKey of new Set([...Object.keys(oldValues), ...Object.keys(newValues)])) {
+            if ((oldValues[fieldKey] ?? null) !== (newValues[fieldKey] ?? null)) {
+              changes.push({ field: `customFields.${fieldKey}`, oldVal: oldValues[fieldKey] ?? null, newVal: newValues[fieldKey] ?? null });
+            }
+          }
+          continue;
+        }
+        if (key === 'steps') {
+          // Add / remove / modify / move operations matched by step id
+          const operations = diffSteps(oldObj.steps || [], newObj.steps || []);
+          if (operations.length > 0) changes.push({ field: 'steps', oldVal: oldObj.steps || [], newVal: newObj.steps || [], operations });
+          continue;
+        }
         if (JSON.stringify(oldObj[key]) !== JSON.stringify(newObj[key])) {
           changes.push({ field: key, oldVal: oldObj[key], newVal: newObj[key] });
         }
@@ -472,18 +1463,550 @@ export class HistoryService {
 
     if (changes.length === 0) return;
 
-    await supabase.from('historyLogs').insert({
+    // Moves etc. are logged without a new version; content changes get one
+    const current = { ...(oldObj || {}), ...newObj } as TestCase;
+    const contentChanged = !oldObj || diffCaseContent(oldObj, current).length > 0;
+    const version = contentChanged ? await CaseVersionService.record(oldObj, current, user) : null;
+
+    const action = restoredFrom ? 'RESTORE' : oldObj ? 'UPDATE' : 'CREATE';
+    await HistoryService.logEvent(newObj.id, action, changes, user, { version, restoredFrom: restoredFrom ?? null });
+  }
+
+  // Entries that are not a field diff (e.g. DELETE from bulk actions)
+  static async logEvent(entityId: string, action: string, changes: any[], user: User, extra: Partial<HistoryLog> = {}) {
+    await db().insert('historyLogs', {
       entityType: 'CASE',
-      entityId: newObj.id,
-      action: oldObj ? 'UPDATE' : 'CREATE',
+      entityId,
+      action,
       modifierId: user.id,
       modifierName: user.name,
       changes,
-      timestamp: now()
+      timestamp: now(),
+      ...extra
+    });
+  }
+}
+
+export class CaseVersionService {
+  static async getVersions(caseId: string): Promise<CaseVersion[]> {
+    const { data } = await db().select<CaseVersion>('caseVersions', { eq: { caseId }, order: { column: 'version', ascending: false } });
+    return data;
+  }
+
+  private static async getLatest(caseId: string): Promise<CaseVersion | null> {
+    const { data } = await db().select<CaseVersion>('caseVersions', { eq: { caseId }, order: { column: 'version', ascending: false }, limit: 1 });
+    return data[0] || null;
+  }
+
+  private static async insert(tc: TestCase, version: number, author: User | null): Promise<CaseVersion> {
+    const { deletedAt, trashId, ...snapshot } = tc;
+    const { data, error } = await db().insert<CaseVersion>('caseVersions', {
+      caseId: tc.id,
+      documentId: tc.documentId,
+      version,
+      snapshot,
+      authorId: author?.id || null,
+      authorName: author?.name || null,
+      createdAt: now()
+    });
+    if (error) throw error;
+    return data[0];
+  }
+
+  // Called by HistoryService.logChange. A case saved for the first time since versioning started
+  // also keeps its previous state as the first version, so that state can be restored too.
+  static async record(previous: TestCase | null, current: TestCase, user: User): Promise<number> {
+    const latest = await CaseVersionService.getLatest(current.id);
+    let version = latest?.version || 0;
+    if (!latest && previous) await CaseVersionService.insert(previous, ++version, null);
+    await CaseVersionService.insert(current, ++version, user);
+    return version;
+  }
+
+  // Version matching the case as it is now; recorded if the case changed since its latest version
+  static async ensureCurrent(tc: TestCase, user: User): Promise<CaseVersion> {
+    const latest = await CaseVersionService.getLatest(tc.id);
+    if (latest && diffCaseContent(latest.snapshot, tc).length === 0) return latest;
+    return CaseVersionService.insert(tc, (latest?.version || 0) + 1, user);
+  }
+
+  // Brings back the content of a version (title, steps, ...); section and order stay as they are
+  static async restore(versionId: string, user: User): Promise<TestCase> {
+    const { data: version } = await db().selectOne<CaseVersion>('caseVersions', { eq: { id: versionId } });
+    if (!version) throw new Error('버전을 찾을 수 없습니다.');
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: version.caseId, deletedAt: null } });
+    if (!tc) throw new Error('케이스를 찾을 수 없습니다.');
+    await requireDocumentPermission(tc.documentId, 'MANAGE_CASES');
+
+    const content: Partial<TestCase> = Object.fromEntries(CASE_CONTENT_FIELDS.map(({ key }) => [key, version.snapshot[key] ?? null]));
+    content.steps = content.steps || [];
+    content.tags = content.tags || [];
+    content.customFields = content.customFields || {};
+    const updated = { ...tc, ...content, updatedAt: now() };
+    await HistoryService.logChange(tc, updated, user, version.version);
+    await db().update('testCases', { eq: { id: tc.id } }, { ...content, updatedAt: updated.updatedAt });
+    return { ...updated, reviewStatus: await TestCaseService.reopenIfApproved(tc, updated, user) };
+  }
+}
+
+export class BaselineService {
+  static async getForDocument(documentId: string): Promise<Baseline[]> {
+    const { data } = await db().select<Baseline>('baselines', { eq: { documentId }, order: { column: 'createdAt', ascending: false } });
+    if (data.length === 0) return [];
+    const { data: rows } = await db().select<BaselineCase>('baselineCases', { in: { baselineId: data.map(b => b.id) } });
+    return data.map(b => ({ ...b, caseCount: rows.filter(r => r.baselineId === b.id).length }));
+  }
+
+  // Freezes the current version of every live case of the document
+  static async create(documentId: string, name: string, user: User): Promise<Baseline> {
+    await requireDocumentPermission(documentId, 'MANAGE_CASES');
+    if (!name.trim()) throw new Error('베이스라인 이름을 입력하세요.');
+    const cases = await TestCaseService.getCases(documentId);
+    const versions: CaseVersion[] = [];
+    for (const tc of cases) versions.push(await CaseVersionService.ensureCurrent(tc, user));
+
+    const { data, error } = await db().insert<Baseline>('baselines', { documentId, name: name.trim(), createdBy: user.id, createdAt: now() });
+    if (error) throw error;
+    if (versions.length > 0) {
+      const { error: rowsError } = await db().insert('baselineCases', versions.map(v => ({
+        baselineId: data[0].id, caseId: v.caseId, versionId: v.id, version: v.version
+      })));
+      if (rowsError) throw rowsError;
+    }
+    return { ...data[0], caseCount: versions.length };
+  }
+
+  static async remove(baselineId: string): Promise<void> {
+    const { data: baseline } = await db().selectOne<Baseline>('baselines', { eq: { id: baselineId } });
+    await requireDocumentPermission(baseline?.documentId, 'MANAGE_CASES');
+    await db().remove('baselines', { eq: { id: baselineId } });
+  }
+
+  // The cases as they were when the baseline was taken
+  static async getCases(baselineId: string): Promise<TestCase[]> {
+    const { data: rows } = await db().select<BaselineCase>('baselineCases', { eq: { baselineId } });
+    if (rows.length === 0) return [];
+    const { data: versions } = await db().select<CaseVersion>('caseVersions', { in: { id: rows.map(r => r.versionId) } });
+    return versions.map(v => v.snapshot);
+  }
+}
+
+
+// --- Shared steps (blocks referenced from case steps, see utils/sharedSteps.ts) ---
+export class SharedStepService {
+  static async getAll(): Promise<SharedStep[]> {
+    const { data } = await db().select<SharedStep>('sharedSteps', { order: { column: 'name' } });
+    return data;
+  }
+
+  // Cases with their block references replaced by the block steps
+  static async expandCases<T extends Pick<TestCase, 'steps'>>(cases: T[]): Promise<T[]> {
+    const ids = sharedStepIdsOf(cases);
+    if (ids.length === 0) return cases;
+    const { data } = await db().select<SharedStep>('sharedSteps', { in: { id: ids } });
+    const blocks = new Map(data.map(b => [b.id, b]));
+    return cases.map(c => expandCaseSteps(c, blocks));
+  }
+
+  // Live cases (in documents the user can see) that reference the block
+  static async getUsages(id: string): Promise<TestCase[]> {
+    const docs = await DriveService.getAllDocuments();
+    if (docs.length === 0) return [];
+    const cases = await TestCaseService.getCasesByDocumentIds(docs.map(d => d.id));
+    return cases.filter(c => usesSharedStep(c, id));
+  }
+
+  static async create(data: Pick<SharedStep, 'name' | 'description' | 'steps'>, user: User): Promise<SharedStep> {
+    requirePermission('MANAGE_CASES');
+    const { data: inserted, error } = await db().insert<SharedStep>('sharedSteps', {
+      ...SharedStepService.normalize(data),
+      createdBy: user.id,
+      createdAt: now(),
+      updatedAt: now()
     });
+    if (error) throw error;
+    return inserted[0];
+  }
+
+  // Every case that references the block shows the new steps from now on, so for each of them (in any document)
+  // this is a content edit: logged with a version of the expanded steps, and approved cases go back to Draft
+  static async update(id: string, patch: Pick<SharedStep, 'name' | 'description' | 'steps'>, user: User): Promise<SharedStep> {
+    requirePermission('MANAGE_CASES');
+    const { data: cases } = await db().select<TestCase>('testCases', { eq: { deletedAt: null } });
+    const usages = cases.filter(c => usesSharedStep(c, id));
+    const before = await SharedStepService.expandCases(usages);
+
+    const { data, error } = await db().update<SharedStep>('sharedSteps', { eq: { id } }, { ...SharedStepService.normalize(patch), updatedAt: now() });
+    if (error) throw error;
+    if (data.length === 0) throw new Error('공유 스텝을 찾을 수 없습니다.');
+
+    const after = await SharedStepService.expandCases(usages);
+    for (let i = 0; i < usages.length; i++) {
+      await HistoryService.logChange(before[i], after[i], user);
+      await TestCaseService.reopenIfApproved(before[i], after[i], user);
+    }
+    return data[0];
+  }
+
+  static async remove(id: string): Promise<void> {
+    requirePermission('MANAGE_CASES');
+    const { data: cases } = await db().select<TestCase>('testCases', { eq: { deletedAt: null } });
+    const used = cases.filter(c => usesSharedStep(c, id)).length;
+    if (used > 0) throw new Error(`${used}개 케이스에서 사용 중인 공유 스텝은 삭제할 수 없습니다.`);
+    await db().remove('sharedSteps', { eq: { id } });
+  }
+
+  // Blocks hold plain steps only (no nested references), each with an id for step results
+  private static normalize(data: Pick<SharedStep, 'name' | 'description' | 'steps'>) {
+    if (!data.name.trim()) throw new Error('이름을 입력하세요.');
+    const steps: TestStep[] = (data.steps || [])
+      .filter(s => !isSharedStepRef(s))
+      .map(s => ({ id: s.id || generateId(), step: s.step || '', expected: s.expected || '' }));
+    if (steps.length === 0) throw new Error('스텝을 하나 이상 입력하세요.');
+    return { name: data.name.trim(), description: data.description || '', steps };
   }
 }
 
+const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+// Files for cases and results. Uploads never overwrite: each file gets its own path, so pinned cases,
+// case versions and completed-run snapshots that copied the metadata keep working.
+export class AttachmentService {
+  private static pathFor(folder: string, id: string, name: string) {
+    return `${folder}/${id}-${name.replace(/[^\w.-]+/g, '_')}`;
+  }
+
+  private static async upload(folder: string, file: File | Blob, user: User): Promise<Attachment> {
+    if (file.size > MAX_ATTACHMENT_BYTES) throw new Error(`첨부 파일은 ${MAX_ATTACHMENT_BYTES / 1024 / 1024}MB 이하만 올릴 수 있습니다.`);
+    const id = generateId();
+    const name = (file as File).name || `pasted-${new Date().toISOString().replace(/[:.]/g, '-')}.${(file.type.split('/')[1] || 'bin').split('+')[0]}`;
+    const path = AttachmentService.pathFor(folder, id, name);
+    const contentType = file.type || 'application/octet-stream';
+    const { error } = await files().upload(path, file, contentType);
+    if (error) throw new Error(`파일을 올리지 못했습니다: ${error.message}`);
+    return { id, name, contentType, size: file.size, path, uploadedBy: user.id, createdAt: now() };
+  }
+
+  static async getUrl(attachment: Attachment): Promise<string | null> {
+    const { data } = await files().getUrl(attachment.path);
+    return data;
+  }
+
+  // Copies files onto another case (new ids and paths), so detaching or deleting on one side leaves the other intact
+  static async copyToCase(tc: TestCase, attachments: Attachment[]): Promise<TestCase> {
+    const copies: Attachment[] = [];
+    for (const a of attachments) {
+      const id = generateId();
+      const path = AttachmentService.pathFor(`cases/${tc.id}`, id, a.name);
+      const { error } = await files().copy(a.path, path);
+      if (error) throw new Error(`파일을 복사하지 못했습니다: ${error.message}`);
+      copies.push({ ...a, id, path });
+    }
+    const { data: updated, error } = await db().update<TestCase>('testCases', { eq: { id: tc.id } }, { attachments: [...(tc.attachments || []), ...copies] });
+    if (error) throw error;
+    return updated[0];
+  }
+
+  // Document and folder copies (duplicate_document) copy the attachment list only; cases that still point at
+  // another case's files get their own copies
+  static async copyBorrowedFiles(documentIds: string[]): Promise<void> {
+    if (documentIds.length === 0) return;
+    const cases = await TestCaseService.getCasesByDocumentIds(documentIds);
+    for (const tc of cases) {
+      const own = (tc.attachments || []).filter(a => a.path.startsWith(`cases/${tc.id}/`));
+      const borrowed = (tc.attachments || []).filter(a => !own.includes(a));
+      if (borrowed.length > 0) await AttachmentService.copyToCase({ ...tc, attachments: own }, borrowed);
+    }
+  }
+
+  static async addToCase(caseId: string, fileList: (File | Blob)[], user: User): Promise<TestCase> {
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: caseId, deletedAt: null } });
+    if (!tc) throw new Error('케이스를 찾을 수 없습니다.');
+    await requireDocumentPermission(tc.documentId, 'MANAGE_CASES');
+    const added: Attachment[] = [];
+    for (const file of fileList) added.push(await AttachmentService.upload(`cases/${caseId}`, file, user));
+    return AttachmentService.setCaseAttachments(tc, [...(tc.attachments || []), ...added], user);
+  }
+
+  // Only detaches: the file stays for the versions and run snapshots that still list it
+  static async removeFromCase(caseId: string, attachmentId: string, user: User): Promise<TestCase> {
+    const { data: tc } = await db().selectOne<TestCase>('testCases', { eq: { id: caseId, deletedAt: null } });
+    if (!tc) throw new Error('케이스를 찾을 수 없습니다.');
+    await requireDocumentPermission(tc.documentId, 'MANAGE_CASES');
+    return AttachmentService.setCaseAttachments(tc, (tc.attachments || []).filter(a => a.id !== attachmentId), user);
+  }
+
+  private static async setCaseAttachments(tc: TestCase, attachments: Attachment[], user: User): Promise<TestCase> {
+    const { data: updated, error } = await db().update<TestCase>('testCases', { eq: { id: tc.id } }, { attachments, updatedAt: now() });
+    if (error) throw error;
+    const names = (list: Attachment[]) => list.map(a => a.name).join(', ') || null;
+    await HistoryService.logEvent(tc.id, 'UPDATE', [{ field: 'attachments', oldVal: names(tc.attachments || []), newVal: names(attachments) }], user);
+    return updated[0];
+  }
+
+  // Result files are uploaded first and saved with the result (RunService.saveResult) by the runner
+  static async uploadForResult(runId: string, fileList: (File | Blob)[], user: User): Promise<Attachment[]> {
+    requirePermission('EXECUTE_RUNS');
+    const run = await RunService.getById(runId);
+    if (!run || run.status === 'COMPLETED') throw new Error('완료된 런에는 파일을 올릴 수 없습니다.');
+    const added: Attachment[] = [];
+    for (const file of fileList) added.push(await AttachmentService.upload(`runs/${runId}`, file, user));
+    return added;
+  }
+
+  // For result files dropped before the run completes; nothing else refers to them yet
+  static async deleteResultFiles(runId: string, attachments: Attachment[]): Promise<void> {
+    requirePermission('EXECUTE_RUNS');
+    const run = await RunService.getById(runId);
+    if (!run || run.status === 'COMPLETED') return;
+    await files().remove(attachments.map(a => a.path).filter(path => path.startsWith(`runs/${runId}/`)));
+  }
+}
+
+type DefectFields = Pick<Defect, 'title' | 'description' | 'severity' | 'assigneeId' | 'externalUrl'>;
+
+const TRACKER_SYNC_BATCH = 50; // Keys per tracker query, keeps the JQL short
+
+// closedAt follows the status: set when a defect becomes RESOLVED / CLOSED, cleared on reopen
+const defectStatusChanges = (current: Defect, status: Defect['status']): Partial<Defect> => {
+  if (status === current.status) return {};
+  const closed = isDefectClosed(status);
+  if (closed && !isDefectClosed(current.status)) return { status, closedAt: now() };
+  return closed ? { status } : { status, closedAt: null };
+};
+
+export class DefectService {
+  // Unlinked defects are visible to everyone; linked ones when one of their documents is readable
+  private static visibleDefects(defects: Defect[], links: DefectLink[], readableDocIds: Set<string>): Defect[] {
+    return defects.filter(d => {
+      const own = links.filter(l => l.defectId === d.id);
+      return own.length === 0 || own.some(l => !l.documentId || readableDocIds.has(l.documentId));
+    });
+  }
+
+  static async getAll(): Promise<Defect[]> {
+    const [{ data: defects }, { data: links }, docs] = await Promise.all([
+      db().select<Defect>('defects', { order: { column: 'createdAt', ascending: false } }),
+      db().select<DefectLink>('defectLinks'),
+      DriveService.getAllDocuments()
+    ]);
+    return DefectService.visibleDefects(defects, links, new Set(docs.map(d => d.id)));
+  }
+
+  static async getLinks(defectIds: string[]): Promise<DefectLink[]> {
+    if (defectIds.length === 0) return [];
+    const { data } = await db().select<DefectLink>('defectLinks', { in: { defectId: defectIds }, order: { column: 'createdAt' } });
+    return data;
+  }
+
+  // Links with the case and run titles to show; a purged case falls back to the copy its run pinned
+  static async describeLinks(links: DefectLink[]): Promise<DescribedDefectLink[]> {
+    if (links.length === 0) return [];
+    const caseIds = Array.from(new Set(links.map(l => l.caseId)));
+    const runIds = Array.from(new Set(links.map(l => l.runId).filter((id): id is string => !!id)));
+    const [{ data: cases }, { data: runs }, { data: pins }] = await Promise.all([
+      db().select<TestCase>('testCases', { in: { id: caseIds } }),
+      runIds.length ? db().select<TestRun>('testRuns', { in: { id: runIds } }) : Promise.resolve({ data: [] as TestRun[] }),
+      runIds.length ? db().select<RunCase>('runCases', { in: { runId: runIds, caseId: caseIds } }) : Promise.resolve({ data: [] as RunCase[] })
+    ]);
+    return links.map(l => {
+      const tc = cases.find(c => c.id === l.caseId) || pins.find(p => p.runId === l.runId && p.caseId === l.caseId)?.snapshot;
+      return {
+        ...l,
+        caseTitle: tc?.title || 'Unknown Case',
+        caseSeqId: tc?.seq_id,
+        caseDeleted: !cases.some(c => c.id === l.caseId && !c.deletedAt),
+        runTitle: runs.find(r => r.id === l.runId)?.title
+      };
+    });
+  }
+
+  // Defects filed against a run, one entry per link (a defect found in two results appears twice)
+  static async getRunDefects(runId: string): Promise<{ defect: Defect, link: DefectLink }[]> {
+    const { data: links } = await db().select<DefectLink>('defectLinks', { eq: { runId }, order: { column: 'createdAt' } });
+    return DefectService.withDefects(links);
+  }
+
+  static async getResultDefects(resultId: string): Promise<{ defect: Defect, link: DefectLink }[]> {
+    const { data: links } = await db().select<DefectLink>('defectLinks', { eq: { resultId }, order: { column: 'createdAt' } });
+    return DefectService.withDefects(links);
+  }
+
+  private static async withDefects(links: DefectLink[]): Promise<{ defect: Defect, link: DefectLink }[]> {
+    if (links.length === 0) return [];
+    const { data: defects } = await db().select<Defect>('defects', { in: { id: Array.from(new Set(links.map(l => l.defectId))) } });
+    const byId = new Map(defects.map(d => [d.id, d]));
+    return links.filter(l => byId.has(l.defectId)).map(l => ({ defect: byId.get(l.defectId)!, link: l }));
+  }
+
+  // Defects follow their cases: filing, linking or editing one needs EXECUTE_RUNS on the case's document,
+  // or a run over that document assigned to the user. The stored case decides the document; the
+  // target's documentId only covers purged cases.
+  private static async requireTargetPermission(target: DefectLinkTarget): Promise<string | null> {
+    const [{ data: tc }, run] = await Promise.all([
+      db().selectOne<TestCase>('testCases', { eq: { id: target.caseId } }),
+      target.runId ? RunService.getById(target.runId) : Promise.resolve(null)
+    ]);
+    const documentId = tc?.documentId || target.documentId || null;
+    const user = AuthService.getCurrentUser();
+    const assigned = !!run && !!user && !!documentId && (run.assignees || []).includes(user.id) && (run.target_document_ids || []).includes(documentId);
+    if (!assigned) await requireDocumentPermission(documentId || undefined, 'EXECUTE_RUNS');
+    return documentId;
+  }
+
+  // Access to the documents of every linked case (the stored case's document; the link's copy once the case is gone)
+  private static async requireLinkedPermission(defectId: string) {
+    const { data: links } = await db().select<DefectLink>('defectLinks', { eq: { defectId } });
+    if (links.length === 0) return;
+    const { data: cases } = await db().select<TestCase>('testCases', { in: { id: Array.from(new Set(links.map(l => l.caseId))) } });
+    const caseDocs = new Map(cases.map(c => [c.id, c.documentId]));
+    const documentIds = links.map(l => caseDocs.get(l.caseId) || l.documentId).filter((id): id is string => !!id);
+    for (const documentId of new Set(documentIds)) {
+      await requireDocumentPermission(documentId, 'EXECUTE_RUNS');
+    }
+  }
+
+  static async create(data: DefectFields & Partial<Pick<Defect, 'status'>>, user: User, target?: DefectLinkTarget): Promise<Defect> {
+    requirePermission('EXECUTE_RUNS');
+    if (!data.title?.trim()) throw new Error('결함 제목을 입력하세요.');
+    if (target) await DefectService.requireTargetPermission(target);
+    const status = data.status || 'OPEN';
+    const { data: inserted, error } = await db().insert<Defect>('defects', {
+      title: data.title.trim(),
+      description: data.description || '',
+      status,
+      severity: data.severity || 'MAJOR',
+      closedAt: isDefectClosed(status) ? now() : null,
+      assigneeId: data.assigneeId || null,
+      externalUrl: data.externalUrl || null,
+      reporterId: user.id,
+      createdAt: now(),
+      updatedAt: now()
+    });
+    if (error) throw error;
+    if (target) await DefectService.link(inserted[0].id, target);
+    return inserted[0];
+  }
+
+  // closedAt follows the status: set when it becomes RESOLVED / CLOSED, cleared when reopened
+  static async update(id: string, patch: Partial<DefectFields & Pick<Defect, 'status'>>): Promise<Defect> {
+    requirePermission('EXECUTE_RUNS');
+    const { data: current } = await db().selectOne<Defect>('defects', { eq: { id } });
+    if (!current) throw new Error('결함을 찾을 수 없습니다.');
+    await DefectService.requireLinkedPermission(id);
+    if (patch.title !== undefined && !patch.title.trim()) throw new Error('결함 제목을 입력하세요.');
+
+    const changes: Partial<Defect> = { ...patch, ...(patch.status ? defectStatusChanges(current, patch.status) : {}), updatedAt: now() };
+    if (patch.title !== undefined) changes.title = patch.title.trim();
+    const { data, error } = await db().update<Defect>('defects', { eq: { id } }, changes);
+    if (error) throw error;
+    return data[0];
+  }
+
+  static async link(defectId: string, target: DefectLinkTarget): Promise<DefectLink> {
+    requirePermission('EXECUTE_RUNS');
+    const documentId = await DefectService.requireTargetPermission(target);
+    const { data: existing } = await db().selectOne<DefectLink>('defectLinks', {
+      eq: { defectId, caseId: target.caseId, resultId: target.resultId || null }
+    });
+    if (existing) return existing;
+
+    const { data, error } = await db().insert<DefectLink>('defectLinks', {
+      defectId,
+      caseId: target.caseId,
+      documentId,
+      runId: target.runId || null,
+      resultId: target.resultId || null,
+      rowId: target.rowId || null,
+      createdAt: now()
+    });
+    if (error) throw error;
+    return data[0];
+  }
+
+  static async unlink(linkId: string): Promise<void> {
+    requirePermission('EXECUTE_RUNS');
+    const { data: link } = await db().selectOne<DefectLink>('defectLinks', { eq: { id: linkId } });
+    if (link?.documentId) await requireDocumentPermission(link.documentId, 'EXECUTE_RUNS');
+    await db().remove('defectLinks', { eq: { id: linkId } });
+  }
+
+  static async remove(id: string): Promise<void> {
+    requirePermission('MANAGE_RUNS');
+    await DefectService.requireLinkedPermission(id);
+    await db().remove('defects', { eq: { id } });
+  }
+
+  // Name of the configured issue tracker; null when defects stay in the app
+  static trackerName(): string | null {
+    return getIssueTracker()?.name || null;
+  }
+
+  // File the defect in the external tracker and keep the returned key and link
+  static async createIssue(id: string, input: TrackerIssueInput): Promise<Defect> {
+    requirePermission('EXECUTE_RUNS');
+    const tracker = getIssueTracker();
+    if (!tracker) throw new Error('이슈 트래커가 설정되지 않았습니다.');
+    const { data: current } = await db().selectOne<Defect>('defects', { eq: { id } });
+    if (!current) throw new Error('결함을 찾을 수 없습니다.');
+    await DefectService.requireLinkedPermission(id);
+    if (current.externalKey) throw new Error(`이미 ${current.externalKey} 이슈로 등록된 결함입니다.`);
+    if (!input.summary.trim()) throw new Error('이슈 요약을 입력하세요.');
+
+    const { data: issue, error } = await tracker.createIssue({ ...input, summary: input.summary.trim() });
+    if (error) throw new Error(`${tracker.name} 이슈를 만들지 못했습니다: ${error.message}`);
+    const { data, error: saveError } = await db().update<Defect>('defects', { eq: { id } }, {
+      externalKey: issue.key,
+      externalUrl: issue.url,
+      externalStatus: issue.status,
+      externalSyncedAt: now(),
+      updatedAt: now()
+    });
+    if (saveError) throw saveError;
+    return data[0];
+  }
+
+  // Pull the tracker status of filed defects; the local status follows the tracker's status category
+  static async syncIssues(defects: Defect[]): Promise<Defect[]> {
+    requirePermission('EXECUTE_RUNS');
+    const tracker = getIssueTracker();
+    const filed = defects.filter(d => d.externalKey);
+    if (!tracker || filed.length === 0) return defects;
+
+    const synced = new Map<string, Defect>();
+    for (let i = 0; i < filed.length; i += TRACKER_SYNC_BATCH) {
+      const batch = filed.slice(i, i + TRACKER_SYNC_BATCH);
+      const { data: issues, error } = await tracker.getIssues(batch.map(d => d.externalKey!));
+      if (error) throw new Error(`${tracker.name} 상태를 가져오지 못했습니다: ${error.message}`);
+      for (const d of batch) {
+        const issue = issues.find(x => x.key === d.externalKey);
+        if (!issue) continue;
+        const changes: Partial<Defect> = {
+          ...defectStatusChanges(d, defectStatusFromTracker(issue.statusCategory, d.status)),
+          externalStatus: issue.status,
+          externalUrl: issue.url,
+          externalSyncedAt: now()
+        };
+        if (changes.status) changes.updatedAt = now();
+        const { data } = await db().update<Defect>('defects', { eq: { id: d.id } }, changes);
+        if (data[0]) synced.set(d.id, data[0]);
+      }
+    }
+    return defects.map(d => synced.get(d.id) || d);
+  }
+
+  // Defects found in the given documents (null: every visible defect, linked or not)
+  static async getForDocuments(documentIds: string[] | null): Promise<Defect[]> {
+    if (documentIds === null) return DefectService.getAll();
+    if (documentIds.length === 0) return [];
+    const { data: links } = await db().select<DefectLink>('defectLinks', { in: { documentId: documentIds } });
+    if (links.length === 0) return [];
+    const { data } = await db().select<Defect>('defects', { in: { id: Array.from(new Set(links.map(l => l.defectId))) } });
+    return data;
+  }
+}
+
+const DEFECT_TREND_DAYS = 14;
 
 export class DashboardService {
   static async getStats(contextId: string | null, contextType: 'FOLDER' | 'DOCUMENT' | 'ALL'): Promise<any> {
@@ -495,77 +2018,69 @@ export class DashboardService {
       targetDocIds = [contextId];
     } else if (contextType === 'FOLDER' && contextId) {
       // Use the recursive function we created in Phase 1
-      const { data, error } = await supabase.rpc('get_recursive_document_ids', { root_folder_id: contextId });
-      if (!error && data) targetDocIds = data.map((d: any) => d.id);
+      const { data, error } = await db().rpc<{ doc_id: string }[]>('get_recursive_document_ids', { target_folder_id: contextId });
+      if (!error && data) targetDocIds = data.map(d => d.doc_id);
     } else {
       // ALL: Fetch all documents
-      const { data } = await supabase.from('documents').select('id');
-      if (data) targetDocIds = data.map(d => d.id);
+      const { data } = await db().select<Document>('documents');
+      targetDocIds = data.map(d => d.id);
     }
 
+    // Only count documents the current user can see (folder ACLs)
+    const readableDocIds = new Set((await DriveService.getAllDocuments()).map(d => d.id));
+    targetDocIds = targetDocIds.filter(id => readableDocIds.has(id));
+
     if (targetDocIds.length === 0) {
-      return { totalCases: 0, activeRuns: 0, passRate: 0, defectCount: 0, chartData: [] };
+      return { totalCases: 0, activeRuns: 0, passRate: 0, defectCount: 0, closedDefectCount: 0, defectTrend: [], chartData: [] };
     }
 
     // 2. Fetch Aggregated Data
     // Total Cases
-    const { count: totalCases } = await supabase
-      .from('testCases')
-      .select('id', { count: 'exact', head: true })
-      .in('documentId', targetDocIds);
+    const { data: totalCases } = await db().count('testCases', { eq: { deletedAt: null }, in: { documentId: targetDocIds } });
 
     // Active Runs (Runs that target these docs and are OPEN)
-    const { data: allOpenRuns } = await supabase
-      .from('testRuns')
-      .select('id, target_document_ids')
-      .eq('status', 'OPEN');
+    const { data: allOpenRuns } = await db().select<TestRun>('testRuns', { eq: { status: 'OPEN' } });
 
-    const activeRuns = (allOpenRuns || []).filter(r =>
+    const activeRuns = allOpenRuns.filter(r =>
       (r.target_document_ids || []).some((id: string) => targetDocIds.includes(id))
     ).length;
 
-    // Defects (Issues in Results linked to these docs)
-    // Results -> Run -> target_docs? Or Results -> Case -> Document
-    // We need to join. 
-    // Optimization: defects count from results where caseId in (select id from cases where documentId in targetDocIds)
-    // This is expensive. Let's do a simpler approach or direct join if possible.
-    // Supabase JS doesn't do deep joins easily for count.
-
-    // Alternative: Fetch all latest results for these docs? Too heavy.
-    // Let's rely on Run Results where run.target_docs overlaps.
-
-    // For MVP/Proto:
-    const defectCount = 0; // Placeholder until we have a defects table or better query
+    // Defects found in these documents (ALL also counts defects not linked to any case)
+    const defects = await DefectService.getForDocuments(contextType === 'ALL' ? null : targetDocIds);
+    const defectCount = defects.filter(d => !isDefectClosed(d.status)).length;
+    const closedDefectCount = defects.length - defectCount;
+    const defectTrendData = defectTrend(defects, DEFECT_TREND_DAYS);
 
     // Pass Rate (from completed runs targeting these docs)
     // Fetch recent completed runs, then filter in JS to avoid JSONB overlap limitation in PostgREST
-    const { data: allRecentRuns } = await supabase
-      .from('testRuns')
-      .select('target_document_ids, snapshot_data, completedAt')
-      .eq('status', 'COMPLETED')
-      .order('completedAt', { ascending: false })
-      .limit(100);
-
-    const recentRuns = (allRecentRuns || [])
+    const { data: allRecentRuns } = await db().select<TestRun>('testRuns', {
+      eq: { status: 'COMPLETED' },
+      order: { column: 'completedAt', ascending: false },
+      limit: 100
+    });
+
+    const recentRuns = allRecentRuns
       .filter(r => (r.target_document_ids || []).some((id: string) => targetDocIds.includes(id)))
       .slice(0, 10);
 
+    const registry = await TestStatusService.getAll();
     let totalPass = 0;
     let totalExecuted = 0;
 
     const chartData = (recentRuns || []).reverse().map((run: any, idx: number) => {
       const snap = run.snapshot_data || {};
-      const results = snap.results || [];
-      const pass = results.filter((r: any) => r.status === 'PASS').length;
-      const fail = results.filter((r: any) => r.status === 'FAIL').length;
+      // The run's own cases that belong to the context documents, rolled up over their configurations
+      // per execution like the runner counts them
+      const cases = (snap.cases || []).filter((c: TestCase) => targetDocIds.includes(c.documentId));
+      const { counts } = summarizeRun(registry, cases, snap.results || [], runEnvironments(run));
 
-      totalPass += pass;
-      totalExecuted += results.length;
+      totalPass += counts.passed;
+      totalExecuted += counts.executed;
 
       return {
         name: `Run ${idx + 1}`,
-        passed: pass,
-        failed: fail
+        passed: counts.passed,
+        failed: Object.entries(counts.byStatus).filter(([code]) => isFailing(registry, code)).reduce((sum, [, n]) => sum + n, 0)
       };
     });
 
@@ -576,6 +2091,8 @@ export class DashboardService {
       activeRuns: activeRuns || 0,
       passRate,
       defectCount,
+      closedDefectCount,
+      defectTrend: defectTrendData,
       chartData
     };
   }
@@ -1,11 +1,13 @@
 export type Role = 'ADMIN' | 'INTERNAL' | 'EXTERNAL';
 export type UserStatus = 'ACTIVE' | 'INACTIVE';
 export type ProjectStatus = 'ACTIVE' | 'ARCHIVED'; // Deprecated but kept for type compatibility during migration if needed
-export type TestStatus = 'PASS' | 'FAIL' | 'BLOCK' | 'NA' | 'UNTESTED';
+// Code of a status in the registry (testStatuses); PASS, FAIL, BLOCK, NA and UNTESTED are built in
+export type TestStatus = string;
 export type CasePriority = 'HIGH' | 'MEDIUM' | 'LOW';
 export type CaseType = 'FUNCTIONAL' | 'UI' | 'PERFORMANCE' | 'SECURITY';
 export type PlatformType = 'WEB' | 'APP';
-export type DevicePlatform = 'PC' | 'iOS' | 'Android';
+// Configuration a result was recorded on: an environment id of the run's matrix, or PC / iOS / Android without one
+export type DevicePlatform = string;
 
 export interface User {
   id: string;
@@ -15,6 +17,42 @@ export interface User {
   status: UserStatus;
 }
 
+// [NEW] Auth
+export interface UserCredential {
+  userId: string;
+  passwordHash: string; // bcrypt (crypt/gen_salt in 21_auth_rpc.sql); pbkdf2$<iterations>$<salt>$<hash> in the local store and for not yet re-hashed legacy rows
+  updatedAt: string;
+}
+
+export interface AuthSession {
+  id: string;
+  userId: string;
+  token: string;
+  refreshToken: string;
+  expiresAt: string;
+  refreshExpiresAt: string;
+  createdAt: string;
+}
+
+export interface MagicLink {
+  id: string;
+  userId: string;
+  token: string;
+  expiresAt: string;
+  usedAt?: string | null;
+}
+
+// [NEW] Folder ACL: applies to the folder and everything below it
+export type FolderAccessLevel = 'VIEWER' | 'EDITOR' | 'OWNER';
+
+export interface FolderAccess {
+  id: string;
+  folderId: string;
+  userId: string;
+  level: FolderAccessLevel;
+  createdAt: string;
+}
+
 // [NEW] Folder Interface
 export interface Folder {
   id: string;
@@ -22,9 +60,23 @@ export interface Folder {
   desc?: string;
   parentId: string | null; // Root folders have null
   createdAt: string;
+  deletedAt?: string | null; // [NEW] Trash
+  trashId?: string | null;
+}
+
+// Folder or document picked in the Drive (selection, drag-and-drop, move dialog)
+export interface DriveItemRef {
+  id: string;
+  type: 'FOLDER' | 'DOCUMENT';
 }
 
 // [NEW] Document Interface (Replaces Project)
+// DriveService.duplicateDocument / duplicateFolder
+export interface DuplicateOptions {
+  targetFolderId?: string | null; // defaults to the source's own folder
+  includeHistory?: boolean; // copy the cases' history logs as well
+}
+
 export interface Document {
   id: string;
   folderId: string;
@@ -32,27 +84,113 @@ export interface Document {
   description?: string;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string | null;
+  trashId?: string | null;
 }
 
 export interface Section {
   id: string;
   documentId: string; // [CHANGED] projectId -> documentId
   title: string;
-  parentId?: string | null;
+  parentId?: string | null; // Nested sections (Feature > Screen > Scenario)
+  position?: number; // Order among siblings
+  deletedAt?: string | null;
+  trashId?: string | null;
 }
 
+// [NEW] Custom fields, defined on a folder (inherited by every document below it) or on one document
+export type CustomFieldType = 'TEXT' | 'NUMBER' | 'DATE' | 'SELECT' | 'USER';
+
+export interface CustomField {
+  id: string;
+  key: string; // TestCase.customFields is keyed by this; kept when documents/folders are copied
+  folderId: string | null;
+  documentId: string | null;
+  name: string;
+  fieldType: CustomFieldType;
+  options: string[]; // SELECT choices
+  position: number;
+  createdAt: string;
+}
+
+// TEXT/SELECT: string, NUMBER: number, DATE: 'YYYY-MM-DD', USER: user id
+export type CustomFieldValues = Record<string, string | number | null>;
+
 export interface TestStep {
   id: string;
   step: string;
   expected: string;
+  sharedStepId?: string; // Reference to a shared step block; `step` keeps the block name for display
+  sharedFrom?: { id: string, name: string }; // Set on steps expanded from a block (utils/sharedSteps.ts)
 }
 
+// Reusable block of steps referenced from cases
+export interface SharedStep {
+  id: string;
+  name: string;
+  description?: string;
+  steps: TestStep[];
+  createdBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Legacy free-text issue on a result; 17_defects.sql turned these into defects
 export interface Issue {
   id: string;
   label: string;
   url: string;
 }
 
+export type DefectStatus = 'OPEN' | 'IN_PROGRESS' | 'RESOLVED' | 'CLOSED';
+export type DefectSeverity = 'CRITICAL' | 'MAJOR' | 'MINOR' | 'TRIVIAL';
+
+export interface Defect {
+  id: string;
+  seq_id?: number; // Shown as DEF-<seq_id>
+  title: string;
+  description?: string;
+  status: DefectStatus;
+  severity: DefectSeverity;
+  assigneeId?: string | null;
+  reporterId?: string | null;
+  externalUrl?: string | null;
+  externalKey?: string | null; // Issue key in the external tracker, once filed there
+  externalStatus?: string | null; // Tracker workflow status at the last sync
+  externalSyncedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string | null; // Set while RESOLVED / CLOSED
+}
+
+// Where a defect was found: a case, and the run result when filed from the runner
+export interface DefectLink {
+  id: string;
+  defectId: string;
+  caseId: string;
+  documentId?: string | null;
+  runId?: string | null;
+  resultId?: string | null;
+  rowId?: string | null;
+  createdAt: string;
+}
+
+export type DefectLinkTarget = Pick<DefectLink, 'caseId'> & Partial<Pick<DefectLink, 'documentId' | 'runId' | 'resultId' | 'rowId'>>;
+
+// Link as listed in the defect view
+export type DescribedDefectLink = DefectLink & { caseTitle: string, caseSeqId?: number, caseDeleted: boolean, runTitle?: string };
+
+// File kept in the FileStore (src/repository/fileStore.ts); rows only hold this metadata
+export interface Attachment {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  path: string;
+  uploadedBy?: string;
+  createdAt: string;
+}
+
 export interface HistoryLog {
   id: string;
   entityType?: 'CASE' | 'RESULT';
@@ -62,6 +200,61 @@ export interface HistoryLog {
   modifierName: string;
   changes: any[];
   timestamp: string;
+  version?: number | null; // Case version created by this change (caseVersions)
+  restoredFrom?: number | null; // RESTORE: the version that was brought back
+}
+
+// Full copy of a case after a content change
+export interface CaseVersion {
+  id: string;
+  caseId: string;
+  documentId: string;
+  version: number;
+  snapshot: TestCase;
+  authorId: string | null; // null: state from before the case was versioned
+  authorName: string | null;
+  createdAt: string;
+}
+
+// Named, frozen set of case versions of a document ("v2.3 release baseline")
+export interface Baseline {
+  id: string;
+  documentId: string;
+  name: string;
+  createdBy: string | null;
+  createdAt: string;
+  caseCount?: number;
+}
+
+export interface BaselineCase {
+  id: string;
+  baselineId: string;
+  caseId: string;
+  versionId: string;
+  version: number;
+}
+
+// Parameter table of a data-driven case, see utils/parameters.ts
+export interface ParameterRow {
+  id: string;
+  values: Record<string, string>;
+}
+
+export interface CaseParameters {
+  columns: string[];
+  rows: ParameterRow[];
+}
+
+// Case lifecycle, transitions in utils/review.ts
+export type ReviewStatus = 'DRAFT' | 'IN_REVIEW' | 'APPROVED' | 'DEPRECATED';
+
+export interface ReviewComment {
+  id: string;
+  caseId: string;
+  authorId: string | null;
+  authorName: string | null;
+  body: string;
+  createdAt: string;
 }
 
 export interface TestCase {
@@ -78,8 +271,31 @@ export interface TestCase {
   updatedAt: string;
   sectionTitle?: string;
   seq_id?: number;
+  position?: number; // Manual order inside the section (seq_id breaks ties)
   note?: string;
   platform_type?: PlatformType;
+  customFields?: CustomFieldValues;
+  tags?: string[]; // Normalized, see utils/tags.ts
+  reviewStatus?: ReviewStatus; // Missing means DRAFT (getReviewStatus); rows from before the review workflow were approved by the migration / BACKFILLS
+  reviewerId?: string | null;
+  parameters?: CaseParameters | null; // Data rows for {{placeholders}}; a run executes the case once per row
+  attachments?: Attachment[]; // Reference files; changed through AttachmentService, not saveCase
+  deletedAt?: string | null;
+  trashId?: string | null;
+}
+
+// [NEW] Trash entry. Every row of the deleted subtree carries its id in `trashId`.
+export type TrashItemType = 'FOLDER' | 'DOCUMENT' | 'SECTION' | 'CASE';
+
+export interface TrashItem {
+  id: string;
+  itemType: TrashItemType;
+  itemId: string;
+  title: string;
+  folderId: string | null;
+  documentId?: string | null;
+  deletedBy: string | null;
+  deletedAt: string;
 }
 
 export interface TestRun {
@@ -90,6 +306,11 @@ export interface TestRun {
 
   // [CHANGED] Multi-document support
   target_document_ids: string[]; // JSONB array in DB
+  tag_query?: string | null; // Only cases matching e.g. "smoke AND NOT deprecated"
+  case_ids?: string[] | null; // Explicit case selection; null = every case of the target documents
+  approved_only?: boolean; // Only cases in review state APPROVED
+  pinned_at?: string | null; // When the case contents were pinned (runCases); null = legacy run, pinned on first load
+  environments?: RunEnvironment[] | null; // Environment matrix; null = WEB cases on PC, APP cases on iOS and Android
 
   // [NEW] Metadata
   phase: string;
@@ -102,6 +323,30 @@ export interface TestRun {
   completedAt?: string;
 }
 
+// One configuration of a run's environment matrix, e.g. Browser=Chrome × OS=Windows
+export interface RunEnvironment {
+  id: string; // Stored on results as device_platform
+  name: string; // "Chrome / Windows"
+  values: Record<string, string>; // Axis name -> value
+  platform_type?: PlatformType | null; // Cases it applies to; null = every case
+}
+
+// Axis the matrix editor combines into configurations
+export interface EnvironmentAxis {
+  name: string;
+  values: string[];
+}
+
+// Case content a run pinned when it started; kept when the case itself is edited or deleted
+export interface RunCase {
+  id: string;
+  runId: string;
+  caseId: string;
+  documentId: string;
+  snapshot: TestCase;
+  pinnedAt: string;
+}
+
 export interface ExecutionHistoryItem {
   status: TestStatus;
   actualResult: string;
@@ -112,6 +357,28 @@ export interface ExecutionHistoryItem {
   stepResults?: { stepId: string; status: TestStatus }[];
 }
 
+// Result status as configured by admins; counts and rollups derive from these flags (utils/testStatus.ts)
+export interface TestStatusDefinition {
+  id?: string;
+  code: TestStatus; // Stored on results; fixed once created
+  label: string;
+  color: string; // #rrggbb
+  executed: boolean; // Counts toward run progress
+  passed: boolean; // Counts toward the pass rate
+  precedence: number; // Highest wins when platforms, data rows or steps are rolled up into one status
+  position: number; // Order in pickers and charts
+  active: boolean; // Inactive statuses are no longer offered; results keep them
+  builtIn: boolean;
+}
+
+// Status counts of a run (RunService.getRunStats), per execution or per case
+export interface RunStatusCounts {
+  total: number;
+  executed: number;
+  passed: number;
+  byStatus: Record<TestStatus, number>;
+}
+
 export interface TestResult {
   id: string;
   runId: string;
@@ -125,4 +392,6 @@ export interface TestResult {
   issues?: Issue[];
   history?: ExecutionHistoryItem[];
   device_platform?: DevicePlatform;
+  rowId?: string | null; // Parameter row of a data-driven case; null for plain cases
+  attachments?: Attachment[];
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { TestCase } from '../types';
+
+// Fields that make up what a tester sees; ids, order and timestamps are not content
+export const CASE_CONTENT_FIELDS: { key: keyof TestCase, label: string }[] = [
+    { key: 'title', label: '제목' },
+    { key: 'precondition', label: '사전 조건' },
+    { key: 'steps', label: '스텝' },
+    { key: 'priority', label: '우선순위' },
+    { key: 'type', label: '유형' },
+    { key: 'platform_type', label: '플랫폼' },
+    { key: 'note', label: '비고' },
+    { key: 'tags', label: '태그' },
+    { key: 'customFields', label: '사용자 정의 필드' },
+    { key: 'parameters', label: '파라미터' },
+];
+
+export interface CaseFieldChange {
+    key: keyof TestCase;
+    label: string;
+    before: any;
+    after: any;
+}
+
+// Empty values compare equal ('' / null / missing, [] / missing)
+const normalize = (key: keyof TestCase, value: any) => {
+    if (key === 'steps') return (value || []).map((s: any) => ({ step: s.step || '', expected: s.expected || '' }));
+    if (key === 'tags') return value || [];
+    if (key === 'customFields') {
+        return Object.fromEntries(Object.entries(value || {}).filter(([, v]) => v !== null && v !== '').sort(([a], [b]) => a.localeCompare(b)));
+    }
+    if (key === 'parameters') return value?.rows?.length ? value : null;
+    return value ?? '';
+};
+
+// Content fields that differ between two versions of a case
+export const diffCaseContent = (before: TestCase, after: TestCase): CaseFieldChange[] =>
+    CASE_CONTENT_FIELDS
+        .filter(({ key }) => JSON.stringify(normalize(key, before[key])) !== JSON.stringify(normalize(key, after[key])))
+        .map(({ key, label }) => ({ key, label, before: before[key], after: after[key] }));
+
+export type CaseSetDiffStatus = 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED';
+
+export interface CaseSetDiffEntry {
+    caseId: string;
+    status: CaseSetDiffStatus;
+    before: TestCase | null;
+    after: TestCase | null;
+    changes: CaseFieldChange[];
+}
+
+// Two sets of cases matched by id (a baseline against the current document or another baseline)
+export const diffCaseSets = (before: TestCase[], after: TestCase[]): CaseSetDiffEntry[] => {
+    const afterMap = new Map(after.map(c => [c.id, c]));
+    const beforeIds = new Set(before.map(c => c.id));
+    const entries: CaseSetDiffEntry[] = before.map(b => {
+        const a = afterMap.get(b.id) || null;
+        if (!a) return { caseId: b.id, status: 'REMOVED', before: b, after: null, changes: [] };
+        const changes = diffCaseContent(b, a);
+        return { caseId: b.id, status: changes.length > 0 ? 'CHANGED' : 'UNCHANGED', before: b, after: a, changes };
+    });
+    after.filter(a => !beforeIds.has(a.id))
+        .forEach(a => entries.push({ caseId: a.id, status: 'ADDED', before: null, after: a, changes: [] }));
+    return entries.sort((x, y) => ((x.after || x.before)!.seq_id ?? 0) - ((y.after || y.before)!.seq_id ?? 0));
+};
@@ -0,0 +1,37 @@
+// Password hashing uses Web Crypto (crypto.subtle), which browsers only expose on HTTPS or localhost.
+const PBKDF2_ITERATIONS = 100000;
+
+const toHex = (buf: ArrayBuffer | Uint8Array) =>
+    Array.from(buf instanceof Uint8Array ? buf : new Uint8Array(buf)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const randomToken = (bytes = 32): string => {
+    const arr = new Uint8Array(bytes);
+    crypto.getRandomValues(arr);
+    return toHex(arr);
+};
+
+const derive = async (password: string, salt: string, iterations: number): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations },
+        key,
+        256
+    );
+    return toHex(bits);
+};
+
+// Stored format: pbkdf2$<iterations>$<salt>$<hash>
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomToken(16);
+    return `pbkdf2$${PBKDF2_ITERATIONS}$${salt}$${await derive(password, salt, PBKDF2_ITERATIONS)}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [scheme, iterations, salt, hash] = stored.split('$');
+    if (scheme !== 'pbkdf2' || !salt || !hash) return false;
+    const candidate = await derive(password, salt, parseInt(iterations, 10));
+    // Constant-time compare
+    let diff = candidate.length ^ hash.length;
+    for (let i = 0; i < Math.min(candidate.length, hash.length); i++) diff |= candidate.charCodeAt(i) ^ hash.charCodeAt(i);
+    return diff === 0;
+};
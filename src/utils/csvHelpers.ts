@@ -1,4 +1,6 @@
-import { TestCase, Section } from '../types';
+import { TestCase, Section, User, Role, CustomField } from '../types';
+import { getSectionPath, sortCasesBySection } from './sectionTree';
+import { formatCustomFieldValue } from './customFields';
 
 export const parseCSV = (text: string): string[][] => {
   const rows: string[][] = [];
@@ -43,14 +45,16 @@ export const parseCSV = (text: string): string[][] => {
   return rows;
 };
 
-export const exportToCSV = (cases: TestCase[], sections: Section[]) => {
-  const sectionMap = new Map(sections.map(s => [s.id, s.title]));
-  const headers = ['Section', 'Title', 'Priority', 'Type', 'Precondition', 'Note', 'Step Action', 'Step Expected'];
+export const exportToCSV = (cases: TestCase[], sections: Section[], customFields: CustomField[] = [], users: User[] = []) => {
+  // Nested sections are exported as "Feature > Screen" paths (import recreates the hierarchy)
+  const sectionMap = new Map(sections.map(s => [s.id, getSectionPath(sections, s.id)]));
+  // Custom fields follow Note, one column each (named after the field so import maps them back)
+  const headers = ['Section', 'Title', 'Priority', 'Type', 'Precondition', 'Note', 'Tags', ...customFields.map(f => f.name), 'Step Action', 'Step Expected'];
   
   const rows: string[][] = [];
   rows.push(headers);
 
-  cases.forEach(tc => {
+  sortCasesBySection(cases, sections).forEach(tc => {
     const sectionTitle = sectionMap.get(tc.sectionId) || '';
     const firstStep = tc.steps[0] || { step: '', expected: '' };
     rows.push([
@@ -60,13 +64,15 @@ export const exportToCSV = (cases: TestCase[], sections: Section[]) => {
       tc.type,
       tc.precondition.replace(/\n/g, '\\n'),
       tc.note ? tc.note.replace(/\n/g, '\\n') : '', // [추가] Note 데이터 매핑
+      (tc.tags || []).join(', '),
+      ...customFields.map(f => formatCustomFieldValue(f, tc.customFields?.[f.key], users).replace(/\n/g, '\\n')),
       firstStep.step.replace(/\n/g, '\\n'),
       firstStep.expected.replace(/\n/g, '\\n')
     ]);
 
     for (let i = 1; i < tc.steps.length; i++) {
       rows.push([
-        '', '', '', '', '', '',
+        '', '', '', '', '', '', '', ...customFields.map(() => ''),
         tc.steps[i].step.replace(/\n/g, '\\n'),
         tc.steps[i].expected.replace(/\n/g, '\\n')
       ]);
@@ -92,3 +98,33 @@ export const exportToJSON = (cases: TestCase[]) => {
   link.download = `test_cases_backup_${new Date().toISOString().slice(0,10)}.json`;
   link.click();
 };
+
+// User import: header row with name,email[,role] (case-insensitive, any column order). Role defaults to INTERNAL.
+export const parseUserCSV = (text: string): { users: Pick<User, 'name' | 'email' | 'role'>[]; errors: string[] } => {
+  const matrix = parseCSV(text.replace(/^\uFEFF/, '')).filter(row => row.some(cell => cell.trim()));
+  const users: Pick<User, 'name' | 'email' | 'role'>[] = [];
+  const errors: string[] = [];
+  if (matrix.length === 0) return { users, errors: ['빈 파일입니다.'] };
+
+  const header = matrix[0].map(h => h.trim().toLowerCase());
+  const nameIdx = header.indexOf('name');
+  const emailIdx = header.indexOf('email');
+  const roleIdx = header.indexOf('role');
+  if (nameIdx < 0 || emailIdx < 0) return { users, errors: ['헤더에 name, email 컬럼이 필요합니다.'] };
+
+  const roles: Role[] = ['ADMIN', 'INTERNAL', 'EXTERNAL'];
+  matrix.slice(1).forEach((row, i) => {
+    const line = i + 2;
+    const name = (row[nameIdx] || '').trim();
+    const email = (row[emailIdx] || '').trim();
+    const role = ((roleIdx >= 0 ? row[roleIdx] : '') || 'INTERNAL').trim().toUpperCase() as Role;
+    if (!name || !/^[^\s@]+@[^\s@]+$/.test(email)) {
+      errors.push(`${line}행: 이름 또는 이메일이 올바르지 않습니다.`);
+    } else if (!roles.includes(role)) {
+      errors.push(`${line}행: 알 수 없는 권한 '${role}'`);
+    } else {
+      users.push({ name, email, role });
+    }
+  });
+  return { users, errors };
+};
@@ -0,0 +1,67 @@
+import { CustomField, CustomFieldType, CustomFieldValues, TestCase, User } from '../types';
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType, label: string }[] = [
+    { value: 'TEXT', label: '텍스트' },
+    { value: 'SELECT', label: '드롭다운' },
+    { value: 'NUMBER', label: '숫자' },
+    { value: 'DATE', label: '날짜' },
+    { value: 'USER', label: '사용자' },
+];
+
+// Filter value matching cases where the field is not set
+export const CUSTOM_FIELD_EMPTY = '__EMPTY__';
+
+type Value = CustomFieldValues[string] | undefined;
+
+const isEmpty = (value: Value) => value === null || value === undefined || value === '';
+
+// Fields that apply to a document: `scopes` is the document's folder chain (root first) with the
+// document last. A key defined twice resolves to the nearest definition.
+export const resolveCustomFields = (fields: CustomField[], scopes: string[]): CustomField[] => {
+    const scopeOf = (f: CustomField) => scopes.indexOf((f.documentId || f.folderId) as string);
+    const ordered = fields
+        .filter(f => scopeOf(f) >= 0)
+        .sort((a, b) => scopeOf(a) - scopeOf(b) || a.position - b.position);
+    return ordered.filter((f, i) => !ordered.slice(i + 1).some(other => other.key === f.key));
+};
+
+export const formatCustomFieldValue = (field: CustomField, value: Value, users: User[] = []): string => {
+    if (isEmpty(value)) return '';
+    if (field.fieldType === 'USER') return users.find(u => u.id === value)?.name || String(value);
+    return String(value);
+};
+
+// Import: CSV text -> stored value. Users are matched by email or name; unknown users and invalid numbers/dates are dropped.
+export const parseCustomFieldValue = (field: CustomField, raw: string, users: User[] = []): string | number | null => {
+    const text = (raw || '').trim();
+    if (!text) return null;
+    switch (field.fieldType) {
+        case 'NUMBER': {
+            const n = Number(text.replace(/,/g, ''));
+            return Number.isFinite(n) ? n : null;
+        }
+        case 'DATE': {
+            if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+            const d = new Date(text);
+            return isNaN(d.getTime()) ? null : d.toISOString().slice(0, 10);
+        }
+        case 'SELECT':
+            return field.options.find(o => o.toLowerCase() === text.toLowerCase()) || text;
+        case 'USER': {
+            const v = text.toLowerCase();
+            return users.find(u => u.id === text || u.email.toLowerCase() === v || u.name.toLowerCase() === v)?.id || null;
+        }
+        default:
+            return text;
+    }
+};
+
+// Case list filter: TEXT matches substrings, the other types match exactly
+export const matchesCustomFieldFilter = (tc: Pick<TestCase, 'customFields'>, field: CustomField, filter: string): boolean => {
+    if (!filter) return true;
+    const value = tc.customFields?.[field.key];
+    if (filter === CUSTOM_FIELD_EMPTY) return isEmpty(value);
+    if (isEmpty(value)) return false;
+    if (field.fieldType === 'TEXT') return String(value).toLowerCase().includes(filter.toLowerCase());
+    return String(value) === filter;
+};
@@ -0,0 +1,89 @@
+import { Defect, DefectSeverity, DefectStatus, RunEnvironment, TestCase, TestResult, TestRun } from '../types';
+import { TrackerIssueInput, TrackerStatusCategory } from '../repository/types';
+import { UNTESTED } from './testStatus';
+
+export const DEFECT_STATUSES: { value: DefectStatus, label: string, closed: boolean, className: string }[] = [
+    { value: 'OPEN', label: 'Open', closed: false, className: 'bg-red-50 text-red-700 border-red-200' },
+    { value: 'IN_PROGRESS', label: 'In Progress', closed: false, className: 'bg-amber-50 text-amber-700 border-amber-200' },
+    { value: 'RESOLVED', label: 'Resolved', closed: true, className: 'bg-green-50 text-green-700 border-green-200' },
+    { value: 'CLOSED', label: 'Closed', closed: true, className: 'bg-gray-100 text-gray-500 border-gray-200' },
+];
+
+export const DEFECT_SEVERITIES: { value: DefectSeverity, label: string, className: string }[] = [
+    { value: 'CRITICAL', label: 'Critical', className: 'bg-red-600 text-white border-red-700' },
+    { value: 'MAJOR', label: 'Major', className: 'bg-orange-100 text-orange-700 border-orange-200' },
+    { value: 'MINOR', label: 'Minor', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+    { value: 'TRIVIAL', label: 'Trivial', className: 'bg-gray-50 text-gray-500 border-gray-200' },
+];
+
+export const defectStatusInfo = (status: DefectStatus) => DEFECT_STATUSES.find(s => s.value === status)!;
+export const defectSeverityInfo = (severity: DefectSeverity) => DEFECT_SEVERITIES.find(s => s.value === severity)!;
+
+export const isDefectClosed = (status: DefectStatus) => defectStatusInfo(status).closed;
+
+export const defectKey = (d: Pick<Defect, 'seq_id'>) => `DEF-${d.seq_id ?? '?'}`;
+
+export interface DefectTrendPoint {
+    date: string;   // MM-DD
+    opened: number; // Filed that day
+    closed: number; // Resolved or closed that day
+    open: number;   // Still open at the end of the day
+}
+
+// Daily opened / closed counts for the `days` days ending at `end` (inclusive), local time
+export const defectTrend = (defects: Pick<Defect, 'createdAt' | 'closedAt'>[], days: number, end = new Date()): DefectTrendPoint[] => {
+    const points: DefectTrendPoint[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+        const dayStart = new Date(end.getFullYear(), end.getMonth(), end.getDate() - i);
+        const dayEnd = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+        const within = (iso?: string | null) => !!iso && new Date(iso) >= dayStart && new Date(iso) < dayEnd;
+        points.push({
+            date: `${String(dayStart.getMonth() + 1).padStart(2, '0')}-${String(dayStart.getDate()).padStart(2, '0')}`,
+            opened: defects.filter(d => within(d.createdAt)).length,
+            closed: defects.filter(d => within(d.closedAt)).length,
+            open: defects.filter(d => new Date(d.createdAt) < dayEnd && (!d.closedAt || new Date(d.closedAt) >= dayEnd)).length,
+        });
+    }
+    return points;
+};
+
+// Local status for a tracker status category; a done issue keeps a local RESOLVED / CLOSED as it is
+export const defectStatusFromTracker = (category: TrackerStatusCategory, current: DefectStatus): DefectStatus => {
+    if (category === 'done') return isDefectClosed(current) ? current : 'RESOLVED';
+    return category === 'indeterminate' ? 'IN_PROGRESS' : 'OPEN';
+};
+
+// Issue text pre-filled from a failed result: steps with their results, the actual result and the environment
+export const issueDraft = ({ testCase, result, run, rowLabel, environment }: {
+    testCase: Pick<TestCase, 'title' | 'precondition' | 'steps'>,
+    result: Partial<TestResult>,
+    run: Pick<TestRun, 'title' | 'phase'>,
+    rowLabel?: string,
+    environment?: Pick<RunEnvironment, 'name' | 'values'> // Configuration of the run's environment matrix
+}): TrackerIssueInput => {
+    const stepStatus = new Map((result.stepResults || []).map(s => [s.stepId, s.status]));
+    const sections: string[] = [];
+    if (testCase.precondition?.trim()) sections.push(`*Precondition*\n${testCase.precondition.trim()}`);
+    if (testCase.steps.length > 0) {
+        sections.push(`*Steps*\n${testCase.steps.map((s, i) => {
+            const expected = s.expected?.trim() ? ` → ${s.expected.trim()}` : '';
+            return `${i + 1}. ${s.step.trim()}${expected} [${stepStatus.get(s.id) || UNTESTED}]`;
+        }).join('\n')}`);
+    }
+    sections.push(`*Actual result*\n${result.actualResult?.trim() || '-'}`);
+    if (result.comment?.trim()) sections.push(`*Comment*\n${result.comment.trim()}`);
+
+    const axisValues = Object.entries(environment?.values || {}).map(([axis, value]) => `${axis}=${value}`).join(', ');
+    const environmentLines = [
+        `Run: ${run.title}${run.phase ? ` (${run.phase})` : ''}`,
+        `Platform: ${environment?.name || result.device_platform || 'PC'}${axisValues ? ` (${axisValues})` : ''}`,
+        rowLabel ? `Data row: ${rowLabel}` : '',
+        typeof navigator !== 'undefined' ? `Browser: ${navigator.userAgent}` : ''
+    ].filter(Boolean);
+    sections.push(`*Environment*\n${environmentLines.map(e => `- ${e}`).join('\n')}`);
+
+    return {
+        summary: rowLabel ? `${testCase.title} [${rowLabel}]` : testCase.title,
+        description: sections.join('\n\n')
+    };
+};
@@ -0,0 +1,37 @@
+import { EnvironmentAxis, PlatformType, RunEnvironment, TestCase, TestResult, TestRun } from '../types';
+
+// Runs without a matrix: WEB cases on PC, APP cases on iOS and Android (ids match results recorded before matrices)
+export const LEGACY_ENVIRONMENTS: RunEnvironment[] = [
+    { id: 'PC', name: 'WEB', values: {}, platform_type: 'WEB' },
+    { id: 'iOS', name: 'iOS', values: {}, platform_type: 'APP' },
+    { id: 'Android', name: 'Android', values: {}, platform_type: 'APP' },
+];
+
+export const runEnvironments = (run: Pick<TestRun, 'environments'> | null | undefined): RunEnvironment[] =>
+    run?.environments && run.environments.length > 0 ? run.environments : LEGACY_ENVIRONMENTS;
+
+// Configurations a case runs on; a case whose platform no configuration targets runs on all of them
+export const caseEnvironments = (environments: RunEnvironment[], tc: Pick<TestCase, 'platform_type'>): RunEnvironment[] => {
+    const type = tc.platform_type || 'WEB';
+    const matching = environments.filter(e => !e.platform_type || e.platform_type === type);
+    return matching.length > 0 ? matching : environments;
+};
+
+// Results saved before device_platform existed were recorded on PC
+export const resultEnvironmentId = (result: Pick<TestResult, 'device_platform'>) => result.device_platform || 'PC';
+
+export const environmentName = (environments: RunEnvironment[], id: string | undefined) =>
+    environments.find(e => e.id === (id || 'PC'))?.name || id || 'PC';
+
+// Every combination of the axis values, in axis order: Browser [Chrome, Safari] × OS [Windows, macOS] gives four
+export const expandMatrix = (axes: EnvironmentAxis[], platformType: PlatformType | null = null): Omit<RunEnvironment, 'id'>[] => {
+    const used = axes
+        .map(a => ({ name: a.name.trim(), values: Array.from(new Set(a.values.map(v => v.trim()).filter(Boolean))) }))
+        .filter(a => a.name && a.values.length > 0);
+    if (used.length === 0) return [];
+    const combos = used.reduce<Record<string, string>[]>(
+        (acc, axis) => acc.flatMap(combo => axis.values.map(v => ({ ...combo, [axis.name]: v }))),
+        [{}]
+    );
+    return combos.map(values => ({ name: Object.values(values).join(' / '), values, platform_type: platformType }));
+};
@@ -0,0 +1,33 @@
+import { Folder, DriveItemRef } from '../types';
+
+// The folder itself plus everything below it
+export const getDescendantFolderIds = (folders: Pick<Folder, 'id' | 'parentId'>[], rootId: string): Set<string> => {
+    const ids = new Set<string>([rootId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        folders.forEach(f => {
+            if (f.parentId && ids.has(f.parentId) && !ids.has(f.id)) {
+                ids.add(f.id);
+                grew = true;
+            }
+        });
+    }
+    return ids;
+};
+
+// Documents need a folder; a folder cannot go into itself or one of its descendants
+export const canMoveInto = (folders: Pick<Folder, 'id' | 'parentId'>[], items: DriveItemRef[], targetFolderId: string | null): boolean =>
+    items.length > 0 && items.every(item =>
+        item.type === 'DOCUMENT'
+            ? targetFolderId !== null
+            : targetFolderId === null || !getDescendantFolderIds(folders, item.id).has(targetFolderId)
+    );
+
+// The folder and its ancestors, nearest first
+export const getFolderAncestorIds = (folders: Pick<Folder, 'id' | 'parentId'>[], folderId: string | null): string[] => {
+    const parentOf = new Map(folders.map(f => [f.id, f.parentId]));
+    const ids: string[] = [];
+    for (let cur = folderId; cur && !ids.includes(cur); cur = parentOf.get(cur) ?? null) ids.push(cur);
+    return ids;
+};
@@ -0,0 +1,57 @@
+import { CaseParameters, ParameterRow, TestCase, TestResult } from '../types';
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Unknown placeholders are left as they are so a typo stays visible
+export const fillPlaceholders = (text: string | undefined, values: Record<string, string>): string =>
+    (text || '').replace(PLACEHOLDER, (match, name) => (name in values ? values[name] : match));
+
+// Placeholder names used in the precondition, steps and expected results
+export const findPlaceholders = (tc: Pick<TestCase, 'precondition' | 'steps'>): string[] => {
+    const texts = [tc.precondition || '', ...(tc.steps || []).flatMap(s => [s.step, s.expected])];
+    return Array.from(new Set(texts.flatMap(t => Array.from((t || '').matchAll(PLACEHOLDER), m => m[1]))));
+};
+
+// Trimmed, unique column names; values of dropped columns go with them. No columns or no rows means no table.
+export const normalizeParameters = (parameters: CaseParameters | null | undefined): CaseParameters | null => {
+    const source = new Map<string, string>(); // trimmed name -> column as entered (first one wins)
+    (parameters?.columns || []).forEach(c => {
+        if (c.trim() && !source.has(c.trim())) source.set(c.trim(), c);
+    });
+    const columns = Array.from(source.keys());
+    const rows = (parameters?.rows || []).map(row => ({
+        id: row.id,
+        values: Object.fromEntries(columns.map(c => [c, row.values[source.get(c)!] ?? '']))
+    }));
+    return columns.length > 0 && rows.length > 0 ? { columns, rows } : null;
+};
+
+export const getParameterRows = (tc: Pick<TestCase, 'parameters'>): ParameterRow[] => tc.parameters?.rows || [];
+
+export const parameterRowLabel = (parameters: CaseParameters, row: ParameterRow) =>
+    parameters.columns.map(c => `${c}=${row.values[c] ?? ''}`).join(', ');
+
+export const applyParameterRow = <T extends TestCase>(tc: T, row: ParameterRow): T => ({
+    ...tc,
+    precondition: fillPlaceholders(tc.precondition, row.values),
+    steps: (tc.steps || []).map(s => ({ ...s, step: fillPlaceholders(s.step, row.values), expected: fillPlaceholders(s.expected, row.values) }))
+});
+
+// One run execution per parameter row; a case without rows is a single execution with rowId null
+export type CaseExecution<T extends TestCase = TestCase> = T & { rowId: string | null, rowLabel?: string, executionKey: string };
+
+export const expandExecutions = <T extends TestCase>(cases: T[]): CaseExecution<T>[] =>
+    cases.flatMap(c => {
+        const rows = getParameterRows(c);
+        if (rows.length === 0) return [{ ...c, rowId: null, executionKey: c.id }];
+        return rows.map(row => ({
+            ...applyParameterRow(c, row),
+            rowId: row.id,
+            rowLabel: parameterRowLabel(c.parameters!, row),
+            executionKey: `${c.id}#${row.id}`
+        }));
+    });
+
+export const isResultOf = (result: Pick<TestResult, 'caseId' | 'rowId'>, caseId: string, rowId: string | null) =>
+    result.caseId === caseId && (result.rowId || null) === rowId;
+
@@ -0,0 +1,91 @@
+import { Role, User, Folder, FolderAccess, FolderAccessLevel } from '../types';
+
+// Role matrix from docs/TODO.md. Services and UI both check against this table.
+export type Permission =
+    | 'MANAGE_DRIVE'   // create / rename / move / copy / delete folders and documents
+    | 'MANAGE_CASES'   // create / edit / delete sections and test cases
+    | 'REVIEW_CASES'   // approve cases or send them back to draft
+    | 'IMPORT_CASES'   // CSV import
+    | 'MANAGE_RUNS'    // create / finish / delete test runs
+    | 'EXECUTE_RUNS'   // record results in a run
+    | 'MANAGE_USERS'   // admin panel: users, invites, CSV import
+    | 'MANAGE_SETTINGS'; // workspace configuration, e.g. the result status registry
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    ADMIN: ['MANAGE_DRIVE', 'MANAGE_CASES', 'REVIEW_CASES', 'IMPORT_CASES', 'MANAGE_RUNS', 'EXECUTE_RUNS', 'MANAGE_USERS', 'MANAGE_SETTINGS'],
+    INTERNAL: ['MANAGE_DRIVE', 'MANAGE_CASES', 'REVIEW_CASES', 'IMPORT_CASES', 'MANAGE_RUNS', 'EXECUTE_RUNS'],
+    EXTERNAL: ['EXECUTE_RUNS'],
+};
+
+export const hasPermission = (user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean =>
+    !!user && (ROLE_PERMISSIONS[user.role] || []).includes(permission);
+
+// --- Folder ACLs ---
+// The nearest grant on a folder or its ancestors applies to everything below it.
+// Without a grant the role matrix above applies, and Drive visibility follows MANAGE_DRIVE
+// (so EXTERNAL users only see folders shared with them). ADMIN is OWNER everywhere.
+
+const ACCESS_RANK: Record<FolderAccessLevel, number> = { VIEWER: 1, EDITOR: 2, OWNER: 3 };
+
+// What a grant allows inside its folder, replacing the role's permissions there.
+// Any grant lets the user execute (and file defects against) the cases it shares.
+const FOLDER_PERMISSIONS: Record<FolderAccessLevel, Permission[]> = {
+    VIEWER: ['EXECUTE_RUNS'],
+    EDITOR: ['MANAGE_DRIVE', 'MANAGE_CASES', 'REVIEW_CASES', 'IMPORT_CASES', 'EXECUTE_RUNS'],
+    OWNER: ['MANAGE_DRIVE', 'MANAGE_CASES', 'REVIEW_CASES', 'IMPORT_CASES', 'EXECUTE_RUNS'],
+};
+
+export const hasFolderAccess = (level: FolderAccessLevel | null | undefined, required: FolderAccessLevel): boolean =>
+    !!level && ACCESS_RANK[level] >= ACCESS_RANK[required];
+
+export interface FolderAccessMap {
+    levelOf: (folderId: string | null) => FolderAccessLevel | null;
+    can: (folderId: string | null, permission: Permission) => boolean;
+    // Readable, or an ancestor of a readable folder (kept so the tree can be walked down to it)
+    isVisible: (folderId: string) => boolean;
+}
+
+export const resolveFolderAccess = (
+    user: Pick<User, 'role'> | null | undefined,
+    folders: Pick<Folder, 'id' | 'parentId'>[],
+    grants: Pick<FolderAccess, 'folderId' | 'level'>[]
+): FolderAccessMap => {
+    const parentOf = new Map(folders.map(f => [f.id, f.parentId]));
+    const grantOf = new Map(grants.map(g => [g.folderId, g.level]));
+
+    const nearestGrant = (folderId: string | null): FolderAccessLevel | null => {
+        const seen = new Set<string>(); // guards against parentId cycles
+        for (let cur = folderId; cur && !seen.has(cur); cur = parentOf.get(cur) ?? null) {
+            seen.add(cur);
+            const level = grantOf.get(cur);
+            if (level) return level;
+        }
+        return null;
+    };
+
+    const levelOf = (folderId: string | null): FolderAccessLevel | null => {
+        if (!user) return null;
+        if (user.role === 'ADMIN') return 'OWNER';
+        return nearestGrant(folderId) || (hasPermission(user, 'MANAGE_DRIVE') ? 'EDITOR' : null);
+    };
+
+    // Nothing is allowed inside a folder the user cannot see (EXTERNAL users without a grant)
+    const can = (folderId: string | null, permission: Permission): boolean => {
+        if (!user || !levelOf(folderId)) return false;
+        if (user.role === 'ADMIN') return hasPermission(user, permission);
+        const grant = nearestGrant(folderId);
+        return grant ? FOLDER_PERMISSIONS[grant].includes(permission) : hasPermission(user, permission);
+    };
+
+    const visible = new Set<string>();
+    folders.forEach(f => {
+        if (!levelOf(f.id)) return;
+        const seen = new Set<string>();
+        for (let cur: string | null = f.id; cur && !seen.has(cur); cur = parentOf.get(cur) ?? null) {
+            seen.add(cur);
+            visible.add(cur);
+        }
+    });
+
+    return { levelOf, can, isVisible: (folderId: string) => visible.has(folderId) };
+};
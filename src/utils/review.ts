@@ -0,0 +1,28 @@
+import { ReviewStatus, TestCase } from '../types';
+import { Permission } from './permissions';
+
+export const REVIEW_STATUSES: { value: ReviewStatus, label: string, className: string }[] = [
+    { value: 'DRAFT', label: 'Draft', className: 'bg-gray-100 text-gray-600 border-gray-200' },
+    { value: 'IN_REVIEW', label: 'In Review', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+    { value: 'APPROVED', label: 'Approved', className: 'bg-green-50 text-green-700 border-green-200' },
+    { value: 'DEPRECATED', label: 'Deprecated', className: 'bg-gray-200 text-gray-500 border-gray-300 line-through' },
+];
+
+export const reviewStatusInfo = (status: ReviewStatus) => REVIEW_STATUSES.find(s => s.value === status)!;
+
+// Same as the column default; cases from before the workflow were backfilled as APPROVED (13_case_review.sql)
+export const getReviewStatus = (tc: Pick<TestCase, 'reviewStatus'>): ReviewStatus => tc.reviewStatus || 'DRAFT';
+
+// Allowed transitions. Approving / sending back needs REVIEW_CASES, and the assigned reviewer when there is one.
+export const REVIEW_TRANSITIONS: { from: ReviewStatus, to: ReviewStatus, label: string, permission: Permission }[] = [
+    { from: 'DRAFT', to: 'IN_REVIEW', label: '리뷰 요청', permission: 'MANAGE_CASES' },
+    { from: 'IN_REVIEW', to: 'APPROVED', label: '승인', permission: 'REVIEW_CASES' },
+    { from: 'IN_REVIEW', to: 'DRAFT', label: '수정 요청', permission: 'REVIEW_CASES' },
+    { from: 'DRAFT', to: 'DEPRECATED', label: '폐기', permission: 'MANAGE_CASES' },
+    { from: 'APPROVED', to: 'DEPRECATED', label: '폐기', permission: 'MANAGE_CASES' },
+    { from: 'APPROVED', to: 'DRAFT', label: '초안으로 되돌리기', permission: 'MANAGE_CASES' },
+    { from: 'DEPRECATED', to: 'DRAFT', label: '다시 사용', permission: 'MANAGE_CASES' },
+];
+
+export const findTransition = (from: ReviewStatus, to: ReviewStatus) =>
+    REVIEW_TRANSITIONS.find(t => t.from === from && t.to === to);
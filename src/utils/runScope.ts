@@ -0,0 +1,16 @@
+import { TestCase, TestRun } from '../types';
+import { tagQueryFilter } from './tags';
+import { getReviewStatus } from './review';
+
+// Cases a run covers: its target documents, narrowed to the explicit case selection and/or tag query.
+// Deprecated cases never run; approved_only also leaves out cases still in draft or review.
+export const runCaseFilter = (run: Pick<TestRun, 'target_document_ids' | 'case_ids' | 'tag_query' | 'approved_only'>) => {
+    const documentIds = new Set(run.target_document_ids || []);
+    const caseIds = run.case_ids ? new Set(run.case_ids) : null;
+    const matchesTags = tagQueryFilter(run.tag_query);
+    return (tc: Pick<TestCase, 'id' | 'documentId' | 'tags' | 'reviewStatus'>) => {
+        const status = getReviewStatus(tc);
+        return documentIds.has(tc.documentId) && (!caseIds || caseIds.has(tc.id)) && matchesTags(tc)
+            && status !== 'DEPRECATED' && (!run.approved_only || status === 'APPROVED');
+    };
+};
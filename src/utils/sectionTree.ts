@@ -0,0 +1,64 @@
+import { Section, TestCase } from '../types';
+
+export const SECTION_PATH_SEPARATOR = ' > ';
+
+type SectionNode = Pick<Section, 'id' | 'parentId' | 'position'>;
+
+const byPosition = (a: SectionNode, b: SectionNode) => (a.position ?? 0) - (b.position ?? 0);
+
+// Children of `parentId` (null = top level) in display order
+export const getChildSections = <T extends SectionNode>(sections: T[], parentId: string | null): T[] =>
+    sections.filter(s => (s.parentId || null) === parentId).sort(byPosition);
+
+// The section itself plus everything below it
+export const getDescendantSectionIds = (sections: SectionNode[], rootId: string): Set<string> => {
+    const ids = new Set<string>([rootId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        sections.forEach(s => {
+            if (s.parentId && ids.has(s.parentId) && !ids.has(s.id)) {
+                ids.add(s.id);
+                grew = true;
+            }
+        });
+    }
+    return ids;
+};
+
+// Depth-first display order. Sections whose parent is missing are shown at the top level.
+export const flattenSectionTree = <T extends SectionNode>(sections: T[]): { section: T, depth: number }[] => {
+    const ids = new Set(sections.map(s => s.id));
+    const rows: { section: T, depth: number }[] = [];
+    const visit = (children: T[], depth: number) => children.forEach(s => {
+        rows.push({ section: s, depth });
+        visit(getChildSections(sections, s.id), depth + 1);
+    });
+    visit(sections.filter(s => !s.parentId || !ids.has(s.parentId)).sort(byPosition), 0);
+    return rows;
+};
+
+// Section tree order, then the manual order inside each section (seq_id breaks ties)
+export const sortCasesBySection = <T extends Pick<TestCase, 'sectionId' | 'position' | 'seq_id'>>(cases: T[], sections: Section[]): T[] => {
+    const rank = new Map(flattenSectionTree(sections).map((row, i) => [row.section.id, i]));
+    const rankOf = (sectionId: string) => rank.get(sectionId) ?? rank.size;
+    return [...cases].sort((a, b) =>
+        rankOf(a.sectionId) - rankOf(b.sectionId)
+        || (a.position ?? 0) - (b.position ?? 0)
+        || (a.seq_id ?? 0) - (b.seq_id ?? 0)
+    );
+};
+
+// "Feature > Screen > Scenario"
+export const getSectionPath = (sections: Pick<Section, 'id' | 'parentId' | 'title'>[], sectionId: string): string => {
+    const titles: string[] = [];
+    const seen = new Set<string>();
+    let current = sections.find(s => s.id === sectionId);
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        titles.unshift(current.title);
+        const parentId = current.parentId;
+        current = parentId ? sections.find(s => s.id === parentId) : undefined;
+    }
+    return titles.join(SECTION_PATH_SEPARATOR);
+};
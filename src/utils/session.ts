@@ -0,0 +1,11 @@
+// localStorage entry of the signed-in session (written by AuthService)
+export const SESSION_STORAGE_KEY = 'tm_session';
+
+// Access token of the stored session, for calls outside the data store (e.g. the tracker proxy)
+export const storedAccessToken = (): string | null => {
+    try {
+        return JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) || 'null')?.token || null;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,26 @@
+import { SharedStep, TestCase, TestStep } from '../types';
+
+export const isSharedStepRef = (step: TestStep) => !!step.sharedStepId;
+
+// Step that stands for a block inside TestCase.steps
+export const makeSharedStepRef = (block: SharedStep, id: string): TestStep =>
+    ({ id, sharedStepId: block.id, step: block.name, expected: '' });
+
+export const sharedStepIdsOf = (cases: Pick<TestCase, 'steps'>[]): string[] =>
+    Array.from(new Set(cases.flatMap(c => (c.steps || []).filter(isSharedStepRef).map(s => s.sharedStepId!))));
+
+export const usesSharedStep = (tc: Pick<TestCase, 'steps'>, blockId: string) =>
+    (tc.steps || []).some(s => s.sharedStepId === blockId);
+
+// Replaces each reference with the block's steps. Expanded ids are "<reference id>.<block step id>", so
+// step results stay attached when the block is edited. A missing block leaves one placeholder step.
+export const expandSteps = (steps: TestStep[] = [], blocks: Map<string, SharedStep>): TestStep[] =>
+    steps.flatMap(s => {
+        if (!s.sharedStepId) return [s];
+        const block = blocks.get(s.sharedStepId);
+        if (!block) return [{ id: s.id, step: `${s.step} (삭제된 공유 스텝)`, expected: '', sharedFrom: { id: s.sharedStepId, name: s.step } }];
+        return block.steps.map(b => ({ id: `${s.id}.${b.id}`, step: b.step, expected: b.expected, sharedFrom: { id: block.id, name: block.name } }));
+    });
+
+export const expandCaseSteps = <T extends Pick<TestCase, 'steps'>>(tc: T, blocks: Map<string, SharedStep>): T =>
+    (tc.steps || []).some(isSharedStepRef) ? { ...tc, steps: expandSteps(tc.steps, blocks) } : tc;
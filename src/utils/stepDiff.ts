@@ -0,0 +1,70 @@
+import { TestStep } from '../types';
+
+// Structured step changes, matched by TestStep.id. Indexes are 0-based.
+export type StepOperation =
+    | { type: 'ADD', stepId: string, index: number, step: TestStep }
+    | { type: 'REMOVE', stepId: string, index: number, step: TestStep }
+    | { type: 'MODIFY', stepId: string, index: number, before: TestStep, after: TestStep }
+    | { type: 'MOVE', stepId: string, from: number, to: number, step: TestStep };
+
+// Steps without an id (or with a duplicate one) can only be matched by position
+const stepKeys = (steps: TestStep[]) => {
+    const counts = new Map<string, number>();
+    steps.forEach(s => s.id && counts.set(s.id, (counts.get(s.id) || 0) + 1));
+    return steps.map((s, i) => (s.id && counts.get(s.id) === 1 ? s.id : `#${i}`));
+};
+
+// Longest common subsequence of two key lists: the steps that kept their relative order
+const keptInOrder = (a: string[], b: string[]): Set<string> => {
+    const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+    const kept = new Set<string>();
+    let i = 0, j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) { kept.add(a[i]); i++; j++; }
+        else if (table[i + 1][j] >= table[i][j + 1]) i++;
+        else j++;
+    }
+    return kept;
+};
+
+// Removals first (old positions), then adds / moves / edits in the order of the new list
+export const diffSteps = (before: TestStep[] = [], after: TestStep[] = []): StepOperation[] => {
+    const beforeKeys = stepKeys(before);
+    const afterKeys = stepKeys(after);
+    const beforeIndex = new Map(beforeKeys.map((k, i) => [k, i]));
+    const afterIndex = new Map(afterKeys.map((k, i) => [k, i]));
+
+    const common = (keys: string[], other: Map<string, number>) => keys.filter(k => other.has(k));
+    const kept = keptInOrder(common(beforeKeys, afterIndex), common(afterKeys, beforeIndex));
+
+    const ops: StepOperation[] = [];
+    beforeKeys.forEach((k, i) => {
+        if (!afterIndex.has(k)) ops.push({ type: 'REMOVE', stepId: k, index: i, step: before[i] });
+    });
+    afterKeys.forEach((k, i) => {
+        const from = beforeIndex.get(k);
+        if (from === undefined) {
+            ops.push({ type: 'ADD', stepId: k, index: i, step: after[i] });
+            return;
+        }
+        if (!kept.has(k)) ops.push({ type: 'MOVE', stepId: k, from, to: i, step: after[i] });
+        const old = before[from];
+        if ((old.step || '') !== (after[i].step || '') || (old.expected || '') !== (after[i].expected || '')) {
+            ops.push({ type: 'MODIFY', stepId: k, index: i, before: old, after: after[i] });
+        }
+    });
+    return ops;
+};
+
+// "+1 -0 ~2 ↕1" for history timelines
+export const summarizeStepOperations = (ops: StepOperation[]): string => {
+    const count = (type: StepOperation['type']) => ops.filter(o => o.type === type).length;
+    return [
+        ['+', count('ADD')], ['-', count('REMOVE')], ['~', count('MODIFY')], ['↕', count('MOVE')]
+    ].filter(([, n]) => n).map(([sign, n]) => `${sign}${n}`).join(' ');
+};
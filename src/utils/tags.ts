@@ -0,0 +1,89 @@
+import { TestCase } from '../types';
+
+// Tags are stored lower-case without spaces, so "Smoke Test" and "smoke-test" are the same tag
+export const normalizeTag = (tag: string): string =>
+    tag.trim().toLowerCase().replace(/[()]/g, '').replace(/\s+/g, '-');
+
+export const normalizeTags = (tags: string[]): string[] =>
+    Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+
+// "smoke, Regression" -> ['smoke', 'regression'] (CSV import)
+export const parseTagList = (text: string): string[] => normalizeTags((text || '').split(/[,;]/));
+
+// --- Tag queries: `smoke AND NOT deprecated`, `(payment OR checkout) regression` ---
+// Operators are AND / OR / NOT (any case) and parentheses; terms next to each other are AND-ed.
+// NOT binds tighter than AND, AND tighter than OR.
+
+type TagPredicate = (tags: Set<string>) => boolean;
+
+const tokenize = (query: string): string[] => query.match(/[()]|[^\s()]+/g) || [];
+
+const isKeyword = (token: string | undefined, keyword: string) => !!token && token.toUpperCase() === keyword;
+
+export const compileTagQuery = (query: string): ((tags: string[] | undefined) => boolean) => {
+    const tokens = tokenize(query);
+    let pos = 0;
+
+    const parseOr = (): TagPredicate => {
+        const terms = [parseAnd()];
+        while (isKeyword(tokens[pos], 'OR')) {
+            pos++;
+            terms.push(parseAnd());
+        }
+        return tags => terms.some(t => t(tags));
+    };
+
+    const parseAnd = (): TagPredicate => {
+        const terms = [parseNot()];
+        while (pos < tokens.length && tokens[pos] !== ')' && !isKeyword(tokens[pos], 'OR')) {
+            if (isKeyword(tokens[pos], 'AND')) pos++;
+            terms.push(parseNot());
+        }
+        return tags => terms.every(t => t(tags));
+    };
+
+    const parseNot = (): TagPredicate => {
+        if (isKeyword(tokens[pos], 'NOT')) {
+            pos++;
+            const inner = parseNot();
+            return tags => !inner(tags);
+        }
+        return parseTerm();
+    };
+
+    const parseTerm = (): TagPredicate => {
+        const token = tokens[pos++];
+        if (token === undefined) throw new Error('태그 쿼리가 불완전합니다.');
+        if (token === '(') {
+            const inner = parseOr();
+            if (tokens[pos++] !== ')') throw new Error('괄호가 닫히지 않았습니다.');
+            return inner;
+        }
+        if (token === ')' || ['AND', 'OR'].includes(token.toUpperCase())) {
+            throw new Error(`'${token}' 위치가 올바르지 않습니다.`);
+        }
+        const tag = normalizeTag(token);
+        return tags => tags.has(tag);
+    };
+
+    if (tokens.length === 0) return () => true;
+    const predicate = parseOr();
+    if (pos < tokens.length) throw new Error(`'${tokens[pos]}' 위치가 올바르지 않습니다.`);
+    return tags => predicate(new Set(tags || []));
+};
+
+// Parse error message, or null when the query is valid
+export const validateTagQuery = (query: string): string | null => {
+    try {
+        compileTagQuery(query);
+        return null;
+    } catch (e: any) {
+        return e.message;
+    }
+};
+
+// Case filter for a run built from a tag query (no query: every case of the run's documents)
+export const tagQueryFilter = (query?: string | null) => {
+    const matches = compileTagQuery(query || '');
+    return (tc: Pick<TestCase, 'tags'>) => matches(tc.tags);
+};
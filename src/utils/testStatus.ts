@@ -0,0 +1,120 @@
+import { RunEnvironment, RunStatusCounts, TestCase, TestResult, TestStatus, TestStatusDefinition } from '../types';
+import { CaseExecution, expandExecutions, isResultOf } from './parameters';
+import { LEGACY_ENVIRONMENTS, caseEnvironments, resultEnvironmentId } from './environments';
+
+export const UNTESTED: TestStatus = 'UNTESTED';
+export const PASS: TestStatus = 'PASS';
+
+// Seeded by 19_test_statuses.sql; also the registry of backends whose table is still empty
+export const DEFAULT_TEST_STATUSES: TestStatusDefinition[] = [
+    { code: 'PASS', label: 'Pass', color: '#22c55e', executed: true, passed: true, precedence: 20, position: 0, active: true, builtIn: true },
+    { code: 'FAIL', label: 'Fail', color: '#ef4444', executed: true, passed: false, precedence: 50, position: 1, active: true, builtIn: true },
+    { code: 'BLOCK', label: 'Block', color: '#1f2937', executed: true, passed: false, precedence: 40, position: 2, active: true, builtIn: true },
+    { code: 'NA', label: 'N/A', color: '#fb923c', executed: true, passed: false, precedence: 10, position: 3, active: true, builtIn: true },
+    { code: 'KNOWN_ISSUE', label: 'Known Issue', color: '#eab308', executed: true, passed: false, precedence: 45, position: 4, active: true, builtIn: false },
+    { code: 'RETEST', label: 'Retest', color: '#a855f7', executed: false, passed: false, precedence: 35, position: 5, active: true, builtIn: false },
+    { code: 'IN_PROGRESS', label: 'In Progress', color: '#3b82f6', executed: false, passed: false, precedence: 32, position: 6, active: true, builtIn: false },
+    { code: 'UNTESTED', label: 'Untested', color: '#d1d5db', executed: false, passed: false, precedence: 30, position: 7, active: true, builtIn: true },
+];
+
+// Codes of results whose status was removed from the registry: shown as-is, counted as executed
+const unknownStatus = (code: TestStatus): TestStatusDefinition =>
+    ({ code, label: code, color: '#9ca3af', executed: true, passed: false, precedence: 0, position: Number.MAX_SAFE_INTEGER, active: false, builtIn: false });
+
+export const sortStatuses = (registry: TestStatusDefinition[]) => [...registry].sort((a, b) => a.position - b.position);
+
+export const statusInfo = (registry: TestStatusDefinition[], code: TestStatus | null | undefined): TestStatusDefinition =>
+    registry.find(s => s.code === (code || UNTESTED)) || unknownStatus(code || UNTESTED);
+
+// Statuses a tester can set, in registry order (UNTESTED is the absence of a result, not a choice)
+export const pickableStatuses = (registry: TestStatusDefinition[]) =>
+    sortStatuses(registry).filter(s => s.active && s.code !== UNTESTED);
+
+// One status for several: the highest precedence wins; nothing at all is UNTESTED
+export const rollupStatus = (registry: TestStatusDefinition[], codes: TestStatus[]): TestStatus =>
+    codes.reduce<TestStatus | null>((best, code) =>
+        best === null || statusInfo(registry, code).precedence > statusInfo(registry, best).precedence ? code : best, null) || UNTESTED;
+
+// Executed but not passed, and ranked above every passing status (FAIL, BLOCK, Known Issue; not N/A)
+export const isFailing = (registry: TestStatusDefinition[], code: TestStatus | null | undefined) => {
+    const info = statusInfo(registry, code);
+    const passPrecedence = Math.max(0, ...registry.filter(s => s.passed).map(s => s.precedence));
+    return info.executed && !info.passed && info.precedence > passPrecedence;
+};
+
+// Status on one configuration of the run's environment matrix
+export const configurationStatus = (
+    execution: Pick<CaseExecution, 'id' | 'rowId'>,
+    environment: Pick<RunEnvironment, 'id'>,
+    results: TestResult[]
+): TestStatus =>
+    results.find(r => isResultOf(r, execution.id, execution.rowId) && resultEnvironmentId(r) === environment.id)?.status || UNTESTED;
+
+// The statuses on every configuration the case runs on roll up into one
+export const executionStatus = (
+    registry: TestStatusDefinition[],
+    execution: Pick<CaseExecution, 'id' | 'rowId' | 'platform_type'>,
+    results: TestResult[],
+    environments: RunEnvironment[] = LEGACY_ENVIRONMENTS
+): TestStatus =>
+    rollupStatus(registry, caseEnvironments(environments, execution).map(env => configurationStatus(execution, env, results)));
+
+export const countStatuses = (registry: TestStatusDefinition[], codes: TestStatus[]): RunStatusCounts => {
+    const byStatus: Record<TestStatus, number> = {};
+    codes.forEach(code => { byStatus[code] = (byStatus[code] || 0) + 1; });
+    return {
+        total: codes.length,
+        executed: codes.filter(c => statusInfo(registry, c).executed).length,
+        passed: codes.filter(c => statusInfo(registry, c).passed).length,
+        byStatus
+    };
+};
+
+// Statuses of a run per execution (case × parameter row), rolled up per case, and per configuration
+export const summarizeRun = <T extends TestCase>(
+    registry: TestStatusDefinition[],
+    cases: T[],
+    results: TestResult[],
+    environments: RunEnvironment[] = LEGACY_ENVIRONMENTS
+) => {
+    const executions = expandExecutions(cases).map(execution => ({ execution, status: executionStatus(registry, execution, results, environments) }));
+    const caseStatuses = new Map(cases.map(c => [
+        c.id,
+        rollupStatus(registry, executions.filter(e => e.execution.id === c.id).map(e => e.status))
+    ]));
+    return {
+        executions,
+        caseStatuses,
+        counts: countStatuses(registry, executions.map(e => e.status)),
+        caseCounts: countStatuses(registry, Array.from(caseStatuses.values())),
+        // Executions that run on the configuration, counted by their status there
+        byEnvironment: environments.map(environment => ({
+            environment,
+            counts: countStatuses(registry, executions
+                .filter(e => caseEnvironments(environments, e.execution).some(env => env.id === environment.id))
+                .map(e => configurationStatus(e.execution, environment, results)))
+        }))
+    };
+};
+
+// Counts in registry order for charts and legends; statuses no longer in the registry come last
+export const statusBreakdown = (registry: TestStatusDefinition[], counts: RunStatusCounts) => {
+    const known = sortStatuses(registry).map(s => ({ status: s, count: counts.byStatus[s.code] || 0 }));
+    const unknown = Object.keys(counts.byStatus)
+        .filter(code => !registry.some(s => s.code === code))
+        .map(code => ({ status: unknownStatus(code), count: counts.byStatus[code] }));
+    return [...known, ...unknown];
+};
+
+export const percentOf = (part: number, total: number) => total > 0 ? Math.round((part / total) * 100) : 0;
+
+const isLight = (hex: string) => {
+    const n = parseInt(hex.slice(1), 16);
+    return (0.299 * (n >> 16) + 0.587 * ((n >> 8) & 255) + 0.114 * (n & 255)) / 255 > 0.6;
+};
+
+// Inline styles from the registry color: `solid` for the selected state, the soft variant for badges
+export const statusStyle = (info: Pick<TestStatusDefinition, 'color'>, solid = false): React.CSSProperties =>
+    solid
+        ? { backgroundColor: info.color, color: isLight(info.color) ? '#1f2937' : '#ffffff', borderColor: info.color }
+        : { backgroundColor: `${info.color}1a`, color: isLight(info.color) ? '#4b5563' : info.color, borderColor: `${info.color}66` };
@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    readonly VITE_DATA_BACKEND?: 'supabase' | 'indexeddb' | 'memory';
+    readonly VITE_SUPABASE_URL?: string;
+    readonly VITE_SUPABASE_ANON_KEY?: string;
+    readonly VITE_ISSUE_TRACKER?: 'jira' | 'mock';
+    readonly VITE_JIRA_URL?: string;
+    readonly VITE_JIRA_PROJECT?: string;
+    readonly VITE_JIRA_ISSUE_TYPE?: string;
+    readonly VITE_JIRA_BROWSE_URL?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,93 @@
+// Attachment files for the app (SupabaseFileStore in src/repository/fileStore.ts).
+// The API roles can only upload into the bucket; signed URLs, copies and deletes come from here, for callers
+// with a live app session (X-Session-Token) who may access what the files belong to
+// (attachment_access in 22_attachment_access.sql). Storage is then called with the service role.
+//
+// Requests: POST { action: 'url', path } | { action: 'copy', from, to } | { action: 'remove', paths }
+//   supabase functions deploy attachments
+
+const BUCKET = 'attachments';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, apikey, content-type, x-client-info, x-session-token',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+const supabaseUrl = () => Deno.env.get('SUPABASE_URL') || '';
+
+const serviceHeaders = () => {
+    const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    return { 'Content-Type': 'application/json', apikey: key, Authorization: `Bearer ${key}` };
+};
+
+const storage = (path: string, init: RequestInit) =>
+    fetch(`${supabaseUrl()}/storage/v1${path}`, { ...init, headers: serviceHeaders() });
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+const allowed = async (sessionToken: string, paths: string[], forWrite: boolean): Promise<boolean> => {
+    const res = await fetch(`${supabaseUrl()}/rest/v1/rpc/attachment_access`, {
+        method: 'POST',
+        headers: serviceHeaders(),
+        body: JSON.stringify({ session_token: sessionToken, object_paths: paths, for_write: forWrite })
+    });
+    return res.ok && (await res.json()) === true;
+};
+
+const storageError = async (res: Response) =>
+    json(res.status, { error: (await res.json().catch(() => null))?.message || `Storage responded ${res.status}` });
+
+Deno.serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+    if (req.method !== 'POST') return json(405, { error: 'POST only' });
+
+    const sessionToken = req.headers.get('x-session-token');
+    if (!sessionToken) return json(401, { error: 'Session expired' });
+
+    let body: any;
+    try {
+        body = await req.json();
+    } catch {
+        return json(400, { error: 'Invalid JSON body' });
+    }
+    const isPath = (p: unknown): p is string => typeof p === 'string' && p.length > 0;
+
+    switch (body?.action) {
+        case 'url': {
+            if (!isPath(body.path)) return json(400, { error: 'path is required' });
+            if (!(await allowed(sessionToken, [body.path], false))) return json(403, { error: 'Forbidden' });
+            const res = await storage(`/object/sign/${BUCKET}/${encodePath(body.path)}`, {
+                method: 'POST',
+                body: JSON.stringify({ expiresIn: SIGNED_URL_TTL_SECONDS })
+            });
+            if (!res.ok) return storageError(res);
+            const { signedURL } = await res.json();
+            return json(200, { url: `${supabaseUrl()}/storage/v1${signedURL}` });
+        }
+        case 'copy': {
+            if (!isPath(body.from) || !isPath(body.to)) return json(400, { error: 'from and to are required' });
+            if (!(await allowed(sessionToken, [body.from], false)) || !(await allowed(sessionToken, [body.to], true))) {
+                return json(403, { error: 'Forbidden' });
+            }
+            const res = await storage('/object/copy', {
+                method: 'POST',
+                body: JSON.stringify({ bucketId: BUCKET, sourceKey: body.from, destinationKey: body.to })
+            });
+            return res.ok ? json(200, {}) : storageError(res);
+        }
+        case 'remove': {
+            if (!Array.isArray(body.paths) || !body.paths.every(isPath)) return json(400, { error: 'paths are required' });
+            if (body.paths.length === 0) return json(200, {});
+            if (!(await allowed(sessionToken, body.paths, true))) return json(403, { error: 'Forbidden' });
+            const res = await storage(`/object/${BUCKET}`, { method: 'DELETE', body: JSON.stringify({ prefixes: body.paths }) });
+            return res.ok ? json(200, {}) : storageError(res);
+        }
+        default:
+            return json(400, { error: 'Unknown action' });
+    }
+});
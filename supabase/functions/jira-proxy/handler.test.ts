@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from './handler';
+import { JiraIssueTracker, MockJiraServer } from '../../../src/repository/issueTracker';
+
+const ENV: Record<string, string> = {
+    SUPABASE_URL: 'https://proj.supabase.co',
+    SUPABASE_ANON_KEY: 'anon',
+    JIRA_URL: 'https://acme.atlassian.net/',
+    JIRA_EMAIL: 'bot@acme.com',
+    JIRA_API_TOKEN: 'secret',
+    JIRA_PROJECT: 'QA'
+};
+const PROXY = 'https://proj.supabase.co/functions/v1/jira-proxy';
+
+// Supabase answers auth_session_user for the token 'live' only; everything else goes to the mock Jira
+const setup = (env: Record<string, string | undefined> = ENV) => {
+    const jira = new MockJiraServer('QA');
+    const forwarded: { url: string, init?: RequestInit }[] = [];
+    const handler = createHandler(name => env[name], async (url, init) => {
+        if (url.endsWith('/rest/v1/rpc/auth_session_user')) {
+            const { session_token } = JSON.parse(String(init?.body));
+            return new Response(JSON.stringify(session_token === 'live' ? { id: 'u1' } : null), { status: 200 });
+        }
+        forwarded.push({ url, init });
+        return jira.fetch(url, init);
+    });
+    const call = (path: string, init: RequestInit & { token?: string | null } = {}) => {
+        const { token = 'live', ...rest } = init;
+        const headers = new Headers(rest.headers);
+        if (token) headers.set('x-session-token', token);
+        return handler(new Request(`${PROXY}${path}`, { ...rest, headers }));
+    };
+    return { jira, forwarded, handler, call };
+};
+
+const issueBody = (projectKey: string) => JSON.stringify({ fields: { project: { key: projectKey }, summary: 'a', issuetype: { name: 'Bug' } } });
+
+describe('jira-proxy handler', () => {
+    it('fails closed when a secret is missing', async () => {
+        const { call, forwarded } = setup({ ...ENV, JIRA_PROJECT: undefined });
+        const res = await call('/rest/api/2/search?jql=key in (QA-1)');
+
+        expect(res.status).toBe(500);
+        expect(forwarded).toHaveLength(0);
+    });
+
+    it('only forwards the calls the adapter makes', async () => {
+        const { call, forwarded } = setup();
+
+        expect((await call('/rest/api/2/myself')).status).toBe(404);
+        expect((await call('/rest/api/2/issue/QA-1', { method: 'DELETE' })).status).toBe(404);
+        expect((await call('/rest/api/2/search', { method: 'POST', body: '{}' })).status).toBe(404);
+        expect(forwarded).toHaveLength(0);
+    });
+
+    it('requires a live session', async () => {
+        const { call, forwarded } = setup();
+
+        expect((await call('/rest/api/2/search?jql=key in (QA-1)', { token: null })).status).toBe(401);
+        expect((await call('/rest/api/2/search?jql=key in (QA-1)', { token: 'expired' })).status).toBe(401);
+        expect(forwarded).toHaveLength(0);
+    });
+
+    it('refuses anything but a list of issue keys', async () => {
+        const { call, forwarded } = setup();
+        const search = (jql: string) => call(`/rest/api/2/search?${new URLSearchParams({ jql })}`);
+
+        expect((await search('project = HR ORDER BY created')).status).toBe(400);
+        expect((await search('key in (QA-1) OR project = HR')).status).toBe(400);
+        expect((await search('key in (QA-1,qa-2)')).status).toBe(400);
+        expect((await search(`key in (${Array.from({ length: 101 }, (_, i) => `QA-${i + 1}`).join(',')})`)).status).toBe(400);
+        expect((await call('/rest/api/2/search')).status).toBe(400);
+        expect(forwarded).toHaveLength(0);
+    });
+
+    it('builds the search itself, pinned to the project and the status field', async () => {
+        const { call, forwarded } = setup();
+        const res = await call(`/rest/api/2/search?${new URLSearchParams({ jql: 'key in (QA-1, QA-2)', fields: '*all', maxResults: '1000' })}`);
+
+        expect(res.status).toBe(200);
+        const url = new URL(forwarded[0].url);
+        expect(url.origin + url.pathname).toBe('https://acme.atlassian.net/rest/api/2/search');
+        expect(Object.fromEntries(url.searchParams)).toEqual({
+            jql: 'key in (QA-1,QA-2) AND project = "QA"',
+            fields: 'status',
+            maxResults: '2',
+            validateQuery: 'warn'
+        });
+        expect((forwarded[0].init?.headers as Record<string, string>).Authorization).toBe(`Basic ${btoa('bot@acme.com:secret')}`);
+    });
+
+    it('creates issues in the configured project only', async () => {
+        const { call, jira } = setup();
+
+        expect((await call('/rest/api/2/issue', { method: 'POST', body: issueBody('HR') })).status).toBe(403);
+        expect((await call('/rest/api/2/issue', { method: 'POST', body: 'not json' })).status).toBe(400);
+        const res = await call('/rest/api/2/issue', { method: 'POST', body: issueBody('QA') });
+        expect(res.status).toBe(201);
+        expect((await res.json()).key).toBe('QA-1');
+        expect(jira.getIssue('QA-1')).not.toBeNull();
+    });
+
+    it('answers CORS preflight without a session', async () => {
+        const { call } = setup();
+        const res = await call('/rest/api/2/issue', { method: 'OPTIONS', token: null });
+
+        expect(res.status).toBe(200);
+        expect(res.headers.get('Access-Control-Allow-Headers')).toContain('x-session-token');
+    });
+
+    it('serves the adapter end to end', async () => {
+        const { handler, jira } = setup();
+        const tracker = new JiraIssueTracker(
+            { baseUrl: PROXY, projectKey: 'QA', browseUrl: 'https://acme.atlassian.net', headers: () => ({ 'X-Session-Token': 'live' }) },
+            (url, init) => handler(new Request(url, init))
+        );
+
+        const created = await tracker.createIssue({ summary: 'Checkout breaks', description: '' });
+        expect(created.data).toEqual({ key: 'QA-1', url: 'https://acme.atlassian.net/browse/QA-1', status: 'To Do', statusCategory: 'new' });
+
+        jira.transition('QA-1', 'Done');
+        const { data } = await tracker.getIssues(['QA-1']);
+        expect(data.map(i => i.statusCategory)).toEqual(['done']);
+    });
+});
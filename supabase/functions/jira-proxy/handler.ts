@@ -0,0 +1,106 @@
+// Request handling of the Jira proxy; see index.ts for what it allows and the secrets it needs.
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, apikey, content-type, accept, x-session-token',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+};
+
+// Method and Jira path of every call the adapter makes
+const ALLOWED = [
+    { method: 'POST', path: '/rest/api/2/issue' },
+    { method: 'GET', path: '/rest/api/2/search' }
+];
+
+const ISSUE_KEY = /^[A-Z][A-Z0-9]+-\d+$/;
+const MAX_KEYS = 100;
+
+// The adapter asks for `key in (QA-1,QA-2)`; anything else is refused
+const requestedKeys = (jql: string | null): string[] | null => {
+    const list = jql?.trim().match(/^key in \(([^)]*)\)$/)?.[1];
+    if (!list) return null;
+    const keys = list.split(',').map(k => k.trim());
+    return keys.length <= MAX_KEYS && keys.every(k => ISSUE_KEY.test(k)) ? keys : null;
+};
+
+const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+type Env = (name: string) => string | undefined;
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+// Request handler, separate from Deno.serve (index.ts) so it runs under the app's tests with a fake env and fetch
+export const createHandler = (env: Env, fetchImpl: FetchLike = (url, init) => fetch(url, init)) => {
+    const sessionIsLive = async (sessionToken: string): Promise<boolean> => {
+        const res = await fetchImpl(`${env('SUPABASE_URL')}/rest/v1/rpc/auth_session_user`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                apikey: env('SUPABASE_ANON_KEY') || '',
+                Authorization: `Bearer ${env('SUPABASE_ANON_KEY') || ''}`
+            },
+            body: JSON.stringify({ session_token: sessionToken })
+        });
+        if (!res.ok) return false;
+        const user = await res.json();
+        return !!user?.id;
+    };
+
+    return async (req: Request): Promise<Response> => {
+        if (req.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+
+        const jiraUrl = env('JIRA_URL');
+        const email = env('JIRA_EMAIL');
+        const apiToken = env('JIRA_API_TOKEN');
+        const project = env('JIRA_PROJECT');
+        if (!jiraUrl || !email || !apiToken || !project) return json(500, { errorMessages: ['Jira proxy is not configured'] });
+
+        // Path after the function name: /functions/v1/jira-proxy/rest/api/2/issue -> /rest/api/2/issue
+        const url = new URL(req.url);
+        const path = url.pathname.replace(/^.*?\/jira-proxy(?=\/|$)/, '');
+        if (!ALLOWED.some(a => a.method === req.method && a.path === path)) {
+            return json(404, { errorMessages: [`${req.method} ${path} is not allowed`] });
+        }
+
+        const sessionToken = req.headers.get('x-session-token');
+        if (!sessionToken || !(await sessionIsLive(sessionToken))) {
+            return json(401, { errorMessages: ['Session expired'] });
+        }
+
+        let body: string | undefined;
+        let query = '';
+        if (req.method === 'POST') {
+            body = await req.text();
+            let key: string | undefined;
+            try {
+                key = JSON.parse(body)?.fields?.project?.key;
+            } catch {
+                return json(400, { errorMessages: ['Invalid JSON body'] });
+            }
+            if (key !== project) return json(403, { errorMessages: [`Issues can only be created in ${project}`] });
+        } else {
+            const keys = requestedKeys(url.searchParams.get('jql'));
+            if (!keys) return json(400, { errorMessages: ['Only issue keys can be looked up'] });
+            query = `?${new URLSearchParams({
+                jql: `key in (${keys.join(',')}) AND project = "${project}"`,
+                fields: 'status',
+                maxResults: String(keys.length),
+                validateQuery: 'warn'
+            })}`;
+        }
+
+        const res = await fetchImpl(`${jiraUrl.replace(/\/+$/, '')}${path}${query}`, {
+            method: req.method,
+            headers: {
+                'Content-Type': 'application/json',
+                Accept: 'application/json',
+                Authorization: `Basic ${btoa(`${email}:${apiToken}`)}`
+            },
+            body
+        });
+        return new Response(await res.text(), {
+            status: res.status,
+            headers: { ...CORS_HEADERS, 'Content-Type': res.headers.get('Content-Type') || 'application/json' }
+        });
+    };
+};
@@ -0,0 +1,13 @@
+// Jira proxy for the issue tracker adapter (src/repository/issueTracker.ts).
+// Holds the Jira API token so it never reaches the browser, and only forwards the two calls the adapter makes,
+// for callers with a live app session (X-Session-Token, checked with auth_session_user from 21_auth_rpc.sql).
+// Both are pinned to JIRA_PROJECT: issues are created there, and status lookups take issue keys only;
+// the proxy builds the JQL itself, so callers cannot query anything else through the service account.
+//
+// Secrets: JIRA_URL, JIRA_EMAIL, JIRA_API_TOKEN, JIRA_PROJECT
+//   supabase secrets set JIRA_URL=https://acme.atlassian.net JIRA_EMAIL=... JIRA_API_TOKEN=...
+//   supabase functions deploy jira-proxy
+
+import { createHandler } from './handler.ts';
+
+Deno.serve(createHandler(name => Deno.env.get(name)));
@@ -0,0 +1,36 @@
+-- Auth: password credentials, session tokens and one-time login links.
+-- Users are no longer auto-created on login.
+
+-- 1. Credentials (1:1 with users)
+CREATE TABLE IF NOT EXISTS credentials (
+  "userId" TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  "passwordHash" TEXT NOT NULL, -- pbkdf2$<iterations>$<salt>$<hash>
+  "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
+-- 2. Sessions (access token + rotating refresh token)
+CREATE TABLE IF NOT EXISTS sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" TEXT REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT UNIQUE NOT NULL,
+  "refreshToken" TEXT UNIQUE NOT NULL,
+  "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+  "refreshExpiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions("userId");
+
+-- 3. Magic links (single use)
+CREATE TABLE IF NOT EXISTS "magicLinks" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" TEXT REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT UNIQUE NOT NULL,
+  "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+  "usedAt" TIMESTAMP WITH TIME ZONE
+);
+
+-- 4. Existing users have no password yet. Issue a one-time link per user and open
+--    <app-url>/login?magic=<token> to sign in and set a password, e.g.:
+-- INSERT INTO "magicLinks" ("userId", token, "expiresAt")
+-- VALUES ('<user-id>', encode(gen_random_bytes(32), 'hex'), now() + interval '1 day')
+-- RETURNING token;
@@ -0,0 +1,13 @@
+-- Per-folder access control. A grant applies to the folder and everything below it;
+-- the nearest grant up the tree wins. Without a grant ADMIN/INTERNAL keep their role
+-- defaults and EXTERNAL users see nothing.
+
+CREATE TABLE IF NOT EXISTS "folderAccess" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "folderId" UUID REFERENCES folders(id) ON DELETE CASCADE,
+  "userId" TEXT REFERENCES users(id) ON DELETE CASCADE,
+  level TEXT NOT NULL CHECK (level IN ('VIEWER', 'EDITOR', 'OWNER')),
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  UNIQUE ("folderId", "userId")
+);
+CREATE INDEX IF NOT EXISTS idx_folder_access_user ON "folderAccess"("userId");
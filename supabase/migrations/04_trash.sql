@@ -0,0 +1,44 @@
+-- Trash: soft delete for folders, documents, sections and test cases.
+-- Deleting an item marks it and every live row below it with "deletedAt" and the
+-- "trashId" of its trash entry, so a restore brings back exactly that subtree.
+-- Purging hard-deletes the item and lets the existing ON DELETE CASCADEs run.
+
+CREATE TABLE IF NOT EXISTS trash (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "itemType" TEXT NOT NULL CHECK ("itemType" IN ('FOLDER', 'DOCUMENT', 'SECTION', 'CASE')),
+  "itemId" TEXT NOT NULL,
+  title TEXT,
+  "folderId" UUID, -- folder the item lived in (ACL + listing); NULL for root folders
+  "documentId" UUID, -- sections and cases only
+  "deletedBy" TEXT REFERENCES users(id) ON DELETE SET NULL,
+  "deletedAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+CREATE INDEX IF NOT EXISTS idx_trash_deleted_at ON trash("deletedAt");
+
+ALTER TABLE folders ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMP WITH TIME ZONE;
+ALTER TABLE folders ADD COLUMN IF NOT EXISTS "trashId" UUID;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMP WITH TIME ZONE;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS "trashId" UUID;
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS "trashId" UUID;
+ALTER TABLE "testCases" ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMP WITH TIME ZONE;
+ALTER TABLE "testCases" ADD COLUMN IF NOT EXISTS "trashId" UUID;
+
+-- Documents in the trash no longer count towards folder dashboards
+CREATE OR REPLACE FUNCTION get_recursive_document_ids(target_folder_id UUID)
+RETURNS TABLE (doc_id UUID) AS $$
+BEGIN
+    RETURN QUERY
+    WITH RECURSIVE folder_tree AS (
+        -- Base case
+        SELECT id FROM folders WHERE id = target_folder_id AND "deletedAt" IS NULL
+        UNION ALL
+        -- Recursive case
+        SELECT f.id FROM folders f
+        INNER JOIN folder_tree ft ON f."parentId" = ft.id
+        WHERE f."deletedAt" IS NULL
+    )
+    SELECT d.id FROM documents d
+    WHERE d."folderId" IN (SELECT id FROM folder_tree) AND d."deletedAt" IS NULL;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,108 @@
+-- Deep copy of documents and folders.
+-- Each function runs as a single transaction when called through PostgREST (rpc), so a
+-- failed copy never leaves half a document behind. Section and case IDs are generated up
+-- front, which lets nested "parentId" values be remapped in the same statement.
+-- Items in the trash are not copied.
+
+CREATE OR REPLACE FUNCTION duplicate_document(
+    source_document_id UUID,
+    target_folder_id UUID,
+    new_title TEXT,
+    actor_id TEXT,
+    include_history BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+    new_document_id UUID;
+BEGIN
+    INSERT INTO documents ("folderId", title, description)
+    SELECT target_folder_id, new_title, description
+    FROM documents WHERE id = source_document_id AND "deletedAt" IS NULL
+    RETURNING id INTO new_document_id;
+
+    IF new_document_id IS NULL THEN
+        RAISE EXCEPTION 'Document % not found', source_document_id;
+    END IF;
+
+    WITH section_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM sections WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    case_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM "testCases" WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    new_sections AS (
+        INSERT INTO sections (id, "documentId", title, "parentId")
+        SELECT m.new_id, new_document_id, s.title, pm.new_id
+        FROM section_map m
+        JOIN sections s ON s.id = m.old_id
+        LEFT JOIN section_map pm ON pm.old_id = s."parentId"
+        ORDER BY s."createdAt"
+        RETURNING id
+    ),
+    new_cases AS (
+        -- Inserted in seq_id order so the copies get new seq_ids in the same order
+        INSERT INTO "testCases" (
+            id, "documentId", "sectionId", title, precondition, steps, priority, type,
+            "authorId", note, platform_type
+        )
+        SELECT cm.new_id, new_document_id, sm.new_id, c.title, c.precondition, c.steps, c.priority, c.type,
+            actor_id, c.note, c.platform_type
+        FROM "testCases" c
+        JOIN case_map cm ON cm.old_id = c.id
+        JOIN section_map sm ON sm.old_id = c."sectionId"
+        ORDER BY c.seq_id
+        RETURNING id
+    )
+    INSERT INTO "historyLogs" ("entityType", "entityId", action, "modifierId", "modifierName", changes, timestamp)
+    SELECT h."entityType", cm.new_id, h.action, h."modifierId", h."modifierName", h.changes, h.timestamp
+    FROM "historyLogs" h
+    JOIN case_map cm ON cm.old_id = h."entityId"
+    WHERE include_history AND h."entityType" = 'CASE';
+
+    RETURN new_document_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION duplicate_folder(
+    source_folder_id UUID,
+    target_parent_id UUID,
+    new_name TEXT,
+    actor_id TEXT,
+    include_history BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+    new_folder_id UUID;
+    child_folder_ids UUID[];
+    child RECORD;
+BEGIN
+    -- Collect children before inserting, so copying a folder into itself does not copy the copy
+    SELECT array_agg(id) INTO child_folder_ids
+    FROM folders WHERE "parentId" = source_folder_id AND "deletedAt" IS NULL;
+
+    INSERT INTO folders (name, "desc", "parentId")
+    SELECT new_name, "desc", target_parent_id
+    FROM folders WHERE id = source_folder_id AND "deletedAt" IS NULL
+    RETURNING id INTO new_folder_id;
+
+    IF new_folder_id IS NULL THEN
+        RAISE EXCEPTION 'Folder % not found', source_folder_id;
+    END IF;
+
+    FOR child IN
+        SELECT id, title FROM documents WHERE "folderId" = source_folder_id AND "deletedAt" IS NULL ORDER BY "createdAt"
+    LOOP
+        PERFORM duplicate_document(child.id, new_folder_id, child.title, actor_id, include_history);
+    END LOOP;
+
+    FOR child IN
+        SELECT id, name FROM folders WHERE id = ANY(COALESCE(child_folder_ids, '{}')) ORDER BY "createdAt"
+    LOOP
+        PERFORM duplicate_folder(child.id, new_folder_id, child.name, actor_id, include_history);
+    END LOOP;
+
+    RETURN new_folder_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,76 @@
+-- Nested sections (Feature > Screen > Scenario).
+-- "parentId" already exists on sections; "position" orders siblings under the same parent.
+
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS position INTEGER DEFAULT 0;
+
+-- Existing sections keep their creation order
+UPDATE sections s SET position = o.rn
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY "documentId", "parentId" ORDER BY "createdAt") - 1 AS rn
+    FROM sections
+) o
+WHERE s.id = o.id;
+
+CREATE INDEX IF NOT EXISTS idx_sections_parent ON sections("parentId");
+
+-- Copies keep the section order
+CREATE OR REPLACE FUNCTION duplicate_document(
+    source_document_id UUID,
+    target_folder_id UUID,
+    new_title TEXT,
+    actor_id TEXT,
+    include_history BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+    new_document_id UUID;
+BEGIN
+    INSERT INTO documents ("folderId", title, description)
+    SELECT target_folder_id, new_title, description
+    FROM documents WHERE id = source_document_id AND "deletedAt" IS NULL
+    RETURNING id INTO new_document_id;
+
+    IF new_document_id IS NULL THEN
+        RAISE EXCEPTION 'Document % not found', source_document_id;
+    END IF;
+
+    WITH section_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM sections WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    case_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM "testCases" WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    new_sections AS (
+        INSERT INTO sections (id, "documentId", title, "parentId", position)
+        SELECT m.new_id, new_document_id, s.title, pm.new_id, s.position
+        FROM section_map m
+        JOIN sections s ON s.id = m.old_id
+        LEFT JOIN section_map pm ON pm.old_id = s."parentId"
+        ORDER BY s.position, s."createdAt"
+        RETURNING id
+    ),
+    new_cases AS (
+        -- Inserted in seq_id order so the copies get new seq_ids in the same order
+        INSERT INTO "testCases" (
+            id, "documentId", "sectionId", title, precondition, steps, priority, type,
+            "authorId", note, platform_type
+        )
+        SELECT cm.new_id, new_document_id, sm.new_id, c.title, c.precondition, c.steps, c.priority, c.type,
+            actor_id, c.note, c.platform_type
+        FROM "testCases" c
+        JOIN case_map cm ON cm.old_id = c.id
+        JOIN section_map sm ON sm.old_id = c."sectionId"
+        ORDER BY c.seq_id
+        RETURNING id
+    )
+    INSERT INTO "historyLogs" ("entityType", "entityId", action, "modifierId", "modifierName", changes, timestamp)
+    SELECT h."entityType", cm.new_id, h.action, h."modifierId", h."modifierName", h.changes, h.timestamp
+    FROM "historyLogs" h
+    JOIN case_map cm ON cm.old_id = h."entityId"
+    WHERE include_history AND h."entityType" = 'CASE';
+
+    RETURN new_document_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,6 @@
+-- Case-level run scope.
+-- case_ids lists the cases a run covers; NULL keeps the old behaviour (every case of target_document_ids).
+-- target_document_ids is still filled with the documents of the selected cases, so document-level
+-- lookups (dashboard, run list) keep working.
+
+ALTER TABLE "testRuns" ADD COLUMN IF NOT EXISTS case_ids JSONB;
@@ -0,0 +1,20 @@
+-- Runs pin the content of their cases when they start.
+-- Each run keeps a copy of every case it covers in "runCases", so editing a case while the run is open
+-- does not change what testers see; the runner shows the difference and offers a refresh per case.
+-- Runs created before this migration have pinned_at NULL and are pinned the first time they are loaded.
+
+CREATE TABLE IF NOT EXISTS "runCases" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "runId" UUID NOT NULL REFERENCES "testRuns"(id) ON DELETE CASCADE,
+  "caseId" UUID NOT NULL, -- no FK: the pin (and the run's results) outlive the case
+  "documentId" UUID,
+  snapshot JSONB NOT NULL, -- the "testCases" row as it was when pinned
+  "pinnedAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  UNIQUE ("runId", "caseId")
+);
+CREATE INDEX IF NOT EXISTS idx_run_cases_run ON "runCases"("runId");
+
+ALTER TABLE "testRuns" ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMP WITH TIME ZONE;
+
+-- Results of a run are kept when their case is deleted
+ALTER TABLE "testResults" DROP CONSTRAINT IF EXISTS "testResults_caseId_fkey";
@@ -0,0 +1,114 @@
+-- Case versions and document baselines.
+-- Every change to a case's content stores the full case (steps included) in "caseVersions"; the history
+-- log of that change points at it through "historyLogs".version, and any version can be restored.
+-- A baseline ("v2.3 release baseline") freezes the current version of every case of a document, so the
+-- document can later be compared against it. Versions have no FK to "testCases": baselines outlive purged cases.
+
+CREATE TABLE IF NOT EXISTS "caseVersions" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "caseId" UUID NOT NULL,
+  "documentId" UUID,
+  version INTEGER NOT NULL, -- 1, 2, ... per case
+  snapshot JSONB NOT NULL, -- the full "testCases" row
+  "authorId" TEXT REFERENCES users(id) ON DELETE SET NULL, -- NULL for the state recorded before versioning
+  "authorName" TEXT,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  UNIQUE ("caseId", version)
+);
+
+ALTER TABLE "historyLogs" ADD COLUMN IF NOT EXISTS version INTEGER; -- version created by this change
+ALTER TABLE "historyLogs" ADD COLUMN IF NOT EXISTS "restoredFrom" INTEGER; -- RESTORE: the version brought back
+
+CREATE TABLE IF NOT EXISTS baselines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "documentId" UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  "createdBy" TEXT REFERENCES users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+CREATE INDEX IF NOT EXISTS idx_baselines_document ON baselines("documentId");
+
+CREATE TABLE IF NOT EXISTS "baselineCases" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "baselineId" UUID NOT NULL REFERENCES baselines(id) ON DELETE CASCADE,
+  "caseId" UUID NOT NULL,
+  "versionId" UUID NOT NULL REFERENCES "caseVersions"(id),
+  version INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_baseline_cases_baseline ON "baselineCases"("baselineId");
+
+-- Copies with history also carry the case versions the copied history logs point at
+CREATE OR REPLACE FUNCTION duplicate_document(
+    source_document_id UUID,
+    target_folder_id UUID,
+    new_title TEXT,
+    actor_id TEXT,
+    include_history BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+    new_document_id UUID;
+BEGIN
+    INSERT INTO documents ("folderId", title, description)
+    SELECT target_folder_id, new_title, description
+    FROM documents WHERE id = source_document_id AND "deletedAt" IS NULL
+    RETURNING id INTO new_document_id;
+
+    IF new_document_id IS NULL THEN
+        RAISE EXCEPTION 'Document % not found', source_document_id;
+    END IF;
+
+    INSERT INTO "customFields" (key, "documentId", name, "fieldType", options, position)
+    SELECT key, new_document_id, name, "fieldType", options, position
+    FROM "customFields" WHERE "documentId" = source_document_id;
+
+    WITH section_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM sections WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    case_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM "testCases" WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    new_sections AS (
+        INSERT INTO sections (id, "documentId", title, "parentId", position)
+        SELECT m.new_id, new_document_id, s.title, pm.new_id, s.position
+        FROM section_map m
+        JOIN sections s ON s.id = m.old_id
+        LEFT JOIN section_map pm ON pm.old_id = s."parentId"
+        ORDER BY s.position, s."createdAt"
+        RETURNING id
+    ),
+    new_cases AS (
+        -- Inserted in seq_id order so the copies get new seq_ids in the same order
+        INSERT INTO "testCases" (
+            id, "documentId", "sectionId", title, precondition, steps, priority, type,
+            "authorId", note, platform_type, position, "customFields", tags
+        )
+        SELECT cm.new_id, new_document_id, sm.new_id, c.title, c.precondition, c.steps, c.priority, c.type,
+            actor_id, c.note, c.platform_type, c.position, c."customFields", c.tags
+        FROM "testCases" c
+        JOIN case_map cm ON cm.old_id = c.id
+        JOIN section_map sm ON sm.old_id = c."sectionId"
+        ORDER BY c.seq_id
+        RETURNING id
+    ),
+    new_logs AS (
+        INSERT INTO "historyLogs" ("entityType", "entityId", action, "modifierId", "modifierName", changes, timestamp, version, "restoredFrom")
+        SELECT h."entityType", cm.new_id, h.action, h."modifierId", h."modifierName", h.changes, h.timestamp, h.version, h."restoredFrom"
+        FROM "historyLogs" h
+        JOIN case_map cm ON cm.old_id = h."entityId"
+        WHERE include_history AND h."entityType" = 'CASE'
+        RETURNING id
+    )
+    INSERT INTO "caseVersions" ("caseId", "documentId", version, snapshot, "authorId", "authorName", "createdAt")
+    SELECT cm.new_id, new_document_id, v.version,
+        v.snapshot || jsonb_build_object('id', cm.new_id, 'documentId', new_document_id),
+        v."authorId", v."authorName", v."createdAt"
+    FROM "caseVersions" v
+    JOIN case_map cm ON cm.old_id = v."caseId"
+    WHERE include_history;
+
+    RETURN new_document_id;
+END;
+$$ LANGUAGE plpgsql;
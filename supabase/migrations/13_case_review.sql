@@ -0,0 +1,107 @@
+-- Review workflow for test cases.
+-- A case moves Draft -> In Review -> Approved -> Deprecated (see src/utils/review.ts for the allowed
+-- transitions). A reviewer can be assigned, and reviewers and authors discuss the case in "reviewComments".
+-- Cases that existed before this migration are treated as approved, new and imported cases start as drafts.
+-- Runs can be limited to approved cases; deprecated cases never enter new runs.
+
+-- Existing cases are approved only when the column is added, so re-running this file leaves real drafts alone
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'testCases' AND column_name = 'reviewStatus'
+  ) THEN
+    ALTER TABLE "testCases" ADD COLUMN "reviewStatus" TEXT DEFAULT 'DRAFT'
+      CHECK ("reviewStatus" IN ('DRAFT', 'IN_REVIEW', 'APPROVED', 'DEPRECATED'));
+    UPDATE "testCases" SET "reviewStatus" = 'APPROVED';
+  END IF;
+END $$;
+ALTER TABLE "testCases" ADD COLUMN IF NOT EXISTS "reviewerId" TEXT REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS "reviewComments" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "caseId" UUID NOT NULL REFERENCES "testCases"(id) ON DELETE CASCADE,
+  "authorId" TEXT REFERENCES users(id) ON DELETE SET NULL,
+  "authorName" TEXT,
+  body TEXT NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+CREATE INDEX IF NOT EXISTS idx_review_comments_case ON "reviewComments"("caseId");
+
+ALTER TABLE "testRuns" ADD COLUMN IF NOT EXISTS approved_only BOOLEAN DEFAULT FALSE;
+
+-- Copied documents keep the review state of their cases
+CREATE OR REPLACE FUNCTION duplicate_document(
+    source_document_id UUID,
+    target_folder_id UUID,
+    new_title TEXT,
+    actor_id TEXT,
+    include_history BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+    new_document_id UUID;
+BEGIN
+    INSERT INTO documents ("folderId", title, description)
+    SELECT target_folder_id, new_title, description
+    FROM documents WHERE id = source_document_id AND "deletedAt" IS NULL
+    RETURNING id INTO new_document_id;
+
+    IF new_document_id IS NULL THEN
+        RAISE EXCEPTION 'Document % not found', source_document_id;
+    END IF;
+
+    INSERT INTO "customFields" (key, "documentId", name, "fieldType", options, position)
+    SELECT key, new_document_id, name, "fieldType", options, position
+    FROM "customFields" WHERE "documentId" = source_document_id;
+
+    WITH section_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM sections WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    case_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM "testCases" WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    new_sections AS (
+        INSERT INTO sections (id, "documentId", title, "parentId", position)
+        SELECT m.new_id, new_document_id, s.title, pm.new_id, s.position
+        FROM section_map m
+        JOIN sections s ON s.id = m.old_id
+        LEFT JOIN section_map pm ON pm.old_id = s."parentId"
+        ORDER BY s.position, s."createdAt"
+        RETURNING id
+    ),
+    new_cases AS (
+        -- Inserted in seq_id order so the copies get new seq_ids in the same order
+        INSERT INTO "testCases" (
+            id, "documentId", "sectionId", title, precondition, steps, priority, type,
+            "authorId", note, platform_type, position, "customFields", tags, "reviewStatus", "reviewerId"
+        )
+        SELECT cm.new_id, new_document_id, sm.new_id, c.title, c.precondition, c.steps, c.priority, c.type,
+            actor_id, c.note, c.platform_type, c.position, c."customFields", c.tags, c."reviewStatus", c."reviewerId"
+        FROM "testCases" c
+        JOIN case_map cm ON cm.old_id = c.id
+        JOIN section_map sm ON sm.old_id = c."sectionId"
+        ORDER BY c.seq_id
+        RETURNING id
+    ),
+    new_logs AS (
+        INSERT INTO "historyLogs" ("entityType", "entityId", action, "modifierId", "modifierName", changes, timestamp, version, "restoredFrom")
+        SELECT h."entityType", cm.new_id, h.action, h."modifierId", h."modifierName", h.changes, h.timestamp, h.version, h."restoredFrom"
+        FROM "historyLogs" h
+        JOIN case_map cm ON cm.old_id = h."entityId"
+        WHERE include_history AND h."entityType" = 'CASE'
+        RETURNING id
+    )
+    INSERT INTO "caseVersions" ("caseId", "documentId", version, snapshot, "authorId", "authorName", "createdAt")
+    SELECT cm.new_id, new_document_id, v.version,
+        v.snapshot || jsonb_build_object('id', cm.new_id, 'documentId', new_document_id),
+        v."authorId", v."authorName", v."createdAt"
+    FROM "caseVersions" v
+    JOIN case_map cm ON cm.old_id = v."caseId"
+    WHERE include_history;
+
+    RETURN new_document_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,15 @@
+-- Shared step blocks (e.g. "Login", "Cart setup") kept in one place and referenced from test cases.
+-- A case step that references a block is stored in "testCases".steps as
+-- { "id": ..., "sharedStepId": <block id>, "step": <block name>, "expected": "" } and expanded to the
+-- block's steps when the case is shown or pinned into a run (see src/utils/sharedSteps.ts), so editing
+-- a block changes every case that uses it.
+
+CREATE TABLE IF NOT EXISTS "sharedSteps" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  steps JSONB DEFAULT '[]'::jsonb,
+  "createdBy" TEXT REFERENCES users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
@@ -0,0 +1,86 @@
+-- Parameterized (data-driven) test cases.
+-- "testCases".parameters holds a table { "columns": ["method", ...], "rows": [{ "id": ..., "values": { "method": "card" } }] }.
+-- Step, expected and precondition text use {{column}} placeholders; a run executes the case once per row
+-- (see src/utils/parameters.ts) and every row gets its own results, told apart by "testResults"."rowId".
+
+ALTER TABLE "testCases" ADD COLUMN IF NOT EXISTS parameters JSONB DEFAULT NULL;
+ALTER TABLE "testResults" ADD COLUMN IF NOT EXISTS "rowId" TEXT DEFAULT NULL;
+CREATE INDEX IF NOT EXISTS idx_test_results_execution ON "testResults"("runId", "caseId", "rowId");
+
+-- Copied documents keep the parameter table of their cases
+CREATE OR REPLACE FUNCTION duplicate_document(
+    source_document_id UUID,
+    target_folder_id UUID,
+    new_title TEXT,
+    actor_id TEXT,
+    include_history BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+    new_document_id UUID;
+BEGIN
+    INSERT INTO documents ("folderId", title, description)
+    SELECT target_folder_id, new_title, description
+    FROM documents WHERE id = source_document_id AND "deletedAt" IS NULL
+    RETURNING id INTO new_document_id;
+
+    IF new_document_id IS NULL THEN
+        RAISE EXCEPTION 'Document % not found', source_document_id;
+    END IF;
+
+    INSERT INTO "customFields" (key, "documentId", name, "fieldType", options, position)
+    SELECT key, new_document_id, name, "fieldType", options, position
+    FROM "customFields" WHERE "documentId" = source_document_id;
+
+    WITH section_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM sections WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    case_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM "testCases" WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    new_sections AS (
+        INSERT INTO sections (id, "documentId", title, "parentId", position)
+        SELECT m.new_id, new_document_id, s.title, pm.new_id, s.position
+        FROM section_map m
+        JOIN sections s ON s.id = m.old_id
+        LEFT JOIN section_map pm ON pm.old_id = s."parentId"
+        ORDER BY s.position, s."createdAt"
+        RETURNING id
+    ),
+    new_cases AS (
+        -- Inserted in seq_id order so the copies get new seq_ids in the same order
+        INSERT INTO "testCases" (
+            id, "documentId", "sectionId", title, precondition, steps, priority, type,
+            "authorId", note, platform_type, position, "customFields", tags, "reviewStatus", "reviewerId",
+            parameters
+        )
+        SELECT cm.new_id, new_document_id, sm.new_id, c.title, c.precondition, c.steps, c.priority, c.type,
+            actor_id, c.note, c.platform_type, c.position, c."customFields", c.tags, c."reviewStatus", c."reviewerId",
+            c.parameters
+        FROM "testCases" c
+        JOIN case_map cm ON cm.old_id = c.id
+        JOIN section_map sm ON sm.old_id = c."sectionId"
+        ORDER BY c.seq_id
+        RETURNING id
+    ),
+    new_logs AS (
+        INSERT INTO "historyLogs" ("entityType", "entityId", action, "modifierId", "modifierName", changes, timestamp, version, "restoredFrom")
+        SELECT h."entityType", cm.new_id, h.action, h."modifierId", h."modifierName", h.changes, h.timestamp, h.version, h."restoredFrom"
+        FROM "historyLogs" h
+        JOIN case_map cm ON cm.old_id = h."entityId"
+        WHERE include_history AND h."entityType" = 'CASE'
+        RETURNING id
+    )
+    INSERT INTO "caseVersions" ("caseId", "documentId", version, snapshot, "authorId", "authorName", "createdAt")
+    SELECT cm.new_id, new_document_id, v.version,
+        v.snapshot || jsonb_build_object('id', cm.new_id, 'documentId', new_document_id),
+        v."authorId", v."authorName", v."createdAt"
+    FROM "caseVersions" v
+    JOIN case_map cm ON cm.old_id = v."caseId"
+    WHERE include_history;
+
+    RETURN new_document_id;
+END;
+$$ LANGUAGE plpgsql;
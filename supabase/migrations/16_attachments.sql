@@ -0,0 +1,98 @@
+-- File attachments on cases (reference material) and on results (screenshots, recordings, logs).
+-- Rows keep metadata only: [{ "id", "name", "contentType", "size", "path", "uploadedBy", "createdAt" }].
+-- The files live in the private "attachments" storage bucket under "path" (see src/repository/fileStore.ts).
+-- Files are never overwritten; pinned cases and completed-run snapshots keep pointing at them.
+
+ALTER TABLE "testCases" ADD COLUMN IF NOT EXISTS attachments JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE "testResults" ADD COLUMN IF NOT EXISTS attachments JSONB DEFAULT '[]'::jsonb;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- The app talks to Storage with the anon key (sign-in is its own, see 21_auth_rpc.sql), so the API roles
+-- may only upload new objects into this bucket. Reading (signed URLs), copying and deleting go through the
+-- "attachments" edge function, which checks the caller's folder access (22_attachment_access.sql).
+DROP POLICY IF EXISTS "attachments_insert" ON storage.objects;
+CREATE POLICY "attachments_insert" ON storage.objects
+  FOR INSERT TO anon, authenticated
+  WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] IN ('cases', 'runs'));
+
+-- Copied documents list the same attachments; the client then copies the files to the new cases
+-- (AttachmentService.copyBorrowedFiles), so removing a file on one side never breaks the other
+CREATE OR REPLACE FUNCTION duplicate_document(
+    source_document_id UUID,
+    target_folder_id UUID,
+    new_title TEXT,
+    actor_id TEXT,
+    include_history BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+    new_document_id UUID;
+BEGIN
+    INSERT INTO documents ("folderId", title, description)
+    SELECT target_folder_id, new_title, description
+    FROM documents WHERE id = source_document_id AND "deletedAt" IS NULL
+    RETURNING id INTO new_document_id;
+
+    IF new_document_id IS NULL THEN
+        RAISE EXCEPTION 'Document % not found', source_document_id;
+    END IF;
+
+    INSERT INTO "customFields" (key, "documentId", name, "fieldType", options, position)
+    SELECT key, new_document_id, name, "fieldType", options, position
+    FROM "customFields" WHERE "documentId" = source_document_id;
+
+    WITH section_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM sections WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    case_map AS MATERIALIZED (
+        SELECT id AS old_id, gen_random_uuid() AS new_id
+        FROM "testCases" WHERE "documentId" = source_document_id AND "deletedAt" IS NULL
+    ),
+    new_sections AS (
+        INSERT INTO sections (id, "documentId", title, "parentId", position)
+        SELECT m.new_id, new_document_id, s.title, pm.new_id, s.position
+        FROM section_map m
+        JOIN sections s ON s.id = m.old_id
+        LEFT JOIN section_map pm ON pm.old_id = s."parentId"
+        ORDER BY s.position, s."createdAt"
+        RETURNING id
+    ),
+    new_cases AS (
+        -- Inserted in seq_id order so the copies get new seq_ids in the same order
+        INSERT INTO "testCases" (
+            id, "documentId", "sectionId", title, precondition, steps, priority, type,
+            "authorId", note, platform_type, position, "customFields", tags, "reviewStatus", "reviewerId",
+            parameters, attachments
+        )
+        SELECT cm.new_id, new_document_id, sm.new_id, c.title, c.precondition, c.steps, c.priority, c.type,
+            actor_id, c.note, c.platform_type, c.position, c."customFields", c.tags, c."reviewStatus", c."reviewerId",
+            c.parameters, c.attachments
+        FROM "testCases" c
+        JOIN case_map cm ON cm.old_id = c.id
+        JOIN section_map sm ON sm.old_id = c."sectionId"
+        ORDER BY c.seq_id
+        RETURNING id
+    ),
+    new_logs AS (
+        INSERT INTO "historyLogs" ("entityType", "entityId", action, "modifierId", "modifierName", changes, timestamp, version, "restoredFrom")
+        SELECT h."entityType", cm.new_id, h.action, h."modifierId", h."modifierName", h.changes, h.timestamp, h.version, h."restoredFrom"
+        FROM "historyLogs" h
+        JOIN case_map cm ON cm.old_id = h."entityId"
+        WHERE include_history AND h."entityType" = 'CASE'
+        RETURNING id
+    )
+    INSERT INTO "caseVersions" ("caseId", "documentId", version, snapshot, "authorId", "authorName", "createdAt")
+    SELECT cm.new_id, new_document_id, v.version,
+        v.snapshot || jsonb_build_object('id', cm.new_id, 'documentId', new_document_id),
+        v."authorId", v."authorName", v."createdAt"
+    FROM "caseVersions" v
+    JOIN case_map cm ON cm.old_id = v."caseId"
+    WHERE include_history;
+
+    RETURN new_document_id;
+END;
+$$ LANGUAGE plpgsql;
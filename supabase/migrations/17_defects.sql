@@ -0,0 +1,54 @@
+-- Built-in defect tracker. Replaces the free-text { label, url } entries in "testResults".issues.
+-- A defect is linked to the cases / results it was found in through "defectLinks"; "documentId" is copied
+-- onto the link so dashboards can scope defects by folder or document without joining through the case.
+
+CREATE TABLE IF NOT EXISTS defects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seq_id SERIAL,
+  title TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'IN_PROGRESS', 'RESOLVED', 'CLOSED')),
+  severity TEXT NOT NULL DEFAULT 'MAJOR' CHECK (severity IN ('CRITICAL', 'MAJOR', 'MINOR', 'TRIVIAL')),
+  "assigneeId" TEXT REFERENCES users(id) ON DELETE SET NULL,
+  "reporterId" TEXT REFERENCES users(id) ON DELETE SET NULL,
+  "externalUrl" TEXT,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  "closedAt" TIMESTAMP WITH TIME ZONE -- Set when the defect becomes RESOLVED / CLOSED, cleared on reopen
+);
+
+CREATE TABLE IF NOT EXISTS "defectLinks" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "defectId" UUID NOT NULL REFERENCES defects(id) ON DELETE CASCADE,
+  "caseId" UUID NOT NULL, -- No FK: links outlive a purged case, like run results do
+  "documentId" UUID REFERENCES documents(id) ON DELETE CASCADE,
+  "runId" UUID REFERENCES "testRuns"(id) ON DELETE CASCADE,
+  "resultId" UUID REFERENCES "testResults"(id) ON DELETE CASCADE,
+  "rowId" TEXT,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX IF NOT EXISTS idx_defect_links_defect ON "defectLinks"("defectId");
+CREATE INDEX IF NOT EXISTS idx_defect_links_run ON "defectLinks"("runId");
+CREATE INDEX IF NOT EXISTS idx_defect_links_document ON "defectLinks"("documentId");
+
+-- Existing free-text issues become OPEN defects linked to their result
+WITH legacy AS (
+  SELECT
+    gen_random_uuid() AS defect_id,
+    r.id AS result_id, r."runId", r."caseId", c."documentId", r."testerId", r.timestamp,
+    NULLIF(i->>'label', '') AS label, NULLIF(i->>'url', '') AS url
+  FROM "testResults" r
+  LEFT JOIN "testCases" c ON c.id = r."caseId"
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(r.issues, '[]'::jsonb)) AS i
+  WHERE NULLIF(i->>'label', '') IS NOT NULL OR NULLIF(i->>'url', '') IS NOT NULL
+), inserted AS (
+  INSERT INTO defects (id, title, "externalUrl", "reporterId", "createdAt", "updatedAt")
+  SELECT defect_id, COALESCE(label, url), url, "testerId", timestamp, timestamp FROM legacy
+  RETURNING id
+)
+INSERT INTO "defectLinks" ("defectId", "caseId", "documentId", "runId", "resultId", "rowId", "createdAt")
+SELECT l.defect_id, l."caseId", l."documentId", l."runId", l.result_id, NULL, l.timestamp
+FROM legacy l JOIN inserted d ON d.id = l.defect_id;
+
+UPDATE "testResults" SET issues = '[]'::jsonb WHERE issues IS NOT NULL AND issues <> '[]'::jsonb;
@@ -0,0 +1,9 @@
+-- Defects filed to an external tracker (Jira REST shape, see src/repository/issueTracker.ts).
+-- "externalKey" is the tracker's issue key (e.g. QA-123); "externalUrl" keeps the browse link.
+-- "externalStatus" is the tracker's workflow status as of "externalSyncedAt".
+
+ALTER TABLE defects ADD COLUMN IF NOT EXISTS "externalKey" TEXT;
+ALTER TABLE defects ADD COLUMN IF NOT EXISTS "externalStatus" TEXT;
+ALTER TABLE defects ADD COLUMN IF NOT EXISTS "externalSyncedAt" TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_defects_external_key ON defects("externalKey") WHERE "externalKey" IS NOT NULL;
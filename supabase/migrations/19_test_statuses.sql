@@ -0,0 +1,28 @@
+-- Configurable result statuses. Results keep storing the code; colors, progress / pass-rate semantics
+-- and the rollup precedence come from this table (see src/utils/testStatus.ts).
+-- Built-in statuses can be relabelled and recolored but not removed; UNTESTED is the status of a result not run yet.
+
+CREATE TABLE IF NOT EXISTS "testStatuses" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  label TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#9ca3af',
+  executed BOOLEAN NOT NULL DEFAULT true,
+  passed BOOLEAN NOT NULL DEFAULT false,
+  precedence INTEGER NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  "builtIn" BOOLEAN NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
+INSERT INTO "testStatuses" (code, label, color, executed, passed, precedence, position, "builtIn") VALUES
+  ('PASS', 'Pass', '#22c55e', true, true, 20, 0, true),
+  ('FAIL', 'Fail', '#ef4444', true, false, 50, 1, true),
+  ('BLOCK', 'Block', '#1f2937', true, false, 40, 2, true),
+  ('NA', 'N/A', '#fb923c', true, false, 10, 3, true),
+  ('KNOWN_ISSUE', 'Known Issue', '#eab308', true, false, 45, 4, false),
+  ('RETEST', 'Retest', '#a855f7', false, false, 35, 5, false),
+  ('IN_PROGRESS', 'In Progress', '#3b82f6', false, false, 32, 6, false),
+  ('UNTESTED', 'Untested', '#d1d5db', false, false, 30, 7, true)
+ON CONFLICT (code) DO NOTHING;
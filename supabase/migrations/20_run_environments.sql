@@ -0,0 +1,7 @@
+-- Environment matrix of a run: configurations such as Chrome / Windows or iPad / iOS 17 (see src/utils/environments.ts).
+-- Each entry is { id, name, values, platform_type }; results store the configuration id in "device_platform".
+-- NULL keeps the fixed set: WEB cases run on PC, APP cases on iOS and Android.
+
+ALTER TABLE "testRuns" ADD COLUMN IF NOT EXISTS environments JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_test_results_configuration ON "testResults"("runId", "caseId", "rowId", "device_platform");
@@ -0,0 +1,295 @@
+-- Server-side auth. The browser only holds the anon key, so credentials, sessions and
+-- magic links are no longer readable or writable through the REST API: login, session
+-- issue/refresh and magic-link redemption run in the SECURITY DEFINER functions below.
+-- Callers are identified by their session access token. Errors are raised with an
+-- AuthErrorCode (src/errors.ts) or FORBIDDEN as the message.
+-- New passwords are hashed with bcrypt; pbkdf2 hashes written by the earlier client-side
+-- auth still verify and are re-hashed on the next successful login.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- 1. Lock the tables: RLS on, no policies, no grants for API roles
+ALTER TABLE credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "magicLinks" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON credentials, sessions, "magicLinks" FROM anon, authenticated;
+
+-- 2. Internal helpers
+-- PBKDF2-HMAC-SHA256 with a single 32-byte block, as src/utils/crypto.ts derives it
+CREATE OR REPLACE FUNCTION auth_pbkdf2_sha256(password TEXT, salt TEXT, iterations INT)
+RETURNS TEXT AS $$
+DECLARE
+    key BYTEA := convert_to(password, 'UTF8');
+    u BYTEA := hmac(convert_to(salt, 'UTF8') || '\x00000001'::BYTEA, key, 'sha256');
+    acc BIT(256) := ('x' || encode(u, 'hex'))::BIT(256);
+BEGIN
+    FOR i IN 2..iterations LOOP
+        u := hmac(u, key, 'sha256');
+        acc := acc # ('x' || encode(u, 'hex'))::BIT(256);
+    END LOOP;
+    RETURN lpad(to_hex(substring(acc FROM 1 FOR 64)::BIT(64)::BIGINT), 16, '0')
+        || lpad(to_hex(substring(acc FROM 65 FOR 64)::BIT(64)::BIGINT), 16, '0')
+        || lpad(to_hex(substring(acc FROM 129 FOR 64)::BIT(64)::BIGINT), 16, '0')
+        || lpad(to_hex(substring(acc FROM 193 FOR 64)::BIT(64)::BIGINT), 16, '0');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION auth_verify_password(password TEXT, stored TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    parts TEXT[] := string_to_array(stored, '$');
+BEGIN
+    IF stored IS NULL THEN
+        RETURN FALSE;
+    END IF;
+    IF parts[1] = 'pbkdf2' THEN -- pbkdf2$<iterations>$<salt>$<hash>
+        RETURN auth_pbkdf2_sha256(password, parts[3], parts[2]::INT) = parts[4];
+    END IF;
+    RETURN stored = crypt(password, stored);
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION auth_session_result(s sessions)
+RETURNS JSON AS $$
+    SELECT json_build_object(
+        'user', (SELECT row_to_json(u) FROM users u WHERE u.id = s."userId"),
+        'session', json_build_object(
+            'token', s.token,
+            'refreshToken', s."refreshToken",
+            'expiresAt', s."expiresAt",
+            'refreshExpiresAt', s."refreshExpiresAt"
+        )
+    );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Access token 1h, refresh token 14d
+CREATE OR REPLACE FUNCTION auth_start_session(target_user_id TEXT)
+RETURNS JSON AS $$
+DECLARE
+    s sessions;
+BEGIN
+    INSERT INTO sessions ("userId", token, "refreshToken", "expiresAt", "refreshExpiresAt")
+    VALUES (
+        target_user_id,
+        encode(gen_random_bytes(32), 'hex'),
+        encode(gen_random_bytes(32), 'hex'),
+        now() + interval '1 hour',
+        now() + interval '14 days'
+    )
+    RETURNING * INTO s;
+    RETURN auth_session_result(s);
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+-- Active user behind a live access token
+CREATE OR REPLACE FUNCTION auth_caller(session_token TEXT)
+RETURNS users AS $$
+DECLARE
+    caller users;
+BEGIN
+    SELECT u.* INTO caller
+    FROM sessions s JOIN users u ON u.id = s."userId"
+    WHERE s.token = session_token AND s."expiresAt" > now() AND u.status <> 'INACTIVE';
+    IF caller.id IS NULL THEN
+        RAISE EXCEPTION 'SESSION_EXPIRED';
+    END IF;
+    RETURN caller;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION auth_require_self_or_admin(session_token TEXT, target_user_id TEXT)
+RETURNS VOID AS $$
+DECLARE
+    caller users := auth_caller(session_token);
+BEGIN
+    IF caller.id <> target_user_id AND caller.role <> 'ADMIN' THEN
+        RAISE EXCEPTION 'FORBIDDEN';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION auth_require_admin(session_token TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF (auth_caller(session_token)).role <> 'ADMIN' THEN
+        RAISE EXCEPTION 'FORBIDDEN';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION auth_store_password(target_user_id TEXT, new_password TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF length(coalesce(new_password, '')) < 8 THEN
+        RAISE EXCEPTION 'WEAK_PASSWORD';
+    END IF;
+    INSERT INTO credentials ("userId", "passwordHash", "updatedAt")
+    VALUES (target_user_id, crypt(new_password, gen_salt('bf')), now())
+    ON CONFLICT ("userId") DO UPDATE SET "passwordHash" = EXCLUDED."passwordHash", "updatedAt" = EXCLUDED."updatedAt";
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION
+    auth_pbkdf2_sha256(TEXT, TEXT, INT),
+    auth_verify_password(TEXT, TEXT),
+    auth_session_result(sessions),
+    auth_start_session(TEXT),
+    auth_caller(TEXT),
+    auth_require_self_or_admin(TEXT, TEXT),
+    auth_require_admin(TEXT),
+    auth_store_password(TEXT, TEXT)
+FROM PUBLIC, anon, authenticated;
+
+-- 3. API (called through rpc)
+-- Same error for unknown email and wrong password
+CREATE OR REPLACE FUNCTION auth_login(login_email TEXT, login_password TEXT)
+RETURNS JSON AS $$
+DECLARE
+    target users;
+    stored TEXT;
+BEGIN
+    SELECT * INTO target FROM users WHERE email = trim(login_email);
+    SELECT "passwordHash" INTO stored FROM credentials WHERE "userId" = target.id;
+    IF target.id IS NULL OR NOT auth_verify_password(login_password, stored) THEN
+        RAISE EXCEPTION 'INVALID_CREDENTIALS';
+    END IF;
+    IF target.status = 'INACTIVE' THEN
+        RAISE EXCEPTION 'INACTIVE_USER';
+    END IF;
+    IF stored LIKE 'pbkdf2$%' THEN
+        PERFORM auth_store_password(target.id, login_password);
+    END IF;
+    RETURN auth_start_session(target.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION auth_redeem_magic_link(link_token TEXT)
+RETURNS JSON AS $$
+DECLARE
+    link "magicLinks";
+    target users;
+BEGIN
+    SELECT * INTO link FROM "magicLinks" WHERE token = link_token FOR UPDATE;
+    IF link.id IS NULL OR link."usedAt" IS NOT NULL OR link."expiresAt" < now() THEN
+        RAISE EXCEPTION 'INVALID_LINK';
+    END IF;
+    SELECT * INTO target FROM users WHERE id = link."userId";
+    IF target.id IS NULL THEN
+        RAISE EXCEPTION 'INVALID_LINK';
+    END IF;
+    IF target.status = 'INACTIVE' THEN
+        RAISE EXCEPTION 'INACTIVE_USER';
+    END IF;
+    UPDATE "magicLinks" SET "usedAt" = now() WHERE id = link.id;
+    RETURN auth_start_session(target.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- User of a live access token, or NULL. Deactivated or deleted users lose the session.
+CREATE OR REPLACE FUNCTION auth_session_user(session_token TEXT)
+RETURNS JSON AS $$
+DECLARE
+    s sessions;
+    target users;
+BEGIN
+    SELECT * INTO s FROM sessions WHERE token = session_token AND "expiresAt" > now();
+    IF s.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+    SELECT * INTO target FROM users WHERE id = s."userId";
+    IF target.id IS NULL OR target.status = 'INACTIVE' THEN
+        DELETE FROM sessions WHERE id = s.id;
+        RETURN NULL;
+    END IF;
+    RETURN row_to_json(target);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rotates both tokens; the refresh window itself does not slide. NULL when the session is gone.
+CREATE OR REPLACE FUNCTION auth_refresh_session(refresh_token TEXT)
+RETURNS JSON AS $$
+DECLARE
+    s sessions;
+    target users;
+BEGIN
+    SELECT * INTO s FROM sessions WHERE "refreshToken" = refresh_token FOR UPDATE;
+    IF s.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+    SELECT * INTO target FROM users WHERE id = s."userId";
+    IF s."refreshExpiresAt" < now() OR target.id IS NULL OR target.status = 'INACTIVE' THEN
+        DELETE FROM sessions WHERE id = s.id;
+        RETURN NULL;
+    END IF;
+    UPDATE sessions SET
+        token = encode(gen_random_bytes(32), 'hex'),
+        "refreshToken" = encode(gen_random_bytes(32), 'hex'),
+        "expiresAt" = now() + interval '1 hour'
+    WHERE id = s.id
+    RETURNING * INTO s;
+    RETURN auth_session_result(s);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION auth_logout(session_token TEXT)
+RETURNS VOID AS $$
+    DELETE FROM sessions WHERE token = session_token;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Own password, or any user's as ADMIN
+CREATE OR REPLACE FUNCTION auth_set_password(session_token TEXT, target_user_id TEXT, new_password TEXT)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM auth_require_self_or_admin(session_token, target_user_id);
+    PERFORM auth_store_password(target_user_id, new_password);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION auth_has_password(session_token TEXT, target_user_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    PERFORM auth_require_self_or_admin(session_token, target_user_id);
+    RETURN EXISTS (SELECT 1 FROM credentials WHERE "userId" = target_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Single-use login link token (24h), ADMIN only
+CREATE OR REPLACE FUNCTION auth_create_magic_link(session_token TEXT, target_user_id TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    link_token TEXT := encode(gen_random_bytes(32), 'hex');
+BEGIN
+    PERFORM auth_require_admin(session_token);
+    INSERT INTO "magicLinks" ("userId", token, "expiresAt")
+    VALUES (target_user_id, link_token, now() + interval '1 day');
+    RETURN link_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Signs a deactivated user out everywhere, ADMIN only
+CREATE OR REPLACE FUNCTION auth_revoke_user_sessions(session_token TEXT, target_user_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM auth_require_admin(session_token);
+    DELETE FROM sessions WHERE "userId" = target_user_id;
+    DELETE FROM "magicLinks" WHERE "userId" = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- First run: an empty users table lets the first visitor create the initial ADMIN
+CREATE OR REPLACE FUNCTION auth_bootstrap_admin(admin_name TEXT, admin_email TEXT, admin_password TEXT)
+RETURNS JSON AS $$
+DECLARE
+    new_user_id TEXT := gen_random_uuid()::TEXT;
+BEGIN
+    -- Two first visitors must not both become ADMIN
+    LOCK TABLE users IN SHARE ROW EXCLUSIVE MODE;
+    IF EXISTS (SELECT 1 FROM users) THEN
+        RAISE EXCEPTION 'ALREADY_INITIALIZED';
+    END IF;
+    INSERT INTO users (id, name, email, role, status)
+    VALUES (new_user_id, admin_name, trim(admin_email), 'ADMIN', 'ACTIVE');
+    PERFORM auth_store_password(new_user_id, admin_password);
+    RETURN auth_start_session(new_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
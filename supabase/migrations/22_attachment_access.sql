@@ -0,0 +1,97 @@
+-- Attachment files follow the folder ACLs (03_folder_access.sql) of what they belong to.
+-- The API roles may only upload into the "attachments" bucket (16_attachments.sql); signed URLs, copies and
+-- deletes go through the "attachments" edge function (supabase/functions/attachments), which checks the
+-- caller's session and access with attachment_access() and then uses the service role.
+--   cases/<caseId>/...  the case's document: read with any access, write with EDITOR or OWNER
+--   runs/<runId>/...    the run: read when assigned to it or any target document is readable,
+--                       write the same while the run is open
+
+DROP POLICY IF EXISTS "attachments_select" ON storage.objects;
+DROP POLICY IF EXISTS "attachments_delete" ON storage.objects;
+
+-- Nearest grant on the folder or its ancestors, else the role default (mirrors resolveFolderAccess in
+-- src/utils/permissions.ts): ADMIN is OWNER everywhere, INTERNAL EDITOR, EXTERNAL nothing
+CREATE OR REPLACE FUNCTION folder_access_level(target_user users, target_folder_id UUID)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN target_user.role = 'ADMIN' THEN 'OWNER'
+        ELSE COALESCE(
+            (
+                WITH RECURSIVE up(id, "parentId", depth) AS (
+                    SELECT id, "parentId", 0 FROM folders WHERE id = target_folder_id
+                    UNION ALL
+                    -- depth guards against parentId cycles
+                    SELECT f.id, f."parentId", up.depth + 1 FROM folders f JOIN up ON f.id = up."parentId" WHERE up.depth < 100
+                )
+                SELECT a.level FROM up JOIN "folderAccess" a ON a."folderId" = up.id AND a."userId" = target_user.id
+                ORDER BY up.depth LIMIT 1
+            ),
+            CASE WHEN target_user.role = 'INTERNAL' THEN 'EDITOR' END
+        )
+    END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION document_access_level(target_user users, target_document_id UUID)
+RETURNS TEXT AS $$
+    SELECT folder_access_level(target_user, d."folderId") FROM documents d WHERE d.id = target_document_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- TRUE when the session's user may read (or, for_write, replace and delete) every one of the objects
+CREATE OR REPLACE FUNCTION attachment_access(session_token TEXT, object_paths TEXT[], for_write BOOLEAN DEFAULT FALSE)
+RETURNS BOOLEAN AS $$
+DECLARE
+    caller users := auth_caller(session_token);
+    object_path TEXT;
+    owner_id TEXT;
+    level TEXT;
+    run "testRuns";
+BEGIN
+    IF coalesce(array_length(object_paths, 1), 0) = 0 THEN
+        RETURN FALSE;
+    END IF;
+    FOREACH object_path IN ARRAY object_paths LOOP
+        owner_id := split_part(object_path, '/', 2);
+        IF owner_id = '' OR object_path LIKE '%..%' THEN
+            RETURN FALSE;
+        END IF;
+
+        IF split_part(object_path, '/', 1) = 'cases' THEN
+            -- Pins keep the document of cases that have since been purged
+            SELECT document_access_level(caller, doc_id) INTO level
+            FROM (
+                SELECT "documentId" AS doc_id FROM "testCases" WHERE id::text = owner_id
+                UNION ALL
+                SELECT "documentId" FROM "runCases" WHERE "caseId"::text = owner_id
+                LIMIT 1
+            ) owner_doc;
+            IF level IS NULL OR (for_write AND level NOT IN ('EDITOR', 'OWNER')) THEN
+                RETURN FALSE;
+            END IF;
+
+        ELSIF split_part(object_path, '/', 1) = 'runs' THEN
+            SELECT * INTO run FROM "testRuns" WHERE id::text = owner_id;
+            IF run.id IS NULL OR (for_write AND run.status = 'COMPLETED') THEN
+                RETURN FALSE;
+            END IF;
+            IF NOT (coalesce(run.assignees, '[]'::jsonb) ? caller.id) AND NOT EXISTS (
+                SELECT 1 FROM jsonb_array_elements_text(coalesce(run.target_document_ids, '[]'::jsonb)) AS doc(id)
+                WHERE document_access_level(caller, doc.id::uuid) IS NOT NULL
+            ) THEN
+                RETURN FALSE;
+            END IF;
+
+        ELSE
+            RETURN FALSE;
+        END IF;
+    END LOOP;
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the edge function (service role) asks
+REVOKE EXECUTE ON FUNCTION
+    folder_access_level(users, UUID),
+    document_access_level(users, UUID),
+    attachment_access(TEXT, TEXT[], BOOLEAN)
+FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION attachment_access(TEXT, TEXT[], BOOLEAN) TO service_role;
@@ -0,0 +1,72 @@
+-- User administration moves server-side. "users" stays readable (names and roles are shown across the app),
+-- but the API roles can no longer write it: an "update users set role = 'ADMIN'" with the anon key would
+-- otherwise make anyone an admin, since auth_session_user hands that row back to the client.
+-- Writes go through the SECURITY DEFINER functions below, which check the caller like 21_auth_rpc.sql does.
+-- Errors: SESSION_EXPIRED, FORBIDDEN, DUPLICATE_EMAIL, SELF_LOCKOUT, or INVALID_INPUT for an unknown role/status.
+
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "users_select" ON users;
+CREATE POLICY "users_select" ON users FOR SELECT TO anon, authenticated USING (true);
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON users FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION admin_create_user(session_token TEXT, user_name TEXT, user_email TEXT, user_role TEXT)
+RETURNS users AS $$
+DECLARE
+    created users;
+BEGIN
+    PERFORM auth_require_admin(session_token);
+    IF user_role NOT IN ('ADMIN', 'INTERNAL', 'EXTERNAL') THEN
+        RAISE EXCEPTION 'INVALID_INPUT';
+    END IF;
+    IF EXISTS (SELECT 1 FROM users WHERE email = trim(user_email)) THEN
+        RAISE EXCEPTION 'DUPLICATE_EMAIL';
+    END IF;
+    INSERT INTO users (id, name, email, role, status)
+    VALUES (gen_random_uuid()::text, trim(user_name), trim(user_email), user_role, 'ACTIVE')
+    RETURNING * INTO created;
+    RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- NULL keeps the current value
+CREATE OR REPLACE FUNCTION admin_update_user(session_token TEXT, target_user_id TEXT, user_name TEXT, user_role TEXT)
+RETURNS VOID AS $$
+DECLARE
+    caller users := auth_caller(session_token);
+BEGIN
+    IF caller.role <> 'ADMIN' THEN
+        RAISE EXCEPTION 'FORBIDDEN';
+    END IF;
+    IF user_role IS NOT NULL AND user_role NOT IN ('ADMIN', 'INTERNAL', 'EXTERNAL') THEN
+        RAISE EXCEPTION 'INVALID_INPUT';
+    END IF;
+    IF target_user_id = caller.id AND coalesce(user_role, 'ADMIN') <> 'ADMIN' THEN
+        RAISE EXCEPTION 'SELF_LOCKOUT';
+    END IF;
+    UPDATE users SET name = coalesce(trim(user_name), name), role = coalesce(user_role, role)
+    WHERE id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deactivation keeps the row (results stay attributed) and ends the user's sessions and open login links
+CREATE OR REPLACE FUNCTION admin_set_user_status(session_token TEXT, target_user_id TEXT, user_status TEXT)
+RETURNS VOID AS $$
+DECLARE
+    caller users := auth_caller(session_token);
+BEGIN
+    IF caller.role <> 'ADMIN' THEN
+        RAISE EXCEPTION 'FORBIDDEN';
+    END IF;
+    IF user_status NOT IN ('ACTIVE', 'INACTIVE') THEN
+        RAISE EXCEPTION 'INVALID_INPUT';
+    END IF;
+    IF target_user_id = caller.id AND user_status = 'INACTIVE' THEN
+        RAISE EXCEPTION 'SELF_LOCKOUT';
+    END IF;
+    UPDATE users SET status = user_status WHERE id = target_user_id;
+    IF user_status = 'INACTIVE' THEN
+        DELETE FROM sessions WHERE "userId" = target_user_id;
+        DELETE FROM "magicLinks" WHERE "userId" = target_user_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;